@@ -0,0 +1,64 @@
+import { Form, Link, useNavigation } from "react-router";
+
+interface AuthFormProps {
+  mode: 'login' | 'signup';
+  error?: string;
+  minPasswordLength: number;
+}
+
+const inputClassName = "w-full px-4 py-2 border aqua-border-primary rounded-lg focus:ring-2 focus:ring-accent-orange focus:border-accent-orange aqua-bg-secondary aqua-text-primary";
+
+// Shared signup/login form; submits to the route action, which sets the session cookie
+export function AuthForm({ mode, error, minPasswordLength }: AuthFormProps) {
+  const navigation = useNavigation();
+  const submitting = navigation.state === 'submitting';
+  const isSignup = mode === 'signup';
+
+  return (
+    <div className="max-w-sm mx-auto mt-16 aqua-card rounded-lg shadow-lg p-6">
+      <h1 className="text-xl font-semibold aqua-inspect-title mb-4">
+        {isSignup ? 'Create an account' : 'Log in'}
+      </h1>
+
+      <Form method="post" className="space-y-4">
+        {isSignup && (
+          <label className="block">
+            <span className="text-sm aqua-text-secondary">Name</span>
+            <input name="name" type="text" autoComplete="name" maxLength={100} className={inputClassName} />
+          </label>
+        )}
+        <label className="block">
+          <span className="text-sm aqua-text-secondary">Email</span>
+          <input name="email" type="email" autoComplete="email" required className={inputClassName} />
+        </label>
+        <label className="block">
+          <span className="text-sm aqua-text-secondary">Password</span>
+          <input
+            name="password"
+            type="password"
+            autoComplete={isSignup ? 'new-password' : 'current-password'}
+            minLength={isSignup ? minPasswordLength : undefined}
+            required
+            className={inputClassName}
+          />
+        </label>
+
+        {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="aqua-button w-full px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+        >
+          {submitting ? 'Please wait...' : isSignup ? 'Sign up' : 'Log in'}
+        </button>
+      </Form>
+
+      <p className="text-sm aqua-text-muted mt-4 text-center">
+        {isSignup
+          ? <>Already have an account? <Link to="/login" className="aqua-inspect-accent">Log in</Link></>
+          : <>New here? <Link to="/signup" className="aqua-inspect-accent">Create an account</Link></>}
+      </p>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { useState, useRef, useEffect } from "react";
 import { AIErrorBoundary } from "./error-boundary";
 import { logger } from "../utils/logger";
 import { type ClientConfig } from "../utils/client-config";
+import { readServerSentEvents } from "../utils/sse";
+import { computeContentHash } from "../utils/image-hash";
 
 interface Message {
   id: string;
@@ -21,6 +23,10 @@ interface Message {
 
 interface ConversationState {
   hasImage: boolean;
+  caseId?: string;
+  // Set once case creation fails, so later uploads don't retry it
+  caseUnavailable?: boolean;
+  photoCount: number;
   imageData?: string;
   imageHash?: string;
   lastAssessment?: any;
@@ -43,8 +49,10 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
   ]);
   
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [conversationState, setConversationState] = useState<ConversationState>({
-    hasImage: false
+    hasImage: false,
+    photoCount: 0
   });
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -84,6 +92,36 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
     });
   };
 
+  // Every photo and chat turn in this session is grouped under one case, owned by the signed-in user or, for
+  // visitors, by the anonymous session cookie the API issues
+  const ensureCase = async (): Promise<string | undefined> => {
+    if (conversationState.caseId || conversationState.caseUnavailable) {
+      return conversationState.caseId;
+    }
+
+    try {
+      const response = await fetch(config.api.endpoints.cases, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+
+      if (!response.ok) {
+        throw new Error(`Case API error: ${response.status}`);
+      }
+
+      const result = await response.json() as any;
+      const caseId = result.case?.id as string | undefined;
+      setConversationState(prev => ({ ...prev, caseId }));
+      return caseId;
+    } catch (error) {
+      // Assessment still works without a case; photos just won't be grouped
+      logger.warn('Case creation failed', error, 'Chatbot');
+      setConversationState(prev => ({ ...prev, caseUnavailable: true }));
+      return undefined;
+    }
+  };
+
   const handleImageUpload = async (file: File) => {
     const validation = await validateImage(file);
     if (!validation.valid) {
@@ -96,17 +134,21 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
       const imageUrl = URL.createObjectURL(file);
       
       // Add user message with image
-      addMessage('user', 'I\'ve uploaded an image for damage assessment.', imageUrl);
+      addMessage('user', conversationState.hasImage
+        ? 'I\'ve uploaded another photo of the damage.'
+        : 'I\'ve uploaded an image for damage assessment.', imageUrl);
       
       // Update conversation state
       setConversationState(prev => ({
         ...prev,
         hasImage: true,
+        photoCount: prev.photoCount + 1,
         imageData: base64Image
       }));
 
       // Trigger initial analysis
-      await performDamageAnalysis(base64Image);
+      const caseId = await ensureCase();
+      await performDamageAnalysis(file, caseId);
       
     } catch (error) {
       logger.error('Image upload failed', error, 'Chatbot');
@@ -114,17 +156,21 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
     }
   };
 
-  const performDamageAnalysis = async (imageData: string) => {
+  const performDamageAnalysis = async (file: File, caseId?: string) => {
     setIsLoading(true);
     
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), config.api.timeout.damage_assessment);
 
+      // Upload the file directly; multipart avoids the base64 size overhead
+      const formData = new FormData();
+      formData.append('image', file);
+      if (caseId) formData.append('case_id', caseId);
+
       const response = await fetch(apiEndpoint, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ image: imageData }),
+        body: formData,
         signal: controller.signal
       });
 
@@ -138,7 +184,7 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
       
       if (result.success) {
         // Store RAG context for future questions and create image hash for caching
-        const imageHash = btoa(imageData).slice(0, 16);
+        const imageHash = await computeContentHash(file);
         setConversationState(prev => ({
           ...prev,
           lastAssessment: result,
@@ -167,13 +213,16 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
   };
 
   const createConversationalResponse = (result: any): string => {
-    const { vision_analysis, enhanced_assessment, confidence_score, autorag_response } = result;
+    const { vision_analysis, enhanced_assessment, confidence_score, autorag_response, degraded } = result;
     
     // Create engaging conversational response
     let response = "I've analyzed your image and here's what I found:\n\n";
     
-    // Add main assessment
-    response += `**Damage Assessment:**\n${enhanced_assessment}\n\n`;
+    // Add main assessment; a degraded result may carry only the vision analysis
+    response += `**Damage Assessment:**\n${enhanced_assessment || vision_analysis}\n\n`;
+    if (degraded?.message) {
+      response += `*${degraded.message}*\n\n`;
+    }
     
     // Add confidence indicator
     const confidenceText = confidence_score > 0.8 ? "high confidence" : 
@@ -205,14 +254,13 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
     setIsLoading(true);
     
     try {
-      const conversationEndpoint = "/api/conversation";
-      
-      const response = await fetch(conversationEndpoint, {
+      const response = await fetch(config.api.endpoints.conversation_stream, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
         body: JSON.stringify({
           question,
           context: {
+            case_id: conversationState.caseId,
             imageData: conversationState.imageData,
             previousAssessment: conversationState.lastAssessment,
             ragContext: conversationState.ragContext,
@@ -228,29 +276,52 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
         throw new Error(`Conversation API error: ${response.status}`);
       }
 
-      const result = await response.json() as any;
-      
-      if (result.success) {
-        addMessage('assistant', result.response, undefined, {
-          confidence_score: result.confidence_score,
-          industry_sources: result.industry_sources
-        });
-      } else {
-        addMessage('assistant', result.error || 'I\'m having trouble with that question. Could you try rephrasing it?');
+      // Render the answer as tokens arrive; metadata follows once the answer is complete
+      let messageId: string | null = null;
+      let failed = false;
+      await readServerSentEvents(response, ({ event, data }) => {
+        const payload = JSON.parse(data);
+        if (event === 'token') {
+          if (!messageId) {
+            messageId = addMessage('assistant', payload.text);
+            setStreamingMessageId(messageId);
+          } else {
+            const id = messageId;
+            setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, content: msg.content + payload.text } : msg));
+          }
+        } else if (event === 'metadata' && messageId) {
+          const id = messageId;
+          setMessages(prev => prev.map(msg => msg.id === id ? {
+            ...msg,
+            metadata: {
+              confidence_score: payload.confidence_score,
+              industry_sources: payload.industry_sources,
+              performance: payload.performance
+            }
+          } : msg));
+        } else if (event === 'error') {
+          failed = true;
+          logger.error('Conversation stream failed', payload, 'Chatbot');
+        }
+      });
+
+      if (failed || !messageId) {
+        addMessage('assistant', 'I\'m having trouble with that question. Could you try rephrasing it?');
       }
       
     } catch (error) {
       logger.error('Follow-up question failed', error, 'Chatbot');
       addMessage('assistant', 'I\'m having trouble answering that question right now. Could you rephrase it?');
     } finally {
+      setStreamingMessageId(null);
       setIsLoading(false);
     }
   };
 
 
-  const addMessage = (role: 'user' | 'assistant', content: string, imageUrl?: string, metadata?: any) => {
+  const addMessage = (role: 'user' | 'assistant', content: string, imageUrl?: string, metadata?: any): string => {
     const newMessage: Message = {
-      id: Date.now().toString(),
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
       role,
       content,
       timestamp: new Date(),
@@ -259,6 +330,7 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
     };
     
     setMessages(prev => [...prev, newMessage]);
+    return newMessage.id;
   };
 
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
@@ -279,7 +351,11 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
         {/* Chat Header */}
         <div className="aqua-card rounded-t-lg border-b aqua-border-primary">
           <h2 className="text-xl font-semibold aqua-inspect-title">Damage Assessment Assistant</h2>
-          <p className="aqua-text-secondary text-sm">Upload an image to begin damage analysis</p>
+          <p className="aqua-text-secondary text-sm">
+            {conversationState.photoCount > 0
+              ? `${conversationState.photoCount} photo${conversationState.photoCount === 1 ? '' : 's'} in this case`
+              : 'Upload an image to begin damage analysis'}
+          </p>
         </div>
 
         {/* Messages Area */}
@@ -308,7 +384,7 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
             </div>
           ))}
           
-          {isLoading && (
+          {isLoading && !streamingMessageId && (
             <div className="flex justify-start">
               <div className="aqua-bg-secondary border aqua-border-primary rounded-lg px-4 py-2">
                 <div className="flex items-center space-x-2">
@@ -324,19 +400,20 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
 
         {/* Input Area */}
         <div className="border-t aqua-border-primary p-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={config.image.allowed_types.join(',')}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImageUpload(file);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
           {!conversationState.hasImage ? (
             /* Image Upload */
             <div className="text-center">
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept={config.image.allowed_types.join(',')}
-                onChange={(e) => {
-                  const file = e.target.files?.[0];
-                  if (file) handleImageUpload(file);
-                }}
-                className="hidden"
-              />
               <button
                 onClick={() => fileInputRef.current?.click()}
                 disabled={isLoading}
@@ -358,6 +435,16 @@ export function Chatbot({ apiEndpoint, config }: ChatbotProps) {
                 disabled={isLoading}
                 className="flex-1 px-4 py-2 border aqua-border-primary rounded-lg focus:ring-2 focus:ring-accent-orange focus:border-accent-orange aqua-bg-secondary aqua-text-primary"
               />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isLoading}
+                title={`Add another photo (${conversationState.photoCount} in this case)`}
+                aria-label="Add another damage photo to this case"
+                className="aqua-button px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+              >
+                📷
+              </button>
               <button
                 type="submit"
                 disabled={isLoading}
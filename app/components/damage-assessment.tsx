@@ -10,17 +10,46 @@ import {
   createMemoryOptimizer,
   debounce
 } from "../utils/performance";
+import { readServerSentEvents } from "../utils/sse";
 
 interface ValidationError {
   type: 'size' | 'type' | 'dimensions' | 'corrupt';
   message: string;
 }
 
+// Structured findings returned alongside the prose assessment (null when the model output was unusable)
+interface AssessmentFindings {
+  damage_present: boolean;
+  damage_types: string[];
+  severity: 'none' | 'minor' | 'moderate' | 'severe';
+  water_class: 1 | 2 | 3 | 4 | null;
+  water_category: 1 | 2 | 3 | null;
+  materials: Array<{ name: string; action: 'dry_in_place' | 'clean' | 'remove' | 'inspect' }>;
+  hazards: string[];
+  next_steps: string[];
+}
+
 interface AssessmentResult {
   success: boolean;
+  assessment_id?: string | null;
   vision_analysis: string;
   industry_sources: any[];
-  enhanced_assessment: string;
+  // Null when the language model was unavailable and only the vision analysis was returned
+  enhanced_assessment: string | null;
+  findings?: AssessmentFindings | null;
+  degraded?: {
+    unavailable: Array<'autorag' | 'language_model'>;
+    message: string;
+  } | null;
+  near_duplicate?: {
+    distance: number;
+    original_timestamp: string;
+  };
+  photo_metadata?: {
+    taken_at: string | null;
+    orientation: number | null;
+    location: { latitude: number; longitude: number } | null;
+  } | null;
   confidence_score: number;
   timestamp: string;
   error?: string;
@@ -33,6 +62,15 @@ interface AssessmentResult {
   cache_timestamp?: string;
 }
 
+// Stage event streamed by the worker as each pipeline step starts and finishes
+interface AssessmentStageEvent {
+  stage: 'validation' | 'vision' | 'rag' | 'assessment';
+  status: 'started' | 'completed' | 'skipped';
+  progress: number;
+  label: string;
+  partial?: Partial<AssessmentResult>;
+}
+
 interface SearchResult {
   success: boolean;
   query: string;
@@ -62,6 +100,7 @@ export function DamageAssessment({
   const [validationError, setValidationError] = useState<ValidationError | null>(null);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [loadingStage, setLoadingStage] = useState("");
+  const [partialAssessment, setPartialAssessment] = useState<Partial<AssessmentResult> | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<SearchResult | null>(null);
   const [retryCount, setRetryCount] = useState(0);
@@ -297,143 +336,119 @@ export function DamageAssessment({
     progressiveLoader.current.setLoading('assessment', true);
     setLoading(true);
     setAssessment(null);
+    setPartialAssessment(null);
     setLoadingProgress(0);
     setLoadingStage("Preparing image...");
     
     try {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        try {
-          const base64 = e.target?.result as string;
-          setLoadingProgress(15);
-          setLoadingStage("Uploading image...");
-          
-          // Use request batching to prevent duplicate requests
-          const requestKey = `assess_${selectedImage.name}_${selectedImage.size}`;
-          
-          const result = await requestBatcher.current.batchRequest(requestKey, async () => {
-            // Create abort controller for timeout
-            const controller = new AbortController();
-            const timeoutId = memoryOptimizer.current.setTimeout(() => controller.abort(), config.api.timeout.damage_assessment);
-            
-            // Start progress simulation for long-running process
-            setLoadingProgress(25);
-            setLoadingStage("Analyzing image with AI...");
-            
-            // Simulate progress during AI processing
-            const progressInterval = setInterval(() => {
-              setLoadingProgress(prev => {
-                if (prev < 85) {
-                  const increment = Math.random() * 5 + 2; // Random 2-7% increments
-                  return Math.min(prev + increment, 85);
-                }
-                return prev;
-              });
-            }, 2000); // Update every 2 seconds
-            
-            // Update stages during processing
-            setTimeout(() => setLoadingStage("Processing vision analysis..."), 5000);
-            setTimeout(() => setLoadingStage("Searching knowledge base..."), 12000);
-            setTimeout(() => setLoadingStage("Generating assessment..."), 18000);
-            
-            const response = await fetch(apiEndpoint, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ image: base64 }),
-              signal: controller.signal
-            });
-            
-            clearInterval(progressInterval);
-            setLoadingProgress(95);
-            setLoadingStage("Finalizing results...");
-            
-            
-            if (!response.ok) {
-              throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-            }
-            
-            return await response.json() as AssessmentResult;
-          });
-          
-          if (!result.success && result.error) {
-            throw new Error(`AI Assessment Error: ${result.error} - ${result.details || ''}`);
-          }
-          
-          // Store performance stats if available
-          if (result.performance) {
-            setPerformanceStats(result.performance);
-          }
-          
-          setLoadingProgress(100);
-          setLoadingStage("Complete!");
-          setAssessment(result);
-          setRetryCount(0); // Reset retry count on success
-          endTimer();
-        } catch (error) {
-          endTimer();
-          logger.aiError('image assessment', error, 'DamageAssessment');
-          
-          // Enhanced error handling with specific error types
-          let errorMessage = 'Assessment failed';
-          let errorDetails = '';
-          
-          if (error instanceof Error) {
-            if (error.name === 'AbortError') {
-              errorMessage = 'Request timeout';
-              errorDetails = 'The AI analysis is taking longer than expected. Please try again or use a smaller image.';
-            } else if (error.message.includes('HTTP 429')) {
-              errorMessage = 'Rate limit exceeded';
-              errorDetails = 'Too many requests. Please wait a moment and try again.';
-            } else if (error.message.includes('HTTP 500')) {
-              errorMessage = 'AI service error';
-              errorDetails = 'The AI service is temporarily unavailable. Please try again.';
-            } else if (error.message.includes('Failed to fetch')) {
-              errorMessage = 'Network error';
-              errorDetails = 'Unable to connect to the assessment service. Check your internet connection.';
-            } else if (error.message.includes('AI Assessment Error')) {
-              errorMessage = 'AI processing error';
-              errorDetails = error.message;
-            } else if (error.message.includes('Invalid image file')) {
-              errorMessage = 'Invalid image';
-              errorDetails = 'The uploaded image file is corrupted or not a valid image format.';
-            } else if (error.message.includes('Image validation failed')) {
-              errorMessage = 'Image validation error';
-              errorDetails = 'The image file does not match its declared format or contains invalid data.';
-            } else if (error.message.includes('Image type mismatch')) {
-              errorMessage = 'Image format error';
-              errorDetails = 'The actual image format does not match the file extension.';
-            } else {
-              errorMessage = 'Unexpected error';
-              errorDetails = error.message;
+      setLoadingProgress(5);
+      setLoadingStage("Uploading image...");
+      
+      // Use request batching to prevent duplicate requests
+      const requestKey = `assess_${selectedImage.name}_${selectedImage.size}`;
+      
+      const result = await requestBatcher.current.batchRequest(requestKey, async () => {
+        // Create abort controller for timeout
+        const controller = new AbortController();
+        const timeoutId = memoryOptimizer.current.setTimeout(() => controller.abort(), config.api.timeout.damage_assessment);
+        
+        // Send the file as multipart form data rather than a base64 data URI
+        const formData = new FormData();
+        formData.append('image', selectedImage);
+        
+        const response = await fetch(config.api.endpoints.damage_assessment_stream, {
+          method: 'POST',
+          headers: { 'Accept': 'text/event-stream' },
+          body: formData,
+          signal: controller.signal
+        });
+        
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        
+        // Progress and partial results follow the stage events emitted by the worker
+        let streamedResult = null as AssessmentResult | null;
+        await readServerSentEvents(response, ({ event, data }) => {
+          const payload = JSON.parse(data);
+          if (event === 'stage') {
+            const stageEvent = payload as AssessmentStageEvent;
+            setLoadingProgress(stageEvent.progress);
+            setLoadingStage(stageEvent.label);
+            if (stageEvent.partial) {
+              setPartialAssessment(prev => ({ ...prev, ...stageEvent.partial }));
             }
+          } else if (event === 'result' || event === 'error') {
+            streamedResult = payload as AssessmentResult;
           }
-          
-          setAssessment({
-            success: false,
-            error: errorMessage,
-            details: errorDetails,
-            vision_analysis: '',
-            industry_sources: [],
-            enhanced_assessment: '',
-            confidence_score: 0,
-            timestamp: new Date().toISOString()
-          });
+        });
+        
+        clearTimeout(timeoutId);
+        
+        if (!streamedResult) {
+          throw new Error('Assessment stream ended without a result');
         }
-      };
+        
+        return streamedResult;
+      });
       
-      reader.onerror = () => {
-        endTimer();
-        throw new Error('Failed to read image file. The file may be corrupted.');
-      };
+      if (!result.success && result.error) {
+        throw new Error(`AI Assessment Error: ${result.error} - ${result.details || ''}`);
+      }
       
-      reader.readAsDataURL(selectedImage);
+      // Store performance stats if available
+      if (result.performance) {
+        setPerformanceStats(result.performance);
+      }
+      
+      setLoadingProgress(100);
+      setLoadingStage("Complete!");
+      setAssessment(result);
+      setRetryCount(0); // Reset retry count on success
+      endTimer();
     } catch (error) {
       endTimer();
-      logger.error('Failed to read image file', error, 'DamageAssessment');
+      logger.aiError('image assessment', error, 'DamageAssessment');
+      
+      // Enhanced error handling with specific error types
+      let errorMessage = 'Assessment failed';
+      let errorDetails = '';
+      
+      if (error instanceof Error) {
+        if (error.name === 'AbortError') {
+          errorMessage = 'Request timeout';
+          errorDetails = 'The AI analysis is taking longer than expected. Please try again or use a smaller image.';
+        } else if (error.message.includes('HTTP 429')) {
+          errorMessage = 'Rate limit exceeded';
+          errorDetails = 'Too many requests. Please wait a moment and try again.';
+        } else if (error.message.includes('HTTP 500')) {
+          errorMessage = 'AI service error';
+          errorDetails = 'The AI service is temporarily unavailable. Please try again.';
+        } else if (error.message.includes('Failed to fetch')) {
+          errorMessage = 'Network error';
+          errorDetails = 'Unable to connect to the assessment service. Check your internet connection.';
+        } else if (error.message.includes('AI Assessment Error')) {
+          errorMessage = 'AI processing error';
+          errorDetails = error.message;
+        } else if (error.message.includes('Invalid image file')) {
+          errorMessage = 'Invalid image';
+          errorDetails = 'The uploaded image file is corrupted or not a valid image format.';
+        } else if (error.message.includes('Image validation failed')) {
+          errorMessage = 'Image validation error';
+          errorDetails = 'The image file does not match its declared format or contains invalid data.';
+        } else if (error.message.includes('Image type mismatch')) {
+          errorMessage = 'Image format error';
+          errorDetails = 'The actual image format does not match the file extension.';
+        } else {
+          errorMessage = 'Unexpected error';
+          errorDetails = error.message;
+        }
+      }
+      
       setAssessment({
         success: false,
-        error: 'File reading error',
-        details: error instanceof Error ? error.message : 'Unknown error',
+        error: errorMessage,
+        details: errorDetails,
         vision_analysis: '',
         industry_sources: [],
         enhanced_assessment: '',
@@ -449,7 +464,7 @@ export function DamageAssessment({
         setLoadingStage("");
       }, 1000);
     }
-  }, [selectedImage, apiEndpoint, config.api.timeout.damage_assessment]);
+  }, [selectedImage, config.api.endpoints.damage_assessment_stream, config.api.timeout.damage_assessment]);
 
   const searchKnowledgeBase = useCallback(async () => {
     if (!searchQuery.trim()) return;
@@ -623,6 +638,7 @@ export function DamageAssessment({
                 
                 {/* Progress Bar */}
                 {loading && (
+                  <>
                   <div className="w-full space-y-3" role="region" aria-live="polite" aria-label="Assessment progress">
                     <div className="flex justify-between items-center text-sm">
                       <span className="aqua-inspect-accent font-medium" id="progress-stage">{loadingStage}</span>
@@ -644,6 +660,19 @@ export function DamageAssessment({
                       AI processing typically takes 20-30 seconds
                     </div>
                   </div>
+                  
+                  {/* Partial results arrive as soon as each step finishes */}
+                  {partialAssessment?.vision_analysis && (
+                    <div>
+                      <h3 className="font-medium text-white flex items-center gap-2 mb-3">
+                        🤖 Preliminary Vision Analysis
+                      </h3>
+                      <p className="text-gray-300 p-4 bg-gray-800 rounded-lg">
+                        {partialAssessment.vision_analysis}
+                      </p>
+                    </div>
+                  )}
+                  </>
                 )}
                 
                 <div id="assess-help" className="sr-only">
@@ -662,6 +691,12 @@ export function DamageAssessment({
               </div>
               {assessment.success ? (
                 <div className="space-y-6">
+                  {assessment.degraded && (
+                    <p className="text-sm text-yellow-300 p-3 bg-yellow-900/30 border border-yellow-700 rounded-lg">
+                      ⚠️ {assessment.degraded.message}
+                    </p>
+                  )}
+                  
                   <div>
                     <h3 className="font-medium text-white flex items-center gap-2 mb-3">
                       🤖 AI Vision Analysis
@@ -671,14 +706,66 @@ export function DamageAssessment({
                     </p>
                   </div>
                   
-                  <div>
-                    <h3 className="font-medium text-white flex items-center gap-2 mb-3">
-                      📖 Enhanced Assessment
-                    </h3>
-                    <div className="text-gray-300 p-4 bg-gray-800 rounded-lg">
-                      {assessment.enhanced_assessment}
+                  {assessment.findings && (
+                    <div>
+                      <h3 className="font-medium text-white flex items-center gap-2 mb-3">
+                        📋 Key Findings
+                      </h3>
+                      <div className="text-gray-300 p-4 bg-gray-800 rounded-lg space-y-2 text-sm">
+                        <p>
+                          <span className="text-white">Damage:</span>{' '}
+                          {assessment.findings.damage_present
+                            ? `${assessment.findings.damage_types.join(', ')} (${assessment.findings.severity})`
+                            : 'None detected'}
+                        </p>
+                        {assessment.findings.water_class && (
+                          <p>
+                            <span className="text-white">IICRC:</span>{' '}
+                            Class {assessment.findings.water_class}
+                            {assessment.findings.water_category && `, Category ${assessment.findings.water_category}`}
+                          </p>
+                        )}
+                        {assessment.findings.materials.length > 0 && (
+                          <p>
+                            <span className="text-white">Materials:</span>{' '}
+                            {assessment.findings.materials.map(material => `${material.name} (${material.action.replace(/_/g, ' ')})`).join(', ')}
+                          </p>
+                        )}
+                        {assessment.findings.hazards.length > 0 && (
+                          <p>
+                            <span className="text-white">Hazards:</span>{' '}
+                            {assessment.findings.hazards.join(', ')}
+                          </p>
+                        )}
+                      </div>
                     </div>
-                  </div>
+                  )}
+                  
+                  {assessment.enhanced_assessment && (
+                    <div>
+                      <h3 className="font-medium text-white flex items-center gap-2 mb-3">
+                        📖 Enhanced Assessment
+                      </h3>
+                      <div className="text-gray-300 p-4 bg-gray-800 rounded-lg">
+                        {assessment.enhanced_assessment}
+                      </div>
+                    </div>
+                  )}
+                  
+                  {assessment.near_duplicate && (
+                    <p className="text-sm text-gray-400">
+                      ♻️ This photo matches one assessed at {new Date(assessment.near_duplicate.original_timestamp).toLocaleString()}; the earlier analysis was reused.
+                    </p>
+                  )}
+                  
+                  {assessment.photo_metadata?.taken_at && (
+                    <p className="text-sm text-gray-400">
+                      📅 Photo taken at {assessment.photo_metadata.taken_at.replace('T', ' ')}
+                      {assessment.photo_metadata.location && (
+                        <> near {assessment.photo_metadata.location.latitude}, {assessment.photo_metadata.location.longitude}</>
+                      )}
+                    </p>
+                  )}
                   
                   <div className="flex justify-between items-center text-sm text-gray-400">
                     <span>Confidence: {Math.round(assessment.confidence_score * 100)}%</span>
@@ -5,9 +5,12 @@ import {
   Outlet,
   Scripts,
   ScrollRestoration,
+  useRouteLoaderData,
 } from "react-router";
 
 import type { Route } from "./+types/root";
+import { loadClientConfig, type ClientConfig } from "./utils/client-config";
+import { tenantClientOverrides } from "../workers/tenants";
 import "./app.css";
 
 export const links: Route.LinksFunction = () => [
@@ -23,15 +26,39 @@ export const links: Route.LinksFunction = () => [
   },
 ];
 
+// Branding for every page, from the organization the request resolved to (if any)
+export async function loader({ context }: Route.LoaderArgs) {
+  const env = (context as any).cloudflare?.env;
+  const environment = env?.NODE_ENV || env?.CLOUDFLARE_ENV || 'development';
+  return { branding: loadClientConfig(environment, tenantClientOverrides((context as any).tenant)).ui };
+}
+
+// Re-point the theme's accent variables at the organization's colors (validated as hex when saved)
+function brandingStyles(branding: ClientConfig['ui']): string {
+  return `:root {
+  --accent-orange: ${branding.primary_color};
+  --accent-orange-light: ${branding.accent_color};
+  --accent-orange-dark: color-mix(in srgb, ${branding.primary_color} 85%, black);
+  --accent-orange-glow: color-mix(in srgb, ${branding.primary_color} 30%, transparent);
+  --accent-orange-subtle: color-mix(in srgb, ${branding.primary_color} 10%, transparent);
+}`;
+}
+
 export function Layout({ children }: { children: React.ReactNode }) {
+  const data = useRouteLoaderData<typeof loader>("root");
+  const defaults = loadClientConfig().ui;
+  const branding = data?.branding ?? defaults;
+  const themed = branding.primary_color !== defaults.primary_color || branding.accent_color !== defaults.accent_color;
+
   return (
     <html lang="en">
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
-        <title>Aqua Inspect Vision - AI Water Damage Assessment</title>
+        <title>{`${branding.app_name} - AI Water Damage Assessment`}</title>
         <Meta />
         <Links />
+        {themed && <style dangerouslySetInnerHTML={{ __html: brandingStyles(branding) }} />}
       </head>
       <body>
         {children}
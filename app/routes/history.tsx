@@ -0,0 +1,85 @@
+import { Link, redirect } from "react-router";
+import type { Route } from "./+types/history";
+import { brandedAppName } from "../utils/client-config";
+import { getSessionUser } from "../../workers/auth";
+import { loadConfig } from "../../workers/config";
+import { createAssessmentStorage } from "../../workers/storage";
+
+// Only the most recent assessments are loaded in full for the summary cards
+const HISTORY_LIMIT = 20;
+
+export function meta({ matches }: Route.MetaArgs) {
+  return [{ title: `My assessments - ${brandedAppName(matches)}` }];
+}
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const env = (context as any).cloudflare?.env;
+  const user = await getSessionUser(request, env);
+  if (!user) {
+    throw redirect("/login");
+  }
+
+  const config = loadConfig(env);
+  const assessmentStorage = createAssessmentStorage(config, env?.R2_BUCKET);
+  if (!assessmentStorage.isEnabled()) {
+    return { user, assessments: [], unavailable: true };
+  }
+
+  // Each assessment is read from the storage of the organization it was made under
+  const summaries = (await assessmentStorage.listUserAssessments(user.id)).slice(0, HISTORY_LIMIT);
+  const records = await Promise.all(summaries.map(summary =>
+    createAssessmentStorage(config, env?.R2_BUCKET, summary.org_id).getAssessment(summary.assessment_id)
+  ));
+  const assessments = records
+    .filter(record => record !== null)
+    .map(record => ({
+      id: record.id,
+      created_at: record.created_at,
+      severity: record.result?.findings?.severity ?? null,
+      damage_types: record.result?.findings?.damage_types ?? [],
+      summary: String(record.result?.vision_analysis ?? '').slice(0, 200)
+    }));
+
+  return { user, assessments, unavailable: false };
+}
+
+export default function History({ loaderData }: Route.ComponentProps) {
+  const { user, assessments, unavailable } = loaderData;
+
+  return (
+    <div className="min-h-screen p-4">
+      <div className="max-w-4xl mx-auto aqua-card rounded-lg shadow-lg p-4">
+        <div className="flex items-center justify-between border-b aqua-border-primary pb-2 mb-4">
+          <h1 className="text-xl font-semibold aqua-inspect-title">{user.name}'s assessments</h1>
+          <Link to="/" className="text-sm aqua-inspect-accent">New assessment</Link>
+        </div>
+
+        {unavailable && <p className="aqua-text-secondary text-sm">Assessment history is unavailable right now.</p>}
+        {!unavailable && assessments.length === 0 && (
+          <p className="aqua-text-secondary text-sm">No assessments yet. Upload a damage photo to get started.</p>
+        )}
+
+        <ul className="space-y-3">
+          {assessments.map(assessment => (
+            <li key={assessment.id} className="flex gap-4 aqua-bg-secondary border aqua-border-primary rounded-lg p-3">
+              <img
+                src={`/api/assessments/${assessment.id}/image`}
+                alt="Assessed damage"
+                className="w-24 h-24 rounded object-cover"
+              />
+              <div className="text-sm">
+                <p className="aqua-text-muted">{new Date(assessment.created_at).toLocaleString()}</p>
+                {assessment.severity && (
+                  <p className="aqua-text-primary font-medium capitalize">
+                    {assessment.severity} {assessment.damage_types.join(', ')} damage
+                  </p>
+                )}
+                <p className="aqua-text-secondary">{assessment.summary}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -1,25 +1,27 @@
+import { Form, Link } from "react-router";
 import type { Route } from "./+types/home";
 import { Chatbot } from "../components/chatbot";
-import { loadClientConfig } from "../utils/client-config";
+import { brandedAppName, loadClientConfig } from "../utils/client-config";
+import { getSessionUser } from "../../workers/auth";
+import { tenantClientOverrides } from "../../workers/tenants";
 
-export function meta({}: Route.MetaArgs) {
-  const config = loadClientConfig();
+export function meta({ data, matches }: Route.MetaArgs) {
+  const config = data?.config ?? loadClientConfig();
   
   return [
-    { title: `${config.ui.app_name} - AI Water Damage Assessment` },
+    { title: `${brandedAppName(matches)} - AI Water Damage Assessment` },
     { name: "description", content: "Professional AI-powered water damage assessment with computer vision and industry expertise" },
     { name: "viewport", content: "width=device-width, initial-scale=1" },
-    { name: "theme-color", content: "#ff6b35" },
+    { name: "theme-color", content: config.ui.primary_color },
   ];
 }
 
-export function loader({ context }: Route.LoaderArgs) {
-  const config = loadClientConfig();
+export async function loader({ request, context }: Route.LoaderArgs) {
   const env = (context as any).cloudflare?.env;
   
   // Determine environment from context
   const environment = env?.NODE_ENV || env?.CLOUDFLARE_ENV || 'development';
-  const environmentConfig = loadClientConfig(environment);
+  const environmentConfig = loadClientConfig(environment, tenantClientOverrides((context as any).tenant));
   
   return { 
     message: env?.VALUE_FROM_CLOUDFLARE || "Smart Damage Assessment Tool",
@@ -27,12 +29,35 @@ export function loader({ context }: Route.LoaderArgs) {
     conversationEndpoint: "/api/conversation",
     config: environmentConfig,
     environment,
+    user: await getSessionUser(request, env),
   };
 }
 
 export default function Home({ loaderData }: Route.ComponentProps) {
   return (
     <div className="min-h-screen p-4">
+      <nav className="max-w-4xl mx-auto flex justify-end items-center gap-4 mb-2 text-sm aqua-text-secondary">
+        <span className="mr-auto flex items-center gap-2 aqua-text-primary font-semibold">
+          {loaderData.config.ui.logo_url && (
+            <img src={loaderData.config.ui.logo_url} alt="" className="h-6 w-auto" />
+          )}
+          {loaderData.config.ui.app_name}
+        </span>
+        {loaderData.user ? (
+          <>
+            <span>Signed in as {loaderData.user.name}</span>
+            <Link to="/history" className="aqua-inspect-accent">My assessments</Link>
+            <Form method="post" action="/logout">
+              <button type="submit" className="aqua-inspect-accent">Log out</button>
+            </Form>
+          </>
+        ) : (
+          <>
+            <Link to="/login" className="aqua-inspect-accent">Log in</Link>
+            <Link to="/signup" className="aqua-inspect-accent">Sign up</Link>
+          </>
+        )}
+      </nav>
       <Chatbot 
         apiEndpoint={loaderData.apiEndpoint}
         config={loaderData.config}
@@ -0,0 +1,38 @@
+import { redirect } from "react-router";
+import type { Route } from "./+types/login";
+import { AuthForm } from "../components/auth-form";
+import { brandedAppName } from "../utils/client-config";
+import { authenticateUser, getSessionUser, startSession } from "../../workers/auth";
+import { loadConfig } from "../../workers/config";
+
+export function meta({ matches }: Route.MetaArgs) {
+  return [{ title: `Log in - ${brandedAppName(matches)}` }];
+}
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const env = (context as any).cloudflare?.env;
+  if (await getSessionUser(request, env)) {
+    throw redirect("/");
+  }
+  return { minPasswordLength: loadConfig(env).security.min_password_length };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const env = (context as any).cloudflare?.env;
+  const form = await request.formData();
+
+  const result = await authenticateUser(env, { email: form.get("email"), password: form.get("password") });
+  if (!result.ok) {
+    return { error: result.details };
+  }
+
+  return redirect("/", { headers: { "Set-Cookie": await startSession(request, env, result.user) } });
+}
+
+export default function Login({ loaderData, actionData }: Route.ComponentProps) {
+  return (
+    <div className="min-h-screen p-4">
+      <AuthForm mode="login" error={actionData?.error} minPasswordLength={loaderData.minPasswordLength} />
+    </div>
+  );
+}
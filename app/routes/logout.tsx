@@ -0,0 +1,12 @@
+import { redirect } from "react-router";
+import type { Route } from "./+types/logout";
+import { endSession } from "../../workers/auth";
+
+// Logging out is a POST so a link prefetch or cross-site image can't end the session
+export async function action({ request }: Route.ActionArgs) {
+  return redirect("/", { headers: { "Set-Cookie": endSession(request) } });
+}
+
+export function loader() {
+  return redirect("/");
+}
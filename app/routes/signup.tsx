@@ -0,0 +1,42 @@
+import { redirect } from "react-router";
+import type { Route } from "./+types/signup";
+import { AuthForm } from "../components/auth-form";
+import { brandedAppName } from "../utils/client-config";
+import { getSessionUser, registerUser, startSession } from "../../workers/auth";
+import { loadConfig } from "../../workers/config";
+
+export function meta({ matches }: Route.MetaArgs) {
+  return [{ title: `Sign up - ${brandedAppName(matches)}` }];
+}
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const env = (context as any).cloudflare?.env;
+  if (await getSessionUser(request, env)) {
+    throw redirect("/");
+  }
+  return { minPasswordLength: loadConfig(env).security.min_password_length };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const env = (context as any).cloudflare?.env;
+  const form = await request.formData();
+
+  const result = await registerUser(env, {
+    email: form.get("email"),
+    password: form.get("password"),
+    name: form.get("name") || undefined
+  });
+  if (!result.ok) {
+    return { error: `${result.error}. ${result.details}` };
+  }
+
+  return redirect("/", { headers: { "Set-Cookie": await startSession(request, env, result.user) } });
+}
+
+export default function Signup({ loaderData, actionData }: Route.ComponentProps) {
+  return (
+    <div className="min-h-screen p-4">
+      <AuthForm mode="signup" error={actionData?.error} minPasswordLength={loaderData.minPasswordLength} />
+    </div>
+  );
+}
@@ -8,7 +8,11 @@ export interface ClientConfig {
   api: {
     endpoints: {
       damage_assessment: string;
+      damage_assessment_stream: string;
       knowledge_search: string;
+      conversation: string;
+      conversation_stream: string;
+      cases: string;
     };
     timeout: {
       damage_assessment: number;
@@ -30,20 +34,32 @@ export interface ClientConfig {
     blocked_extensions: string[];
   };
 
-  // UI Configuration
+  // UI Configuration (app name, colors and logo are overridden per organization)
   ui: {
     app_name: string;
     version: string;
     enable_debug: boolean;
+    primary_color: string;
+    accent_color: string;
+    logo_url: string | null;
   };
 }
 
+// Per-request overrides, e.g. an organization's branding
+export interface ClientConfigOverrides {
+  ui?: Partial<ClientConfig['ui']>;
+}
+
 // Default client configuration
 const DEFAULT_CLIENT_CONFIG: ClientConfig = {
   api: {
     endpoints: {
       damage_assessment: "/api/assess-damage",
+      damage_assessment_stream: "/api/assess-damage/stream",
       knowledge_search: "/api/knowledge-search",
+      conversation: "/api/conversation",
+      conversation_stream: "/api/conversation/stream",
+      cases: "/api/cases",
     },
     timeout: {
       damage_assessment: 45000, // 45 seconds
@@ -67,6 +83,9 @@ const DEFAULT_CLIENT_CONFIG: ClientConfig = {
     app_name: 'Aqua Inspect Vision',
     version: '1.0.0',
     enable_debug: false,
+    primary_color: '#ff6b35',
+    accent_color: '#ff8f65',
+    logo_url: null,
   },
 };
 
@@ -86,7 +105,7 @@ const CLIENT_ENV_OVERRIDES: Record<string, any> = {
 };
 
 // Load client configuration
-export function loadClientConfig(environment: string = 'development'): ClientConfig {
+export function loadClientConfig(environment: string = 'development', overrides?: ClientConfigOverrides): ClientConfig {
   let config = structuredClone(DEFAULT_CLIENT_CONFIG);
 
   // Apply environment-specific overrides
@@ -95,9 +114,20 @@ export function loadClientConfig(environment: string = 'development'): ClientCon
     config = mergeClientConfig(config, envOverrides);
   }
 
+  // Tenant branding wins over the environment
+  if (overrides) {
+    config = mergeClientConfig(config, overrides);
+  }
+
   return config;
 }
 
+// App name for page titles: the root loader's branding when it is available
+export function brandedAppName(matches: ReadonlyArray<{ id: string; data?: unknown } | undefined>): string {
+  const root = matches.find(match => match?.id === 'root')?.data as { branding?: ClientConfig['ui'] } | undefined;
+  return root?.branding?.app_name ?? DEFAULT_CLIENT_CONFIG.ui.app_name;
+}
+
 // Deep merge utility for client configuration
 function mergeClientConfig(target: any, source: any): any {
   const result = { ...target };
@@ -0,0 +1,10 @@
+/**
+ * Client-side image fingerprints
+ * SHA-256 identifies the exact file, e.g. to key follow-up questions to the photo they are about
+ */
+
+// SHA-256 of the file bytes as lowercase hex
+export async function computeContentHash(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
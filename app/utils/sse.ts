@@ -0,0 +1,67 @@
+/**
+ * Server-Sent Events reader for fetch responses
+ * EventSource only supports GET, so streamed POST responses are parsed here
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Parse one event block ("event: ...\ndata: ...") into an event, ignoring comments
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue;
+
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    let value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join('\n') };
+}
+
+// Read a text/event-stream response body, invoking onEvent for each complete event
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const boundary = /\r?\n\r?\n/;
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    let match = boundary.exec(buffer);
+    while (match) {
+      const parsed = parseEventBlock(buffer.slice(0, match.index));
+      buffer = buffer.slice(match.index + match[0].length);
+      if (parsed) onEvent(parsed);
+      match = boundary.exec(buffer);
+    }
+
+    if (done) break;
+  }
+
+  // Flush a trailing event that wasn't followed by a blank line
+  const trailing = parseEventBlock(buffer);
+  if (trailing) onEvent(trailing);
+}
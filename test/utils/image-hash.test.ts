@@ -0,0 +1,10 @@
+import { describe, it, expect } from 'vitest';
+import { computeContentHash } from '../../app/utils/image-hash';
+
+describe('image hashing utilities', () => {
+  it('hashes file contents with SHA-256', async () => {
+    // jsdom's Blob lacks arrayBuffer(), so stand in with the part of the interface the hash uses
+    const file = { arrayBuffer: async () => new TextEncoder().encode('abc').buffer } as Blob;
+    expect(await computeContentHash(file)).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
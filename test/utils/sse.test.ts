@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { readServerSentEvents, type ServerSentEvent } from '../../app/utils/sse';
+
+// Build a streamed response that delivers the given chunks one at a time
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    }
+  });
+  return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function collect(chunks: string[]): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  await readServerSentEvents(streamResponse(chunks), event => events.push(event));
+  return events;
+}
+
+describe('readServerSentEvents', () => {
+  it('parses named events', async () => {
+    const events = await collect([
+      'event: stage\ndata: {"progress":10}\n\n',
+      'event: result\ndata: {"success":true}\n\n'
+    ]);
+
+    expect(events).toEqual([
+      { event: 'stage', data: '{"progress":10}' },
+      { event: 'result', data: '{"success":true}' }
+    ]);
+  });
+
+  it('reassembles events split across chunks', async () => {
+    const events = await collect(['event: sta', 'ge\ndata: {"progr', 'ess":45}\n', '\n']);
+    expect(events).toEqual([{ event: 'stage', data: '{"progress":45}' }]);
+  });
+
+  it('defaults the event name and joins multi-line data', async () => {
+    const events = await collect(['data: first\ndata: second\n\n']);
+    expect(events).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+  });
+
+  it('ignores comments and flushes a trailing event', async () => {
+    const events = await collect([': keep-alive\n\n', 'event: result\r\ndata: done']);
+    expect(events).toEqual([{ event: 'result', data: 'done' }]);
+  });
+});
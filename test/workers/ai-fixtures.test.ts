@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { loadConfig, type AppConfig } from '../../workers/config';
+import { createAIProvider } from '../../workers/ai';
+import { MockAIProvider } from '../../workers/ai/mock';
+import {
+  FixtureMissingError,
+  MemoryFixtureStore,
+  RecordingAIProvider,
+  ReplayAIProvider,
+  type AIFixture
+} from '../../workers/ai/fixtures';
+import { describeAssessmentError } from '../../workers/assessment';
+
+const image = { image: new Uint8Array([9, 8, 7, 6]), mimeType: 'image/png', prompt: 'Describe the damage' };
+const messages = [{ role: 'user' as const, content: 'How do I dry carpet?' }];
+
+function configWith(ai: Partial<AppConfig['ai']>): AppConfig {
+  const config = loadConfig();
+  return { ...config, ai: { ...config.ai, ...ai } };
+}
+
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+// Round-trips through JSON the way fixture files are saved and loaded
+function asFiles(store: MemoryFixtureStore): AIFixture[] {
+  return store.all().map(fixture => JSON.parse(JSON.stringify(fixture)));
+}
+
+describe('AI fixtures', () => {
+  it('replays recorded pairs without calling the provider', async () => {
+    const config = loadConfig();
+    const recording = new MemoryFixtureStore();
+    const recorder = new RecordingAIProvider(new MockAIProvider({ seed: 3, latency_ms: 0 }), recording, config);
+
+    const vision = await recorder.analyzeImage(image, { timeoutMs: 1000 });
+    const search = await recorder.search('carpet drying standards', { timeoutMs: 1000 });
+    const chat = await recorder.chat(messages, { timeoutMs: 1000, max_tokens: 256 });
+    const stream = await readText(await recorder.chatStream(messages, { timeoutMs: 1000 }));
+
+    expect(recording.all().map(fixture => fixture.operation)).toEqual(['vision', 'search', 'chat', 'chat_stream']);
+    expect(recording.all()[0].request).toMatchObject({ mime_type: 'image/png', prompt: 'Describe the damage' });
+
+    const replay = new ReplayAIProvider('mock', new MemoryFixtureStore(asFiles(recording)), config);
+    expect(await replay.analyzeImage(image)).toEqual(vision);
+    expect(await replay.search('carpet drying standards')).toEqual(search);
+    expect(await replay.chat(messages, { timeoutMs: 5000, max_tokens: 256 })).toEqual(chat);
+    expect(await readText(await replay.chatStream(messages, { timeoutMs: 1000 }))).toBe(stream);
+  });
+
+  it('fails on requests that were never recorded', async () => {
+    const config = loadConfig();
+    const recording = new MemoryFixtureStore();
+    await new RecordingAIProvider(new MockAIProvider({ seed: 0, latency_ms: 0 }), recording, config)
+      .chat(messages, { timeoutMs: 1000 });
+
+    // Same messages, different options, so a different key
+    const replay = new ReplayAIProvider('mock', recording, config);
+    const error = await replay.chat(messages, { timeoutMs: 1000, format: 'json' }).catch(e => e);
+    expect(error).toBeInstanceOf(FixtureMissingError);
+    expect(describeAssessmentError(error)).toMatchObject({ statusCode: 503, errorMessage: 'AI fixture not recorded' });
+
+    // Recordings from another backend's models don't answer either
+    await expect(new ReplayAIProvider('openai', recording, config).chat(messages, { timeoutMs: 1000 }))
+      .rejects.toBeInstanceOf(FixtureMissingError);
+  });
+
+  it('keeps calls working when a recording cannot be saved', async () => {
+    const failing = { get: async () => null, put: async () => { throw new Error('bucket unavailable'); } };
+    const recorder = new RecordingAIProvider(new MockAIProvider({ seed: 0, latency_ms: 0 }), failing, loadConfig());
+
+    await expect(recorder.search('mold', { timeoutMs: 1000 })).resolves.toHaveProperty('response');
+  });
+
+  it('is selected by ai.fixtures.mode and stored in R2', async () => {
+    const fixtures = { mode: 'replay' as const, prefix: 'ai-fixtures' };
+    const replay = createAIProvider(configWith({ provider: 'workers-ai', fixtures }), {});
+
+    expect(replay).toBeInstanceOf(ReplayAIProvider);
+    await expect(replay.search('mold', { timeoutMs: 1000 })).rejects.toThrow('R2 bucket binding not available for AI fixtures');
+    expect(createAIProvider(configWith({ fixtures: { ...fixtures, mode: 'record' } }), {})).toBeInstanceOf(RecordingAIProvider);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import { loadConfig, type AppConfig } from '../../workers/config';
+import { AIMocks, MOCK_SCENARIOS } from '../../workers/ai-mocks';
+import { createCacheService, createPerformanceMonitor } from '../../workers/cache';
+import { runAssessment } from '../../workers/assessment';
+import { createRetryContext } from '../../workers/retry';
+import { mockScenario } from '../../workers/middleware/mock-scenario';
+
+const NO_LATENCY = { seed: 0, latency_ms: 0 };
+
+function mockConfig(): AppConfig {
+  const config = loadConfig();
+  return {
+    ...config,
+    ai: { ...config.ai, provider: 'mock', mocks: NO_LATENCY },
+    // One attempt, so failure scenarios don't wait out retry backoff
+    api: { ...config.api, retry: { ...config.api.retry, max_attempts: 1 } }
+  };
+}
+
+function assess(config: AppConfig, mockScenario?: string) {
+  const image = { valid: true as const, buffer: new Uint8Array([1, 2, 3, 4]), mimeType: 'image/jpeg', originalSize: 4, metadata: null };
+  return runAssessment({}, image, {
+    config,
+    cache: createCacheService(config),
+    mockScenario,
+    monitor: createPerformanceMonitor(),
+    retry: createRetryContext(config),
+    endTimer: () => 0
+  });
+}
+
+describe('AIMocks', () => {
+  it('answers the same image the same way, and follows the image through later calls', async () => {
+    const image = new Uint8Array([10, 20, 30, 40, 50]);
+    const mocks = new AIMocks(NO_LATENCY);
+    const vision = await mocks.mockVisionAnalysis(image, 'Describe');
+
+    expect(await new AIMocks(NO_LATENCY).mockVisionAnalysis(image, 'Describe')).toEqual(vision);
+
+    const scenario = Object.values(MOCK_SCENARIOS).find(candidate => candidate.vision === vision)!;
+    expect(await mocks.mockAutoRAGSearch(`damage ${vision.description} standards`)).toEqual(scenario.rag);
+    expect(await mocks.mockLanguageGeneration([{ role: 'user', content: `Vision Analysis: ${vision.description}` }]))
+      .toEqual({ response: scenario.assessment });
+  });
+
+  it('never picks an error scenario by image hash', async () => {
+    const mocks = new AIMocks({ seed: 7, latency_ms: 0 });
+    for (let i = 0; i < 50; i++) {
+      const vision = await mocks.mockVisionAnalysis(new Uint8Array([i, i * 3, 255 - i]), 'Describe');
+      const picked = Object.entries(MOCK_SCENARIOS).find(([, scenario]) => scenario.vision === vision)!;
+      expect(picked[1].error_case).toBeUndefined();
+    }
+  });
+
+  it('serves the requested scenario and its failures', async () => {
+    const sewage = new AIMocks(NO_LATENCY, 'category3-sewage');
+    expect(JSON.parse((await sewage.mockFindingsGeneration([])).response)).toMatchObject({ water_category: 3 });
+
+    await expect(new AIMocks(NO_LATENCY, 'vision-timeout').mockVisionAnalysis(new Uint8Array([1]), 'Describe'))
+      .rejects.toThrow('AI vision analysis timeout');
+  });
+});
+
+describe('Assessments with mock scenarios', () => {
+  it('produces the scenario\'s assessment and findings', async () => {
+    const result = await assess(mockConfig(), 'fire-smoke');
+
+    expect(result.vision_analysis).toBe(MOCK_SCENARIOS['fire-smoke'].vision.description);
+    expect(result.findings).toMatchObject({ damage_types: ['fire', 'smoke'], water_class: null });
+    expect(result.degraded).toBeNull();
+  });
+
+  it('covers knowledge base timeouts, malformed findings and vision failures', async () => {
+    expect((await assess(mockConfig(), 'autorag-timeout')).degraded).toMatchObject({ unavailable: ['autorag'] });
+    expect((await assess(mockConfig(), 'malformed-findings')).findings).toBeNull();
+    await expect(assess(mockConfig(), 'model-unavailable')).rejects.toThrow('AI model not found');
+  });
+
+  it('stores nothing when abandoned before persisting', async () => {
+    const config = mockConfig();
+    const puts: string[] = [];
+    const env = { R2_BUCKET: { put: async (key: string) => { puts.push(key); } } };
+    const image = { valid: true as const, buffer: new Uint8Array([1, 2, 3, 4]), mimeType: 'image/jpeg', originalSize: 4, metadata: null };
+    const cache = createCacheService({ ...config, performance: { ...config.performance, enable_caching: true } });
+    const options = { config, cache, monitor: createPerformanceMonitor(), retry: createRetryContext(config), endTimer: () => 0 };
+
+    const canceled = runAssessment(env, image, { ...options, beforePersist: async () => { throw new Error('Job canceled'); } });
+    await expect(canceled).rejects.toThrow('Job canceled');
+    expect(puts).toEqual([]);
+
+    await runAssessment(env, image, options);
+    expect(puts.length).toBeGreaterThan(0);
+  });
+
+  it('still answers from the cache when the case cannot be updated', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const config = mockConfig();
+    const env = { R2_BUCKET: { put: async () => {}, get: async () => { throw new Error('bucket unavailable'); } } };
+    const image = { valid: true as const, buffer: new Uint8Array([5, 6, 7, 8]), mimeType: 'image/jpeg', originalSize: 4, metadata: null };
+    const cache = createCacheService({ ...config, performance: { ...config.performance, enable_caching: true } });
+    const options = { config, cache, caseId: crypto.randomUUID(), monitor: createPerformanceMonitor(), retry: createRetryContext(config), endTimer: () => 0 };
+
+    await runAssessment(env, image, options);
+    expect(await runAssessment(env, image, options)).toMatchObject({ success: true, cached: true });
+  });
+
+  it('stores an owned copy for each user served from the cache', async () => {
+    const config = mockConfig();
+    const objects = new Map<string, { data: any; customMetadata?: any }>();
+    const env = {
+      R2_BUCKET: {
+        put: async (key: string, data: any, options?: any) => { objects.set(key, { data, customMetadata: options?.customMetadata }); },
+        get: async (key: string) => objects.has(key) ? { json: async () => JSON.parse(objects.get(key)!.data) } : null
+      }
+    };
+    const image = { valid: true as const, buffer: new Uint8Array([9, 9, 9, 9]), mimeType: 'image/jpeg', originalSize: 4, metadata: null };
+    const cache = createCacheService({ ...config, performance: { ...config.performance, enable_caching: true } });
+    const options = { config, cache, monitor: createPerformanceMonitor(), retry: createRetryContext(config), endTimer: () => 0 };
+
+    const first = await runAssessment(env, image, { ...options, ownerId: 'alice', userId: 'alice' });
+    const second = await runAssessment(env, image, { ...options, ownerId: 'bob', userId: 'bob' });
+
+    expect(second).toMatchObject({ cached: true, vision_analysis: first.vision_analysis });
+    expect(second.assessment_id).not.toBe(first.assessment_id);
+    const stored = JSON.parse(objects.get(`assessments/${second.assessment_id}/result.json`)!.data);
+    expect(stored.owner_id).toBe('bob');
+    expect(objects.has(`assessments/${second.assessment_id}/image`)).toBe(true);
+    expect(objects.has(`users/bob/assessments/${second.assessment_id}`)).toBe(true);
+  });
+});
+
+describe('mockScenario middleware', () => {
+  function createApp() {
+    const app = new Hono();
+    app.use('*', mockScenario());
+    app.get('/', (c) => c.json({ scenario: c.get('mockScenario') ?? null }));
+    return app;
+  }
+
+  it('accepts known scenarios and rejects unknown ones while mocks are on', async () => {
+    const env = { ENABLE_DEV_MOCKS: 'true' };
+    const known = await createApp().request('/', { headers: { 'X-Mock-Scenario': 'no-damage' } }, env);
+    expect(await known.json()).toEqual({ scenario: 'no-damage' });
+
+    const unknown = await createApp().request('/', { headers: { 'X-Mock-Scenario': 'flood' } }, env);
+    expect(unknown.status).toBe(400);
+  });
+
+  it('ignores the header for real providers', async () => {
+    const response = await createApp().request('/', { headers: { 'X-Mock-Scenario': 'flood' } }, { ENABLE_DEV_MOCKS: 'false' });
+    expect(await response.json()).toEqual({ scenario: null });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { loadConfig, type AppConfig } from '../../workers/config';
+import { createAIProvider } from '../../workers/ai';
+import { WorkersAIProvider } from '../../workers/ai/workers-ai';
+import { OpenAICompatibleProvider, toWorkersAIEvents } from '../../workers/ai/openai';
+import { resetCircuitBreakers } from '../../workers/circuit-breaker';
+import { isRetryableError } from '../../workers/retry';
+import { readModelTokens } from '../../workers/api/conversation';
+
+function configWith(ai: Partial<AppConfig['ai']>): AppConfig {
+  const config = loadConfig();
+  return { ...config, ai: { ...config.ai, ...ai } };
+}
+
+function streamOf(text: string): ReadableStream<Uint8Array> {
+  return new Response(text).body!;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  resetCircuitBreakers();
+});
+
+describe('createAIProvider', () => {
+  it('chooses the provider from config, with enable_dev_mocks forcing the mocks', () => {
+    expect(createAIProvider(configWith({ provider: 'workers-ai' }), {}).name).toBe('workers-ai');
+    expect(createAIProvider(configWith({ provider: 'openai' }), {}).name).toBe('openai');
+    expect(createAIProvider(configWith({ provider: 'openai', enable_dev_mocks: true }), {}).name).toBe('mock');
+  });
+
+  it('serves findings JSON from the mocks when JSON is requested', async () => {
+    const ai = createAIProvider(configWith({ provider: 'mock', mocks: { seed: 0, latency_ms: 0 } }), {});
+    const reply = await ai.chat([{ role: 'user', content: 'Classify' }], { timeoutMs: 5000, format: 'json' });
+    expect(JSON.parse(reply.response)).toHaveProperty('damage_present');
+  });
+});
+
+describe('WorkersAIProvider', () => {
+  it('runs the configured models through the AI binding', async () => {
+    const config = loadConfig();
+    const run = vi.fn()
+      .mockResolvedValueOnce({ description: 'Stained drywall' })
+      .mockResolvedValueOnce({ response: { damage_present: true } });
+    const ai = new WorkersAIProvider({ run }, config);
+
+    expect(await ai.analyzeImage({ image: new Uint8Array([1, 2]), mimeType: 'image/jpeg', prompt: 'Describe' }, { timeoutMs: 1000 }))
+      .toEqual({ description: 'Stained drywall' });
+    expect(run).toHaveBeenCalledWith(config.ai.vision_model, { image: [1, 2], prompt: 'Describe' });
+
+    // Parsed JSON replies come back as text
+    const reply = await ai.chat([{ role: 'user', content: 'Classify' }], { timeoutMs: 1000, max_tokens: 1024 });
+    expect(reply.response).toBe('{"damage_present":true}');
+    expect(run).toHaveBeenLastCalledWith(config.ai.language_model, { messages: [{ role: 'user', content: 'Classify' }], max_tokens: 1024 });
+  });
+
+  it('fails clearly without the binding or AutoRAG', async () => {
+    await expect(new WorkersAIProvider(undefined, loadConfig()).chat([], { timeoutMs: 1000 })).rejects.toThrow('AI binding not available');
+    await expect(new WorkersAIProvider({ run: vi.fn() }, loadConfig()).search('mold', { timeoutMs: 1000 })).rejects.toThrow('AutoRAG not available');
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  it('sends images as data URIs to the chat completions endpoint', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ choices: [{ message: { content: 'Water stain on ceiling' } }] }));
+    vi.stubGlobal('fetch', fetchMock);
+    const config = configWith({ provider: 'openai', openai: { base_url: 'http://localhost:11434/v1/', vision_model: 'llava', language_model: 'llama3.2' } });
+
+    const result = await new OpenAICompatibleProvider(config, 'sk-test').analyzeImage(
+      { image: new Uint8Array([255, 216]), mimeType: 'image/jpeg', prompt: 'Describe' },
+      { timeoutMs: 1000 }
+    );
+
+    expect(result).toEqual({ description: 'Water stain on ceiling' });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body as string).messages[0].content[1].image_url.url).toBe('data:image/jpeg;base64,/9g=');
+  });
+
+  it('reports the status of failed requests so server errors are retried', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('model loading', { status: 503 })));
+    const error = await new OpenAICompatibleProvider(configWith({ provider: 'openai' }))
+      .chat([{ role: 'user', content: 'Hi' }], { timeoutMs: 1000 })
+      .catch(e => e);
+
+    expect(error.status).toBe(503);
+    expect(isRetryableError(error)).toBe(true);
+  });
+
+  it('has no knowledge base of its own without the AI binding', async () => {
+    await expect(new OpenAICompatibleProvider(loadConfig()).search('mold', { timeoutMs: 1000 })).rejects.toThrow('AutoRAG not available');
+  });
+
+  it('rewrites streamed deltas as Workers AI events', async () => {
+    const upstream = streamOf(
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n' +
+      'data: {"choices":[{"delta":{"content":"Dry "}}]}\n\n' +
+      'data: {"choices":[{"delta":{"content":"it out"}}]}\n\ndata: [DONE]\n\n'
+    );
+    const tokens: string[] = [];
+    await readModelTokens(upstream.pipeThrough(toWorkersAIEvents()), (token) => { tokens.push(token); });
+
+    expect(tokens).toEqual(['Dry ', 'it out']);
+  });
+});
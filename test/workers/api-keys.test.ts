@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { loadConfig } from '../../workers/config';
+import { createApiKeyStore, hashApiKey, isWellFormedApiKey } from '../../workers/api-keys';
+import { apiKeyAuth, requireAdminToken, requireApiScope } from '../../workers/middleware/api-key';
+import { MemoryRateLimitStore, rateLimit } from '../../workers/middleware/rate-limit';
+
+// Minimal in-memory stand-in for a KV namespace, including list metadata
+function createMockKV() {
+  const entries = new Map<string, { value: string; metadata?: unknown }>();
+
+  return {
+    entries,
+    async get(key: string, type?: string) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      return type === 'json' ? JSON.parse(entry.value) : entry.value;
+    },
+    async put(key: string, value: string, options?: { metadata?: unknown }) {
+      entries.set(key, { value, metadata: options?.metadata });
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list(options: { prefix?: string }) {
+      return {
+        keys: Array.from(entries.entries())
+          .filter(([key]) => key.startsWith(options.prefix ?? ''))
+          .map(([name, entry]) => ({ name, metadata: entry.metadata })),
+        list_complete: true,
+        cursor: ''
+      };
+    },
+  };
+}
+
+describe('ApiKeyStore', () => {
+  let kv: ReturnType<typeof createMockKV>;
+
+  beforeEach(() => {
+    kv = createMockKV();
+  });
+
+  it('issues keys and stores only their hash', async () => {
+    const store = createApiKeyStore(loadConfig(), kv as any);
+    const { key, record } = await store.issue({ name: 'Partner portal', scopes: ['assess-damage'] });
+
+    expect(isWellFormedApiKey(key)).toBe(true);
+    expect(record.prefix).toBe(key.slice(0, 12));
+    expect(record.daily_quota).toBe(1000);
+    expect(kv.entries.has(`keys/hash/${await hashApiKey(key)}`)).toBe(true);
+    expect(JSON.stringify(Array.from(kv.entries.entries()))).not.toContain(key);
+  });
+
+  it('verifies active keys and rejects unknown or revoked ones', async () => {
+    const store = createApiKeyStore(loadConfig(), kv as any);
+    const { key, record } = await store.issue({ name: 'Mobile app', scopes: ['conversation'], daily_quota: 50 });
+
+    expect(await store.verify(key)).toMatchObject({ id: record.id, daily_quota: 50 });
+    expect(await store.verify('dsk_' + '0'.repeat(64))).toBeNull();
+    expect(await store.verify('not-a-key')).toBeNull();
+
+    const revoked = await store.revoke(record.id);
+    expect(revoked?.revoked_at).not.toBeNull();
+    expect(await store.verify(key)).toBeNull();
+    expect((await store.list())[0].revoked_at).not.toBeNull();
+  });
+
+  it('returns null when revoking an unknown key', async () => {
+    const store = createApiKeyStore(loadConfig(), kv as any);
+    expect(await store.revoke(crypto.randomUUID())).toBeNull();
+  });
+});
+
+describe('API key middleware', () => {
+  let kv: ReturnType<typeof createMockKV>;
+  let env: Record<string, any>;
+
+  function createApp() {
+    const app = new Hono();
+    app.use('*', apiKeyAuth());
+    app.use('/assess', requireApiScope('assess-damage'));
+    app.get('/assess', (c) => c.json({ key: c.get('apiKey')?.name ?? null }));
+    return app;
+  }
+
+  beforeEach(() => {
+    kv = createMockKV();
+    env = { API_KEYS: kv };
+  });
+
+  it('lets anonymous requests through unless keys are required', async () => {
+    const app = createApp();
+
+    expect((await app.request('/assess', {}, env)).status).toBe(200);
+    expect((await app.request('/assess', {}, { ...env, REQUIRE_API_KEY: 'true' })).status).toBe(401);
+  });
+
+  it('rejects invalid keys and keys without the endpoint scope', async () => {
+    const store = createApiKeyStore(loadConfig(), kv as any);
+    const { key } = await store.issue({ name: 'Chat only', scopes: ['conversation'] });
+    const app = createApp();
+
+    expect((await app.request('/assess', { headers: { 'X-API-Key': 'dsk_wrong' } }, env)).status).toBe(401);
+    expect((await app.request('/assess', { headers: { 'X-API-Key': key } }, env)).status).toBe(403);
+  });
+
+  it('enforces the daily quota per key', async () => {
+    const store = createApiKeyStore(loadConfig(), kv as any);
+    const { key } = await store.issue({ name: 'Partner', scopes: ['assess-damage'], daily_quota: 2 });
+    const app = createApp();
+    const headers = { 'X-API-Key': key };
+
+    const first = await app.request('/assess', { headers }, env);
+    expect(await first.json()).toEqual({ key: 'Partner' });
+    expect(first.headers.get('X-API-Quota-Remaining')).toBe('1');
+
+    await app.request('/assess', { headers }, env);
+    const exceeded = await app.request('/assess', { headers }, env);
+    expect(exceeded.status).toBe(429);
+    expect(await exceeded.json()).toMatchObject({ code: 'API_KEY_QUOTA_EXCEEDED' });
+  });
+
+  it('checks the scope without charging the quota when asked', async () => {
+    const store = createApiKeyStore(loadConfig(), kv as any);
+    const { key } = await store.issue({ name: 'Partner', scopes: ['assess-damage'], daily_quota: 1 });
+    const { key: chatKey } = await store.issue({ name: 'Chat only', scopes: ['conversation'] });
+    const app = createApp();
+    app.use('/poll', requireApiScope('assess-damage', { chargeQuota: false }));
+    app.get('/poll', (c) => c.text('ok'));
+    const headers = { 'X-API-Key': key };
+
+    expect((await app.request('/poll', { headers }, env)).status).toBe(200);
+    expect((await app.request('/poll', { headers }, env)).status).toBe(200);
+    expect((await app.request('/poll', { headers: { 'X-API-Key': chatKey } }, env)).status).toBe(403);
+    expect((await app.request('/assess', { headers }, env)).status).toBe(200);
+    expect((await app.request('/poll', { headers }, env)).status).toBe(200);
+  });
+
+  it('rate limits keyed requests separately from their IP', async () => {
+    const store = createApiKeyStore(loadConfig(), kv as any);
+    const { key } = await store.issue({ name: 'Partner', scopes: ['assess-damage'] });
+    const app = new Hono();
+    app.use('*', apiKeyAuth());
+    app.use('*', rateLimit({ windowMs: 60000, maxRequests: 1, store: new MemoryRateLimitStore() }));
+    app.get('/', (c) => c.text('ok'));
+    const ip = { 'cf-connecting-ip': '203.0.113.7' };
+
+    expect((await app.request('/', { headers: ip }, env)).status).toBe(200);
+    expect((await app.request('/', { headers: { ...ip, 'X-API-Key': key } }, env)).status).toBe(200);
+    expect((await app.request('/', { headers: ip }, env)).status).toBe(429);
+  });
+
+  it('guards administration with the admin token', async () => {
+    const app = new Hono();
+    app.use('*', requireAdminToken());
+    app.get('/', (c) => c.text('ok'));
+
+    expect((await app.request('/', {}, {})).status).toBe(503);
+    expect((await app.request('/', { headers: { Authorization: 'Bearer wrong' } }, { ADMIN_API_TOKEN: 'secret' })).status).toBe(401);
+    expect((await app.request('/', { headers: { Authorization: 'Bearer secret' } }, { ADMIN_API_TOKEN: 'secret' })).status).toBe(200);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import {
+  authenticateUser,
+  createSessionToken,
+  getSessionUser,
+  hashPassword,
+  readSessionCookie,
+  registerUser,
+  startSession,
+  verifyPassword,
+  verifySessionToken
+} from '../../workers/auth';
+import { sessionAuth } from '../../workers/middleware/session';
+
+// Minimal in-memory stand-in for an R2 bucket
+function createMockBucket() {
+  const objects = new Map<string, string>();
+  return {
+    objects,
+    async put(key: string, value: string) {
+      objects.set(key, value);
+      return { key };
+    },
+    async get(key: string) {
+      if (!objects.has(key)) return null;
+      const data = objects.get(key)!;
+      return { text: async () => data, json: async () => JSON.parse(data) };
+    },
+    async head(key: string) {
+      return objects.has(key) ? { key } : null;
+    },
+  };
+}
+
+const user = { id: 'user-1', email: 'adjuster@example.com', name: 'Adjuster' };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Password hashing', () => {
+  it('verifies the original password only', async () => {
+    const stored = await hashPassword('correct horse battery', 10000);
+
+    expect(stored).toMatch(/^pbkdf2\$10000\$/);
+    expect(await verifyPassword('correct horse battery', stored)).toBe(true);
+    expect(await verifyPassword('wrong password', stored)).toBe(false);
+    expect(await verifyPassword('anything', 'not-a-hash')).toBe(false);
+  });
+
+  it('salts each hash', async () => {
+    expect(await hashPassword('same password', 10000)).not.toBe(await hashPassword('same password', 10000));
+  });
+});
+
+describe('Session tokens', () => {
+  it('round-trips the user and rejects tampering or a different secret', async () => {
+    const token = await createSessionToken(user, 'secret', 60000);
+
+    expect(await verifySessionToken(token, 'secret')).toEqual(user);
+    expect(await verifySessionToken(token, 'other-secret')).toBeNull();
+
+    const [payload, signature] = token.split('.');
+    const forged = btoa(JSON.stringify({ sub: 'admin', exp: Date.now() + 60000 })).replace(/=+$/, '');
+    expect(await verifySessionToken(`${forged}.${signature}`, 'secret')).toBeNull();
+    expect(await verifySessionToken(payload, 'secret')).toBeNull();
+  });
+
+  it('expires', async () => {
+    vi.useFakeTimers();
+    const token = await createSessionToken(user, 'secret', 1000);
+    vi.advanceTimersByTime(1001);
+
+    expect(await verifySessionToken(token, 'secret')).toBeNull();
+  });
+
+  it('reads the session cookie among others', () => {
+    expect(readSessionCookie('theme=dark; ds_session=abc.def; other=1')).toBe('abc.def');
+    expect(readSessionCookie('theme=dark')).toBeNull();
+    expect(readSessionCookie(null)).toBeNull();
+  });
+
+  it('requires SESSION_SECRET outside development', async () => {
+    const request = new Request('https://example.com/');
+    await expect(startSession(request, { NODE_ENV: 'production' }, user)).rejects.toThrow('SESSION_SECRET');
+
+    const cookie = await startSession(request, { NODE_ENV: 'production', SESSION_SECRET: 'prod-secret' }, user);
+    expect(cookie).toContain('HttpOnly');
+    expect(cookie).toContain('Secure');
+  });
+});
+
+describe('Accounts', () => {
+  let env: Record<string, any>;
+
+  beforeEach(() => {
+    env = { R2_BUCKET: createMockBucket() };
+  });
+
+  it('registers and authenticates users', async () => {
+    const registered = await registerUser(env, { email: 'Adjuster@Example.com ', password: 'long enough password' });
+    expect(registered.ok).toBe(true);
+    if (!registered.ok) return;
+    expect(registered.user).toMatchObject({ email: 'adjuster@example.com', name: 'adjuster' });
+
+    const login = await authenticateUser(env, { email: 'adjuster@example.com', password: 'long enough password' });
+    expect(login).toEqual({ ok: true, user: registered.user });
+
+    const wrong = await authenticateUser(env, { email: 'adjuster@example.com', password: 'not the password' });
+    expect(wrong).toMatchObject({ ok: false, status: 401 });
+  });
+
+  it('rejects duplicate emails and weak passwords', async () => {
+    await registerUser(env, { email: 'owner@example.com', password: 'long enough password' });
+
+    expect(await registerUser(env, { email: 'OWNER@example.com', password: 'another long password' }))
+      .toMatchObject({ ok: false, status: 409 });
+    expect(await registerUser(env, { email: 'new@example.com', password: 'short' }))
+      .toMatchObject({ ok: false, status: 400, error: 'Invalid password' });
+    expect(await registerUser(env, { email: 'not-an-email', password: 'long enough password' }))
+      .toMatchObject({ ok: false, status: 400, error: 'Invalid email' });
+  });
+
+  it('does not reveal whether an email is registered', async () => {
+    const result = await authenticateUser(env, { email: 'nobody@example.com', password: 'whatever password' });
+    expect(result).toMatchObject({ ok: false, status: 401, error: 'Invalid credentials' });
+  });
+
+  it('is unavailable without storage', async () => {
+    expect(await registerUser({}, { email: 'a@example.com', password: 'long enough password' }))
+      .toMatchObject({ ok: false, status: 503 });
+  });
+
+  it('resolves the session in Hono middleware and loaders alike', async () => {
+    const cookie = (await startSession(new Request('http://localhost/'), env, user)).split(';')[0];
+
+    const app = new Hono();
+    app.use('*', sessionAuth());
+    app.get('/', (c) => c.json({ user: c.get('user') ?? null }));
+
+    expect(await (await app.request('/', { headers: { Cookie: cookie } }, env)).json()).toEqual({ user });
+    expect(await (await app.request('/', {}, env)).json()).toEqual({ user: null });
+    expect(await getSessionUser(new Request('http://localhost/', { headers: { Cookie: cookie } }), env)).toEqual(user);
+  });
+
+  it('gives browsers without a session a lasting anonymous ID', async () => {
+    const app = new Hono();
+    app.use('*', sessionAuth());
+    app.get('/', (c) => c.json({ anonymousId: c.get('anonymousId') ?? null }));
+
+    const first = await app.request('/', {}, env);
+    const anonymousId = (await first.json() as any).anonymousId;
+    const cookie = first.headers.get('Set-Cookie')!;
+    expect(cookie).toContain(`ds_anon=${anonymousId}`);
+    expect(cookie).toContain('HttpOnly');
+
+    const again = await app.request('/', { headers: { Cookie: cookie.split(';')[0] } }, env);
+    expect(await again.json()).toEqual({ anonymousId });
+    expect(again.headers.get('Set-Cookie')).toBeNull();
+
+    const forged = await app.request('/', { headers: { Cookie: 'ds_anon=not-a-uuid' } }, env);
+    expect((await forged.json() as any).anonymousId).not.toBe('not-a-uuid');
+
+    const session = (await startSession(new Request('http://localhost/'), env, user)).split(';')[0];
+    const signedIn = await app.request('/', { headers: { Cookie: session } }, env);
+    expect(await signedIn.json()).toEqual({ anonymousId: null });
+  });
+});
@@ -0,0 +1,335 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { loadConfig } from '../../workers/config';
+import { CacheService, KVCache, MemoryCache, TieredCache, createCacheService, generateCacheKey } from '../../workers/cache';
+import { computePerceptualHash, differenceHash, hammingDistance, sha256Hex } from '../../workers/image-hash';
+
+function cachingConfig() {
+  const config = loadConfig();
+  config.performance.enable_caching = true;
+  return config;
+}
+
+// Minimal in-memory stand-in for a KV namespace, honouring expirationTtl
+function createMockKV() {
+  const entries = new Map<string, { value: string; expiresAt?: number }>();
+  const live = (key: string) => {
+    const entry = entries.get(key);
+    if (entry?.expiresAt && Date.now() >= entry.expiresAt) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    entries,
+    async get(key: string, type?: string) {
+      const entry = live(key);
+      if (!entry) return null;
+      return type === 'json' ? JSON.parse(entry.value) : entry.value;
+    },
+    async put(key: string, value: string, options?: { expirationTtl?: number }) {
+      if (options?.expirationTtl !== undefined && options.expirationTtl < 60) {
+        throw new Error('expirationTtl must be at least 60 seconds');
+      }
+      entries.set(key, { value, expiresAt: options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : undefined });
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list(options: { prefix?: string; cursor?: string }) {
+      return {
+        keys: Array.from(entries.keys()).filter(key => key.startsWith(options.prefix ?? '')).map(name => ({ name })),
+        list_complete: true,
+        cursor: ''
+      };
+    },
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('MemoryCache', () => {
+  it('evicts the least recently used entry past the entry limit', async () => {
+    const cache = new MemoryCache(60000, { maxEntries: 2 });
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    await cache.get('a');
+    await cache.set('c', 3);
+
+    expect(await cache.get('a')).toBe(1);
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).toBe(3);
+    expect(cache.getStats()).toMatchObject({ size: 2, evictions: 1 });
+  });
+
+  it('evicts to stay within the byte budget', async () => {
+    const cache = new MemoryCache(60000, { maxBytes: 4096 });
+    const payload = { vision: 'x'.repeat(700) };
+
+    for (let i = 0; i < 5; i++) {
+      await cache.set(`assessment_${i}`, payload);
+    }
+
+    const stats = cache.getStats();
+    expect(stats.bytes).toBeLessThanOrEqual(4096);
+    expect(stats.evictions).toBe(3);
+    expect(await cache.get('assessment_4')).toEqual(payload);
+  });
+
+  it('rejects entries larger than the whole budget', async () => {
+    const cache = new MemoryCache(60000, { maxBytes: 1024 });
+    await cache.set('small', 'ok');
+    await cache.set('huge', 'x'.repeat(2000));
+
+    expect(await cache.get('huge')).toBeNull();
+    expect(await cache.get('small')).toBe('ok');
+  });
+
+  it('drops expired entries before evicting live ones', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryCache(60000, { maxEntries: 2 });
+    await cache.set('stale', 1, 1000);
+    await cache.set('live', 2);
+    vi.advanceTimersByTime(1001);
+    await cache.set('new', 3);
+
+    expect(await cache.get('live')).toBe(2);
+    expect(cache.getStats()).toMatchObject({ evictions: 0, expirations: 1 });
+  });
+
+  it('tracks bytes across overwrites and deletes', async () => {
+    const cache = new MemoryCache();
+    await cache.set('key', 'x'.repeat(100));
+    await cache.set('key', 'y');
+    await cache.delete('key');
+
+    expect(cache.getStats()).toMatchObject({ size: 0, bytes: 0 });
+  });
+
+  it('reports eviction counts through cache stats', async () => {
+    const config = cachingConfig();
+    config.performance.memory_cache_max_entries = 1;
+    const service = new CacheService(config);
+
+    await service.cacheRAGResult('first query', { results: [] });
+    await service.cacheRAGResult('second query', { results: [] });
+
+    expect(service.getCacheStats().memory).toMatchObject({ size: 1, evictions: 1 });
+  });
+
+  it('keeps entries of different scopes apart while sharing stats', async () => {
+    const service = new CacheService(cachingConfig());
+    await service.scoped('org:acme').cacheRAGResult('mold', { response: 'acme' });
+
+    expect(await service.getCachedRAGResult('mold')).toBeNull();
+    expect((await service.scoped('org:acme').getCachedRAGResult('mold')).response).toBe('acme');
+    expect(service.getCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+});
+
+describe('KVCache', () => {
+  it('round-trips assessment payloads through JSON', async () => {
+    const kv = createMockKV();
+    const cache = new KVCache(kv as any);
+    const payload = { assessment: { findings: { severity: 'moderate', damage_types: ['water'] } }, timestamp: 1 };
+
+    await cache.set('assessment_abc', payload);
+
+    expect(await cache.get('assessment_abc')).toEqual(payload);
+    expect(kv.entries.has('cache:assessment_abc')).toBe(true);
+  });
+
+  it('expires entries on the requested TTL even below the KV minimum', async () => {
+    vi.useFakeTimers();
+    const cache = new KVCache(createMockKV() as any);
+
+    await cache.set('short', 'value', 5000);
+    expect(await cache.get('short')).toBe('value');
+
+    vi.advanceTimersByTime(5001);
+    expect(await cache.get('short')).toBeNull();
+  });
+
+  it('clears only its own prefix', async () => {
+    const kv = createMockKV();
+    await kv.put('other:key', 'kept');
+    const cache = new KVCache(kv as any);
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+
+    await cache.clear();
+
+    expect(Array.from(kv.entries.keys())).toEqual(['other:key']);
+  });
+});
+
+describe('TieredCache', () => {
+  it('backfills L1 from L2 on a miss', async () => {
+    const kv = createMockKV();
+    const l1 = new MemoryCache();
+    await new KVCache(kv as any).set('shared', { value: 42 });
+
+    const cache = new TieredCache(l1, new KVCache(kv as any));
+
+    expect(await cache.get('shared')).toEqual({ value: 42 });
+    expect(await l1.get('shared')).toEqual({ value: 42 });
+  });
+
+  it('shares entries between isolates through L2', async () => {
+    const kv = createMockKV();
+    const first = new TieredCache(new MemoryCache(), new KVCache(kv as any));
+    const second = new TieredCache(new MemoryCache(), new KVCache(kv as any));
+
+    await first.set('assessment_x', { cached: true });
+
+    expect(await second.get('assessment_x')).toEqual({ cached: true });
+  });
+
+  it('keeps serving L1 when L2 fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing = { get: async () => { throw new Error('KV down'); }, set: async () => { throw new Error('KV down'); }, delete: async () => {}, clear: async () => {} };
+    const cache = new TieredCache(new MemoryCache(), failing);
+
+    await cache.set('key', 'value');
+
+    expect(await cache.get('key')).toBe('value');
+    expect(await cache.get('missing')).toBeNull();
+  });
+});
+
+describe('Cache provider selection', () => {
+  it('uses a tiered KV cache when configured and bound', async () => {
+    const config = cachingConfig();
+    config.performance.cache_provider = 'tiered';
+    const kv = createMockKV();
+    const service = createCacheService(config, { kv: kv as any });
+
+    await service.cacheAssessmentResult('image-hash', 'vision-analysis@1', { description: 'wet' }, null, { success: true });
+
+    expect(service.getCacheStats().provider).toBe('tiered:kv');
+    expect(kv.entries.size).toBe(1);
+    expect(await createCacheService(config, { kv: kv as any }).getCachedAssessmentResult('image-hash', 'vision-analysis@1'))
+      .toMatchObject({ assessment: { success: true } });
+  });
+
+  it('falls back to memory without a binding', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const config = cachingConfig();
+    config.performance.cache_provider = 'kv';
+
+    expect(createCacheService(config).getCacheStats().provider).toBe('memory');
+  });
+
+  it('reads the provider from the environment', () => {
+    expect(loadConfig({ NODE_ENV: 'production' }).performance.cache_provider).toBe('tiered');
+    expect(loadConfig({ CACHE_PROVIDER: 'kv' }).performance.cache_provider).toBe('kv');
+    expect(() => loadConfig({ CACHE_PROVIDER: 'disk' })).toThrow(/Cache provider/);
+  });
+});
+
+describe('Image hashing', () => {
+  it('computes SHA-256 content hashes', async () => {
+    expect(await sha256Hex(new TextEncoder().encode('abc')))
+      .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('distinguishes images that share their size and edge bytes', async () => {
+    const cache = new CacheService(cachingConfig());
+    const first = new Uint8Array(64).fill(1);
+    const second = new Uint8Array(64).fill(1);
+    second[32] = 2;
+
+    expect(await cache.generateImageHash(first)).not.toBe(await cache.generateImageHash(second));
+  });
+
+  it('keys cached results on the full digest, prompt version and scope', async () => {
+    const kv = createMockKV();
+    const config = cachingConfig();
+    config.performance.cache_provider = 'kv';
+    const cache = createCacheService(config, { kv: kv as any }).scoped('org:acme');
+    const imageHash = await sha256Hex(new Uint8Array([1, 2, 3]));
+
+    await cache.cacheVisionResult(imageHash, 'vision-analysis@1', { description: 'wet' });
+
+    expect(generateCacheKey('vision', imageHash, 'vision-analysis@1')).toBe(`vision_${imageHash}_vision-analysis@1`);
+    expect(Array.from(kv.entries.keys())).toEqual([`cache:org:acme:vision_${imageHash}_vision-analysis@1`]);
+    expect(await cache.getCachedVisionResult(imageHash, 'vision-analysis@2')).toBeNull();
+  });
+
+  it('counts differing bits between perceptual hashes', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+
+  it('encodes brightness gradients as difference hash bits', () => {
+    // Each row gets darker to the right, so every comparison sets its bit
+    const decreasing = Array.from({ length: 72 }, (_, i) => 255 - (i % 9) * 10);
+    const increasing = Array.from({ length: 72 }, (_, i) => (i % 9) * 10);
+
+    expect(differenceHash(decreasing)).toBe('ffffffffffffffff');
+    expect(differenceHash(increasing)).toBe('0000000000000000');
+  });
+
+  it('computes perceptual hashes from the Images binding output', async () => {
+    // Stands in for the Images binding, returning 9x8 RGB pixels that get darker to the right
+    const pixels = new Uint8Array(Array.from({ length: 72 }, (_, i) => 255 - (i % 9) * 10).flatMap(value => [value, value, value]));
+    let transform: unknown;
+    const images = {
+      input: () => ({
+        transform(options: unknown) { transform = options; return this; },
+        output: async () => ({ image: () => new Response(pixels).body })
+      })
+    };
+
+    expect(await computePerceptualHash(images as any, new Uint8Array([1, 2, 3]))).toBe('ffffffffffffffff');
+    expect(transform).toMatchObject({ width: 9, height: 8 });
+    expect(await computePerceptualHash(undefined, new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+
+  it('skips perceptual hashing when the image cannot be decoded', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const images = { input: () => { throw new Error('ImagesError 9412: not an image'); } };
+    expect(await computePerceptualHash(images as any, new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+});
+
+describe('Near-duplicate detection', () => {
+  it('matches perceptual hashes within the threshold', async () => {
+    const cache = new CacheService(cachingConfig());
+    await cache.rememberPerceptualHash('f0f0f0f0f0f0f0f0', 'hash-a');
+    await cache.rememberPerceptualHash('0f0f0f0f0f0f0f0f', 'hash-b');
+
+    expect(await cache.findNearDuplicate('f0f0f0f0f0f0f0f1')).toEqual({ imageHash: 'hash-a', distance: 1 });
+    expect(await cache.findNearDuplicate('ff00ff00ff00ff00')).toBeNull();
+  });
+
+  it('stores the index in shards, each within its configured size', async () => {
+    const kv = createMockKV();
+    const config = cachingConfig();
+    config.performance.cache_provider = 'kv';
+    config.performance.perceptual_index_size = 2;
+    const cache = createCacheService(config, { kv: kv as any });
+
+    await cache.rememberPerceptualHash('0011223344556677', 'oldest');
+    await cache.rememberPerceptualHash('00ffffffffffffff', 'middle');
+    await cache.rememberPerceptualHash('00ffffffffffff00', 'newest');
+
+    // One key per band value rather than a single index every upload rewrites
+    expect(kv.entries.has('cache:perceptual:3:33')).toBe(true);
+    const firstBand = JSON.parse(kv.entries.get('cache:perceptual:0:00')!.value).value;
+    expect(firstBand.map((entry: any) => entry.imageHash)).toEqual(['middle', 'newest']);
+
+    // Only the first band differs, so the other bands still find the match
+    expect(await cache.findNearDuplicate('0111223344556677')).toEqual({ imageHash: 'oldest', distance: 1 });
+  });
+
+  it('is disabled when caching is off', async () => {
+    const cache = new CacheService(loadConfig());
+    await cache.rememberPerceptualHash('0000000000000000', 'hash-a');
+    expect(await cache.findNearDuplicate('0000000000000000')).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { handleCreateCase, handleDeleteCase, handleGetCase, handleListCases, handleUpdateCase } from '../../workers/api/cases';
+import { canAccessRecord, listingOwner } from '../../workers/access';
+
+// Minimal in-memory stand-in for an R2 bucket
+function createMockBucket() {
+  const objects = new Map<string, { data: string; etag: string; customMetadata?: any }>();
+  let version = 0;
+
+  return {
+    objects,
+    async put(key: string, value: string, options?: any) {
+      const etag = `etag-${++version}`;
+      objects.set(key, { data: value, etag, customMetadata: options?.customMetadata });
+      return { key, etag };
+    },
+    async get(key: string) {
+      const object = objects.get(key);
+      return object ? { etag: object.etag, json: async () => JSON.parse(object.data) } : null;
+    },
+    async head(key: string) {
+      return objects.has(key) ? { key } : null;
+    },
+    async delete(key: string) {
+      objects.delete(key);
+    },
+    async list(options: { prefix: string }) {
+      return {
+        objects: Array.from(objects.entries())
+          .filter(([key]) => key.startsWith(options.prefix))
+          .map(([key, object]) => ({ key, customMetadata: object.customMetadata, uploaded: new Date() })),
+        truncated: false
+      };
+    }
+  };
+}
+
+// Stands in for sessionAuth and apiKeyAuth: X-Test-User signs in, X-Test-Key presents an API key,
+// X-Test-Anon is an anonymous browser session
+function createApp() {
+  const app = new Hono();
+  app.use('*', async (c, next) => {
+    const userId = c.req.header('X-Test-User');
+    if (userId) c.set('user', { id: userId, email: `${userId}@example.com`, name: userId } as any);
+    const keyId = c.req.header('X-Test-Key');
+    if (keyId) c.set('apiKey', { id: keyId, scopes: [] } as any);
+    const anonymousId = c.req.header('X-Test-Anon');
+    if (anonymousId) c.set('anonymousId', anonymousId);
+    return next();
+  });
+  app.post('/api/cases', handleCreateCase);
+  app.get('/api/cases', handleListCases);
+  app.get('/api/cases/:id', handleGetCase);
+  app.put('/api/cases/:id', handleUpdateCase);
+  app.delete('/api/cases/:id', handleDeleteCase);
+  return app;
+}
+
+describe('Case access', () => {
+  let env: { R2_BUCKET: ReturnType<typeof createMockBucket>; ADMIN_API_TOKEN: string };
+  const app = createApp();
+
+  async function createCase(headers: Record<string, string>, address: string): Promise<string> {
+    const response = await app.request('/api/cases', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ property_address: address })
+    }, env);
+    return (await response.json() as any).case.id;
+  }
+
+  beforeEach(() => {
+    env = { R2_BUCKET: createMockBucket(), ADMIN_API_TOKEN: 'admin-secret' };
+  });
+
+  it('keeps each user\'s cases to themselves', async () => {
+    const aliceCase = await createCase({ 'X-Test-User': 'alice' }, '1 Main St');
+    await createCase({ 'X-Test-User': 'bob' }, '2 Side St');
+
+    const list = await app.request('/api/cases', { headers: { 'X-Test-User': 'alice' } }, env);
+    expect((await list.json() as any).cases.map((summary: any) => summary.id)).toEqual([aliceCase]);
+
+    const bob = { 'X-Test-User': 'bob', 'Content-Type': 'application/json' };
+    expect((await app.request(`/api/cases/${aliceCase}`, { headers: bob }, env)).status).toBe(404);
+    expect((await app.request(`/api/cases/${aliceCase}`, { method: 'PUT', headers: bob, body: '{"notes":"mine now"}' }, env)).status).toBe(404);
+    expect((await app.request(`/api/cases/${aliceCase}`, { method: 'DELETE', headers: bob }, env)).status).toBe(404);
+    expect((await app.request(`/api/cases/${aliceCase}`, { headers: { 'X-Test-User': 'alice' } }, env)).status).toBe(200);
+  });
+
+  it('turns unidentified callers away', async () => {
+    const aliceCase = await createCase({ 'X-Test-User': 'alice' }, '1 Main St');
+
+    expect((await app.request('/api/cases', {}, env)).status).toBe(401);
+    expect((await app.request(`/api/cases/${aliceCase}`, {}, env)).status).toBe(401);
+    expect((await app.request('/api/cases', { method: 'POST', body: '{}' }, env)).status).toBe(401);
+  });
+
+  it('keeps anonymous sessions\' cases to that session', async () => {
+    const anonCase = await createCase({ 'X-Test-Anon': 'session-a' }, '4 Hill Ln');
+
+    expect((await app.request(`/api/cases/${anonCase}`, { headers: { 'X-Test-Anon': 'session-a' } }, env)).status).toBe(200);
+    expect((await app.request(`/api/cases/${anonCase}`, { headers: { 'X-Test-Anon': 'session-b' } }, env)).status).toBe(404);
+    const list = await app.request('/api/cases', { headers: { 'X-Test-Anon': 'session-b' } }, env);
+    expect((await list.json() as any).total).toBe(0);
+  });
+
+  it('lets API keys use only their own cases and admins use every case', async () => {
+    const keyCase = await createCase({ 'X-Test-Key': 'key-1' }, '3 Dock Rd');
+    const aliceCase = await createCase({ 'X-Test-User': 'alice' }, '1 Main St');
+
+    const keyList = await app.request('/api/cases', { headers: { 'X-Test-Key': 'key-1' } }, env);
+    expect((await keyList.json() as any).cases.map((summary: any) => summary.id)).toEqual([keyCase]);
+    expect((await app.request(`/api/cases/${aliceCase}`, { headers: { 'X-Test-Key': 'key-1' } }, env)).status).toBe(404);
+    expect((await app.request(`/api/cases/${keyCase}`, { headers: { 'X-Test-Key': 'key-2' } }, env)).status).toBe(404);
+
+    const adminList = await app.request('/api/cases', { headers: { Authorization: 'Bearer admin-secret' } }, env);
+    expect((await adminList.json() as any).total).toBe(2);
+  });
+});
+
+describe('canAccessRecord', () => {
+  it('matches owners and admins', () => {
+    const nobody = { admin: false, userId: null, apiKeyId: null, anonymousId: null };
+    expect(canAccessRecord(nobody, null)).toBe(false);
+    expect(canAccessRecord({ ...nobody, userId: 'alice' }, 'alice')).toBe(true);
+    expect(canAccessRecord({ ...nobody, userId: 'alice' }, null)).toBe(false);
+    expect(canAccessRecord({ ...nobody, apiKeyId: 'key-1' }, null)).toBe(false);
+    expect(canAccessRecord({ ...nobody, apiKeyId: 'key-1' }, 'key:key-1')).toBe(true);
+    expect(canAccessRecord({ ...nobody, apiKeyId: 'key-1' }, 'key-1')).toBe(false);
+    expect(canAccessRecord({ ...nobody, anonymousId: 'abc' }, 'anon:abc')).toBe(true);
+    expect(canAccessRecord({ ...nobody, admin: true }, 'bob')).toBe(true);
+    expect(canAccessRecord({ ...nobody, admin: true }, null)).toBe(true);
+    expect(listingOwner({ ...nobody, apiKeyId: 'key-1' })).toBe('key:key-1');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { loadConfig } from '../../workers/config';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  circuitBreakerStats,
+  modelBreaker,
+  resetCircuitBreakers
+} from '../../workers/circuit-breaker';
+import { createRetryContext, withRetry } from '../../workers/retry';
+import { describeAssessmentError } from '../../workers/assessment';
+
+const OPTIONS = { failure_threshold: 3, failure_window_ms: 10000, open_ms: 30000 };
+
+// A breaker whose clock the test moves by hand
+function createBreaker() {
+  let now = 1_000_000;
+  const breaker = new CircuitBreaker('model:test', OPTIONS, () => now);
+  return { breaker, advance: (ms: number) => { now += ms; } };
+}
+
+const fail = () => Promise.reject(new Error('Language model timeout'));
+
+describe('CircuitBreaker', () => {
+  it('opens after the failure threshold within the window', async () => {
+    const { breaker, advance } = createBreaker();
+
+    await expect(breaker.run(fail)).rejects.toThrow('Language model timeout');
+    advance(11000);
+    await expect(breaker.run(fail)).rejects.toThrow('Language model timeout');
+    await expect(breaker.run(fail)).rejects.toThrow('Language model timeout');
+    // The first failure fell out of the window
+    expect(breaker.getState()).toBe('closed');
+
+    await expect(breaker.run(fail)).rejects.toThrow('Language model timeout');
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('only counts transient failures', async () => {
+    const { breaker } = createBreaker();
+    const badRequest = () => Promise.reject(Object.assign(new Error('Invalid input'), { status: 400 }));
+
+    for (let i = 0; i < 3; i++) await breaker.run(badRequest).catch(() => {});
+    await breaker.run(() => Promise.reject(new Error('AI fixture not recorded'))).catch(() => {});
+
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', total_failures: 0 });
+  });
+
+  it('rejects calls while open without running them', async () => {
+    const { breaker, advance } = createBreaker();
+    for (let i = 0; i < 3; i++) await breaker.run(fail).catch(() => {});
+    advance(10000);
+
+    const fn = vi.fn().mockResolvedValue('ok');
+    const error = await breaker.run(fn).catch(e => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAfterMs).toBe(20000);
+    expect(fn).not.toHaveBeenCalled();
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', total_failures: 3, total_rejections: 1 });
+  });
+
+  it('lets one trial call through after open_ms and closes or reopens on its outcome', async () => {
+    const { breaker, advance } = createBreaker();
+    for (let i = 0; i < 3; i++) await breaker.run(fail).catch(() => {});
+    advance(30000);
+    expect(breaker.getState()).toBe('half_open');
+
+    await expect(breaker.run(fail)).rejects.toThrow('Language model timeout');
+    expect(breaker.getState()).toBe('open');
+
+    advance(30000);
+    let release!: (value: string) => void;
+    const trial = breaker.run(() => new Promise<string>(resolve => { release = resolve; }));
+    await expect(breaker.run(async () => 'second')).rejects.toBeInstanceOf(CircuitOpenError);
+
+    release('ok');
+    expect(await trial).toBe('ok');
+    expect(breaker.getState()).toBe('closed');
+  });
+});
+
+describe('Circuit breaker registry', () => {
+  beforeEach(() => resetCircuitBreakers());
+
+  it('shares one breaker per model and reports it in stats', async () => {
+    const config = loadConfig();
+    expect(modelBreaker(config, config.ai.language_model)).toBe(modelBreaker(config, config.ai.language_model));
+
+    await modelBreaker(config, config.ai.language_model).run(fail).catch(() => {});
+    expect(circuitBreakerStats()).toEqual({
+      [`model:${config.ai.language_model}`]: expect.objectContaining({ state: 'closed', recent_failures: 1, total_failures: 1 })
+    });
+  });
+
+  it('is not retried and maps to 503 with a retry-after', async () => {
+    const fn = vi.fn().mockRejectedValue(new CircuitOpenError('model:test', 4500));
+    const error = await withRetry(createRetryContext(loadConfig()), 'language_model', fn, { sleep: async () => {} }).catch(e => e);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(describeAssessmentError(error)).toMatchObject({ statusCode: 503, errorMessage: 'AI service busy', retryAfterSeconds: 5 });
+  });
+});
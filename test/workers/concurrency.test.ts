@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { createPerformanceMonitor } from '../../workers/cache';
+import { ConcurrencyLimiter, concurrencyLimit } from '../../workers/middleware/concurrency';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => { resolve = done; });
+  return { promise, resolve };
+}
+
+describe('ConcurrencyLimiter', () => {
+  it('queues requests over the limit and admits them in order as slots free up', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueue: 2, maxWaitMs: 1000 });
+    const first = await limiter.acquire();
+    const order: number[] = [];
+    const second = limiter.acquire().then(slot => { order.push(2); return slot; });
+    const third = limiter.acquire().then(slot => { order.push(3); return slot; });
+
+    expect(limiter.stats()).toMatchObject({ active: 1, queued: 2 });
+
+    if (!first.admitted) throw new Error('expected a slot');
+    first.release();
+    const secondSlot = await second;
+    if (!secondSlot.admitted) throw new Error('expected a slot');
+    expect(secondSlot.queueDepth).toBe(0);
+    secondSlot.release();
+    await third;
+
+    expect(order).toEqual([2, 3]);
+    expect(limiter.stats()).toMatchObject({ active: 1, queued: 0, admitted: 3 });
+  });
+
+  it('rejects when the queue is full and times out waiters', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueue: 1, maxWaitMs: 20 });
+    await limiter.acquire();
+    const waiting = limiter.acquire();
+
+    expect(await limiter.acquire()).toMatchObject({ admitted: false, reason: 'queue_full', retryAfterMs: 20 });
+    expect(await waiting).toMatchObject({ admitted: false, reason: 'timeout' });
+    expect(limiter.stats()).toMatchObject({ active: 1, queued: 0, rejected: 1, timed_out: 1 });
+  });
+});
+
+describe('concurrencyLimit middleware', () => {
+  it('returns 503 with Retry-After when no slot is available and records queue metrics', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueue: 0, maxWaitMs: 5000 });
+    const monitor = createPerformanceMonitor();
+    const gate = deferred();
+    const app = new Hono();
+    app.use('*', concurrencyLimit(() => limiter, monitor));
+    app.get('/', async (c) => {
+      await gate.promise;
+      return c.text('ok');
+    });
+
+    const held = app.request('/');
+    const rejected = await app.request('/');
+    expect(rejected.status).toBe(503);
+    expect(rejected.headers.get('Retry-After')).toBe('5');
+    expect(await rejected.json()).toMatchObject({ code: 'CONCURRENCY_LIMIT_EXCEEDED', retry_after: 5 });
+
+    gate.resolve();
+    expect((await held).status).toBe(200);
+    expect(limiter.stats().active).toBe(0);
+    expect(monitor.getMetrics('concurrency_wait')?.count).toBe(1);
+    expect(monitor.getMetrics('concurrency_queue_depth')?.count).toBe(2);
+  });
+
+  it('holds the slot until a streamed response finishes', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1, maxQueue: 0, maxWaitMs: 1000 });
+    const gate = deferred();
+    const app = new Hono();
+    app.use('*', concurrencyLimit(() => limiter));
+    app.get('/', (c) => streamSSE(c, async (stream) => {
+      await gate.promise;
+      await stream.writeSSE({ event: 'result', data: '{}' });
+    }));
+
+    const response = await app.request('/');
+    expect(limiter.stats().active).toBe(1);
+
+    gate.resolve();
+    expect(await response.text()).toContain('event: result');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(limiter.stats().active).toBe(0);
+  });
+});
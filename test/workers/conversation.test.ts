@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { readModelTokens } from '../../workers/api/conversation';
+
+function modelStream(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    }
+  });
+}
+
+describe('readModelTokens', () => {
+  it('forwards tokens until the done marker', async () => {
+    const tokens: string[] = [];
+    await readModelTokens(modelStream([
+      'data: {"response":"Dry "}\n\n',
+      'data: {"response":"the wall"}\n\ndata: [DONE]\n\n',
+      'data: {"response":"ignored"}\n\n'
+    ]), token => { tokens.push(token); });
+
+    expect(tokens).toEqual(['Dry ', 'the wall']);
+  });
+
+  it('handles lines split across chunks and skips malformed data', async () => {
+    const tokens: string[] = [];
+    await readModelTokens(modelStream([
+      'data: {"resp', 'onse":"Mold "}\n\ndata: not-json\n\n',
+      'data: {"response":"risk"}'
+    ]), token => { tokens.push(token); });
+
+    expect(tokens).toEqual(['Mold ', 'risk']);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { loadConfig } from '../../workers/config';
+import { extractPhotoMetadata, stripImageMetadata } from '../../workers/exif';
+import { validateImageBuffer } from '../../workers/image-validation';
+
+// Little-endian TIFF block with orientation, DateTimeOriginal and GPS 40°26'46"N 79°58'56"W
+function createTiff(): Uint8Array {
+  const tiff = new Uint8Array(190);
+  const view = new DataView(tiff.buffer);
+  const entry = (offset: number, tag: number, type: number, count: number, value: number) => {
+    view.setUint16(offset, tag, true);
+    view.setUint16(offset + 2, type, true);
+    view.setUint32(offset + 4, count, true);
+    view.setUint32(offset + 8, value, true);
+  };
+  const rationals = (offset: number, values: number[]) => values.forEach((value, i) => {
+    view.setUint32(offset + i * 8, value, true);
+    view.setUint32(offset + i * 8 + 4, 1, true);
+  });
+
+  tiff.set([0x49, 0x49], 0);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+
+  // IFD0: orientation, Exif IFD pointer, GPS IFD pointer
+  view.setUint16(8, 3, true);
+  entry(10, 0x0112, 3, 1, 6);
+  entry(22, 0x8769, 4, 1, 50);
+  entry(34, 0x8825, 4, 1, 88);
+
+  // Exif IFD: DateTimeOriginal
+  view.setUint16(50, 1, true);
+  entry(52, 0x9003, 2, 20, 68);
+  tiff.set(Array.from('2024:03:01 14:22:05\0', ch => ch.charCodeAt(0)), 68);
+
+  // GPS IFD: latitude/longitude with their hemisphere references
+  view.setUint16(88, 4, true);
+  entry(90, 0x0001, 2, 2, 'N'.charCodeAt(0));
+  entry(102, 0x0002, 5, 3, 142);
+  entry(114, 0x0003, 2, 2, 'W'.charCodeAt(0));
+  entry(126, 0x0004, 5, 3, 166);
+  rationals(142, [40, 26, 46]);
+  rationals(166, [79, 58, 56]);
+
+  return tiff;
+}
+
+// JPEG with an APP1 Exif segment ahead of a 1024x768 frame header
+function createJPEGWithExif(): Uint8Array {
+  const tiff = createTiff();
+  const app1Length = 2 + 6 + tiff.length;
+  return new Uint8Array([
+    0xFF, 0xD8,
+    0xFF, 0xE1, app1Length >> 8, app1Length & 0xFF, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00, ...tiff,
+    0xFF, 0xFE, 0x00, 0x06, 0x68, 0x69, 0x21, 0x21,
+    0xFF, 0xC0, 0x00, 0x0B, 0x08, 0x03, 0x00, 0x04, 0x00, 0x01, 0x01, 0x11, 0x00,
+    0xFF, 0xDA, 0x00, 0x02, 0x12, 0x34,
+    0xFF, 0xD9
+  ]);
+}
+
+// Extended WebP: VP8X header with the EXIF flag set, a VP8L bitstream and an EXIF chunk
+function createWebPWithExif(): Uint8Array {
+  const tiff = createTiff();
+  const chunks = [
+    [...Array.from('VP8X', ch => ch.charCodeAt(0)), 10, 0, 0, 0, 0x08, 0, 0, 0, 0xFF, 0x03, 0x00, 0xFF, 0x02, 0x00],
+    [...Array.from('VP8L', ch => ch.charCodeAt(0)), 5, 0, 0, 0, 0x2F, 0xFF, 0xC3, 0x3F, 0x09, 0x00],
+    [...Array.from('EXIF', ch => ch.charCodeAt(0)), tiff.length, 0, 0, 0, ...tiff]
+  ].flat();
+  const buffer = new Uint8Array(12 + chunks.length);
+  buffer.set([0x52, 0x49, 0x46, 0x46], 0);
+  new DataView(buffer.buffer).setUint32(4, buffer.length - 8, true);
+  buffer.set([0x57, 0x45, 0x42, 0x50], 8);
+  buffer.set(chunks, 12);
+  return buffer;
+}
+
+function containsAscii(buffer: Uint8Array, text: string): boolean {
+  return String.fromCharCode(...buffer).includes(text);
+}
+
+describe('Photo metadata', () => {
+  const config = loadConfig();
+
+  it('extracts capture time, orientation and coarse location from JPEG EXIF', () => {
+    expect(extractPhotoMetadata(createJPEGWithExif(), 'image/jpeg', config)).toEqual({
+      taken_at: '2024-03-01T14:22:05',
+      orientation: 6,
+      location: { latitude: 40.45, longitude: -79.98 }
+    });
+  });
+
+  it('extracts metadata from a WebP EXIF chunk', () => {
+    expect(extractPhotoMetadata(createWebPWithExif(), 'image/webp', config)?.taken_at).toBe('2024-03-01T14:22:05');
+  });
+
+  it('omits location when the policy disables it', () => {
+    const privateConfig = loadConfig({ EXPOSE_PHOTO_LOCATION: 'false' });
+    expect(extractPhotoMetadata(createJPEGWithExif(), 'image/jpeg', privateConfig)?.location).toBeNull();
+  });
+
+  it('returns null when there is no EXIF data', () => {
+    const jpeg = new Uint8Array([0xFF, 0xD8, 0xFF, 0xC0, 0x00, 0x0B, 0x08, 0x03, 0x00, 0x04, 0x00, 0x01, 0x01, 0x11, 0x00, 0xFF, 0xD9]);
+    expect(extractPhotoMetadata(jpeg, 'image/jpeg', config)).toBeNull();
+  });
+
+  it('strips EXIF and comment segments from JPEGs but keeps the image data', () => {
+    const stripped = stripImageMetadata(createJPEGWithExif(), 'image/jpeg');
+
+    expect(containsAscii(stripped, 'Exif')).toBe(false);
+    expect(containsAscii(stripped, 'hi!!')).toBe(false);
+    expect(Array.from(stripped.slice(0, 4))).toEqual([0xFF, 0xD8, 0xFF, 0xC0]);
+    expect(Array.from(stripped.slice(-8))).toEqual([0xFF, 0xDA, 0x00, 0x02, 0x12, 0x34, 0xFF, 0xD9]);
+  });
+
+  it('strips WebP EXIF chunks and clears the VP8X flag', () => {
+    const stripped = stripImageMetadata(createWebPWithExif(), 'image/webp');
+    const view = new DataView(stripped.buffer, stripped.byteOffset);
+
+    expect(containsAscii(stripped, 'EXIF')).toBe(false);
+    expect(stripped[20] & 0x08).toBe(0);
+    expect(view.getUint32(4, true)).toBe(stripped.length - 8);
+  });
+
+  it('returns stripped bytes and metadata from validateImageBuffer', () => {
+    const result = validateImageBuffer(createJPEGWithExif(), 'image/jpeg', config);
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.metadata?.orientation).toBe(6);
+      expect(containsAscii(result.buffer, 'Exif')).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractJsonObject, generateFindings, parseFindings, validateFindings } from '../../workers/findings';
+
+const VALID_FINDINGS = {
+  damage_present: true,
+  damage_types: ['water'],
+  severity: 'moderate',
+  water_class: 2,
+  water_category: 1,
+  materials: [{ name: 'Drywall', action: 'dry_in_place' }],
+  hazards: ['Slip hazard'],
+  next_steps: ['Set up dehumidifiers']
+};
+
+describe('extractJsonObject', () => {
+  it('strips code fences and surrounding prose', () => {
+    const text = 'Here are the findings:\n```json\n{"severity": "minor"}\n```\nLet me know!';
+    expect(extractJsonObject(text)).toEqual({ severity: 'minor' });
+  });
+
+  it('repairs trailing commas', () => {
+    expect(extractJsonObject('{"hazards": ["Mold",], }')).toEqual({ hazards: ['Mold'] });
+  });
+
+  it('throws when no object is present', () => {
+    expect(() => extractJsonObject('No damage visible.')).toThrow('does not contain a JSON object');
+  });
+});
+
+describe('validateFindings', () => {
+  it('accepts a well-formed response', () => {
+    const result = validateFindings(VALID_FINDINGS);
+    expect(result.errors).toEqual([]);
+    expect(result.findings).toEqual(VALID_FINDINGS);
+  });
+
+  it('coerces labelled levels, enum casing and bare material names', () => {
+    const result = validateFindings({
+      ...VALID_FINDINGS,
+      damage_types: ['Water', 'MOLD', 'unknown'],
+      severity: 'Severe',
+      water_class: 'Class 3',
+      water_category: '2',
+      materials: ['Carpet pad', { name: 'Baseboards', action: 'Remove' }]
+    });
+
+    expect(result.findings).toMatchObject({
+      damage_types: ['water', 'mold'],
+      severity: 'severe',
+      water_class: 3,
+      water_category: 2,
+      materials: [
+        { name: 'Carpet pad', action: 'inspect' },
+        { name: 'Baseboards', action: 'remove' }
+      ]
+    });
+  });
+
+  it('clears water classification when there is no water damage', () => {
+    const result = validateFindings({ ...VALID_FINDINGS, damage_types: ['fire'] });
+    expect(result.findings?.water_class).toBeNull();
+    expect(result.findings?.water_category).toBeNull();
+  });
+
+  it('rejects out-of-range levels and missing required fields', () => {
+    const result = validateFindings({ damage_types: 'water', severity: 'catastrophic', water_class: 7 });
+    expect(result.findings).toBeNull();
+    expect(result.errors).toEqual([
+      'damage_types must be an array',
+      'severity must be one of none, minor, moderate, severe',
+      'water_class must be 1-4 or null'
+    ]);
+  });
+
+  it('reports invalid JSON from parseFindings', () => {
+    expect(parseFindings('{not json').errors[0]).toMatch(/^Invalid JSON/);
+  });
+});
+
+describe('generateFindings', () => {
+  it('re-prompts with validation errors until the response is valid', async () => {
+    const runModel = vi.fn()
+      .mockResolvedValueOnce('The damage looks moderate.')
+      .mockResolvedValueOnce(JSON.stringify(VALID_FINDINGS));
+
+    const result = await generateFindings(runModel, 'Wet drywall', 'IICRC S500', 2);
+
+    expect(result.attempts).toBe(2);
+    expect(result.findings?.water_class).toBe(2);
+    const retryMessages = runModel.mock.calls[1][0];
+    expect(retryMessages[retryMessages.length - 1].content).toContain('Invalid JSON');
+  });
+
+  it('gives up after the configured attempts', async () => {
+    const runModel = vi.fn().mockResolvedValue('{"severity": "bad"}');
+
+    const result = await generateFindings(runModel, 'Wet drywall', '', 2);
+
+    expect(result.findings).toBeNull();
+    expect(result.errors.length).toBeGreaterThan(0);
+    expect(runModel).toHaveBeenCalledTimes(2);
+  });
+});
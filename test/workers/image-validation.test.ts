@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { loadConfig } from '../../workers/config';
+import {
+  checkBinaryUpload,
+  decodeImageDataUri,
+  validateImageBuffer,
+  validateImageDimensions,
+  validateImageSignature,
+  sanitizeImageBuffer
+} from '../../workers/image-validation';
+
+// Minimal PNG: signature followed by an IHDR chunk with the given dimensions
+function createPNG(width: number, height: number): Uint8Array {
+  const buffer = new Uint8Array(45);
+  buffer.set([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A], 0);
+  buffer.set([0x00, 0x00, 0x00, 0x0D, 0x49, 0x48, 0x44, 0x52], 8);
+  new DataView(buffer.buffer).setUint32(16, width);
+  new DataView(buffer.buffer).setUint32(20, height);
+  buffer.set([0x08, 0x02, 0x00, 0x00, 0x00], 24);
+  buffer.set([0x49, 0x45, 0x4E, 0x44, 0xAE, 0x42, 0x60, 0x82], 37);
+  return buffer;
+}
+
+// Minimal JPEG: SOI, APP0, a baseline SOF0 frame header with the given dimensions, then EOI
+function createJPEG(width: number, height: number): Uint8Array {
+  return new Uint8Array([
+    0xFF, 0xD8,
+    0xFF, 0xE0, 0x00, 0x06, 0x4A, 0x46, 0x49, 0x46,
+    0xFF, 0xC0, 0x00, 0x0B, 0x08, height >> 8, height & 0xFF, width >> 8, width & 0xFF, 0x01, 0x01, 0x11, 0x00,
+    0xFF, 0xD9
+  ]);
+}
+
+// Minimal WebP: RIFF header, WEBP form type and a single chunk with the given payload
+function createWebP(chunkType: string, payload: number[]): Uint8Array {
+  const buffer = new Uint8Array(20 + payload.length);
+  const view = new DataView(buffer.buffer);
+  buffer.set([0x52, 0x49, 0x46, 0x46], 0);
+  view.setUint32(4, buffer.length - 8, true);
+  buffer.set([0x57, 0x45, 0x42, 0x50], 8);
+  buffer.set(Array.from(chunkType, ch => ch.charCodeAt(0)), 12);
+  view.setUint32(16, payload.length, true);
+  buffer.set(payload, 20);
+  return buffer;
+}
+
+function toDataUri(buffer: Uint8Array, mimeType: string): string {
+  return `data:${mimeType};base64,${btoa(String.fromCharCode(...buffer))}`;
+}
+
+describe('Image Validation', () => {
+  const config = loadConfig();
+
+  describe('decodeImageDataUri', () => {
+    it('decodes a valid data URI', () => {
+      const png = createPNG(800, 600);
+      const decoded = decodeImageDataUri(toDataUri(png, 'image/png'), config);
+
+      expect(decoded.valid).toBe(true);
+      if (decoded.valid) {
+        expect(decoded.declaredMimeType).toBe('image/png');
+        expect(decoded.buffer).toEqual(png);
+      }
+    });
+
+    it('rejects non data URIs', () => {
+      const decoded = decodeImageDataUri('https://example.com/photo.jpg', config);
+      expect(decoded).toMatchObject({ valid: false, status: 400, error: 'Invalid image format' });
+    });
+
+    it('rejects unsupported MIME types', () => {
+      const decoded = decodeImageDataUri('data:image/gif;base64,R0lGODlh', config);
+      expect(decoded).toMatchObject({ valid: false, status: 400, error: 'Unsupported image type' });
+    });
+
+    it('rejects missing image fields', () => {
+      expect(decodeImageDataUri(undefined, config)).toMatchObject({ valid: false, status: 400 });
+    });
+  });
+
+  describe('checkBinaryUpload', () => {
+    it('accepts an allowed type within the size limit', () => {
+      expect(checkBinaryUpload('image/jpeg', 1024, config)).toBeNull();
+      expect(checkBinaryUpload('image/webp', null, config)).toBeNull();
+    });
+
+    it('rejects unsupported types and empty or oversized uploads', () => {
+      expect(checkBinaryUpload('application/pdf', 1024, config)).toMatchObject({ status: 400, error: 'Unsupported image type' });
+      expect(checkBinaryUpload('image/png', 0, config)).toMatchObject({ status: 400 });
+      expect(checkBinaryUpload('image/png', config.api.limits.max_decoded_size + 1, config)).toMatchObject({ status: 413, error: 'Image too large' });
+    });
+  });
+
+  describe('validateImageBuffer', () => {
+    it('accepts a well-formed PNG', () => {
+      const result = validateImageBuffer(createPNG(800, 600), 'image/png', config);
+      expect(result).toMatchObject({ valid: true, mimeType: 'image/png' });
+    });
+
+    it('rejects a declared type that does not match the signature', () => {
+      const result = validateImageBuffer(createPNG(800, 600), 'image/jpeg', config);
+      expect(result).toMatchObject({ valid: false, error: 'Image type mismatch' });
+    });
+
+    it('rejects oversized PNG dimensions', () => {
+      const result = validateImageBuffer(createPNG(10000, 600), 'image/png', config);
+      expect(result).toMatchObject({ valid: false, error: 'Image width too large' });
+    });
+
+    it('reads JPEG dimensions from the SOF marker', () => {
+      expect(validateImageBuffer(createJPEG(1024, 768), 'image/jpeg', config)).toMatchObject({ valid: true });
+      expect(validateImageBuffer(createJPEG(1024, 60000), 'image/jpeg', config)).toMatchObject({ valid: false, error: 'Image height too large' });
+    });
+
+    it('rejects JPEGs without a frame header', () => {
+      const jpeg = new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0, 0x00, 0x04, 0x00, 0x00, 0xFF, 0xD9]);
+      expect(validateImageBuffer(jpeg, 'image/jpeg', config)).toMatchObject({
+        valid: false,
+        error: 'Corrupted image file',
+        details: 'JPEG missing frame header (SOF marker)'
+      });
+    });
+
+    it('reads lossy, lossless and extended WebP dimensions', () => {
+      // VP8: frame tag, start code, then 14-bit width 800 and height 600
+      const lossy = createWebP('VP8 ', [0x00, 0x00, 0x00, 0x9D, 0x01, 0x2A, 0x20, 0x03, 0x58, 0x02]);
+      // VP8L: signature, then width-1 = 799 and height-1 = 599 packed into 28 bits
+      const packed = 799 | (599 << 14);
+      const lossless = createWebP('VP8L', [0x2F, packed & 0xFF, (packed >> 8) & 0xFF, (packed >> 16) & 0xFF, (packed >> 24) & 0xFF]);
+      // VP8X: flags and reserved bytes, then 24-bit canvas width-1 = 9999 and height-1 = 599
+      const extended = createWebP('VP8X', [0x00, 0x00, 0x00, 0x00, 0x0F, 0x27, 0x00, 0x57, 0x02, 0x00]);
+
+      expect(validateImageBuffer(lossy, 'image/webp', config)).toMatchObject({ valid: true });
+      expect(validateImageBuffer(lossless, 'image/webp', config)).toMatchObject({ valid: true });
+      expect(validateImageBuffer(extended, 'image/webp', config)).toMatchObject({ valid: false, error: 'Image width too large' });
+    });
+
+    it('rejects WebPs with an unknown first chunk', () => {
+      const result = validateImageBuffer(createWebP('ALPH', [0, 0, 0, 0]), 'image/webp', config);
+      expect(result).toMatchObject({ valid: false, details: "WebP missing VP8/VP8L/VP8X chunk (found 'ALPH')" });
+    });
+  });
+
+  describe('validateImageDimensions', () => {
+    it('enforces minimum dimensions', () => {
+      expect(validateImageDimensions({ width: 50, height: 800 }, config)).toMatchObject({ error: 'Image too small' });
+    });
+
+    it('enforces the pixel limit independently of the per-side limits', () => {
+      const strict = loadConfig();
+      strict.image.max_pixels = 1000 * 1000;
+      expect(validateImageDimensions({ width: 2000, height: 2000 }, strict)).toMatchObject({ error: 'Image has too many pixels' });
+      expect(validateImageDimensions({ width: 1000, height: 1000 }, strict)).toBeNull();
+    });
+  });
+
+  it('detects image signatures', () => {
+    expect(validateImageSignature(createPNG(800, 600)).detectedType).toBe('image/png');
+    expect(validateImageSignature(new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0, 0, 0, 0, 0])).detectedType).toBe('image/jpeg');
+    expect(validateImageSignature(new Uint8Array(4)).valid).toBe(false);
+  });
+
+  it('trims trailing null bytes when sanitizing', () => {
+    expect(sanitizeImageBuffer(new Uint8Array([1, 2, 3, 0, 0]))).toEqual(new Uint8Array([1, 2, 3]));
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { Hono } from 'hono';
+import { loadConfig } from '../../workers/config';
+import {
+  applyJobProgress,
+  finishJob,
+  jobAssessmentConfig,
+  joinImage,
+  newAssessmentJob,
+  splitImage,
+  type AssessmentJob
+} from '../../workers/jobs';
+import { handleCancelJob, handleGetJob } from '../../workers/api/jobs';
+
+const JOB_ID = '0b8f3f9e-6f43-4c1e-9b53-2f6a3c1d7e10';
+
+// Stands in for the ASSESSMENT_JOBS namespace with one job held in memory
+function createMockJobs(initial: AssessmentJob | null) {
+  let job = initial;
+  const runner = {
+    async status() {
+      return job;
+    },
+    async cancel() {
+      job = job && finishJob(job, 'canceled', 60000);
+      return job;
+    }
+  };
+
+  return {
+    idFromName: (name: string) => name,
+    get: () => runner
+  };
+}
+
+// X-Test-User signs in and X-Test-Org picks the organization, standing in for sessionAuth and tenantResolver
+function createApp() {
+  const app = new Hono();
+  app.use('*', async (c, next) => {
+    const userId = c.req.header('X-Test-User');
+    if (userId) c.set('user', { id: userId, email: `${userId}@example.com`, name: userId } as any);
+    const orgId = c.req.header('X-Test-Org');
+    if (orgId) c.set('tenant', { id: orgId } as any);
+    return next();
+  });
+  app.get('/api/jobs/:id', handleGetJob);
+  app.delete('/api/jobs/:id', handleCancelJob);
+  return app;
+}
+
+describe('Assessment job state', () => {
+  it('accumulates stage progress and partial results', () => {
+    let job = newAssessmentJob(JOB_ID);
+    job = applyJobProgress(job, { stage: 'vision', status: 'completed', progress: 45, label: 'Vision analysis complete', partial: { vision_analysis: 'Stained drywall' } });
+    job = applyJobProgress(job, { stage: 'rag', status: 'started', progress: 50, label: 'Searching industry knowledge base...' });
+
+    expect(job).toMatchObject({ status: 'queued', stage: 'rag', progress: 50, partial: { vision_analysis: 'Stained drywall' } });
+  });
+
+  it('records the outcome and when the job expires', () => {
+    const job = newAssessmentJob(JOB_ID, { case_id: 'case-1', org_id: null });
+
+    const succeeded = finishJob(job, { result: { success: true } }, 60000);
+    expect(succeeded).toMatchObject({ status: 'succeeded', progress: 100, result: { success: true }, case_id: 'case-1' });
+    expect(Date.parse(succeeded.expires_at!) - Date.parse(succeeded.updated_at)).toBe(60000);
+
+    const failed = finishJob(job, { error: { status: 504, error: 'Request timeout', details: 'Too slow' } }, 60000);
+    expect(failed).toMatchObject({ status: 'failed', result: null, error: { status: 504 } });
+  });
+
+  it('gives jobs the longer AI timeout', () => {
+    const config = loadConfig();
+    expect(jobAssessmentConfig(config).ai.timeout_ms).toBe(config.jobs.ai_timeout_ms);
+    expect(config.ai.timeout_ms).toBeLessThan(config.jobs.ai_timeout_ms);
+  });
+
+  it('splits images into chunks and joins them back', () => {
+    const image = Uint8Array.from({ length: 2500 }, (_, index) => index % 251);
+    const chunks = splitImage(image, 1000);
+
+    expect(chunks.map(chunk => chunk.length)).toEqual([1000, 1000, 500]);
+    expect(joinImage(chunks)).toEqual(image);
+  });
+});
+
+describe('Job routes', () => {
+  it('reports a job and cancels it while it runs', async () => {
+    const running = { ...newAssessmentJob(JOB_ID, { owner_id: 'alice', org_id: null }), status: 'running' as const };
+    const env = { ASSESSMENT_JOBS: createMockJobs(running) };
+    const app = createApp();
+    const headers = { 'X-Test-User': 'alice' };
+
+    expect(await (await app.request(`/api/jobs/${JOB_ID}`, { headers }, env)).json()).toMatchObject({ success: true, job: { status: 'running' } });
+
+    const canceled = await app.request(`/api/jobs/${JOB_ID}`, { method: 'DELETE', headers }, env);
+    expect(canceled.status).toBe(200);
+    expect(await canceled.json()).toMatchObject({ job: { status: 'canceled' } });
+
+    expect((await app.request(`/api/jobs/${JOB_ID}`, { method: 'DELETE', headers }, env)).status).toBe(409);
+  });
+
+  it('hides jobs from other callers and organizations', async () => {
+    const running = { ...newAssessmentJob(JOB_ID, { owner_id: 'alice', org_id: 'org-a' }), status: 'running' as const };
+    const env = { ASSESSMENT_JOBS: createMockJobs(running) };
+    const app = createApp();
+
+    expect((await app.request(`/api/jobs/${JOB_ID}`, { headers: { 'X-Test-User': 'bob', 'X-Test-Org': 'org-a' } }, env)).status).toBe(404);
+    expect((await app.request(`/api/jobs/${JOB_ID}`, { headers: { 'X-Test-User': 'alice', 'X-Test-Org': 'org-b' } }, env)).status).toBe(404);
+    expect((await app.request(`/api/jobs/${JOB_ID}`, { headers: { 'X-Test-User': 'alice' } }, env)).status).toBe(404);
+    expect((await app.request(`/api/jobs/${JOB_ID}`, { method: 'DELETE', headers: { 'X-Test-User': 'bob', 'X-Test-Org': 'org-a' } }, env)).status).toBe(404);
+    expect((await app.request(`/api/jobs/${JOB_ID}`, { headers: { 'X-Test-User': 'alice', 'X-Test-Org': 'org-a' } }, env)).status).toBe(200);
+  });
+
+  it('rejects malformed IDs, unknown jobs and a missing binding', async () => {
+    const app = createApp();
+
+    expect((await app.request('/api/jobs/not-a-job', {}, { ASSESSMENT_JOBS: createMockJobs(null) })).status).toBe(400);
+    expect((await app.request(`/api/jobs/${JOB_ID}`, {}, { ASSESSMENT_JOBS: createMockJobs(null) })).status).toBe(404);
+    expect((await app.request(`/api/jobs/${JOB_ID}`, {}, {})).status).toBe(503);
+  });
+});
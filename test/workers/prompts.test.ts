@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { loadConfig, validateConfig, type AppConfig } from '../../workers/config';
+import { createCacheService, createPerformanceMonitor } from '../../workers/cache';
+import { runAssessment } from '../../workers/assessment';
+import { createRetryContext } from '../../workers/retry';
+import {
+  isKnownPromptVersion,
+  promptMessages,
+  promptVersionKey,
+  promptVersions,
+  renderPrompt
+} from '../../workers/prompts';
+
+function mockConfig(): AppConfig {
+  const config = loadConfig();
+  config.ai.provider = 'mock';
+  config.ai.mocks.latency_ms = 0;
+  config.performance.enable_caching = true;
+  return config;
+}
+
+describe('Prompt registry', () => {
+  it('renders templates with their variables and generation parameters', () => {
+    const prompt = renderPrompt('conversation', {
+      question: 'Is the subfloor ruined?',
+      industry_knowledge: null,
+      previous_assessment: { vision_analysis: 'Cupped hardwood', enhanced_assessment: 'Class 4 drying needed' }
+    });
+
+    expect(prompt).toMatchObject({ name: 'conversation', version: 1, params: { max_tokens: 1500 } });
+    expect(prompt.system).toContain('None - the knowledge base is currently unavailable');
+    expect(prompt.system).toContain('Vision Analysis: Cupped hardwood');
+    expect(promptMessages(prompt).map(message => message.role)).toEqual(['system', 'user']);
+    expect(promptMessages(renderPrompt('vision-analysis', {})).map(message => message.role)).toEqual(['user']);
+  });
+
+  it('uses the latest version unless one is pinned', () => {
+    expect(promptVersions(['findings', 'conversation'])).toEqual({ findings: 1, conversation: 1 });
+    expect(renderPrompt('findings-repair', { errors: ['severity is required'] }, { 'findings-repair': 1 }).user)
+      .toContain('severity is required');
+    expect(() => renderPrompt('vision-analysis', {}, { 'vision-analysis': 99 })).toThrow('Unknown prompt version vision-analysis@99');
+  });
+
+  it('rejects pinned versions that do not exist', () => {
+    const config = loadConfig();
+    expect(isKnownPromptVersion('conversation', 1)).toBe(true);
+
+    config.ai.prompt_versions = { conversation: 7 };
+    expect(validateConfig(config).errors).toContain('Unknown prompt version conversation@7');
+  });
+
+  it('builds the same cache key regardless of order', () => {
+    expect(promptVersionKey({ 'vision-analysis': 1, 'enhanced-assessment': 2 }))
+      .toBe(promptVersionKey({ 'enhanced-assessment': 2, 'vision-analysis': 1 }));
+    expect(promptVersionKey({ 'vision-analysis': 1, 'enhanced-assessment': 2 })).toBe('enhanced-assessment@2,vision-analysis@1');
+  });
+});
+
+describe('Prompt versions in assessments', () => {
+  it('records the versions in the result and keys the cache on them', async () => {
+    const config = mockConfig();
+    const cache = createCacheService(config);
+    const image = { valid: true as const, buffer: new Uint8Array([5, 6, 7, 8]), mimeType: 'image/jpeg', originalSize: 4, metadata: null };
+    const options = { config, cache, monitor: createPerformanceMonitor(), retry: createRetryContext(config), endTimer: () => 0 };
+
+    const result = await runAssessment({}, image, options);
+    expect(result.prompt_versions).toEqual({ 'vision-analysis': 1, 'enhanced-assessment': 1, 'findings': 1, 'findings-repair': 1 });
+
+    const imageHash = await cache.generateImageHash(image.buffer);
+    expect(await cache.getCachedAssessmentResult(imageHash, promptVersionKey(result.prompt_versions))).not.toBeNull();
+    expect(await cache.getCachedAssessmentResult(imageHash, promptVersionKey({ ...result.prompt_versions, 'enhanced-assessment': 2 }))).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+import { loadConfig } from '../../workers/config';
+import {
+  applySlidingWindow,
+  createRateLimiters,
+  MemoryRateLimitStore,
+  rateLimit,
+  type RateLimitResult,
+  type RateLimitStore,
+  type SlidingWindowState
+} from '../../workers/middleware/rate-limit';
+
+const MINUTE = 60 * 1000;
+
+function createApp(store: RateLimitStore, maxRequests = 2) {
+  const app = new Hono();
+  app.use('*', rateLimit({ windowMs: MINUTE, maxRequests, store }));
+  app.get('/', (c) => c.text('ok'));
+  return app;
+}
+
+describe('applySlidingWindow', () => {
+  it('allows requests up to the limit within a window', () => {
+    let state: SlidingWindowState | undefined;
+    const results: RateLimitResult[] = [];
+    for (let i = 0; i < 3; i++) {
+      const outcome = applySlidingWindow(state, 1000 + i, 2, MINUTE);
+      state = outcome.state;
+      results.push(outcome.result);
+    }
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, false]);
+    expect(results[1].remaining).toBe(0);
+    expect(results[2].retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it('weights the previous window by how much of it still overlaps', () => {
+    const full = { windowStart: 0, current: 10, previous: 0 };
+
+    // A quarter into the next window, 75% of the previous 10 requests still count
+    const early = applySlidingWindow(full, MINUTE + MINUTE / 4, 10, MINUTE);
+    expect(early.result.allowed).toBe(true);
+    expect(early.result.remaining).toBe(1);
+
+    const second = applySlidingWindow(early.state, MINUTE + MINUTE / 4, 10, MINUTE);
+    const blocked = applySlidingWindow(second.state, MINUTE + MINUTE / 4, 10, MINUTE);
+    expect(second.result.allowed).toBe(true);
+    expect(blocked.result.allowed).toBe(false);
+    expect(blocked.result.retryAfterMs).toBeLessThanOrEqual(MINUTE * 3 / 4);
+  });
+
+  it('forgets windows older than the previous one', () => {
+    const stale = { windowStart: 0, current: 10, previous: 10 };
+    const outcome = applySlidingWindow(stale, 3 * MINUTE, 10, MINUTE);
+
+    expect(outcome.state).toEqual({ windowStart: 3 * MINUTE, current: 1, previous: 0 });
+    expect(outcome.result.remaining).toBe(9);
+  });
+});
+
+describe('rateLimit middleware', () => {
+  it('sets standard RateLimit headers and rejects over the limit', async () => {
+    const app = createApp(new MemoryRateLimitStore());
+
+    const first = await app.request('/', { headers: { 'cf-connecting-ip': '1.1.1.1' } });
+    expect(first.status).toBe(200);
+    expect(first.headers.get('RateLimit-Limit')).toBe('2');
+    expect(first.headers.get('RateLimit-Remaining')).toBe('1');
+    expect(first.headers.get('RateLimit-Policy')).toBe('2;w=60');
+
+    await app.request('/', { headers: { 'cf-connecting-ip': '1.1.1.1' } });
+    const limited = await app.request('/', { headers: { 'cf-connecting-ip': '1.1.1.1' } });
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+    const otherClient = await app.request('/', { headers: { 'cf-connecting-ip': '2.2.2.2' } });
+    expect(otherClient.status).toBe(200);
+  });
+
+  it('shares limits across isolates through the store', async () => {
+    const shared = new MemoryRateLimitStore();
+    const isolateA = createApp(shared, 1);
+    const isolateB = createApp(shared, 1);
+
+    expect((await isolateA.request('/')).status).toBe(200);
+    expect((await isolateB.request('/')).status).toBe(429);
+  });
+
+  it('allows requests when the store is unavailable', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const app = createApp({ hit: async () => { throw new Error('Durable Object unreachable'); } });
+
+    expect((await app.request('/')).status).toBe(200);
+  });
+
+  it('keeps separate budgets for each configured limiter', async () => {
+    const config = loadConfig();
+    config.api.rate_limits.ai.max_requests = 1;
+    const { apiRateLimit, aiRateLimit } = createRateLimiters(config);
+
+    const app = new Hono();
+    app.use('*', apiRateLimit);
+    app.use('/ai', aiRateLimit);
+    app.get('/ai', (c) => c.text('ok'));
+    const headers = { 'cf-connecting-ip': '10.0.0.1' };
+
+    expect((await app.request('/ai', { headers })).status).toBe(200);
+    const limited = await app.request('/ai', { headers });
+    expect(limited.status).toBe(429);
+    expect(await limited.json()).toMatchObject({ code: 'AI_RATE_LIMIT_EXCEEDED' });
+    expect(limited.headers.get('RateLimit-Limit')).toBe('1');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { loadConfig } from '../../workers/config';
+import {
+  createRetryContext,
+  isRetryableError,
+  retryDelayMs,
+  summarizeRetries,
+  withRetry,
+  withTimeout
+} from '../../workers/retry';
+
+const noSleep = { sleep: async () => {}, random: () => 0.5 };
+
+describe('isRetryableError', () => {
+  it('retries transient failures only', () => {
+    expect(isRetryableError(new Error('AI vision analysis timeout'))).toBe(true);
+    expect(isRetryableError(new Error('3040: Capacity temporarily exceeded'))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Upstream failed'), { status: 503 }))).toBe(true);
+
+    expect(isRetryableError(new Error('AI model not found'))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('Bad input'), { status: 400 }))).toBe(false);
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('doubles the backoff per retry with jitter in the upper half', () => {
+    expect(retryDelayMs(1, 1000, () => 0)).toBe(500);
+    expect(retryDelayMs(1, 1000, () => 1)).toBe(1000);
+    expect(retryDelayMs(3, 1000, () => 0.5)).toBe(3000);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable errors and counts the retries', async () => {
+    const context = createRetryContext(loadConfig());
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new Error('Network connection lost'))
+      .mockResolvedValueOnce({ response: 'ok' });
+
+    expect(await withRetry(context, 'vision', fn, noSleep)).toEqual({ response: 'ok' });
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(summarizeRetries(context)).toEqual({ total: 1, by_operation: { vision: 1 } });
+  });
+
+  it('gives up after max_attempts or on a non-retryable error', async () => {
+    const context = createRetryContext(loadConfig());
+    const failing = vi.fn().mockRejectedValue(new Error('Language model timeout'));
+    await expect(withRetry(context, 'language_model', failing, noSleep)).rejects.toThrow('Language model timeout');
+    expect(failing).toHaveBeenCalledTimes(loadConfig().api.retry.max_attempts);
+
+    const invalid = vi.fn().mockRejectedValue(new Error('AI model not found'));
+    await expect(withRetry(context, 'vision', invalid, noSleep)).rejects.toThrow('AI model not found');
+    expect(invalid).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry past the deadline and shrinks the attempt timeout', async () => {
+    const context = createRetryContext(loadConfig(), 1500);
+    const timeouts: number[] = [];
+    const fn = vi.fn(async (timeoutMs: number) => {
+      timeouts.push(timeoutMs);
+      throw new Error('AutoRAG timeout');
+    });
+
+    await expect(withRetry(context, 'autorag', fn, noSleep)).rejects.toThrow('AutoRAG timeout');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(timeouts[0]).toBeLessThanOrEqual(1500);
+    expect(context.retries).toEqual({});
+  });
+});
+
+describe('withTimeout', () => {
+  it('rejects with the given message when the call is too slow', async () => {
+    await expect(withTimeout(new Promise(() => {}), 10, 'AutoRAG timeout')).rejects.toThrow('AutoRAG timeout');
+    expect(await withTimeout(Promise.resolve('done'), 10, 'AutoRAG timeout')).toBe('done');
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { loadConfig } from '../../workers/config';
+import { createAssessmentStorage, createCaseStorage, isValidAssessmentId, isValidCaseId } from '../../workers/storage';
+
+// Minimal in-memory stand-in for an R2 bucket
+function createMockBucket() {
+  const objects = new Map<string, { data: Uint8Array | string; etag: string; httpMetadata?: any; customMetadata?: any }>();
+  let version = 0;
+
+  return {
+    objects,
+    async put(key: string, value: Uint8Array | string, options?: any) {
+      const existing = objects.get(key);
+      if (options?.onlyIf?.etagMatches && existing?.etag !== options.onlyIf.etagMatches) {
+        return null;
+      }
+      const etag = `etag-${++version}`;
+      objects.set(key, { data: value, etag, httpMetadata: options?.httpMetadata, customMetadata: options?.customMetadata });
+      return { key, etag };
+    },
+    async get(key: string) {
+      const object = objects.get(key);
+      if (!object) return null;
+      const size = typeof object.data === 'string' ? object.data.length : object.data.byteLength;
+      return {
+        body: object.data,
+        size,
+        etag: object.etag,
+        httpMetadata: object.httpMetadata,
+        json: async () => JSON.parse(object.data as string),
+      };
+    },
+    async head(key: string) {
+      return objects.has(key) ? { key } : null;
+    },
+    async delete(key: string) {
+      objects.delete(key);
+    },
+    // Pages in key order; the cursor is the index of the next key
+    async list(options: { prefix: string; limit?: number; cursor?: string }) {
+      const keys = Array.from(objects.keys()).filter(key => key.startsWith(options.prefix)).sort();
+      const start = options.cursor ? parseInt(options.cursor) : 0;
+      const end = Math.min(keys.length, start + (options.limit ?? 1000));
+      return {
+        objects: keys.slice(start, end).map(key => ({ key, customMetadata: objects.get(key)!.customMetadata, uploaded: new Date() })),
+        truncated: end < keys.length,
+        cursor: String(end),
+      };
+    },
+  };
+}
+
+describe('AssessmentStorage', () => {
+  let bucket: ReturnType<typeof createMockBucket>;
+
+  beforeEach(() => {
+    bucket = createMockBucket();
+  });
+
+  it('is disabled without an R2 binding', () => {
+    const storage = createAssessmentStorage(loadConfig());
+    expect(storage.isEnabled()).toBe(false);
+  });
+
+  it('is disabled when persistence is turned off', () => {
+    const storage = createAssessmentStorage(loadConfig({ ENABLE_PERSISTENCE: 'false' }), bucket as any);
+    expect(storage.isEnabled()).toBe(false);
+  });
+
+  it('generates valid assessment IDs', () => {
+    const storage = createAssessmentStorage(loadConfig(), bucket as any);
+    const id = storage.generateAssessmentId();
+    expect(isValidAssessmentId(id)).toBe(true);
+    expect(isValidAssessmentId('../other-key')).toBe(false);
+  });
+
+  it('stores and retrieves an assessment with its image', async () => {
+    const storage = createAssessmentStorage(loadConfig(), bucket as any);
+    const id = storage.generateAssessmentId();
+    const image = new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0, 0x00, 0x10]);
+
+    await storage.saveAssessment(id, image, 'image/jpeg', { success: true, vision_analysis: 'Wet drywall' });
+
+    const stored = await storage.getAssessment(id);
+    expect(stored?.id).toBe(id);
+    expect(stored?.image.mime_type).toBe('image/jpeg');
+    expect(stored?.image.size).toBe(image.length);
+    expect(stored?.result.vision_analysis).toBe('Wet drywall');
+
+    const storedImage = await storage.getImage(id);
+    expect(storedImage?.httpMetadata.contentType).toBe('image/jpeg');
+    expect(bucket.objects.has(`assessments/${id}/image`)).toBe(true);
+  });
+
+  it('indexes owned assessments under their user', async () => {
+    const storage = createAssessmentStorage(loadConfig(), bucket as any);
+    const owned = storage.generateAssessmentId();
+    const keyOwned = storage.generateAssessmentId();
+    await storage.saveAssessment(owned, new Uint8Array([1]), 'image/jpeg', { success: true }, 'user-1', 'user-1');
+    await storage.saveAssessment(keyOwned, new Uint8Array([1]), 'image/jpeg', { success: true }, 'key:key-1');
+    await storage.saveAssessment(storage.generateAssessmentId(), new Uint8Array([1]), 'image/jpeg', { success: true });
+
+    const history = await storage.listUserAssessments('user-1');
+    expect(history.map(entry => entry.assessment_id)).toEqual([owned]);
+    expect((await storage.getAssessment(owned))?.owner_id).toBe('user-1');
+    expect(await storage.listUserAssessments('user-2')).toEqual([]);
+    expect((await storage.getAssessment(keyOwned))?.owner_id).toBe('key:key-1');
+    expect(await storage.listUserAssessments('key:key-1')).toEqual([]);
+  });
+
+  it('keeps each organization\'s assessments apart', async () => {
+    const orgA = createAssessmentStorage(loadConfig(), bucket as any, 'org-a');
+    const id = orgA.generateAssessmentId();
+    await orgA.saveAssessment(id, new Uint8Array([1]), 'image/jpeg', { success: true }, 'user-1', 'user-1');
+
+    expect(bucket.objects.has(`orgs/org-a/assessments/${id}/result.json`)).toBe(true);
+    expect((await orgA.getAssessment(id))?.org_id).toBe('org-a');
+    expect(await createAssessmentStorage(loadConfig(), bucket as any, 'org-b').getAssessment(id)).toBeNull();
+    expect(await createAssessmentStorage(loadConfig(), bucket as any).getAssessment(id)).toBeNull();
+    expect((await orgA.listUserAssessments('user-1'))[0].org_id).toBe('org-a');
+  });
+
+  it('lists a user\'s newest assessments across listing pages', async () => {
+    const storage = createAssessmentStorage(loadConfig(), bucket as any);
+    const ids = Array.from({ length: 3 }, () => storage.generateAssessmentId());
+    for (const [i, id] of ids.entries()) {
+      await storage.linkToUser('user-1', id, `2024-01-0${i + 1}T00:00:00.000Z`);
+    }
+
+    // 1 per page stands in for the R2 page size
+    const realList = bucket.list;
+    bucket.list = options => realList({ ...options, limit: 1 });
+    expect((await storage.listUserAssessments('user-1', 2)).map(entry => entry.assessment_id)).toEqual([ids[2], ids[1]]);
+  });
+
+  it('returns null for unknown assessments', async () => {
+    const storage = createAssessmentStorage(loadConfig(), bucket as any);
+    expect(await storage.getAssessment(storage.generateAssessmentId())).toBeNull();
+  });
+});
+
+describe('CaseStorage', () => {
+  let bucket: ReturnType<typeof createMockBucket>;
+
+  beforeEach(() => {
+    bucket = createMockBucket();
+  });
+
+  it('creates, lists and deletes cases', async () => {
+    const storage = createCaseStorage(loadConfig(), bucket as any);
+    const created = await storage.createCase({ property_address: '12 Harbor Rd', loss_date: '2024-03-01' });
+
+    expect(isValidCaseId(created.id)).toBe(true);
+    expect(created.status).toBe('open');
+
+    const cases = await storage.listCases();
+    expect(cases).toHaveLength(1);
+    expect(cases[0]).toMatchObject({ id: created.id, property_address: '12 Harbor Rd', loss_date: '2024-03-01' });
+
+    expect(await storage.deleteCase(created.id)).toBe(true);
+    expect(await storage.getCase(created.id)).toBeNull();
+    expect(await storage.deleteCase(created.id)).toBe(false);
+  });
+
+  it('lists only the owner\'s cases when filtered', async () => {
+    const storage = createCaseStorage(loadConfig(), bucket as any);
+    const mine = await storage.createCase({ property_address: '1 Main St' }, 'user-1');
+    await storage.createCase({ property_address: '2 Side St' });
+
+    expect(mine.owner_id).toBe('user-1');
+    expect((await storage.listCases(100, 'user-1')).map(summary => summary.id)).toEqual([mine.id]);
+    expect(await storage.listCases()).toHaveLength(2);
+  });
+
+  it('keeps each organization\'s cases apart', async () => {
+    const orgA = createCaseStorage(loadConfig(), bucket as any, 'org-a');
+    const orgB = createCaseStorage(loadConfig(), bucket as any, 'org-b');
+    const created = await orgA.createCase({ property_address: '1 Main St' });
+
+    expect(bucket.objects.has(`orgs/org-a/cases/${created.id}.json`)).toBe(true);
+    expect((await orgA.listCases()).map(summary => summary.id)).toEqual([created.id]);
+    expect(await orgB.listCases()).toEqual([]);
+    expect(await createCaseStorage(loadConfig(), bucket as any).listCases()).toEqual([]);
+    expect(await orgB.getCase(created.id)).toBeNull();
+    expect(await orgB.addPhoto(created.id, { assessment_id: crypto.randomUUID() })).toBeNull();
+  });
+
+  it('pages through the listing until enough cases match the owner', async () => {
+    const storage = createCaseStorage(loadConfig(), bucket as any);
+    for (let i = 0; i < 4; i++) {
+      await storage.createCase({ property_address: `${i} Other St` });
+    }
+    const mine = await storage.createCase({ property_address: '1 Main St' }, 'user-1');
+
+    expect((await storage.listCases(1, 'user-1')).map(summary => summary.id)).toEqual([mine.id]);
+    expect(await storage.listCases(2)).toHaveLength(2);
+  });
+
+  it('attaches photos once per assessment', async () => {
+    const storage = createCaseStorage(loadConfig(), bucket as any);
+    const created = await storage.createCase({});
+    const assessmentId = crypto.randomUUID();
+
+    await storage.addPhoto(created.id, { assessment_id: assessmentId });
+    const updated = await storage.addPhoto(created.id, { assessment_id: assessmentId });
+
+    expect(updated?.photos).toHaveLength(1);
+    expect(updated?.photos[0].assessment_id).toBe(assessmentId);
+  });
+
+  it('records conversation turns in order', async () => {
+    const storage = createCaseStorage(loadConfig(), bucket as any);
+    const created = await storage.createCase({});
+
+    const updated = await storage.addMessages(created.id, [
+      { role: 'user', content: 'Is the drywall salvageable?' },
+      { role: 'assistant', content: 'It can likely be dried in place.' }
+    ]);
+
+    expect(updated?.messages.map(message => message.role)).toEqual(['user', 'assistant']);
+    expect((await storage.getCase(created.id))?.messages).toHaveLength(2);
+  });
+
+  it('returns null when updating a missing case', async () => {
+    const storage = createCaseStorage(loadConfig(), bucket as any);
+    expect(await storage.addPhoto(crypto.randomUUID(), { assessment_id: crypto.randomUUID() })).toBeNull();
+  });
+});
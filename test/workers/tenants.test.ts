@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+import { loadConfig } from '../../workers/config';
+import { createApiKeyStore } from '../../workers/api-keys';
+import { createTenantStore, tenantConfigOverrides, type OrganizationFields } from '../../workers/tenants';
+import { apiKeyAuth } from '../../workers/middleware/api-key';
+import { getRequestConfig, invalidateTenantCache, tenantResolver } from '../../workers/middleware/tenant';
+import { MemoryRateLimitStore, rateLimit } from '../../workers/middleware/rate-limit';
+import { loadClientConfig } from '../../app/utils/client-config';
+
+// Minimal in-memory stand-in for a KV namespace
+function createMockKV() {
+  const entries = new Map<string, { value: string; metadata?: unknown }>();
+
+  return {
+    entries,
+    async get(key: string, type?: string) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      return type === 'json' ? JSON.parse(entry.value) : entry.value;
+    },
+    async put(key: string, value: string, options?: { metadata?: unknown }) {
+      entries.set(key, { value, metadata: options?.metadata });
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list(options: { prefix?: string }) {
+      return {
+        keys: Array.from(entries.entries())
+          .filter(([key]) => key.startsWith(options.prefix ?? ''))
+          .map(([name, entry]) => ({ name, metadata: entry.metadata })),
+        list_complete: true,
+        cursor: ''
+      };
+    },
+  };
+}
+
+function acmeFields(overrides: Partial<OrganizationFields> = {}): OrganizationFields {
+  return {
+    id: 'acme-restoration',
+    name: 'Acme Restoration',
+    hostnames: ['inspect.acme.example'],
+    branding: { app_name: 'Acme Inspect', primary_color: '#1a73e8', accent_color: '#8ab4f8', logo_url: '/logos/acme.svg' },
+    rate_plan: 'professional',
+    config: { ai: { autorag_dataset: 'acme-knowledge' }, api: { limits: { max_batch_size: 5 } } },
+    ...overrides
+  };
+}
+
+describe('TenantStore', () => {
+  let kv: ReturnType<typeof createMockKV>;
+
+  beforeEach(() => {
+    kv = createMockKV();
+  });
+
+  it('creates organizations and finds them by normalized hostname', async () => {
+    const store = createTenantStore(kv as any);
+    const org = await store.create(acmeFields({ hostnames: ['Inspect.Acme.Example'] }));
+
+    expect(org?.hostnames).toEqual(['inspect.acme.example']);
+    expect((await store.findByHostname('INSPECT.acme.example:8443'))?.id).toBe('acme-restoration');
+    expect(await store.findByHostname('other.example')).toBeNull();
+    expect(await store.create(acmeFields())).toBeNull();
+  });
+
+  it('re-indexes hostnames on update and removes them on delete', async () => {
+    const store = createTenantStore(kv as any);
+    await store.create(acmeFields());
+
+    await store.update('acme-restoration', { hostnames: ['app.acme.example'] });
+    expect(await store.findByHostname('inspect.acme.example')).toBeNull();
+    expect((await store.findByHostname('app.acme.example'))?.id).toBe('acme-restoration');
+    expect(await store.findHostnameOwner(['app.acme.example'], 'other-org')).toEqual({ hostname: 'app.acme.example', id: 'acme-restoration' });
+
+    expect(await store.delete('acme-restoration')).toBe(true);
+    expect(await store.findByHostname('app.acme.example')).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe('Tenant configuration', () => {
+  it('merges the rate plan and overrides over the deployment config', () => {
+    const config = loadConfig({}, tenantConfigOverrides(acmeFields()));
+
+    expect(config.ai.autorag_dataset).toBe('acme-knowledge');
+    expect(config.ai.vision_model).toBe(loadConfig().ai.vision_model);
+    expect(config.api.limits.max_batch_size).toBe(5);
+    expect(config.api.rate_limits.ai.max_requests).toBe(100);
+    expect(config.api.rate_limits.auth).toEqual(loadConfig().api.rate_limits.auth);
+  });
+
+  it('lets explicit rate limits win over the plan and still validates them', () => {
+    const fields = acmeFields({ config: { api: { rate_limits: { ai: { window_ms: 60000, max_requests: 7 } } } } });
+    expect(loadConfig({}, tenantConfigOverrides(fields)).api.rate_limits.ai.max_requests).toBe(7);
+
+    const invalid = acmeFields({ config: { ai: { confidence_threshold: 2 } } });
+    expect(() => loadConfig({}, tenantConfigOverrides(invalid))).toThrow('Confidence threshold');
+  });
+
+  it('applies branding to the client config', () => {
+    const config = loadClientConfig('production', { ui: acmeFields().branding });
+
+    expect(config.ui.app_name).toBe('Acme Inspect');
+    expect(config.ui.logo_url).toBe('/logos/acme.svg');
+    expect(config.ui.enable_debug).toBe(false);
+    expect(loadClientConfig().ui.app_name).toBe('Aqua Inspect Vision');
+  });
+});
+
+describe('tenantResolver middleware', () => {
+  let env: Record<string, any>;
+
+  function createApp() {
+    const app = new Hono();
+    app.use('*', apiKeyAuth());
+    app.use('*', tenantResolver());
+    app.get('/', (c) => c.json({ tenant: c.get('tenant')?.id ?? null, dataset: getRequestConfig(c).ai.autorag_dataset }));
+    return app;
+  }
+
+  beforeEach(async () => {
+    await invalidateTenantCache();
+    env = { TENANTS: createMockKV(), API_KEYS: createMockKV() };
+    await createTenantStore(env.TENANTS).create(acmeFields());
+  });
+
+  it('resolves the organization from the hostname', async () => {
+    const app = createApp();
+
+    expect(await (await app.request('http://inspect.acme.example/', {}, env)).json())
+      .toEqual({ tenant: 'acme-restoration', dataset: 'acme-knowledge' });
+    expect(await (await app.request('http://other.example/', {}, env)).json())
+      .toEqual({ tenant: null, dataset: loadConfig().ai.autorag_dataset });
+  });
+
+  it("prefers the API key's organization over the hostname", async () => {
+    const { key } = await createApiKeyStore(loadConfig(), env.API_KEYS).issue({
+      name: 'Acme portal',
+      scopes: ['assess-damage'],
+      org_id: 'acme-restoration'
+    });
+    const app = createApp();
+
+    const response = await app.request('http://api.shared.example/', { headers: { 'X-API-Key': key } }, env);
+    expect(await response.json()).toMatchObject({ tenant: 'acme-restoration' });
+  });
+
+  it('sizes rate limits from the rate plan', async () => {
+    const app = new Hono();
+    app.use('*', tenantResolver());
+    app.use('*', rateLimit({
+      name: 'ai',
+      windowMs: 60000,
+      maxRequests: 1,
+      store: new MemoryRateLimitStore(),
+      resolvePolicy: (c) => c.get('config')?.api.rate_limits.ai
+    }));
+    app.get('/', (c) => c.text('ok'));
+
+    const response = await app.request('http://inspect.acme.example/', {}, env);
+    expect(response.headers.get('RateLimit-Limit')).toBe('100');
+  });
+
+  it('falls back to the deployment config when TENANTS is not bound', async () => {
+    const app = createApp();
+    expect(await (await app.request('http://inspect.acme.example/', {}, {})).json())
+      .toMatchObject({ tenant: null });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { loadConfig } from '../../workers/config';
+import {
+  SIGNATURE_HEADER,
+  createWebhookStore,
+  dispatchWebhookEvent,
+  newDelivery,
+  runDeliveryAttempt,
+  signWebhookPayload,
+  webhookBackoffMs,
+  type WebhookStore
+} from '../../workers/webhooks';
+
+// Minimal in-memory stand-in for a KV namespace
+function createMockKV() {
+  const entries = new Map<string, { value: string; metadata?: unknown }>();
+
+  return {
+    entries,
+    async get(key: string, type?: string) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      return type === 'json' ? JSON.parse(entry.value) : entry.value;
+    },
+    async put(key: string, value: string, options?: { metadata?: unknown }) {
+      entries.set(key, { value, metadata: options?.metadata });
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list(options: { prefix?: string }) {
+      return {
+        keys: Array.from(entries.entries())
+          .filter(([key]) => key.startsWith(options.prefix ?? ''))
+          .map(([name, entry]) => ({ name, metadata: entry.metadata })),
+        list_complete: true,
+        cursor: ''
+      };
+    },
+  };
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function payload(event: 'assessment.completed' | 'conversation.message' = 'assessment.completed') {
+  return { id: 'evt-1', event, created_at: new Date().toISOString(), org_id: null, data: { assessment_id: 'a-1' } };
+}
+
+describe('Webhook signing and backoff', () => {
+  it('signs the timestamp and body so receivers can verify them', async () => {
+    const signature = await signWebhookPayload('whsec_test', 1700000000, '{"ok":true}');
+    expect(signature).toBe(`t=1700000000,v1=${await hmacHex('whsec_test', '1700000000.{"ok":true}')}`);
+  });
+
+  it('doubles the delay per attempt up to the configured maximum', () => {
+    const config = loadConfig();
+    expect(webhookBackoffMs(1, config)).toBe(config.webhooks.backoff_base_ms);
+    expect(webhookBackoffMs(2, config)).toBe(config.webhooks.backoff_base_ms * 2);
+    expect(webhookBackoffMs(20, config)).toBe(config.webhooks.backoff_max_ms);
+  });
+});
+
+describe('runDeliveryAttempt', () => {
+  const config = loadConfig();
+  let store: WebhookStore;
+
+  beforeEach(() => {
+    store = createWebhookStore(config, createMockKV() as any);
+  });
+
+  it('posts a signed payload and marks the delivery succeeded', async () => {
+    const subscription = await store.createSubscription({ org_id: null, url: 'https://hooks.example/damage', events: ['assessment.completed'] });
+    const fetcher = vi.fn(async () => new Response('ok'));
+
+    const delivery = await runDeliveryAttempt(store, config, newDelivery(subscription.id, payload()), { canRetry: true, fetcher });
+
+    expect(delivery.status).toBe('succeeded');
+    expect(delivery.attempts).toHaveLength(1);
+    const [url, init] = fetcher.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe('https://hooks.example/damage');
+    expect(headers['X-Webhook-Event']).toBe('assessment.completed');
+    const timestamp = headers[SIGNATURE_HEADER].match(/^t=(\d+),/)![1];
+    expect(headers[SIGNATURE_HEADER]).toBe(`t=${timestamp},v1=${await hmacHex(subscription.secret, `${timestamp}.${init.body}`)}`);
+    expect((await store.getDelivery(subscription.id, delivery.id))?.status).toBe('succeeded');
+  });
+
+  it('schedules a retry until the attempts run out', async () => {
+    const subscription = await store.createSubscription({ org_id: null, url: 'https://hooks.example/damage', events: ['assessment.completed'] });
+    const fetcher = vi.fn(async () => new Response('unavailable', { status: 503 }));
+
+    let delivery = await runDeliveryAttempt(store, config, newDelivery(subscription.id, payload()), { canRetry: true, fetcher });
+    expect(delivery.status).toBe('pending');
+    expect(delivery.attempts[0].error).toBe('HTTP 503: unavailable');
+    expect(Date.parse(delivery.next_attempt_at!)).toBeGreaterThan(Date.now());
+
+    while (delivery.status === 'pending') {
+      delivery = await runDeliveryAttempt(store, config, delivery, { canRetry: true, fetcher });
+    }
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toHaveLength(config.webhooks.max_attempts);
+    expect(delivery.next_attempt_at).toBeNull();
+  });
+
+  it('fails without retrying when the subscription was deleted', async () => {
+    const subscription = await store.createSubscription({ org_id: null, url: 'https://hooks.example/damage', events: ['assessment.completed'] });
+    await store.deleteSubscription(subscription.id);
+    const fetcher = vi.fn(async () => new Response('ok'));
+
+    const delivery = await runDeliveryAttempt(store, config, newDelivery(subscription.id, payload()), { canRetry: true, fetcher });
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts[0].error).toBe('Subscription was deleted');
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+});
+
+describe('dispatchWebhookEvent', () => {
+  const config = loadConfig();
+  let env: Record<string, any>;
+
+  beforeEach(() => {
+    env = { WEBHOOKS: createMockKV() };
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('ok')));
+    return () => vi.unstubAllGlobals();
+  });
+
+  it("delivers only to the organization's subscriptions for that event", async () => {
+    const store = createWebhookStore(config, env.WEBHOOKS);
+    const acme = await store.createSubscription({ org_id: 'acme-restoration', url: 'https://acme.example/hooks', events: ['assessment.completed'] });
+    await store.createSubscription({ org_id: 'acme-restoration', url: 'https://acme.example/chat', events: ['conversation.message'] });
+    await store.createSubscription({ org_id: 'other-org', url: 'https://other.example/hooks', events: ['assessment.completed'] });
+
+    const deliveries = await dispatchWebhookEvent(env, config, 'acme-restoration', 'assessment.completed', { assessment_id: 'a-1' });
+
+    expect(deliveries.map(delivery => delivery.subscription_id)).toEqual([acme.id]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const [logged] = await store.listDeliveries(acme.id, 50);
+    expect(logged).toMatchObject({ event: 'assessment.completed', status: 'succeeded', attempt_count: 1 });
+  });
+
+  it('does nothing when the WEBHOOKS binding is missing', async () => {
+    expect(await dispatchWebhookEvent({}, config, null, 'assessment.completed', {})).toEqual([]);
+  });
+
+  it('keeps the event ID on redelivery so receivers can deduplicate', async () => {
+    const store = createWebhookStore(config, env.WEBHOOKS);
+    const subscription = await store.createSubscription({ org_id: null, url: 'https://hooks.example/damage', events: ['conversation.message'] });
+    const [original] = await dispatchWebhookEvent(env, config, null, 'conversation.message', { question: 'Is this mould?' });
+
+    const redelivery = newDelivery(subscription.id, original.payload, original.id);
+
+    expect(redelivery.id).not.toBe(original.id);
+    expect(redelivery.payload.id).toBe(original.payload.id);
+    expect(redelivery.redelivery_of).toBe(original.id);
+  });
+});
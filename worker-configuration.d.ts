@@ -1,14 +1,18 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: ace84589dd5dbd6f767e40e52e58b8bb)
+// Generated by Wrangler by running `wrangler types` (hash: dd70f1112f84ed9a7644304d677f226d)
 // Runtime types generated with workerd@1.20250617.0 2025-04-01 
 declare namespace Cloudflare {
 	interface Env {
 		VALUE_FROM_CLOUDFLARE: "Production Environment - DamageScan" | "Development Environment - DamageScan";
-		ENABLE_DEV_MOCKS: "false" | "true";
-		AI_TIMEOUT_MS: "30000" | "5000";
+		ENABLE_DEV_MOCKS: "false";
+		AI_TIMEOUT_MS: "30000";
 		NODE_ENV: "production" | "development";
+		RATE_LIMITER: DurableObjectNamespace<import("./workers/app").RateLimiter>;
+		WEBHOOK_DISPATCHER: DurableObjectNamespace<import("./workers/app").WebhookDispatcher>;
+		ASSESSMENT_JOBS: DurableObjectNamespace<import("./workers/app").AssessmentJobRunner>;
 		R2_BUCKET: R2Bucket;
 		AI: Ai;
+		IMAGES: ImagesBinding;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -0,0 +1,49 @@
+/**
+ * Access to stored cases and assessments
+ * Every record is owned by whoever created it: a signed-in user, an API key, or an anonymous browser session.
+ * Only that owner may read it. The admin token sees everything, including unowned records saved before ownership
+ * was recorded
+ */
+
+import type { Context } from 'hono';
+import { isAdminRequest } from './middleware/api-key';
+
+export interface RecordAccessor {
+  admin: boolean;
+  userId: string | null;
+  apiKeyId: string | null;
+  anonymousId: string | null;
+}
+
+export async function resolveAccessor(c: Context): Promise<RecordAccessor> {
+  return {
+    admin: await isAdminRequest(c),
+    userId: c.get('user')?.id ?? null,
+    apiKeyId: c.get('apiKey')?.id ?? null,
+    anonymousId: c.get('anonymousId') ?? null
+  };
+}
+
+// Owner ID stamped on records the accessor creates; prefixed so key and session IDs never collide with user IDs
+export function recordOwner(accessor: RecordAccessor): string | null {
+  if (accessor.userId) return accessor.userId;
+  if (accessor.apiKeyId) return `key:${accessor.apiKeyId}`;
+  if (accessor.anonymousId) return `anon:${accessor.anonymousId}`;
+  return null;
+}
+
+// No user, API key or anonymous session, so nothing the caller creates could be read back
+export function isUnidentified(accessor: RecordAccessor): boolean {
+  return !accessor.admin && !recordOwner(accessor);
+}
+
+export function canAccessRecord(accessor: RecordAccessor, ownerId: string | null | undefined): boolean {
+  if (accessor.admin) return true;
+  return !!ownerId && ownerId === recordOwner(accessor);
+}
+
+// Owner filter for listings: undefined lists everything, a string one owner's records
+export function listingOwner(accessor: RecordAccessor): string | null | undefined {
+  if (accessor.admin) return undefined;
+  return recordOwner(accessor);
+}
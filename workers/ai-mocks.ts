@@ -1,6 +1,8 @@
 /**
  * AI Mock Responses for Development Environment
- * Provides realistic mock data when Cloudflare AI services are unavailable
+ * Provides realistic mock data when Cloudflare AI services are unavailable.
+ * Responses come from named scenarios so QA and tests get the same answer for the same input: a request can pick
+ * one with the X-Mock-Scenario header, otherwise the image hash (mixed with ai.mocks.seed) chooses one
  */
 
 export interface MockVisionResponse {
@@ -21,25 +23,31 @@ export interface MockLanguageResponse {
   response: string;
 }
 
-// Remediation-focused mock vision analysis responses
-const MOCK_VISION_RESPONSES: MockVisionResponse[] = [
-  {
+export type MockOperation = 'vision' | 'search' | 'chat' | 'findings';
+
+export interface MockScenario {
+  vision: MockVisionResponse;
+  rag: MockRAGResponse;
+  assessment: string;
+  // JSON text as the language model would return it; deliberately malformed in some scenarios
+  findings: string;
+  // Error thrown instead of answering, to exercise timeouts and outages
+  failures?: Partial<Record<MockOperation, string>>;
+  // Error scenarios are only used when requested by name, never picked by image hash
+  error_case?: boolean;
+}
+
+export interface MockOptions {
+  seed: number;
+  latency_ms: number;
+}
+
+const CATEGORY1_CLEAN_WATER: MockScenario = {
+  vision: {
     description: "**Materials Damaged:** Painted drywall with bubbling/peeling paint, potential insulation behind wall. **Damage Class:** Class 2 (part of room affected). **Water Category:** Category 1 (clean water source). **Removal vs Drying:** Drywall can likely be dried in place if moisture content <25%, paint requires removal and reapplication. **Room Concerns:** Check for hidden damage behind baseboards, ensure adequate ventilation for drying. **Safety Issues:** No immediate structural concerns, standard PPE recommended.",
     confidence: 0.85
   },
-  {
-    description: "**Materials Damaged:** Acoustic ceiling tiles (removal required), drywall substrate, potential ceiling insulation. **Damage Class:** Class 3 (ceiling overhead, gravity-fed). **Water Category:** Category 2 (gray water - potential contamination). **Removal vs Drying:** All ceiling tiles must be removed, drywall assessment needed with moisture meter. **Room Concerns:** Structural integrity of ceiling joists requires inspection, containment recommended. **Safety Issues:** Potential overhead hazard, hard hat required during inspection.",
-    confidence: 0.78
-  },
-  {
-    description: "**Materials Damaged:** Laminate/hardwood flooring, subflooring, potential floor joists. **Damage Class:** Class 4 (specialty drying situations). **Water Category:** Category 1-2 (depends on source). **Removal vs Drying:** Flooring requires removal, subfloor assessment with moisture readings. **Room Concerns:** Check crawl space/basement below for additional damage, HVAC duct inspection if present. **Safety Issues:** Floor stability concerns, avoid heavy equipment until structural assessment.",
-    confidence: 0.82
-  }
-];
-
-// Mock industry knowledge responses
-const MOCK_RAG_RESPONSES: MockRAGResponse[] = [
-  {
+  rag: {
     response: "According to IICRC S500 standards, water damage restoration should begin within 24-48 hours to prevent secondary damage including microbial growth. Class 2 water damage (affecting part of a room) requires controlled drying with proper ventilation and monitoring.",
     data: [
       {
@@ -48,83 +56,430 @@ const MOCK_RAG_RESPONSES: MockRAGResponse[] = [
         relevance: 0.92
       },
       {
-        source: "EPA Mold Remediation Guidelines", 
+        source: "EPA Mold Remediation Guidelines",
         content: "Prevention of microbial growth in water-damaged materials",
         relevance: 0.88
       }
     ]
   },
-  {
-    response: "Professional water extraction and structural drying are essential for Category 1 clean water damage. Affected materials should be evaluated within 24 hours, with porous materials like drywall potentially requiring replacement if saturation exceeds industry standards.",
-    data: [
-      {
-        source: "IICRC S500 Water Damage Restoration",
-        content: "Material evaluation and replacement criteria",
-        relevance: 0.95
-      },
-      {
-        source: "Building Performance Institute Guidelines",
-        content: "Structural drying protocols and equipment specifications",
-        relevance: 0.87
-      }
-    ]
+  assessment: "Based on the water damage analysis, this appears to be a moderate water intrusion affecting drywall materials. **Immediate Action Required:** The affected area should be assessed by a certified water damage restoration professional within 24 hours to prevent secondary damage.\n\n**Recommended Steps:** 1) Document damage with photographs for insurance, 2) Remove any wet materials like carpeting or padding, 3) Establish proper ventilation and dehumidification, 4) Monitor moisture levels daily.\n\n**What specific concerns do you have about this damage?**",
+  findings: JSON.stringify({
+    damage_present: true,
+    damage_types: ['water'],
+    severity: 'moderate',
+    water_class: 2,
+    water_category: 1,
+    materials: [
+      { name: 'Painted drywall', action: 'dry_in_place' },
+      { name: 'Wall insulation', action: 'inspect' }
+    ],
+    hazards: ['Standard PPE recommended'],
+    next_steps: ['Take moisture readings behind baseboards', 'Set up air movers and dehumidification', 'Repaint once drywall is dry']
+  })
+};
+
+// Remediation-focused scenarios, keyed by the name accepted in X-Mock-Scenario
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  'category1-clean-water': CATEGORY1_CLEAN_WATER,
+
+  'category2-gray-water': {
+    vision: {
+      description: "**Materials Damaged:** Acoustic ceiling tiles (removal required), drywall substrate, potential ceiling insulation. **Damage Class:** Class 3 (ceiling overhead, gravity-fed). **Water Category:** Category 2 (gray water - potential contamination). **Removal vs Drying:** All ceiling tiles must be removed, drywall assessment needed with moisture meter. **Room Concerns:** Structural integrity of ceiling joists requires inspection, containment recommended. **Safety Issues:** Potential overhead hazard, hard hat required during inspection.",
+      confidence: 0.78
+    },
+    rag: {
+      response: "IICRC S500 treats Category 2 water as significantly contaminated. Porous materials such as ceiling tiles and insulation that are wet with gray water should be removed, and the structure cleaned and treated before controlled drying begins.",
+      data: [
+        {
+          source: "IICRC S500 Standard",
+          content: "Category 2 water: handling of contaminated porous materials",
+          relevance: 0.93
+        },
+        {
+          source: "OSHA Overhead Hazard Guidance",
+          content: "Protective equipment for work beneath damaged ceilings",
+          relevance: 0.81
+        }
+      ]
+    },
+    assessment: "I can see significant water damage that requires prompt professional attention. The staining patterns suggest this has been developing over time, which increases the risk of microbial growth. **Emergency Steps:** Contact a certified restoration company immediately and document everything for insurance purposes.\n\n**Important:** Avoid disturbing the affected area unnecessarily, as this can spread potential contaminants. Professional water extraction and controlled drying are essential for preventing further structural damage.\n\n**Would you like me to explain the repair process for this type of damage?**",
+    findings: JSON.stringify({
+      damage_present: true,
+      damage_types: ['water', 'structural'],
+      severity: 'severe',
+      water_class: 3,
+      water_category: 2,
+      materials: [
+        { name: 'Acoustic ceiling tiles', action: 'remove' },
+        { name: 'Drywall substrate', action: 'inspect' },
+        { name: 'Ceiling insulation', action: 'remove' }
+      ],
+      hazards: ['Overhead collapse risk', 'Gray water contamination'],
+      next_steps: ['Set up containment', 'Remove ceiling tiles', 'Inspect ceiling joists', 'Begin controlled drying']
+    })
+  },
+
+  'class4-hardwood': {
+    vision: {
+      description: "**Materials Damaged:** Laminate/hardwood flooring, subflooring, potential floor joists. **Damage Class:** Class 4 (specialty drying situations). **Water Category:** Category 1-2 (depends on source). **Removal vs Drying:** Flooring requires removal, subfloor assessment with moisture readings. **Room Concerns:** Check crawl space/basement below for additional damage, HVAC duct inspection if present. **Safety Issues:** Floor stability concerns, avoid heavy equipment until structural assessment.",
+      confidence: 0.82
+    },
+    rag: {
+      response: "Professional water extraction and structural drying are essential for Category 1 clean water damage. Affected materials should be evaluated within 24 hours, with porous materials like drywall potentially requiring replacement if saturation exceeds industry standards.",
+      data: [
+        {
+          source: "IICRC S500 Water Damage Restoration",
+          content: "Material evaluation and replacement criteria",
+          relevance: 0.95
+        },
+        {
+          source: "Building Performance Institute Guidelines",
+          content: "Structural drying protocols and equipment specifications",
+          relevance: 0.87
+        }
+      ]
+    },
+    assessment: "This water damage shows characteristics requiring immediate intervention. The affected materials appear to include both surface and potentially structural elements. **Critical Timeline:** Professional assessment needed within 24-48 hours to prevent irreversible damage and potential health hazards.\n\n**Insurance Documentation:** Take detailed photos from multiple angles, note the date/time of discovery, and keep records of any immediate actions taken. Professional restoration typically takes 3-5 days depending on extent.\n\n**Are you dealing with any insurance claims for this damage?**",
+    findings: JSON.stringify({
+      damage_present: true,
+      damage_types: ['water'],
+      severity: 'severe',
+      water_class: 4,
+      water_category: 2,
+      materials: [
+        { name: 'Laminate flooring', action: 'remove' },
+        { name: 'Subfloor', action: 'inspect' },
+        { name: 'Floor joists', action: 'inspect' }
+      ],
+      hazards: ['Floor stability concerns'],
+      next_steps: ['Remove flooring', 'Take subfloor moisture readings', 'Inspect crawl space and HVAC ducts']
+    })
+  },
+
+  'category3-sewage': {
+    vision: {
+      description: "**Materials Damaged:** Carpet and pad, lower drywall, wood baseboards, visible debris and discoloration from a floor drain backup. **Damage Class:** Class 2 (floor and lower walls). **Water Category:** Category 3 (black water - sewage). **Removal vs Drying:** Carpet, pad, baseboards and drywall to at least 2 feet above the water line must be removed and discarded. **Room Concerns:** Contamination may have wicked into wall cavities and subfloor. **Safety Issues:** Biohazard - full PPE including respirator, gloves and boots; keep occupants out of the area.",
+      confidence: 0.88
+    },
+    rag: {
+      response: "IICRC S500 classifies sewage as Category 3 water. Porous materials contacted by Category 3 water must be removed and disposed of, and remaining structural materials cleaned and treated with an appropriate antimicrobial before drying. Workers require PPE suited to biohazard exposure.",
+      data: [
+        {
+          source: "IICRC S500 Standard",
+          content: "Category 3 water: removal of porous materials and antimicrobial treatment",
+          relevance: 0.96
+        },
+        {
+          source: "OSHA Bloodborne and Biohazard Guidance",
+          content: "Protective equipment for sewage cleanup",
+          relevance: 0.84
+        }
+      ]
+    },
+    assessment: "This is a sewage backup, which the industry treats as Category 3 black water. **Safety First:** Keep everyone, especially children and pets, out of the area and don't try to clean it yourself without full protective equipment.\n\n**What Happens Next:** A restoration crew will remove the carpet, pad, baseboards and the lower section of drywall, then clean and disinfect the structure before drying it out. Expect 5-7 days including reconstruction.\n\n**Do you know whether the backup came from a floor drain, toilet or the main sewer line?**",
+    findings: JSON.stringify({
+      damage_present: true,
+      damage_types: ['water'],
+      severity: 'severe',
+      water_class: 2,
+      water_category: 3,
+      materials: [
+        { name: 'Carpet and pad', action: 'remove' },
+        { name: 'Lower drywall', action: 'remove' },
+        { name: 'Wood baseboards', action: 'remove' },
+        { name: 'Subfloor', action: 'inspect' }
+      ],
+      hazards: ['Sewage biohazard', 'Respirator and full PPE required'],
+      next_steps: ['Restrict access to the area', 'Remove contaminated porous materials', 'Clean and apply antimicrobial', 'Begin controlled drying']
+    })
+  },
+
+  'fire-smoke': {
+    vision: {
+      description: "**Materials Damaged:** Charred kitchen cabinets and countertop, heavy soot on ceiling and upper walls, melted light fixture. **Damage Type:** Fire with smoke damage spreading to the adjacent room. **Removal vs Cleaning:** Charred cabinetry must be removed; soot-covered drywall and ceiling can likely be cleaned and sealed. **Room Concerns:** Smoke odor in HVAC ducts, possible water damage from firefighting. **Safety Issues:** Check electrical circuits before restoring power, respirator recommended for soot.",
+      confidence: 0.86
+    },
+    rag: {
+      response: "IICRC S700 recommends identifying the type of smoke residue before cleaning, since dry, wet and protein residues need different methods. Charred structural materials are removed, while smoke-damaged surfaces are cleaned, sealed and deodorized, including the HVAC system.",
+      data: [
+        {
+          source: "IICRC S700 Standard",
+          content: "Fire and smoke damage restoration procedures",
+          relevance: 0.94
+        },
+        {
+          source: "NFPA 921 Guide",
+          content: "Fire scene safety and documentation",
+          relevance: 0.79
+        }
+      ]
+    },
+    assessment: "I can see fire damage centered on the kitchen with smoke spreading beyond it. **Immediate Steps:** Don't turn the power back on until an electrician has checked the circuits, and avoid wiping soot yourself since it smears into surfaces.\n\n**Restoration Plan:** Charred cabinets and the countertop will need to be removed, then the ceiling and walls cleaned, sealed and deodorized. The HVAC ducts should be cleaned too so the smoke odor doesn't come back. Most kitchen fire restorations take 2-4 weeks.\n\n**Was the fire department called, and did they use water to put it out?**",
+    findings: JSON.stringify({
+      damage_present: true,
+      damage_types: ['fire', 'smoke'],
+      severity: 'severe',
+      water_class: null,
+      water_category: null,
+      materials: [
+        { name: 'Kitchen cabinets', action: 'remove' },
+        { name: 'Countertop', action: 'remove' },
+        { name: 'Ceiling and upper walls', action: 'clean' },
+        { name: 'HVAC ducts', action: 'clean' }
+      ],
+      hazards: ['Electrical damage', 'Soot inhalation'],
+      next_steps: ['Have circuits inspected', 'Remove charred materials', 'Clean and seal smoke-damaged surfaces', 'Deodorize and clean HVAC']
+    })
+  },
+
+  'mold': {
+    vision: {
+      description: "**Materials Damaged:** Bathroom drywall and ceiling with dark spotted growth over roughly 15 square feet, peeling paint around the shower. **Damage Type:** Visible mold growth from long-term moisture. **Removal vs Cleaning:** Affected drywall must be removed under containment; non-porous surfaces can be cleaned. **Room Concerns:** Inadequate ventilation, possible leak behind the shower wall. **Safety Issues:** Respirator and gloves required, keep the area under negative pressure during removal.",
+      confidence: 0.83
+    },
+    rag: {
+      response: "IICRC S520 recommends containment and negative air pressure when removing mold-contaminated materials over 10 square feet. Porous materials with visible growth are removed, and the moisture source must be corrected or the growth will return.",
+      data: [
+        {
+          source: "IICRC S520 Standard",
+          content: "Mold remediation containment levels",
+          relevance: 0.95
+        },
+        {
+          source: "EPA Mold Remediation Guidelines",
+          content: "Remediation of mold in schools and commercial buildings",
+          relevance: 0.86
+        }
+      ]
+    },
+    assessment: "That dark spotting is mold growth, and at about 15 square feet it's beyond what should be cleaned without containment. **Why It Matters:** Disturbing it without precautions can spread spores to the rest of the home.\n\n**What's Involved:** A remediation crew will seal off the bathroom, remove the affected drywall under negative air pressure and clean the remaining surfaces. The moisture source, likely the shower wall or poor ventilation, has to be fixed or it will come back.\n\n**Does the bathroom have an exhaust fan, and have you noticed any leaks around the shower?**",
+    findings: JSON.stringify({
+      damage_present: true,
+      damage_types: ['mold'],
+      severity: 'moderate',
+      water_class: null,
+      water_category: null,
+      materials: [
+        { name: 'Bathroom drywall', action: 'remove' },
+        { name: 'Ceiling', action: 'inspect' },
+        { name: 'Tile surfaces', action: 'clean' }
+      ],
+      hazards: ['Mold spores', 'Respirator required'],
+      next_steps: ['Set up containment with negative air', 'Remove affected drywall', 'Find and fix the moisture source', 'Verify with post-remediation testing']
+    })
+  },
+
+  'structural': {
+    vision: {
+      description: "**Materials Damaged:** Diagonal crack running from the window corner across the foundation wall, bowing of the wall by about an inch, displaced mortar joints. **Damage Type:** Structural damage to the foundation. **Removal vs Repair:** Requires engineering evaluation before repair; wall may need bracing or reinforcement. **Room Concerns:** Doors and windows sticking above this wall, water seeping through the crack. **Safety Issues:** Do not load the area, keep clear of the bowed section until it is assessed.",
+      confidence: 0.8
+    },
+    rag: {
+      response: "Bowing foundation walls and diagonal cracks wider than 1/4 inch indicate active structural movement and should be evaluated by a licensed structural engineer. Temporary bracing may be needed before repairs such as wall anchors or carbon fiber reinforcement.",
+      data: [
+        {
+          source: "International Residential Code",
+          content: "Foundation wall requirements and repair",
+          relevance: 0.9
+        },
+        {
+          source: "ASCE Structural Assessment Guidelines",
+          content: "Evaluation of cracked and displaced masonry walls",
+          relevance: 0.85
+        }
+      ]
+    },
+    assessment: "This looks like active structural movement in the foundation wall, not just cosmetic cracking. **Right Now:** Keep heavy items and people away from the bowed section, and don't attempt repairs until a structural engineer has looked at it.\n\n**Likely Next Steps:** An engineer will assess how far the wall has moved and may recommend temporary bracing, followed by wall anchors or reinforcement. The water coming through the crack should be managed at the same time to avoid further damage.\n\n**When did you first notice the crack, and has it been getting wider?**",
+    findings: JSON.stringify({
+      damage_present: true,
+      damage_types: ['structural'],
+      severity: 'severe',
+      water_class: null,
+      water_category: null,
+      materials: [
+        { name: 'Foundation wall', action: 'inspect' },
+        { name: 'Mortar joints', action: 'inspect' }
+      ],
+      hazards: ['Wall collapse risk'],
+      next_steps: ['Keep clear of the bowed wall', 'Schedule a structural engineer', 'Install temporary bracing if advised', 'Manage water seepage']
+    })
+  },
+
+  'no-damage': {
+    vision: {
+      description: "**Materials Visible:** Painted drywall, baseboards and hardwood flooring in good condition. **Damage:** No visible damage, staining, discoloration or deformation. **Room Concerns:** None observed. **Safety Issues:** None observed.",
+      confidence: 0.9
+    },
+    rag: {
+      response: "When no damage is visible, IICRC guidance recommends documenting the condition of the space and checking for hidden moisture with a meter if a loss is suspected.",
+      data: [
+        {
+          source: "IICRC S500 Standard",
+          content: "Pre-loss condition documentation and moisture inspection",
+          relevance: 0.72
+        }
+      ]
+    },
+    assessment: "Good news: I don't see any visible damage in this photo. The walls, baseboards and flooring all look to be in good condition.\n\n**If You Suspect a Problem:** Damage isn't always visible, so a moisture meter reading is a quick way to rule out hidden water behind the walls or under the floor. It's also worth keeping this photo as a record of the room's condition.\n\n**Is there a particular spot or smell that made you concerned about damage here?**",
+    findings: JSON.stringify({
+      damage_present: false,
+      damage_types: [],
+      severity: 'none',
+      water_class: null,
+      water_category: null,
+      materials: [],
+      hazards: [],
+      next_steps: ['Keep the photo as a record of the room\'s condition']
+    })
+  },
+
+  'vision-timeout': {
+    ...CATEGORY1_CLEAN_WATER,
+    failures: { vision: 'AI vision analysis timeout' },
+    error_case: true
+  },
+
+  'autorag-timeout': {
+    ...CATEGORY1_CLEAN_WATER,
+    failures: { search: 'AutoRAG timeout' },
+    error_case: true
+  },
+
+  'language-timeout': {
+    ...CATEGORY1_CLEAN_WATER,
+    failures: { chat: 'Language model timeout' },
+    error_case: true
+  },
+
+  'model-unavailable': {
+    ...CATEGORY1_CLEAN_WATER,
+    failures: { vision: 'AI model not found' },
+    error_case: true
+  },
+
+  'malformed-findings': {
+    ...CATEGORY1_CLEAN_WATER,
+    // Truncated mid-object, as when the model runs out of tokens
+    findings: '{"damage_present": true, "damage_types": ["water"], "severity": "moder',
+    error_case: true
   }
-];
+};
 
-// Mock enhanced assessment responses
-const MOCK_LANGUAGE_RESPONSES: string[] = [
-  "Based on the water damage analysis, this appears to be a moderate water intrusion affecting drywall materials. **Immediate Action Required:** The affected area should be assessed by a certified water damage restoration professional within 24 hours to prevent secondary damage.\n\n**Recommended Steps:** 1) Document damage with photographs for insurance, 2) Remove any wet materials like carpeting or padding, 3) Establish proper ventilation and dehumidification, 4) Monitor moisture levels daily.\n\n**What specific concerns do you have about this damage?**",
-  
-  "I can see significant water damage that requires prompt professional attention. The staining patterns suggest this has been developing over time, which increases the risk of microbial growth. **Emergency Steps:** Contact a certified restoration company immediately and document everything for insurance purposes.\n\n**Important:** Avoid disturbing the affected area unnecessarily, as this can spread potential contaminants. Professional water extraction and controlled drying are essential for preventing further structural damage.\n\n**Would you like me to explain the repair process for this type of damage?**",
-  
-  "This water damage shows characteristics requiring immediate intervention. The affected materials appear to include both surface and potentially structural elements. **Critical Timeline:** Professional assessment needed within 24-48 hours to prevent irreversible damage and potential health hazards.\n\n**Insurance Documentation:** Take detailed photos from multiple angles, note the date/time of discovery, and keep records of any immediate actions taken. Professional restoration typically takes 3-5 days depending on extent.\n\n**Are you dealing with any insurance claims for this damage?**"
-];
+const DAMAGE_SCENARIOS = Object.keys(MOCK_SCENARIOS).filter(name => !MOCK_SCENARIOS[name].error_case);
+
+export function isMockScenario(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(MOCK_SCENARIOS, name);
+}
+
+// FNV-1a, so the same bytes and seed always pick the same scenario
+export function mockHash(input: Uint8Array | string, seed: number = 0): number {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
 
 export class AIMocks {
+  private options: MockOptions;
+  // Set by X-Mock-Scenario; otherwise each call picks from its input
+  private scenarioName: string | undefined;
+
+  constructor(options: MockOptions, scenarioName?: string) {
+    this.options = options;
+    this.scenarioName = scenarioName && isMockScenario(scenarioName) ? scenarioName : undefined;
+  }
+
   /**
    * Generate mock vision analysis response
    */
-  static async mockVisionAnalysis(imageBuffer: Uint8Array, prompt: string): Promise<MockVisionResponse> {
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
-    
-    // Return random but realistic response
-    const response = MOCK_VISION_RESPONSES[Math.floor(Math.random() * MOCK_VISION_RESPONSES.length)];
-    
-    // Add slight randomization to confidence
-    return {
-      ...response,
-      confidence: Math.max(0.6, response.confidence + (Math.random() - 0.5) * 0.1)
-    };
+  async mockVisionAnalysis(imageBuffer: Uint8Array, prompt: string): Promise<MockVisionResponse> {
+    const scenario = this.scenario(imageBuffer);
+    await this.respond(scenario, 'vision');
+    return scenario.vision;
   }
 
   /**
    * Generate mock AutoRAG search response
    */
-  static async mockAutoRAGSearch(query: string): Promise<MockRAGResponse> {
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 300 + Math.random() * 700));
-    
-    return MOCK_RAG_RESPONSES[Math.floor(Math.random() * MOCK_RAG_RESPONSES.length)];
+  async mockAutoRAGSearch(query: string): Promise<MockRAGResponse> {
+    const scenario = this.scenario(query);
+    await this.respond(scenario, 'search');
+    return scenario.rag;
   }
 
   /**
    * Generate mock language model response
    */
-  static async mockLanguageGeneration(messages: Array<{role: string; content: string}>): Promise<MockLanguageResponse> {
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 800 + Math.random() * 1200));
-    
-    return {
-      response: MOCK_LANGUAGE_RESPONSES[Math.floor(Math.random() * MOCK_LANGUAGE_RESPONSES.length)]
-    };
+  async mockLanguageGeneration(messages: Array<{role: string; content: string}>): Promise<MockLanguageResponse> {
+    const scenario = this.scenario(messageText(messages));
+    await this.respond(scenario, 'chat');
+    return { response: scenario.assessment };
   }
 
   /**
-   * Check if development mocks should be used
+   * Generate mock structured findings response (JSON text, as the language model would return it)
    */
-  static shouldUseMocks(config: any, env: any): boolean {
-    // Use mocks only if explicitly enabled
-    return config.ai.enable_dev_mocks === true;
+  async mockFindingsGeneration(messages: Array<{role: string; content: string}>): Promise<MockLanguageResponse> {
+    const scenario = this.scenario(messageText(messages));
+    await this.respond(scenario, 'findings');
+    return { response: scenario.findings };
   }
-}
\ No newline at end of file
+
+  /**
+   * Generate mock streaming language model response in the Workers AI event-stream format
+   */
+  async mockLanguageStream(messages: Array<{role: string; content: string}>): Promise<ReadableStream<Uint8Array>> {
+    const { response } = await this.mockLanguageGeneration(messages);
+    const tokens = response.match(/\S+\s*/g) || [];
+    const encoder = new TextEncoder();
+    // Spread roughly one call's latency over the answer
+    const tokenDelayMs = Math.round(this.options.latency_ms / 20);
+    let index = 0;
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (index >= tokens.length) {
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+          return;
+        }
+
+        // Simulate token generation delay
+        if (tokenDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, tokenDelayMs));
+        }
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ response: tokens[index++] })}\n\n`));
+      }
+    });
+  }
+
+  // The requested scenario, or the one matching the input. Later calls embed the vision description in their
+  // prompts, so they land on the same scenario as the image did
+  private scenario(input: Uint8Array | string): MockScenario {
+    if (this.scenarioName) return MOCK_SCENARIOS[this.scenarioName];
+
+    if (typeof input === 'string') {
+      const matched = DAMAGE_SCENARIOS.find(name => input.includes(MOCK_SCENARIOS[name].vision.description));
+      if (matched) return MOCK_SCENARIOS[matched];
+    }
+    return MOCK_SCENARIOS[DAMAGE_SCENARIOS[mockHash(input, this.options.seed) % DAMAGE_SCENARIOS.length]];
+  }
+
+  // Simulate processing delay, then fail if the scenario says so
+  private async respond(scenario: MockScenario, operation: MockOperation): Promise<void> {
+    if (this.options.latency_ms > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latency_ms));
+    }
+    const failure = scenario.failures?.[operation];
+    if (failure) {
+      throw new Error(failure);
+    }
+  }
+}
+
+function messageText(messages: Array<{role: string; content: string}>): string {
+  return messages.map(message => message.content).join('\n');
+}
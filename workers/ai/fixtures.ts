@@ -0,0 +1,232 @@
+/**
+ * Record-and-replay fixtures for AI calls
+ * Record mode saves every vision, AutoRAG and language request/response pair, keyed by a hash of the model and
+ * input. Replay mode serves those pairs back without calling a model, so tests and local dev run offline
+ */
+
+import { type AppConfig } from "../config";
+import { sha256Hex } from "../image-hash";
+import {
+  type AICallOptions,
+  type AIProvider,
+  type AIProviderName,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatResult,
+  type SearchResult,
+  type VisionInput,
+  type VisionResult
+} from "./provider";
+
+export type FixtureOperation = 'vision' | 'search' | 'chat' | 'chat_stream';
+
+export interface AIFixture {
+  key: string;
+  operation: FixtureOperation;
+  // Model name, or the AutoRAG dataset for searches
+  model: string;
+  // Images are recorded by hash rather than inline
+  request: any;
+  // Streams are recorded as the full event-stream text
+  response: any;
+  recorded_at: string;
+}
+
+export interface FixtureStore {
+  get(key: string): Promise<AIFixture | null>;
+  put(fixture: AIFixture): Promise<void>;
+}
+
+export class FixtureMissingError extends Error {
+  readonly key: string;
+
+  constructor(operation: FixtureOperation, key: string) {
+    super(`No recorded AI fixture for ${operation} request ${key}`);
+    this.name = 'FixtureMissingError';
+    this.key = key;
+  }
+}
+
+// Fixtures are stored one JSON object per pair under ai.fixtures.prefix
+export class R2FixtureStore implements FixtureStore {
+  private bucket: R2Bucket | undefined;
+  private prefix: string;
+
+  constructor(prefix: string, bucket?: R2Bucket) {
+    this.prefix = prefix;
+    this.bucket = bucket;
+  }
+
+  async get(key: string): Promise<AIFixture | null> {
+    const object = await this.requireBucket().get(this.objectKey(key));
+    return object ? await object.json() as AIFixture : null;
+  }
+
+  async put(fixture: AIFixture): Promise<void> {
+    await this.requireBucket().put(this.objectKey(fixture.key), JSON.stringify(fixture, null, 2), {
+      httpMetadata: { contentType: 'application/json' },
+      customMetadata: { operation: fixture.operation, model: fixture.model }
+    });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.prefix}/${key}.json`;
+  }
+
+  private requireBucket(): R2Bucket {
+    if (!this.bucket) {
+      throw new Error('R2 bucket binding not available for AI fixtures');
+    }
+    return this.bucket;
+  }
+}
+
+// Holds fixtures loaded from files, e.g. in tests
+export class MemoryFixtureStore implements FixtureStore {
+  private fixtures = new Map<string, AIFixture>();
+
+  constructor(fixtures: AIFixture[] = []) {
+    fixtures.forEach(fixture => this.fixtures.set(fixture.key, fixture));
+  }
+
+  async get(key: string): Promise<AIFixture | null> {
+    return this.fixtures.get(key) ?? null;
+  }
+
+  async put(fixture: AIFixture): Promise<void> {
+    this.fixtures.set(fixture.key, fixture);
+  }
+
+  all(): AIFixture[] {
+    return Array.from(this.fixtures.values());
+  }
+}
+
+// The models each provider calls, so recordings from one backend never answer for another
+export function fixtureModels(config: AppConfig, provider: AIProviderName): { vision: string; language: string; search: string } {
+  return provider === 'openai'
+    ? { vision: config.ai.openai.vision_model, language: config.ai.openai.language_model, search: config.ai.autorag_dataset }
+    : { vision: config.ai.vision_model, language: config.ai.language_model, search: config.ai.autorag_dataset };
+}
+
+export async function fixtureKey(model: string, request: any): Promise<string> {
+  return sha256Hex(new TextEncoder().encode(JSON.stringify({ model, request })));
+}
+
+// Requests as recorded and looked up; timeouts are left out so they don't change the key
+async function visionRequest(input: VisionInput): Promise<any> {
+  return { image_sha256: await sha256Hex(input.image), mime_type: input.mimeType, prompt: input.prompt };
+}
+
+function chatRequest(messages: ChatMessage[], options: ChatOptions): any {
+  return { messages, max_tokens: options.max_tokens ?? null, format: options.format ?? 'text' };
+}
+
+function streamOf(text: string): ReadableStream<Uint8Array> {
+  return new Response(text).body!;
+}
+
+// Passes every call to the wrapped provider and saves the successful pairs
+export class RecordingAIProvider implements AIProvider {
+  readonly name: AIProviderName;
+  private inner: AIProvider;
+  private store: FixtureStore;
+  private models: ReturnType<typeof fixtureModels>;
+
+  constructor(inner: AIProvider, store: FixtureStore, config: AppConfig) {
+    this.inner = inner;
+    this.store = store;
+    this.name = inner.name;
+    this.models = fixtureModels(config, inner.name);
+  }
+
+  async analyzeImage(input: VisionInput, options: AICallOptions): Promise<VisionResult> {
+    const result = await this.inner.analyzeImage(input, options);
+    await this.record('vision', this.models.vision, await visionRequest(input), result);
+    return result;
+  }
+
+  async search(query: string, options: AICallOptions): Promise<SearchResult> {
+    const result = await this.inner.search(query, options);
+    await this.record('search', this.models.search, { query }, result);
+    return result;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions): Promise<ChatResult> {
+    const result = await this.inner.chat(messages, options);
+    await this.record('chat', this.models.language, chatRequest(messages, options), result);
+    return result;
+  }
+
+  // The stream is saved once it has been read to the end; the write finishes before the stream closes
+  async chatStream(messages: ChatMessage[], options: ChatOptions): Promise<ReadableStream<Uint8Array>> {
+    const stream = await this.inner.chatStream(messages, options);
+    const decoder = new TextDecoder();
+    let text = '';
+
+    return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        text += decoder.decode(chunk, { stream: true });
+        controller.enqueue(chunk);
+      },
+      flush: async () => {
+        text += decoder.decode();
+        await this.record('chat_stream', this.models.language, chatRequest(messages, options), text);
+      }
+    }));
+  }
+
+  // A failed write shouldn't fail the call it records
+  private async record(operation: FixtureOperation, model: string, request: any, response: any): Promise<void> {
+    try {
+      await this.store.put({
+        key: await fixtureKey(model, { operation, ...request }),
+        operation,
+        model,
+        request,
+        response,
+        recorded_at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.warn('Failed to record AI fixture:', (error as Error).message);
+    }
+  }
+}
+
+// Serves recorded pairs in place of the provider; unrecorded requests fail instead of calling a model
+export class ReplayAIProvider implements AIProvider {
+  readonly name: AIProviderName;
+  private store: FixtureStore;
+  private models: ReturnType<typeof fixtureModels>;
+
+  constructor(name: AIProviderName, store: FixtureStore, config: AppConfig) {
+    this.name = name;
+    this.store = store;
+    this.models = fixtureModels(config, name);
+  }
+
+  async analyzeImage(input: VisionInput): Promise<VisionResult> {
+    return this.replay('vision', this.models.vision, await visionRequest(input));
+  }
+
+  async search(query: string): Promise<SearchResult> {
+    return this.replay('search', this.models.search, { query });
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions): Promise<ChatResult> {
+    return this.replay('chat', this.models.language, chatRequest(messages, options));
+  }
+
+  async chatStream(messages: ChatMessage[], options: ChatOptions): Promise<ReadableStream<Uint8Array>> {
+    return streamOf(await this.replay('chat_stream', this.models.language, chatRequest(messages, options)));
+  }
+
+  private async replay(operation: FixtureOperation, model: string, request: any): Promise<any> {
+    const key = await fixtureKey(model, { operation, ...request });
+    const fixture = await this.store.get(key);
+    if (!fixture) {
+      throw new FixtureMissingError(operation, key);
+    }
+    return fixture.response;
+  }
+}
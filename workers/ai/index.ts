@@ -0,0 +1,53 @@
+/**
+ * AI provider selection
+ */
+
+import { type AppConfig } from "../config";
+import { RecordingAIProvider, R2FixtureStore, ReplayAIProvider } from "./fixtures";
+import { MockAIProvider } from "./mock";
+import { OpenAICompatibleProvider } from "./openai";
+import { type AIProvider, type AIProviderName } from "./provider";
+import { WorkersAIProvider } from "./workers-ai";
+
+export type {
+  AICallOptions,
+  AIProvider,
+  AIProviderName,
+  ChatMessage,
+  ChatOptions,
+  ChatResult,
+  SearchResult,
+  VisionInput,
+  VisionResult
+} from "./provider";
+export { FixtureMissingError, MemoryFixtureStore, type AIFixture, type FixtureStore } from "./fixtures";
+
+// enable_dev_mocks predates ai.provider and still forces the mocks when set
+export function resolveProviderName(config: AppConfig): AIProviderName {
+  return config.ai.enable_dev_mocks ? 'mock' : config.ai.provider;
+}
+
+// mockScenario (from X-Mock-Scenario) only affects the mock provider
+export function createAIProvider(config: AppConfig, env: any, options: { mockScenario?: string } = {}): AIProvider {
+  const name = resolveProviderName(config);
+  const { mode, prefix } = config.ai.fixtures;
+
+  // Replay stands in for the configured provider without touching it
+  if (mode === 'replay') {
+    return new ReplayAIProvider(name, new R2FixtureStore(prefix, env?.R2_BUCKET), config);
+  }
+
+  const provider = createProvider(name, config, env, options);
+  return mode === 'record' ? new RecordingAIProvider(provider, new R2FixtureStore(prefix, env?.R2_BUCKET), config) : provider;
+}
+
+function createProvider(name: AIProviderName, config: AppConfig, env: any, options: { mockScenario?: string }): AIProvider {
+  switch (name) {
+    case 'mock':
+      return new MockAIProvider(config.ai.mocks, options.mockScenario);
+    case 'openai':
+      return new OpenAICompatibleProvider(config, env?.OPENAI_API_KEY, env?.AI);
+    default:
+      return new WorkersAIProvider(env?.AI, config);
+  }
+}
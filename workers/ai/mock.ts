@@ -0,0 +1,42 @@
+/**
+ * Mock provider for development
+ * Serves the scenario fixtures from AIMocks without touching the AI binding
+ */
+
+import { AIMocks, type MockOptions } from "../ai-mocks";
+import {
+  type AIProvider,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatResult,
+  type SearchResult,
+  type VisionInput,
+  type VisionResult
+} from "./provider";
+
+export class MockAIProvider implements AIProvider {
+  readonly name = 'mock';
+  private mocks: AIMocks;
+
+  constructor(options: MockOptions, scenario?: string) {
+    this.mocks = new AIMocks(options, scenario);
+  }
+
+  async analyzeImage(input: VisionInput): Promise<VisionResult> {
+    return this.mocks.mockVisionAnalysis(input.image, input.prompt);
+  }
+
+  async search(query: string): Promise<SearchResult> {
+    return this.mocks.mockAutoRAGSearch(query);
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions): Promise<ChatResult> {
+    return options.format === 'json'
+      ? this.mocks.mockFindingsGeneration(messages)
+      : this.mocks.mockLanguageGeneration(messages);
+  }
+
+  async chatStream(messages: ChatMessage[]): Promise<ReadableStream<Uint8Array>> {
+    return this.mocks.mockLanguageStream(messages);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * OpenAI-compatible provider
+ * Talks to any server implementing /chat/completions (a local model server during development, or a hosted API).
+ * Such servers have no AutoRAG, so knowledge base search still uses the AI binding when one is bound
+ */
+
+import { type AppConfig } from "../config";
+import { modelBreaker } from "../circuit-breaker";
+import { withTimeout } from "../retry";
+import { WorkersAIProvider } from "./workers-ai";
+import {
+  type AICallOptions,
+  type AIProvider,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatResult,
+  type SearchResult,
+  type VisionInput,
+  type VisionResult
+} from "./provider";
+
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai';
+  private config: AppConfig;
+  private apiKey: string | undefined;
+  private searchProvider: WorkersAIProvider | null;
+
+  constructor(config: AppConfig, apiKey?: string, binding?: any) {
+    this.config = config;
+    this.apiKey = apiKey;
+    this.searchProvider = binding ? new WorkersAIProvider(binding, config) : null;
+  }
+
+  async analyzeImage(input: VisionInput, options: AICallOptions): Promise<VisionResult> {
+    const model = this.config.ai.openai.vision_model;
+    const content = await modelBreaker(this.config, model).run(() => withTimeout(this.complete(model, [{
+      role: 'user',
+      content: [
+        { type: 'text', text: input.prompt },
+        { type: 'image_url', image_url: { url: `data:${input.mimeType};base64,${toBase64(input.image)}` } }
+      ]
+    }]), options.timeoutMs, 'AI vision analysis timeout'));
+
+    return { description: content };
+  }
+
+  async search(query: string, options: AICallOptions): Promise<SearchResult> {
+    if (!this.searchProvider) {
+      throw new Error('AutoRAG not available: the openai provider needs the AI binding for knowledge base search');
+    }
+    return this.searchProvider.search(query, options);
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions): Promise<ChatResult> {
+    const model = this.config.ai.openai.language_model;
+    const content = await modelBreaker(this.config, model).run(() => withTimeout(this.complete(model, messages, {
+      ...(options.max_tokens ? { max_tokens: options.max_tokens } : {}),
+      ...(options.format === 'json' ? { response_format: { type: 'json_object' } } : {})
+    }), options.timeoutMs, 'Language model timeout'));
+
+    return { response: content };
+  }
+
+  async chatStream(messages: ChatMessage[], options: ChatOptions): Promise<ReadableStream<Uint8Array>> {
+    const model = this.config.ai.openai.language_model;
+    const response = await modelBreaker(this.config, model).run(() => withTimeout(this.post({
+      model,
+      messages,
+      ...(options.max_tokens ? { max_tokens: options.max_tokens } : {}),
+      stream: true
+    }), options.timeoutMs, 'Language model timeout'));
+
+    return response.body!.pipeThrough(toWorkersAIEvents());
+  }
+
+  private async complete(model: string, messages: unknown[], extra: Record<string, unknown> = {}): Promise<string> {
+    const response = await this.post({ model, messages, ...extra });
+    const body: any = await response.json();
+    return body?.choices?.[0]?.message?.content ?? '';
+  }
+
+  private async post(body: Record<string, unknown>): Promise<Response> {
+    const url = `${this.config.ai.openai.base_url.replace(/\/+$/, '')}/chat/completions`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      // The status lets the retry logic tell transient failures from bad requests
+      throw Object.assign(new Error(`OpenAI-compatible server returned ${response.status}: ${details.slice(0, 200)}`), { status: response.status });
+    }
+    return response;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Rewrite `data: {"choices":[{"delta":{"content":"..."}}]}` events as Workers AI `data: {"response":"..."}` events
+export function toWorkersAIEvents(): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = '';
+
+  const forward = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') {
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      return;
+    }
+    try {
+      const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (text) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ response: text })}\n\n`));
+      }
+    } catch {
+      // Skip keep-alives and malformed events
+    }
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) forward(line, controller);
+    },
+    flush(controller) {
+      forward(buffer, controller);
+    }
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * AI provider interface
+ * Vision, knowledge base search and language model calls go through one provider chosen from config, so the
+ * pipeline doesn't care whether it talks to Workers AI, the development mocks or an OpenAI-compatible server
+ */
+
+export type AIProviderName = 'workers-ai' | 'mock' | 'openai';
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+// Providers apply the timeout themselves; retries stay with the caller, which owns the request deadline
+export interface AICallOptions {
+  timeoutMs: number;
+}
+
+export interface ChatOptions extends AICallOptions {
+  max_tokens?: number;
+  // 'json' when the caller parses the reply as a JSON object
+  format?: 'text' | 'json';
+}
+
+export interface VisionInput {
+  image: Uint8Array;
+  mimeType: string;
+  prompt: string;
+}
+
+export interface VisionResult {
+  description: string;
+  // Not every model reports one; callers fall back to ai.confidence_threshold
+  confidence?: number;
+}
+
+// AutoRAG aiSearch shape
+export interface SearchResult {
+  response: string;
+  data: any[];
+}
+
+export interface ChatResult {
+  response: string;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  analyzeImage(input: VisionInput, options: AICallOptions): Promise<VisionResult>;
+  search(query: string, options: AICallOptions): Promise<SearchResult>;
+  chat(messages: ChatMessage[], options: ChatOptions): Promise<ChatResult>;
+  // Streams `data: {"response":"..."}` events ending with `data: [DONE]`, as Workers AI does; the timeout
+  // covers the time until the stream starts
+  chatStream(messages: ChatMessage[], options: ChatOptions): Promise<ReadableStream<Uint8Array>>;
+}
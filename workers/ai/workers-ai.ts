@@ -0,0 +1,77 @@
+/**
+ * Workers AI provider
+ * Calls models and AutoRAG through the AI binding, behind the per-model and per-dataset circuit breakers
+ */
+
+import { type AppConfig } from "../config";
+import { autoragBreaker, modelBreaker } from "../circuit-breaker";
+import { withTimeout } from "../retry";
+import {
+  type AICallOptions,
+  type AIProvider,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatResult,
+  type SearchResult,
+  type VisionInput,
+  type VisionResult
+} from "./provider";
+
+export class WorkersAIProvider implements AIProvider {
+  readonly name = 'workers-ai';
+  private binding: any;
+  private config: AppConfig;
+
+  constructor(binding: any, config: AppConfig) {
+    this.binding = binding;
+    this.config = config;
+  }
+
+  async analyzeImage(input: VisionInput, options: AICallOptions): Promise<VisionResult> {
+    const model = this.config.ai.vision_model;
+    return modelBreaker(this.config, model).run(() => withTimeout(this.requireBinding().run(model, {
+      image: Array.from(input.image),
+      prompt: input.prompt
+    }), options.timeoutMs, 'AI vision analysis timeout'));
+  }
+
+  async search(query: string, options: AICallOptions): Promise<SearchResult> {
+    const binding = this.requireBinding();
+    if (typeof binding.autorag !== 'function') {
+      throw new Error('AutoRAG not available on the AI binding');
+    }
+    return autoragBreaker(this.config).run(() => withTimeout(
+      binding.autorag(this.config.ai.autorag_dataset).aiSearch({ query }),
+      options.timeoutMs,
+      'AutoRAG timeout'
+    ));
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions): Promise<ChatResult> {
+    const model = this.config.ai.language_model;
+    const result: any = await modelBreaker(this.config, model).run(() => withTimeout(this.requireBinding().run(model, {
+      messages,
+      ...(options.max_tokens ? { max_tokens: options.max_tokens } : {})
+    }), options.timeoutMs, 'Language model timeout'));
+
+    // Some models return already-parsed JSON instead of text
+    const response = result?.response;
+    return { response: typeof response === 'string' || response == null ? response ?? '' : JSON.stringify(response) };
+  }
+
+  async chatStream(messages: ChatMessage[], options: ChatOptions): Promise<ReadableStream<Uint8Array>> {
+    const model = this.config.ai.language_model;
+    return modelBreaker(this.config, model).run(() => withTimeout(this.requireBinding().run(model, {
+      messages,
+      ...(options.max_tokens ? { max_tokens: options.max_tokens } : {}),
+      stream: true
+    }) as Promise<ReadableStream<Uint8Array>>, options.timeoutMs, 'Language model timeout'));
+  }
+
+  private requireBinding(): any {
+    if (!this.binding) {
+      throw new Error('AI binding not available');
+    }
+    return this.binding;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * API key issuance and verification backed by Workers KV
+ * Keys are shown once at issuance; only their SHA-256 hash is stored
+ */
+
+import { type AppConfig } from "./config";
+import { sha256Hex } from "./image-hash";
+
+// Each scope grants one endpoint family
+export const API_KEY_SCOPES = ['assess-damage', 'conversation', 'knowledge-search'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  // Leading characters of the key, so owners can tell keys apart without the secret
+  prefix: string;
+  scopes: ApiKeyScope[];
+  daily_quota: number;
+  // Organization the key belongs to; its requests get that organization's configuration
+  org_id: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+const KEY_PREFIX = 'dsk_';
+const KEY_PATTERN = /^dsk_[0-9a-f]{64}$/;
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+export function isWellFormedApiKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  return sha256Hex(new TextEncoder().encode(key));
+}
+
+function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return KEY_PREFIX + Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// KV-backed key store. Records are indexed by key hash for verification and by ID for listing and revocation
+export class ApiKeyStore {
+  private namespace: KVNamespace | undefined;
+  private config: AppConfig;
+
+  constructor(config: AppConfig, namespace?: KVNamespace) {
+    this.config = config;
+    this.namespace = namespace;
+  }
+
+  isEnabled(): boolean {
+    return !!this.namespace;
+  }
+
+  async issue(fields: { name: string; scopes: ApiKeyScope[]; daily_quota?: number; org_id?: string }): Promise<{ key: string; record: ApiKeyRecord }> {
+    const key = generateApiKey();
+    const hash = await hashApiKey(key);
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name: fields.name,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: fields.scopes,
+      daily_quota: fields.daily_quota ?? this.config.security.api_key_default_daily_quota,
+      org_id: fields.org_id ?? null,
+      created_at: new Date().toISOString(),
+      revoked_at: null
+    };
+
+    await this.save(hash, record);
+    return { key, record };
+  }
+
+  // Returns the active record for a key, or null when it is unknown or revoked
+  async verify(key: string): Promise<ApiKeyRecord | null> {
+    if (!isWellFormedApiKey(key)) return null;
+
+    const record = await this.requireNamespace().get<ApiKeyRecord>(this.hashKey(await hashApiKey(key)), 'json');
+    if (!record || record.revoked_at) return null;
+    return record;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    const records: ApiKeyRecord[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.requireNamespace().list<ApiKeyRecord>({ prefix: 'keys/id/', cursor });
+      for (const entry of page.keys) {
+        if (entry.metadata) records.push(entry.metadata);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return records;
+  }
+
+  // Revoked records are kept so past usage can still be attributed
+  async revoke(id: string): Promise<ApiKeyRecord | null> {
+    const hash = await this.requireNamespace().get(this.idKey(id));
+    if (!hash) return null;
+
+    const record = await this.requireNamespace().get<ApiKeyRecord>(this.hashKey(hash), 'json');
+    if (!record) return null;
+
+    if (!record.revoked_at) {
+      record.revoked_at = new Date().toISOString();
+      await this.save(hash, record);
+    }
+    return record;
+  }
+
+  private async save(hash: string, record: ApiKeyRecord): Promise<void> {
+    await Promise.all([
+      this.requireNamespace().put(this.hashKey(hash), JSON.stringify(record)),
+      this.requireNamespace().put(this.idKey(record.id), hash, { metadata: record })
+    ]);
+  }
+
+  private hashKey(hash: string): string {
+    return `keys/hash/${hash}`;
+  }
+
+  private idKey(id: string): string {
+    return `keys/id/${id}`;
+  }
+
+  private requireNamespace(): KVNamespace {
+    if (!this.namespace) {
+      throw new Error('API key storage is not configured');
+    }
+    return this.namespace;
+  }
+}
+
+export function createApiKeyStore(config: AppConfig, namespace?: KVNamespace): ApiKeyStore {
+  return new ApiKeyStore(config, namespace);
+}
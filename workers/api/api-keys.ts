@@ -0,0 +1,132 @@
+import type { Context } from 'hono';
+import { loadConfig } from '../config';
+import { API_KEY_SCOPES, createApiKeyStore, type ApiKeyScope, type ApiKeyStore } from '../api-keys';
+import { createTenantStore, tenantConfigOverrides } from '../tenants';
+
+interface CreateApiKeyRequest {
+  name?: string;
+  scopes?: string[];
+  daily_quota?: number;
+  org_id?: string;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DAILY_QUOTA = 1_000_000;
+
+// Returns the key store, or an error response when the KV binding is missing
+function getApiKeyStore(c: Context): ApiKeyStore | Response {
+  const store = createApiKeyStore(loadConfig(c.env), (c.env as any).API_KEYS);
+
+  if (!store.isEnabled()) {
+    return c.json({
+      success: false,
+      error: 'API key storage unavailable',
+      details: 'The API_KEYS binding is not configured'
+    }, 503);
+  }
+
+  return store;
+}
+
+function apiKeyErrorResponse(c: Context, operation: string, error: any): Response {
+  console.error(`API key admin error (${operation}):`, error);
+  return c.json({
+    success: false,
+    error: `Failed to ${operation}`,
+    details: error?.message,
+    timestamp: new Date().toISOString()
+  }, 500);
+}
+
+function validateCreateRequest(body: CreateApiKeyRequest): string | null {
+  if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > MAX_NAME_LENGTH) {
+    return `Name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`;
+  }
+
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0 ||
+      !body.scopes.every(scope => API_KEY_SCOPES.includes(scope as ApiKeyScope))) {
+    return `Scopes must be a non-empty list drawn from ${API_KEY_SCOPES.join(', ')}`;
+  }
+
+  if (body.daily_quota !== undefined &&
+      (!Number.isInteger(body.daily_quota) || body.daily_quota < 1 || body.daily_quota > MAX_DAILY_QUOTA)) {
+    return `Daily quota must be an integer between 1 and ${MAX_DAILY_QUOTA}`;
+  }
+
+  if (body.org_id !== undefined && typeof body.org_id !== 'string') {
+    return 'Organization ID must be a string';
+  }
+
+  return null;
+}
+
+// POST /api/admin/api-keys
+export async function handleCreateApiKey(c: Context): Promise<Response> {
+  const store = getApiKeyStore(c);
+  if (store instanceof Response) return store;
+
+  let body: CreateApiKeyRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ success: false, error: 'Invalid request body', details: 'Request body must be a JSON object' }, 400);
+  }
+
+  const validationError = validateCreateRequest(body ?? {});
+  if (validationError) {
+    return c.json({ success: false, error: 'Invalid API key fields', details: validationError }, 400);
+  }
+
+  try {
+    let issuer = store;
+    if (body.org_id !== undefined) {
+      const org = await createTenantStore((c.env as any).TENANTS).get(body.org_id).catch(() => null);
+      if (!org) {
+        return c.json({ success: false, error: 'Organization not found', details: `No organization exists with ID ${body.org_id}` }, 400);
+      }
+      // The organization may set its own default daily quota
+      issuer = createApiKeyStore(loadConfig(c.env, tenantConfigOverrides(org)), (c.env as any).API_KEYS);
+    }
+
+    const { key, record } = await issuer.issue({
+      name: body.name!.trim(),
+      scopes: Array.from(new Set(body.scopes as ApiKeyScope[])),
+      daily_quota: body.daily_quota,
+      org_id: body.org_id
+    });
+    // The plaintext key is only ever returned here
+    return c.json({ success: true, key, api_key: record }, 201);
+  } catch (error) {
+    return apiKeyErrorResponse(c, 'issue API key', error);
+  }
+}
+
+// GET /api/admin/api-keys
+export async function handleListApiKeys(c: Context): Promise<Response> {
+  const store = getApiKeyStore(c);
+  if (store instanceof Response) return store;
+
+  try {
+    const apiKeys = await store.list();
+    return c.json({ success: true, api_keys: apiKeys, total: apiKeys.length });
+  } catch (error) {
+    return apiKeyErrorResponse(c, 'list API keys', error);
+  }
+}
+
+// DELETE /api/admin/api-keys/:id
+export async function handleRevokeApiKey(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  const store = getApiKeyStore(c);
+  if (store instanceof Response) return store;
+
+  try {
+    const record = await store.revoke(id);
+    if (!record) {
+      return c.json({ success: false, error: 'API key not found', details: `No API key exists with ID ${id}` }, 404);
+    }
+    return c.json({ success: true, api_key: record });
+  } catch (error) {
+    return apiKeyErrorResponse(c, 'revoke API key', error);
+  }
+}
@@ -0,0 +1,72 @@
+import type { Context } from 'hono';
+import { loadConfig } from '../config';
+import { authenticateUser, endSession, registerUser, startSession, type AuthResult } from '../auth';
+import { createAssessmentStorage } from '../storage';
+
+async function readCredentials(c: Context): Promise<Record<string, unknown>> {
+  try {
+    const body = await c.req.json();
+    return body && typeof body === 'object' ? body : {};
+  } catch {
+    return {};
+  }
+}
+
+async function sessionResponse(c: Context, result: AuthResult, status: 200 | 201): Promise<Response> {
+  if (!result.ok) {
+    return c.json({ success: false, error: result.error, details: result.details }, result.status);
+  }
+
+  c.header('Set-Cookie', await startSession(c.req.raw, c.env, result.user));
+  return c.json({ success: true, user: result.user }, status);
+}
+
+// POST /api/auth/signup
+export async function handleSignup(c: Context): Promise<Response> {
+  return sessionResponse(c, await registerUser(c.env, await readCredentials(c)), 201);
+}
+
+// POST /api/auth/login
+export async function handleLogin(c: Context): Promise<Response> {
+  return sessionResponse(c, await authenticateUser(c.env, await readCredentials(c)), 200);
+}
+
+// POST /api/auth/logout
+export async function handleLogout(c: Context): Promise<Response> {
+  c.header('Set-Cookie', endSession(c.req.raw));
+  return c.json({ success: true });
+}
+
+// GET /api/auth/me
+export async function handleCurrentUser(c: Context): Promise<Response> {
+  const user = c.get('user');
+  if (!user) {
+    return c.json({ success: false, error: 'Not signed in', details: 'Log in to access your account' }, 401);
+  }
+  return c.json({ success: true, user });
+}
+
+// GET /api/me/assessments
+export async function handleListMyAssessments(c: Context): Promise<Response> {
+  const user = c.get('user');
+  if (!user) {
+    return c.json({ success: false, error: 'Not signed in', details: 'Log in to see your assessments' }, 401);
+  }
+
+  const assessmentStorage = createAssessmentStorage(loadConfig(c.env), (c.env as any).R2_BUCKET);
+  if (!assessmentStorage.isEnabled()) {
+    return c.json({
+      success: false,
+      error: 'Assessment storage unavailable',
+      details: 'Persistence is disabled or the R2 binding is not configured'
+    }, 503);
+  }
+
+  try {
+    const assessments = await assessmentStorage.listUserAssessments(user.id);
+    return c.json({ success: true, assessments, total: assessments.length });
+  } catch (error: any) {
+    console.error('Failed to list user assessments:', error);
+    return c.json({ success: false, error: 'Failed to list assessments', details: error?.message }, 500);
+  }
+}
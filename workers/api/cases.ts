@@ -0,0 +1,378 @@
+import type { Context } from 'hono';
+import { canAccessRecord, isUnidentified, listingOwner, recordOwner, resolveAccessor } from '../access';
+import { getRequestConfig } from '../middleware/tenant';
+import {
+  createAssessmentStorage,
+  createCaseStorage,
+  isValidAssessmentId,
+  isValidCaseId,
+  type CaseStorage,
+  type DamageCase
+} from '../storage';
+
+interface CaseFieldsRequest {
+  property_address?: string;
+  loss_date?: string | null;
+  notes?: string;
+  status?: 'open' | 'closed';
+}
+
+interface CasePhotoRequest {
+  assessment_id: string;
+  caption?: string;
+}
+
+interface CaseMessageRequest {
+  role: 'user' | 'assistant';
+  content: string;
+  assessment_id?: string;
+}
+
+const MAX_ADDRESS_LENGTH = 500;
+const MAX_NOTES_LENGTH = 5000;
+const MAX_CAPTION_LENGTH = 500;
+const MAX_MESSAGE_LENGTH = 20000;
+
+// Returns the case storage, or an error response when persistence is unavailable
+function getCaseStorage(c: Context): CaseStorage | Response {
+  const caseStorage = createCaseStorage(getRequestConfig(c), (c.env as any).R2_BUCKET, c.get('tenant')?.id);
+
+  if (!caseStorage.isEnabled()) {
+    return c.json({
+      success: false,
+      error: 'Case storage unavailable',
+      details: 'Persistence is disabled or the R2 binding is not configured'
+    }, 503);
+  }
+
+  return caseStorage;
+}
+
+function invalidCaseIdResponse(c: Context): Response {
+  return c.json({
+    success: false,
+    error: 'Invalid case ID',
+    details: 'Case ID must be a UUID'
+  }, 400);
+}
+
+function caseNotFoundResponse(c: Context, id: string): Response {
+  return c.json({
+    success: false,
+    error: 'Case not found',
+    details: `No case exists with ID ${id}`
+  }, 404);
+}
+
+function notSignedInResponse(c: Context): Response {
+  return c.json({ success: false, error: 'Not signed in', details: 'Log in or send an API key to use cases' }, 401);
+}
+
+// Load a case the caller may use; other people's cases look the same as missing ones
+async function getAccessibleCase(c: Context, caseStorage: CaseStorage, id: string): Promise<DamageCase | Response> {
+  const accessor = await resolveAccessor(c);
+  if (isUnidentified(accessor)) return notSignedInResponse(c);
+
+  const damageCase = await caseStorage.getCase(id);
+  if (!damageCase || !canAccessRecord(accessor, damageCase.owner_id)) return caseNotFoundResponse(c, id);
+
+  return damageCase;
+}
+
+function caseErrorResponse(c: Context, operation: string, error: any): Response {
+  console.error(`Case API error (${operation}):`, error);
+
+  if (error?.message?.includes('limit reached')) {
+    return c.json({
+      success: false,
+      error: 'Case is full',
+      details: error.message
+    }, 409);
+  }
+
+  return c.json({
+    success: false,
+    error: `Failed to ${operation}`,
+    details: error?.message,
+    timestamp: new Date().toISOString()
+  }, 500);
+}
+
+// Validate editable case fields, returning an error message for the first problem found
+function validateCaseFields(fields: CaseFieldsRequest): string | null {
+  if (fields.property_address !== undefined &&
+      (typeof fields.property_address !== 'string' || fields.property_address.length > MAX_ADDRESS_LENGTH)) {
+    return `Property address must be a string of at most ${MAX_ADDRESS_LENGTH} characters`;
+  }
+
+  if (fields.loss_date !== undefined && fields.loss_date !== null) {
+    if (typeof fields.loss_date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(fields.loss_date) ||
+        isNaN(Date.parse(fields.loss_date))) {
+      return 'Loss date must be a valid date in YYYY-MM-DD format';
+    }
+    if (Date.parse(fields.loss_date) > Date.now()) {
+      return 'Loss date cannot be in the future';
+    }
+  }
+
+  if (fields.notes !== undefined &&
+      (typeof fields.notes !== 'string' || fields.notes.length > MAX_NOTES_LENGTH)) {
+    return `Notes must be a string of at most ${MAX_NOTES_LENGTH} characters`;
+  }
+
+  if (fields.status !== undefined && fields.status !== 'open' && fields.status !== 'closed') {
+    return "Status must be either 'open' or 'closed'";
+  }
+
+  return null;
+}
+
+async function readJsonBody<T>(c: Context): Promise<T | null> {
+  try {
+    const body = await c.req.json();
+    return body && typeof body === 'object' ? body as T : null;
+  } catch {
+    return null;
+  }
+}
+
+// POST /api/cases
+export async function handleCreateCase(c: Context): Promise<Response> {
+  const caseStorage = getCaseStorage(c);
+  if (caseStorage instanceof Response) return caseStorage;
+
+  // A case with no owner would be unreadable by anyone, its creator included
+  const owner = recordOwner(await resolveAccessor(c));
+  if (!owner) return notSignedInResponse(c);
+
+  const body = await readJsonBody<CaseFieldsRequest>(c) ?? {};
+  const validationError = validateCaseFields(body);
+  if (validationError) {
+    return c.json({ success: false, error: 'Invalid case fields', details: validationError }, 400);
+  }
+
+  try {
+    const damageCase = await caseStorage.createCase({
+      property_address: body.property_address?.trim(),
+      loss_date: body.loss_date,
+      notes: body.notes
+    }, owner);
+    return c.json({ success: true, case: damageCase }, 201);
+  } catch (error) {
+    return caseErrorResponse(c, 'create case', error);
+  }
+}
+
+// GET /api/cases lists the cases the caller created, or every case for admins
+// (?mine=true restricts admins to their own cases too)
+export async function handleListCases(c: Context): Promise<Response> {
+  const caseStorage = getCaseStorage(c);
+  if (caseStorage instanceof Response) return caseStorage;
+
+  const accessor = await resolveAccessor(c);
+  const mine = c.req.query('mine') === 'true';
+  if (isUnidentified(accessor) || (mine && !recordOwner(accessor))) {
+    return c.json({ success: false, error: 'Not signed in', details: 'Log in to list your cases' }, 401);
+  }
+
+  try {
+    const cases = await caseStorage.listCases(100, mine ? recordOwner(accessor) : listingOwner(accessor));
+    return c.json({ success: true, cases, total: cases.length });
+  } catch (error) {
+    return caseErrorResponse(c, 'list cases', error);
+  }
+}
+
+// GET /api/cases/:id
+export async function handleGetCase(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  if (!isValidCaseId(id)) return invalidCaseIdResponse(c);
+
+  const caseStorage = getCaseStorage(c);
+  if (caseStorage instanceof Response) return caseStorage;
+
+  try {
+    const damageCase = await getAccessibleCase(c, caseStorage, id);
+    if (damageCase instanceof Response) return damageCase;
+
+    return c.json({ success: true, case: damageCase });
+  } catch (error) {
+    return caseErrorResponse(c, 'retrieve case', error);
+  }
+}
+
+// PUT /api/cases/:id
+export async function handleUpdateCase(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  if (!isValidCaseId(id)) return invalidCaseIdResponse(c);
+
+  const caseStorage = getCaseStorage(c);
+  if (caseStorage instanceof Response) return caseStorage;
+
+  const body = await readJsonBody<CaseFieldsRequest>(c);
+  if (!body) {
+    return c.json({ success: false, error: 'Invalid request body', details: 'Request body must be a JSON object' }, 400);
+  }
+
+  const validationError = validateCaseFields(body);
+  if (validationError) {
+    return c.json({ success: false, error: 'Invalid case fields', details: validationError }, 400);
+  }
+
+  try {
+    const existingCase = await getAccessibleCase(c, caseStorage, id);
+    if (existingCase instanceof Response) return existingCase;
+
+    const damageCase = await caseStorage.updateCase(id, (existing) => {
+      if (body.property_address !== undefined) existing.property_address = body.property_address.trim();
+      if (body.loss_date !== undefined) existing.loss_date = body.loss_date;
+      if (body.notes !== undefined) existing.notes = body.notes;
+      if (body.status !== undefined) existing.status = body.status;
+    });
+    if (!damageCase) return caseNotFoundResponse(c, id);
+
+    return c.json({ success: true, case: damageCase });
+  } catch (error) {
+    return caseErrorResponse(c, 'update case', error);
+  }
+}
+
+// DELETE /api/cases/:id
+export async function handleDeleteCase(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  if (!isValidCaseId(id)) return invalidCaseIdResponse(c);
+
+  const caseStorage = getCaseStorage(c);
+  if (caseStorage instanceof Response) return caseStorage;
+
+  try {
+    const existingCase = await getAccessibleCase(c, caseStorage, id);
+    if (existingCase instanceof Response) return existingCase;
+
+    const deleted = await caseStorage.deleteCase(id);
+    if (!deleted) return caseNotFoundResponse(c, id);
+
+    return c.json({ success: true, deleted: id });
+  } catch (error) {
+    return caseErrorResponse(c, 'delete case', error);
+  }
+}
+
+// GET /api/cases/:id/photos
+export async function handleListCasePhotos(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  if (!isValidCaseId(id)) return invalidCaseIdResponse(c);
+
+  const caseStorage = getCaseStorage(c);
+  if (caseStorage instanceof Response) return caseStorage;
+
+  try {
+    const damageCase = await getAccessibleCase(c, caseStorage, id);
+    if (damageCase instanceof Response) return damageCase;
+
+    return c.json({
+      success: true,
+      case_id: id,
+      photos: damageCase.photos.map(photo => ({
+        ...photo,
+        assessment_url: `/api/assessments/${photo.assessment_id}`,
+        image_url: `/api/assessments/${photo.assessment_id}/image`
+      }))
+    });
+  } catch (error) {
+    return caseErrorResponse(c, 'list case photos', error);
+  }
+}
+
+// POST /api/cases/:id/photos - attach a stored assessment to the case
+export async function handleAddCasePhoto(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  if (!isValidCaseId(id)) return invalidCaseIdResponse(c);
+
+  const caseStorage = getCaseStorage(c);
+  if (caseStorage instanceof Response) return caseStorage;
+
+  const body = await readJsonBody<CasePhotoRequest>(c);
+  if (!body || typeof body.assessment_id !== 'string' || !isValidAssessmentId(body.assessment_id)) {
+    return c.json({ success: false, error: 'Invalid assessment ID', details: 'assessment_id must be a UUID' }, 400);
+  }
+  if (body.caption !== undefined && (typeof body.caption !== 'string' || body.caption.length > MAX_CAPTION_LENGTH)) {
+    return c.json({ success: false, error: 'Invalid caption', details: `Caption must be at most ${MAX_CAPTION_LENGTH} characters` }, 400);
+  }
+
+  try {
+    const existingCase = await getAccessibleCase(c, caseStorage, id);
+    if (existingCase instanceof Response) return existingCase;
+
+    const assessmentStorage = createAssessmentStorage(getRequestConfig(c), (c.env as any).R2_BUCKET, c.get('tenant')?.id);
+    const assessment = await assessmentStorage.getAssessment(body.assessment_id);
+    if (!assessment || !canAccessRecord(await resolveAccessor(c), assessment.owner_id)) {
+      return c.json({
+        success: false,
+        error: 'Assessment not found',
+        details: `No assessment exists with ID ${body.assessment_id}`
+      }, 404);
+    }
+
+    const damageCase = await caseStorage.addPhoto(id, { assessment_id: body.assessment_id, caption: body.caption });
+    if (!damageCase) return caseNotFoundResponse(c, id);
+
+    return c.json({ success: true, case_id: id, photos: damageCase.photos }, 201);
+  } catch (error) {
+    return caseErrorResponse(c, 'add case photo', error);
+  }
+}
+
+// GET /api/cases/:id/messages
+export async function handleListCaseMessages(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  if (!isValidCaseId(id)) return invalidCaseIdResponse(c);
+
+  const caseStorage = getCaseStorage(c);
+  if (caseStorage instanceof Response) return caseStorage;
+
+  try {
+    const damageCase = await getAccessibleCase(c, caseStorage, id);
+    if (damageCase instanceof Response) return damageCase;
+
+    return c.json({ success: true, case_id: id, messages: damageCase.messages });
+  } catch (error) {
+    return caseErrorResponse(c, 'list case messages', error);
+  }
+}
+
+// POST /api/cases/:id/messages - record a chat turn on the case
+export async function handleAddCaseMessage(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  if (!isValidCaseId(id)) return invalidCaseIdResponse(c);
+
+  const caseStorage = getCaseStorage(c);
+  if (caseStorage instanceof Response) return caseStorage;
+
+  const body = await readJsonBody<CaseMessageRequest>(c);
+  if (!body || (body.role !== 'user' && body.role !== 'assistant')) {
+    return c.json({ success: false, error: 'Invalid message role', details: "Role must be either 'user' or 'assistant'" }, 400);
+  }
+  if (typeof body.content !== 'string' || !body.content.trim() || body.content.length > MAX_MESSAGE_LENGTH) {
+    return c.json({ success: false, error: 'Invalid message content', details: `Content must be a non-empty string of at most ${MAX_MESSAGE_LENGTH} characters` }, 400);
+  }
+  if (body.assessment_id !== undefined && !isValidAssessmentId(body.assessment_id)) {
+    return c.json({ success: false, error: 'Invalid assessment ID', details: 'assessment_id must be a UUID' }, 400);
+  }
+
+  try {
+    const existingCase = await getAccessibleCase(c, caseStorage, id);
+    if (existingCase instanceof Response) return existingCase;
+
+    const damageCase = await caseStorage.addMessages(id, [{
+      role: body.role,
+      content: body.content,
+      assessment_id: body.assessment_id
+    }]);
+    if (!damageCase) return caseNotFoundResponse(c, id);
+
+    return c.json({ success: true, case_id: id, message: damageCase.messages[damageCase.messages.length - 1] }, 201);
+  } catch (error) {
+    return caseErrorResponse(c, 'add case message', error);
+  }
+}
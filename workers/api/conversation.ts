@@ -1,10 +1,19 @@
 import type { Context } from 'hono';
-import { AIMocks } from '../ai-mocks';
-import { loadConfig } from '../config';
+import { streamSSE } from 'hono/streaming';
+import { createAIProvider, type AIProvider } from '../ai';
+import { canAccessRecord, resolveAccessor } from '../access';
+import { CircuitOpenError } from '../circuit-breaker';
+import { type AppConfig } from '../config';
+import { getRequestConfig } from '../middleware/tenant';
+import { promptMessages, renderPrompt, type PromptVersions, type RenderedPrompt } from '../prompts';
+import { createRetryContext, summarizeRetries, withRetry, type RetryContext, type RetrySummary } from '../retry';
+import { createCaseStorage, isValidCaseId } from '../storage';
+import { emitWebhookEvent } from '../webhooks';
 
 interface ConversationRequest {
   question: string;
   context?: {
+    case_id?: string;
     imageData?: string;
     previousAssessment?: any;
     ragContext?: any[];
@@ -18,10 +27,15 @@ interface ConversationResponse {
   confidence_score?: number;
   industry_sources?: any[];
   suggested_questions?: string[];
+  // Set when the knowledge base was skipped because its circuit breaker is open
+  degraded?: { unavailable: string[]; message: string };
+  // Versions of the prompt templates behind the response
+  prompt_versions?: PromptVersions;
   error?: string;
   performance?: {
     total_time: number;
     cached: boolean;
+    retries?: RetrySummary;
   };
 }
 
@@ -73,59 +87,48 @@ export async function handleConversationRequest(c: Context): Promise<Response> {
       }, 400);
     }
 
-    // Enhanced RAG search with context
-    const ragQuery = await buildContextualQuery(question, context);
-    
-    // Search knowledge base
-    const appConfig = loadConfig(c.env);
-    let ragResponse;
-    
-    if (AIMocks.shouldUseMocks(appConfig, c.env)) {
-      ragResponse = await AIMocks.mockAutoRAGSearch(ragQuery);
-    } else {
-      const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('AutoRAG timeout')), appConfig.ai.timeout_ms)
-      );
-      
-      const ragPromise = (c.env as any).AI.autorag(appConfig.ai.autorag_dataset).aiSearch({
-        query: ragQuery,
-      });
-      
-      ragResponse = await Promise.race([ragPromise, timeoutPromise]);
-    }
-
-    if (!ragResponse?.response) {
-      throw new Error('RAG query failed - no response received');
-    }
+    const appConfig = getRequestConfig(c);
+    // Conversations share the client's damage assessment timeout
+    const retry = createRetryContext(appConfig, appConfig.api.timeout.damage_assessment);
+    const ai = createAIProvider(appConfig, c.env, { mockScenario: c.get('mockScenario') });
+    const ragResponse = await searchKnowledgeBase(ai, retry, question, context);
+    const prompt = buildConversationPrompt(question, ragResponse, context, appConfig.ai.prompt_versions);
 
     // Generate conversational response
-    const conversationalResponse = await generateConversationalResponse(
-      c.env as any,
-      question,
-      ragResponse,
-      context
-    );
-
-    // Determine damage type for suggested questions
-    const damageType = identifyDamageType(context?.previousAssessment?.vision_analysis || question);
-    const suggestedQuestions = DAMAGE_TYPE_QUESTIONS[damageType] || DAMAGE_TYPE_QUESTIONS.general;
+    const conversationalResponse = await generateConversationalResponse(ai, retry, prompt);
 
     const response: ConversationResponse = {
       success: true,
       response: conversationalResponse.content,
-      confidence_score: calculateConfidenceScore(ragResponse, context),
-      industry_sources: ragResponse.sources || [],
-      suggested_questions: suggestedQuestions.slice(0, 3), // Limit to 3 suggestions
+      ...buildResponseMetadata(question, ragResponse, prompt, context),
       performance: {
         total_time: Date.now() - startTime,
-        cached: false
+        cached: false,
+        retries: summarizeRetries(retry)
       }
     };
 
+    await recordCaseTurn(c, appConfig, context?.case_id, question, response.response);
+    emitWebhookEvent(c, 'conversation.message', { case_id: context?.case_id ?? null, question, response: response.response });
+
     return c.json(response);
 
   } catch (error: any) {
     console.error('Conversation API error:', error);
+
+    if (error instanceof CircuitOpenError) {
+      const retryAfter = Math.ceil(error.retryAfterMs / 1000);
+      return c.json({
+        success: false,
+        error: 'AI service busy',
+        details: `The AI service is failing and has been paused. Please try again in ${retryAfter} seconds`,
+        retry_after: retryAfter,
+        performance: {
+          total_time: Date.now() - startTime,
+          cached: false
+        }
+      }, 503, { 'Retry-After': retryAfter.toString() });
+    }
     
     return c.json({
       success: false,
@@ -139,6 +142,154 @@ export async function handleConversationRequest(c: Context): Promise<Response> {
   }
 }
 
+// Streaming variant: forwards model tokens as `token` events, then sends the metadata as a trailing event
+export async function handleConversationStreamRequest(c: Context): Promise<Response> {
+  const startTime = Date.now();
+
+  let body: ConversationRequest;
+  try {
+    body = await c.req.json() as ConversationRequest;
+  } catch (error: any) {
+    return c.json({
+      success: false,
+      error: 'Invalid request body',
+      details: error.message
+    }, 400);
+  }
+
+  const { question, context } = body;
+  if (!question?.trim()) {
+    return c.json({ 
+      success: false, 
+      error: 'Question is required' 
+    }, 400);
+  }
+
+  const appConfig = getRequestConfig(c);
+  const retry = createRetryContext(appConfig, appConfig.api.timeout.damage_assessment);
+  const ai = createAIProvider(appConfig, c.env, { mockScenario: c.get('mockScenario') });
+
+  return streamSSE(c, async (stream) => {
+    const send = (event: string, data: unknown) => stream.writeSSE({ event, data: JSON.stringify(data) });
+
+    try {
+      const ragResponse = await searchKnowledgeBase(ai, retry, question, context);
+      const prompt = buildConversationPrompt(question, ragResponse, context, appConfig.ai.prompt_versions);
+      const modelStream = await streamLanguageModel(ai, retry, prompt);
+
+      let content = '';
+      await readModelTokens(modelStream, async (token) => {
+        content += token;
+        await send('token', { text: token });
+      });
+
+      if (!content) {
+        content = FALLBACK_RESPONSE;
+        await send('token', { text: content });
+      }
+
+      await recordCaseTurn(c, appConfig, context?.case_id, question, content);
+      emitWebhookEvent(c, 'conversation.message', { case_id: context?.case_id ?? null, question, response: content });
+
+      await send('metadata', {
+        success: true,
+        ...buildResponseMetadata(question, ragResponse, prompt, context),
+        performance: {
+          total_time: Date.now() - startTime,
+          cached: false,
+          retries: summarizeRetries(retry)
+        }
+      });
+    } catch (error: any) {
+      console.error('Conversation stream error:', error);
+
+      // Headers are already sent, so a busy model is reported in the event rather than with Retry-After
+      const busy = error instanceof CircuitOpenError;
+      await send('error', {
+        success: false,
+        error: busy ? 'AI service busy' : 'Failed to process conversation request',
+        details: error.message,
+        ...(busy ? { status: 503, retry_after: Math.ceil(error.retryAfterMs / 1000) } : {}),
+        performance: {
+          total_time: Date.now() - startTime,
+          cached: false
+        }
+      });
+    }
+  });
+}
+
+const FALLBACK_RESPONSE = "I'd be happy to help with that. Could you provide more details?";
+
+// Search the knowledge base with the question enriched by assessment and conversation context
+async function searchKnowledgeBase(
+  ai: AIProvider,
+  retry: RetryContext,
+  question: string,
+  context?: ConversationRequest['context']
+): Promise<any> {
+  // Enhanced RAG search with context
+  const ragQuery = await buildContextualQuery(question, context);
+  let ragResponse: any;
+  
+  try {
+    ragResponse = await withRetry(retry, 'autorag', (timeoutMs) => ai.search(ragQuery, { timeoutMs }));
+  } catch (error) {
+    if (!(error instanceof CircuitOpenError)) throw error;
+    // While the knowledge base's breaker is open the model answers without industry knowledge
+    return { response: '', sources: [], unavailable: true };
+  }
+
+  if (!ragResponse?.response) {
+    throw new Error('RAG query failed - no response received');
+  }
+
+  return ragResponse;
+}
+
+function buildResponseMetadata(question: string, ragResponse: any, prompt: RenderedPrompt, context?: ConversationRequest['context']) {
+  // Determine damage type for suggested questions
+  const damageType = identifyDamageType(context?.previousAssessment?.vision_analysis || question);
+  const suggestedQuestions = DAMAGE_TYPE_QUESTIONS[damageType] || DAMAGE_TYPE_QUESTIONS.general;
+
+  return {
+    confidence_score: calculateConfidenceScore(ragResponse, context),
+    industry_sources: ragResponse.sources || [],
+    suggested_questions: suggestedQuestions.slice(0, 3), // Limit to 3 suggestions
+    prompt_versions: { [prompt.name]: prompt.version },
+    ...(ragResponse.unavailable ? {
+      degraded: {
+        unavailable: ['autorag'],
+        message: 'The industry knowledge base is unavailable, so this answer is not based on industry guidelines.'
+      }
+    } : {})
+  };
+}
+
+// Record both sides of the turn on the case, if this conversation belongs to one the caller may use
+async function recordCaseTurn(c: Context, appConfig: AppConfig, caseId: string | undefined, question: string, answer: string): Promise<void> {
+  if (!caseId || !isValidCaseId(caseId)) return;
+
+  const caseStorage = createCaseStorage(appConfig, (c.env as any).R2_BUCKET, c.get('tenant')?.id);
+  if (!caseStorage.isEnabled()) return;
+
+  const userId = c.get('user')?.id;
+  try {
+    const damageCase = await caseStorage.getCase(caseId);
+    if (!damageCase || !canAccessRecord(await resolveAccessor(c), damageCase.owner_id)) {
+      console.warn(`Not recording conversation on case ${caseId}: not found or not accessible`);
+      return;
+    }
+
+    await caseStorage.addMessages(caseId, [
+      { role: 'user', content: question, ...(userId ? { user_id: userId } : {}) },
+      { role: 'assistant', content: answer }
+    ]);
+  } catch (error) {
+    console.error('Failed to record conversation on case:', error);
+  }
+}
+
 async function buildContextualQuery(question: string, context?: any): Promise<string> {
   let contextualQuery = question;
 
@@ -158,65 +309,75 @@ async function buildContextualQuery(question: string, context?: any): Promise<st
   return contextualQuery;
 }
 
-async function generateConversationalResponse(
-  env: any,
+function buildConversationPrompt(
   question: string,
   ragResponse: any,
-  context?: any
+  context: ConversationRequest['context'],
+  pinned: PromptVersions
+): RenderedPrompt {
+  const previous = context?.previousAssessment;
+  return renderPrompt('conversation', {
+    question,
+    industry_knowledge: ragResponse.response || null,
+    previous_assessment: previous ? { vision_analysis: previous.vision_analysis, enhanced_assessment: previous.enhanced_assessment } : null
+  }, pinned);
+}
+
+async function generateConversationalResponse(
+  ai: AIProvider,
+  retry: RetryContext,
+  prompt: RenderedPrompt
 ): Promise<{ content: string }> {
-  // Create system prompt for conversational AI
-  const systemPrompt = `You are a professional damage assessment specialist having a conversation with a property owner. 
-
-Key guidelines:
-- Be conversational, helpful, and empathetic
-- Reference the uploaded image when relevant
-- Provide specific, actionable advice based on industry knowledge
-- Always end with a follow-up question to continue the conversation
-- Keep responses concise but thorough (2-3 paragraphs max)
-- Use a professional but friendly tone
-
-Industry Knowledge Available:
-${ragResponse.response}
-
-${context?.previousAssessment ? `
-Previous Damage Assessment:
-Vision Analysis: ${context.previousAssessment.vision_analysis}
-Assessment: ${context.previousAssessment.enhanced_assessment}
-` : ''}`;
-
-  const userMessage = `Question about damage: ${question}
-
-Please provide a helpful response that:
-1. Addresses their specific question
-2. References relevant industry knowledge
-3. Considers the damage shown in their image
-4. Ends with an engaging follow-up question`;
-
-  const appConfig = loadConfig(env);
-  let response;
-  
-  if (AIMocks.shouldUseMocks(appConfig, env)) {
-    response = await AIMocks.mockLanguageGeneration([
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userMessage }
-    ]);
-  } else {
-    const timeoutPromise = new Promise((_, reject) => 
-      setTimeout(() => reject(new Error('Language model timeout')), appConfig.ai.timeout_ms)
-    );
-    
-    const aiPromise = env.AI.run(appConfig.ai.language_model, {
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userMessage }
-      ],
-      max_tokens: 1500
-    });
-    
-    response = await Promise.race([aiPromise, timeoutPromise]);
-  }
+  const response = await withRetry(retry, 'language_model', (timeoutMs) => ai.chat(promptMessages(prompt), { timeoutMs, ...prompt.params }));
+
+  return { content: response.response || FALLBACK_RESPONSE };
+}
+
+// Start a streamed completion; the timeout covers the time until the model starts responding, so only
+// starting the stream is retried and tokens already sent are never repeated
+async function streamLanguageModel(
+  ai: AIProvider,
+  retry: RetryContext,
+  prompt: RenderedPrompt
+): Promise<ReadableStream<Uint8Array>> {
+  return withRetry(retry, 'language_model', (timeoutMs) => ai.chatStream(promptMessages(prompt), { timeoutMs, ...prompt.params }));
+}
 
-  return { content: response.response || "I'd be happy to help with that. Could you provide more details?" };
+// Workers AI streams `data: {"response":"..."}` lines terminated by `data: [DONE]`
+export async function readModelTokens(
+  modelStream: ReadableStream<Uint8Array>,
+  onToken: (token: string) => Promise<void> | void
+): Promise<void> {
+  const reader = modelStream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') {
+        await reader.cancel();
+        return;
+      }
+
+      try {
+        const token = JSON.parse(data).response;
+        if (token) await onToken(token);
+      } catch {
+        // Ignore malformed chunks rather than aborting the whole answer
+      }
+    }
+
+    if (done) return;
+  }
 }
 
 function identifyDamageType(content: string): keyof typeof DAMAGE_TYPE_QUESTIONS {
@@ -0,0 +1,80 @@
+import type { Context } from 'hono';
+import { canAccessRecord, resolveAccessor } from '../access';
+import { getJobRunner, isJobFinished, isValidJobId, type AssessmentJob, type AssessmentJobClient } from '../jobs';
+
+// Returns the job's runner, or an error response for a malformed ID or a missing binding
+function getRunner(c: Context, id: string): AssessmentJobClient | Response {
+  if (!isValidJobId(id)) {
+    return c.json({ success: false, error: 'Invalid job ID', details: 'Job ID must be a UUID' }, 400);
+  }
+
+  const runner = getJobRunner(c.env, id);
+  if (!runner) {
+    return c.json({
+      success: false,
+      error: 'Assessment jobs unavailable',
+      details: 'The ASSESSMENT_JOBS binding is not configured'
+    }, 503);
+  }
+
+  return runner;
+}
+
+function jobNotFound(c: Context, id: string): Response {
+  return c.json({ success: false, error: 'Job not found', details: `No job exists with ID ${id}; finished jobs expire` }, 404);
+}
+
+// Load a job the caller submitted; other callers' and organizations' jobs look the same as missing ones
+async function getAccessibleJob(c: Context, runner: AssessmentJobClient, id: string): Promise<AssessmentJob | Response> {
+  const job = await runner.status();
+  if (!job) return jobNotFound(c, id);
+  if (job.org_id !== (c.get('tenant')?.id ?? null) || !canAccessRecord(await resolveAccessor(c), job.owner_id)) {
+    return jobNotFound(c, id);
+  }
+  return job;
+}
+
+function jobErrorResponse(c: Context, operation: string, error: any): Response {
+  console.error(`Assessment job error (${operation}):`, error);
+  return c.json({
+    success: false,
+    error: `Failed to ${operation}`,
+    details: error?.message,
+    timestamp: new Date().toISOString()
+  }, 500);
+}
+
+// GET /api/jobs/:id
+export async function handleGetJob(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  const runner = getRunner(c, id);
+  if (runner instanceof Response) return runner;
+
+  try {
+    const job = await getAccessibleJob(c, runner, id);
+    if (job instanceof Response) return job;
+    return c.json({ success: true, job });
+  } catch (error) {
+    return jobErrorResponse(c, 'retrieve job', error);
+  }
+}
+
+// DELETE /api/jobs/:id cancels a queued or running job
+export async function handleCancelJob(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  const runner = getRunner(c, id);
+  if (runner instanceof Response) return runner;
+
+  try {
+    const existing = await getAccessibleJob(c, runner, id);
+    if (existing instanceof Response) return existing;
+    if (isJobFinished(existing)) {
+      return c.json({ success: false, error: 'Job already finished', details: `Job ${id} has status ${existing.status}` }, 409);
+    }
+
+    const job = await runner.cancel();
+    return c.json({ success: true, job });
+  } catch (error) {
+    return jobErrorResponse(c, 'cancel job', error);
+  }
+}
@@ -0,0 +1,319 @@
+import type { Context } from 'hono';
+import { loadConfig, type TenantConfigOverrides } from '../config';
+import { invalidateTenantCache } from '../middleware/tenant';
+import {
+  RATE_PLANS,
+  createTenantStore,
+  isValidOrganizationId,
+  normalizeHostname,
+  tenantConfigOverrides,
+  type OrganizationFields,
+  type RatePlan,
+  type TenantBranding,
+  type TenantStore
+} from '../tenants';
+
+interface OrganizationRequest {
+  id?: string;
+  name?: string;
+  hostnames?: string[];
+  branding?: Partial<TenantBranding>;
+  rate_plan?: string;
+  config?: TenantConfigOverrides;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_APP_NAME_LENGTH = 60;
+const MAX_HOSTNAMES = 20;
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/;
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Matches the default client theme
+const DEFAULT_BRANDING: Omit<TenantBranding, 'app_name'> = {
+  primary_color: '#ff6b35',
+  accent_color: '#ff8f65',
+  logo_url: null
+};
+
+// Which config keys an organization may override, and the type each must have
+type OverrideShape = { [key: string]: 'string' | 'number' | 'boolean' | 'policy' | OverrideShape };
+const OVERRIDE_SHAPE: OverrideShape = {
+  ai: {
+    vision_model: 'string',
+    language_model: 'string',
+    autorag_dataset: 'string',
+    enable_autorag: 'boolean',
+    confidence_threshold: 'number'
+  },
+  api: {
+    limits: {
+      max_file_size: 'number',
+      max_decoded_size: 'number',
+      max_dimensions: 'number',
+      max_query_length: 'number',
+      max_batch_size: 'number'
+    },
+    rate_limits: { api: 'policy', ai: 'policy', upload: 'policy', auth: 'policy' }
+  },
+  security: { api_key_default_daily_quota: 'number' }
+};
+
+function checkOverrideShape(value: unknown, shape: OverrideShape, path: string): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return `${path || 'config'} must be an object`;
+  }
+
+  for (const [key, entry] of Object.entries(value)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    const expected = shape[key];
+    if (!expected) {
+      return `${keyPath} cannot be overridden per organization`;
+    }
+
+    if (expected === 'policy') {
+      if (!entry || typeof entry !== 'object' || typeof entry.window_ms !== 'number' || typeof entry.max_requests !== 'number') {
+        return `${keyPath} must have numeric window_ms and max_requests`;
+      }
+    } else if (typeof expected === 'object') {
+      const error = checkOverrideShape(entry, expected, keyPath);
+      if (error) return error;
+    } else if (typeof entry !== expected) {
+      return `${keyPath} must be a ${expected}`;
+    }
+  }
+
+  return null;
+}
+
+function isValidLogoUrl(url: string): boolean {
+  // Root-relative paths or https URLs only, so branding can't load mixed content or scripts
+  if (url.startsWith('/') && !url.startsWith('//')) return true;
+  try {
+    return new URL(url).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Validate a complete set of organization fields (after merging an update over the stored record)
+function validateOrganizationFields(env: any, fields: Omit<OrganizationFields, 'id'>): string | null {
+  if (typeof fields.name !== 'string' || !fields.name.trim() || fields.name.length > MAX_NAME_LENGTH) {
+    return `Name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`;
+  }
+
+  if (!Array.isArray(fields.hostnames) || fields.hostnames.length > MAX_HOSTNAMES ||
+      !fields.hostnames.every(hostname => typeof hostname === 'string' && HOSTNAME_PATTERN.test(normalizeHostname(hostname)))) {
+    return `Hostnames must be a list of at most ${MAX_HOSTNAMES} valid hostnames`;
+  }
+
+  const { branding } = fields;
+  if (!branding || typeof branding !== 'object') {
+    return 'Branding must be an object';
+  }
+  if (typeof branding.app_name !== 'string' || !branding.app_name.trim() || branding.app_name.length > MAX_APP_NAME_LENGTH) {
+    return `Branding app_name must be a non-empty string of at most ${MAX_APP_NAME_LENGTH} characters`;
+  }
+  if (typeof branding.primary_color !== 'string' || !COLOR_PATTERN.test(branding.primary_color) ||
+      typeof branding.accent_color !== 'string' || !COLOR_PATTERN.test(branding.accent_color)) {
+    return 'Branding colors must be hex colors such as #1a73e8';
+  }
+  if (branding.logo_url !== null && (typeof branding.logo_url !== 'string' || !isValidLogoUrl(branding.logo_url))) {
+    return 'Branding logo_url must be null, a root-relative path or an https URL';
+  }
+
+  if (!(fields.rate_plan in RATE_PLANS)) {
+    return `Rate plan must be one of ${Object.keys(RATE_PLANS).join(', ')}`;
+  }
+
+  const shapeError = checkOverrideShape(fields.config, OVERRIDE_SHAPE, '');
+  if (shapeError) return shapeError;
+
+  // Range checks come from the deployment's own config validation
+  try {
+    loadConfig(env, tenantConfigOverrides(fields));
+  } catch (error) {
+    return (error as Error).message;
+  }
+
+  return null;
+}
+
+// Returns the organization store, or an error response when the KV binding is missing
+function getTenantStore(c: Context): TenantStore | Response {
+  const store = createTenantStore((c.env as any).TENANTS);
+
+  if (!store.isEnabled()) {
+    return c.json({
+      success: false,
+      error: 'Organization storage unavailable',
+      details: 'The TENANTS binding is not configured'
+    }, 503);
+  }
+
+  return store;
+}
+
+function organizationErrorResponse(c: Context, operation: string, error: any): Response {
+  console.error(`Organization admin error (${operation}):`, error);
+  return c.json({
+    success: false,
+    error: `Failed to ${operation}`,
+    details: error?.message,
+    timestamp: new Date().toISOString()
+  }, 500);
+}
+
+async function readBody(c: Context): Promise<OrganizationRequest | null> {
+  try {
+    const body = await c.req.json();
+    return body && typeof body === 'object' ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+async function hostnameConflict(c: Context, store: TenantStore, hostnames: string[], id: string): Promise<Response | null> {
+  const owner = await store.findHostnameOwner(hostnames, id);
+  if (!owner) return null;
+
+  return c.json({
+    success: false,
+    error: 'Hostname already assigned',
+    details: `${owner.hostname} belongs to organization ${owner.id}`
+  }, 409);
+}
+
+// POST /api/admin/orgs
+export async function handleCreateOrganization(c: Context): Promise<Response> {
+  const store = getTenantStore(c);
+  if (store instanceof Response) return store;
+
+  const body = await readBody(c);
+  if (!body) {
+    return c.json({ success: false, error: 'Invalid request body', details: 'Request body must be a JSON object' }, 400);
+  }
+
+  if (typeof body.id !== 'string' || !isValidOrganizationId(body.id)) {
+    return c.json({
+      success: false,
+      error: 'Invalid organization fields',
+      details: 'ID must be 2-63 lowercase letters, digits or hyphens, starting with a letter or digit'
+    }, 400);
+  }
+
+  const fields: OrganizationFields = {
+    id: body.id,
+    name: body.name?.trim() ?? '',
+    hostnames: body.hostnames ?? [],
+    branding: { app_name: body.name?.trim() ?? '', ...DEFAULT_BRANDING, ...body.branding },
+    rate_plan: (body.rate_plan ?? 'standard') as RatePlan,
+    config: body.config ?? {}
+  };
+
+  const validationError = validateOrganizationFields(c.env, fields);
+  if (validationError) {
+    return c.json({ success: false, error: 'Invalid organization fields', details: validationError }, 400);
+  }
+
+  try {
+    const conflict = await hostnameConflict(c, store, fields.hostnames, fields.id);
+    if (conflict) return conflict;
+
+    const org = await store.create(fields);
+    if (!org) {
+      return c.json({ success: false, error: 'Organization already exists', details: `An organization with ID ${fields.id} already exists` }, 409);
+    }
+    await invalidateTenantCache();
+    return c.json({ success: true, organization: org }, 201);
+  } catch (error) {
+    return organizationErrorResponse(c, 'create organization', error);
+  }
+}
+
+// GET /api/admin/orgs
+export async function handleListOrganizations(c: Context): Promise<Response> {
+  const store = getTenantStore(c);
+  if (store instanceof Response) return store;
+
+  try {
+    const organizations = await store.list();
+    return c.json({ success: true, organizations, total: organizations.length });
+  } catch (error) {
+    return organizationErrorResponse(c, 'list organizations', error);
+  }
+}
+
+// GET /api/admin/orgs/:id
+export async function handleGetOrganization(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  const store = getTenantStore(c);
+  if (store instanceof Response) return store;
+
+  try {
+    const org = await store.get(id);
+    if (!org) {
+      return c.json({ success: false, error: 'Organization not found', details: `No organization exists with ID ${id}` }, 404);
+    }
+    return c.json({ success: true, organization: org });
+  } catch (error) {
+    return organizationErrorResponse(c, 'retrieve organization', error);
+  }
+}
+
+// PUT /api/admin/orgs/:id; omitted fields keep their values and branding is merged field by field
+export async function handleUpdateOrganization(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  const store = getTenantStore(c);
+  if (store instanceof Response) return store;
+
+  const body = await readBody(c);
+  if (!body) {
+    return c.json({ success: false, error: 'Invalid request body', details: 'Request body must be a JSON object' }, 400);
+  }
+
+  try {
+    const existing = await store.get(id);
+    if (!existing) {
+      return c.json({ success: false, error: 'Organization not found', details: `No organization exists with ID ${id}` }, 404);
+    }
+
+    const fields: Omit<OrganizationFields, 'id'> = {
+      name: body.name?.trim() ?? existing.name,
+      hostnames: body.hostnames ?? existing.hostnames,
+      branding: { ...existing.branding, ...body.branding },
+      rate_plan: (body.rate_plan ?? existing.rate_plan) as RatePlan,
+      config: body.config ?? existing.config
+    };
+
+    const validationError = validateOrganizationFields(c.env, fields);
+    if (validationError) {
+      return c.json({ success: false, error: 'Invalid organization fields', details: validationError }, 400);
+    }
+
+    const conflict = await hostnameConflict(c, store, fields.hostnames, id);
+    if (conflict) return conflict;
+
+    const org = await store.update(id, fields);
+    await invalidateTenantCache();
+    return c.json({ success: true, organization: org });
+  } catch (error) {
+    return organizationErrorResponse(c, 'update organization', error);
+  }
+}
+
+// DELETE /api/admin/orgs/:id; keys issued for the organization fall back to the deployment configuration
+export async function handleDeleteOrganization(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  const store = getTenantStore(c);
+  if (store instanceof Response) return store;
+
+  try {
+    if (!await store.delete(id)) {
+      return c.json({ success: false, error: 'Organization not found', details: `No organization exists with ID ${id}` }, 404);
+    }
+    await invalidateTenantCache();
+    return c.json({ success: true, deleted: id });
+  } catch (error) {
+    return organizationErrorResponse(c, 'delete organization', error);
+  }
+}
@@ -0,0 +1,207 @@
+import type { Context } from 'hono';
+import { loadConfig } from '../config';
+import { createTenantStore, isValidOrganizationId } from '../tenants';
+import {
+  WEBHOOK_EVENTS,
+  createWebhookStore,
+  newDelivery,
+  queueDelivery,
+  type WebhookEvent,
+  type WebhookStore
+} from '../webhooks';
+
+interface CreateWebhookRequest {
+  url?: string;
+  events?: string[];
+  org_id?: string | null;
+}
+
+// Keeps the subscription summary within KV's list metadata limit
+const MAX_URL_LENGTH = 500;
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 200;
+
+// Returns the webhook store, or an error response when the KV binding is missing
+function getWebhookStore(c: Context): WebhookStore | Response {
+  const store = createWebhookStore(loadConfig(c.env), (c.env as any).WEBHOOKS);
+
+  if (!store.isEnabled()) {
+    return c.json({
+      success: false,
+      error: 'Webhook storage unavailable',
+      details: 'The WEBHOOKS binding is not configured'
+    }, 503);
+  }
+
+  return store;
+}
+
+function webhookErrorResponse(c: Context, operation: string, error: any): Response {
+  console.error(`Webhook admin error (${operation}):`, error);
+  return c.json({
+    success: false,
+    error: `Failed to ${operation}`,
+    details: error?.message,
+    timestamp: new Date().toISOString()
+  }, 500);
+}
+
+function subscriptionNotFound(c: Context, id: string): Response {
+  return c.json({ success: false, error: 'Webhook not found', details: `No webhook subscription exists with ID ${id}` }, 404);
+}
+
+// Receivers must use https; plain http is only accepted for localhost during development
+function validateWebhookUrl(url: unknown, environment: string): string | null {
+  if (typeof url !== 'string' || url.length > MAX_URL_LENGTH) {
+    return `URL must be a string of at most ${MAX_URL_LENGTH} characters`;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'URL must be an absolute URL';
+  }
+
+  const localhost = ['localhost', '127.0.0.1'].includes(parsed.hostname);
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && localhost && environment === 'development')) {
+    return 'URL must use https';
+  }
+  return null;
+}
+
+// POST /api/admin/webhooks
+export async function handleCreateWebhook(c: Context): Promise<Response> {
+  const store = getWebhookStore(c);
+  if (store instanceof Response) return store;
+
+  let body: CreateWebhookRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ success: false, error: 'Invalid request body', details: 'Request body must be a JSON object' }, 400);
+  }
+
+  const urlError = validateWebhookUrl(body?.url, loadConfig(c.env).app.environment);
+  if (urlError) {
+    return c.json({ success: false, error: 'Invalid webhook fields', details: urlError }, 400);
+  }
+
+  if (!Array.isArray(body.events) || body.events.length === 0 ||
+      !body.events.every(event => WEBHOOK_EVENTS.includes(event as WebhookEvent))) {
+    return c.json({
+      success: false,
+      error: 'Invalid webhook fields',
+      details: `Events must be a non-empty list drawn from ${WEBHOOK_EVENTS.join(', ')}`
+    }, 400);
+  }
+
+  const orgId = body.org_id ?? null;
+  if (orgId !== null) {
+    const org = typeof orgId === 'string' && isValidOrganizationId(orgId)
+      ? await createTenantStore((c.env as any).TENANTS).get(orgId).catch(() => null)
+      : null;
+    if (!org) {
+      return c.json({ success: false, error: 'Organization not found', details: `No organization exists with ID ${orgId}` }, 400);
+    }
+  }
+
+  try {
+    const subscription = await store.createSubscription({
+      org_id: orgId,
+      url: body.url!,
+      events: Array.from(new Set(body.events as WebhookEvent[]))
+    });
+    // The signing secret is only ever returned here
+    return c.json({ success: true, webhook: subscription }, 201);
+  } catch (error) {
+    return webhookErrorResponse(c, 'create webhook', error);
+  }
+}
+
+// GET /api/admin/webhooks?org_id=
+export async function handleListWebhooks(c: Context): Promise<Response> {
+  const store = getWebhookStore(c);
+  if (store instanceof Response) return store;
+
+  try {
+    const orgId = c.req.query('org_id');
+    const webhooks = await store.listSubscriptions(orgId === undefined ? undefined : orgId || null);
+    return c.json({ success: true, webhooks, total: webhooks.length });
+  } catch (error) {
+    return webhookErrorResponse(c, 'list webhooks', error);
+  }
+}
+
+// DELETE /api/admin/webhooks/:id
+export async function handleDeleteWebhook(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  const store = getWebhookStore(c);
+  if (store instanceof Response) return store;
+
+  try {
+    if (!await store.deleteSubscription(id)) return subscriptionNotFound(c, id);
+    return c.json({ success: true, deleted: id });
+  } catch (error) {
+    return webhookErrorResponse(c, 'delete webhook', error);
+  }
+}
+
+// GET /api/admin/webhooks/:id/deliveries?limit=
+export async function handleListWebhookDeliveries(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  const store = getWebhookStore(c);
+  if (store instanceof Response) return store;
+
+  const limitParam = parseInt(c.req.query('limit') || '');
+  const limit = Number.isNaN(limitParam) ? DEFAULT_DELIVERY_LIMIT : Math.min(Math.max(limitParam, 1), MAX_DELIVERY_LIMIT);
+
+  try {
+    if (!await store.getSubscription(id)) return subscriptionNotFound(c, id);
+    const deliveries = await store.listDeliveries(id, limit);
+    return c.json({ success: true, webhook_id: id, deliveries, total: deliveries.length });
+  } catch (error) {
+    return webhookErrorResponse(c, 'list webhook deliveries', error);
+  }
+}
+
+// GET /api/admin/webhooks/:id/deliveries/:deliveryId
+export async function handleGetWebhookDelivery(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  const deliveryId = c.req.param('deliveryId') || '';
+  const store = getWebhookStore(c);
+  if (store instanceof Response) return store;
+
+  try {
+    const delivery = await store.getDelivery(id, deliveryId);
+    if (!delivery) {
+      return c.json({ success: false, error: 'Delivery not found', details: `No delivery ${deliveryId} exists for webhook ${id}` }, 404);
+    }
+    return c.json({ success: true, delivery });
+  } catch (error) {
+    return webhookErrorResponse(c, 'retrieve webhook delivery', error);
+  }
+}
+
+// POST /api/admin/webhooks/:id/deliveries/:deliveryId/redeliver sends the original payload again as a new delivery
+export async function handleRedeliverWebhook(c: Context): Promise<Response> {
+  const id = c.req.param('id') || '';
+  const deliveryId = c.req.param('deliveryId') || '';
+  const store = getWebhookStore(c);
+  if (store instanceof Response) return store;
+
+  try {
+    if (!await store.getSubscription(id)) return subscriptionNotFound(c, id);
+
+    const original = await store.getDelivery(id, deliveryId);
+    if (!original) {
+      return c.json({ success: false, error: 'Delivery not found', details: `No delivery ${deliveryId} exists for webhook ${id}` }, 404);
+    }
+
+    const delivery = newDelivery(id, original.payload, original.id);
+    await queueDelivery(c.env, loadConfig(c.env), store, delivery);
+    return c.json({ success: true, delivery: await store.getDelivery(id, delivery.id) ?? delivery }, 202);
+  } catch (error) {
+    return webhookErrorResponse(c, 'redeliver webhook', error);
+  }
+}
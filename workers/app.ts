@@ -1,591 +1,560 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { streamSSE } from "hono/streaming";
 import { createRequestHandler } from "react-router";
-import { loadConfig } from "./config";
-import { createCacheService, createPerformanceMonitor, createImageOptimizer } from "./cache";
-import { apiRateLimit, aiRateLimit } from "./middleware/rate-limit";
+import { loadConfig, type AppConfig } from "./config";
+import {
+  cacheScope,
+  createCacheService,
+  createPerformanceMonitor,
+  createImageOptimizer,
+  type CacheService,
+  type PerformanceMonitor,
+  type ImageOptimizer
+} from "./cache";
+import { createRateLimiters } from "./middleware/rate-limit";
+import { concurrencyLimit, concurrencyRejection, createConcurrencyLimiter, type ConcurrencyLimiter } from "./middleware/concurrency";
+import { apiKeyAuth, requireAdminToken, requireApiScope } from "./middleware/api-key";
+import { sessionAuth } from "./middleware/session";
+import { mockScenario } from "./middleware/mock-scenario";
+import { getRequestConfig, tenantResolver } from "./middleware/tenant";
 import { productionCors, developmentCors } from "./middleware/cors";
-import { handleConversationRequest } from "./api/conversation";
-import { AIMocks } from "./ai-mocks";
+import { handleConversationRequest, handleConversationStreamRequest } from "./api/conversation";
+import {
+  handleCreateCase,
+  handleListCases,
+  handleGetCase,
+  handleUpdateCase,
+  handleDeleteCase,
+  handleListCasePhotos,
+  handleAddCasePhoto,
+  handleListCaseMessages,
+  handleAddCaseMessage
+} from "./api/cases";
+import { handleCreateApiKey, handleListApiKeys, handleRevokeApiKey } from "./api/api-keys";
+import {
+  handleCreateWebhook,
+  handleListWebhooks,
+  handleDeleteWebhook,
+  handleListWebhookDeliveries,
+  handleGetWebhookDelivery,
+  handleRedeliverWebhook
+} from "./api/webhooks";
+import { handleCancelJob, handleGetJob } from "./api/jobs";
+import { handleCurrentUser, handleListMyAssessments, handleLogin, handleLogout, handleSignup } from "./api/auth";
+import {
+  handleCreateOrganization,
+  handleListOrganizations,
+  handleGetOrganization,
+  handleUpdateOrganization,
+  handleDeleteOrganization
+} from "./api/organizations";
+import { createAssessmentStorage, isValidAssessmentId } from "./storage";
+import { canAccessRecord, isUnidentified, recordOwner, resolveAccessor } from "./access";
+import { checkBinaryUpload, decodeImageDataUri, validateImageBuffer, type ValidatedImage } from "./image-validation";
+import {
+  assessmentCompletedEvent,
+  assessmentFailedEvent,
+  describeAssessmentError,
+  runAssessment,
+  validateCaseReference
+} from "./assessment";
+import { createLogger } from "./logger";
+import { createRetryContext, summarizeRetries, withRetry } from "./retry";
+import { circuitBreakerStats, CircuitOpenError } from "./circuit-breaker";
+import { createAIProvider } from "./ai";
+import { getJobRunner } from "./jobs";
+import { emitWebhookEvent } from "./webhooks";
 
 // Load configuration with environment detection
-let appConfig;
-let cacheService;
-let performanceMonitor;
-let imageOptimizer;
+let appConfig: AppConfig;
+let cacheService: CacheService;
+let performanceMonitor: PerformanceMonitor;
+let imageOptimizer: ImageOptimizer;
+let concurrencyLimiter: ConcurrencyLimiter;
 
 try {
   appConfig = loadConfig();
   cacheService = createCacheService(appConfig);
   performanceMonitor = createPerformanceMonitor();
   imageOptimizer = createImageOptimizer(appConfig);
+  concurrencyLimiter = createConcurrencyLimiter(appConfig);
 } catch (error) {
   console.error('Failed to load configuration:', error);
   throw error;
 }
 
 // Enhanced logger with configuration-driven behavior
-const logger = {
-  error: (message: string, data?: any) => {
-    if (appConfig.logging.level === 'error' || appConfig.logging.level === 'warn' || 
-        appConfig.logging.level === 'info' || appConfig.logging.level === 'debug') {
-      const logData = appConfig.logging.enable_structured_logging ? 
-        { level: 'ERROR', message, data, timestamp: new Date().toISOString() } : 
-        `[${new Date().toISOString()}] ERROR: ${message}`;
-      console.error(logData, appConfig.logging.enable_structured_logging ? undefined : data);
-    }
-  },
-  info: (message: string, data?: any) => {
-    if (appConfig.logging.level === 'info' || appConfig.logging.level === 'debug') {
-      const logData = appConfig.logging.enable_structured_logging ? 
-        { level: 'INFO', message, data, timestamp: new Date().toISOString() } : 
-        `[${new Date().toISOString()}] INFO: ${message}`;
-      console.log(logData, appConfig.logging.enable_structured_logging ? undefined : data);
-    }
-  },
-  warn: (message: string, data?: any) => {
-    if (appConfig.logging.level === 'warn' || appConfig.logging.level === 'info' || 
-        appConfig.logging.level === 'debug') {
-      const logData = appConfig.logging.enable_structured_logging ? 
-        { level: 'WARN', message, data, timestamp: new Date().toISOString() } : 
-        `[${new Date().toISOString()}] WARN: ${message}`;
-      console.warn(logData, appConfig.logging.enable_structured_logging ? undefined : data);
-    }
-  },
-  debug: (message: string, data?: any) => {
-    if (appConfig.logging.level === 'debug') {
-      const logData = appConfig.logging.enable_structured_logging ? 
-        { level: 'DEBUG', message, data, timestamp: new Date().toISOString() } : 
-        `[${new Date().toISOString()}] DEBUG: ${message}`;
-      console.debug(logData, appConfig.logging.enable_structured_logging ? undefined : data);
-    }
-  }
-};
+const logger = createLogger(appConfig);
 
 const app = new Hono();
 
 // Apply CORS middleware
 app.use('*', appConfig.app.environment === 'production' ? productionCors : developmentCors);
 
-// Apply rate limiting to API routes
+// Shared cache bindings and the deployed environment's config only exist on requests, so the isolate's
+// cache service and concurrency limiter are rebuilt once with them on the first API request
+let requestEnvApplied = false;
+app.use('/api/*', async (c, next) => {
+  if (!requestEnvApplied) {
+    requestEnvApplied = true;
+    const envConfig = loadConfig(c.env);
+    concurrencyLimiter = createConcurrencyLimiter(envConfig);
+    cacheService = createCacheService(envConfig, {
+      kv: (c.env as any)?.CACHE_KV,
+      cache: typeof caches !== 'undefined' ? (caches as unknown as { default: Cache }).default : undefined
+    });
+    logger.info('Cache service initialized', { provider: cacheService.getCacheStats().provider });
+  }
+  await next();
+});
+
+function requestCache(c: Context): CacheService {
+  const scope = cacheScope(c.get('tenant')?.id, c.get('mockScenario'));
+  return scope ? cacheService.scoped(scope) : cacheService;
+}
+
+// Resolve API keys first so rate limits are tracked per key rather than per IP
+app.use('/api/*', apiKeyAuth());
+app.use('/api/*', sessionAuth());
+
+// Organization from the API key or hostname; pages need it too for branding
+app.use('*', tenantResolver());
+app.use('/api/*', mockScenario());
+
+// Apply rate limiting to API routes (sized per request by the organization's rate plan)
+const { apiRateLimit, aiRateLimit, authRateLimit } = createRateLimiters(appConfig);
 app.use('/api/*', apiRateLimit);
 
 // Apply AI-specific rate limiting to AI endpoints
 app.use('/api/assess-damage', aiRateLimit);
+app.use('/api/assess-damage/batch', aiRateLimit);
+app.use('/api/assess-damage/stream', aiRateLimit);
+app.use('/api/jobs/assess', aiRateLimit);
 app.use('/api/knowledge-search', aiRateLimit);
 app.use('/api/conversation', aiRateLimit);
+app.use('/api/conversation/stream', aiRateLimit);
+app.use('/api/auth/login', authRateLimit);
+app.use('/api/auth/signup', authRateLimit);
+app.on('POST', ['/login', '/signup'], authRateLimit);
+
+// Scope checks and daily quotas for keyed access to the AI endpoints ("/x/*" also matches "/x")
+app.use('/api/assess-damage/*', requireApiScope('assess-damage'));
+app.use('/api/jobs/assess', requireApiScope('assess-damage'));
+// Polling and canceling a job only check the key; its quota was charged when the job was submitted
+app.on(['GET', 'DELETE'], '/api/jobs/:id', requireApiScope('assess-damage', { chargeQuota: false }));
+app.use('/api/knowledge-search', requireApiScope('knowledge-search'));
+app.use('/api/conversation/*', requireApiScope('conversation'));
+
+// Cap AI work in flight per isolate; checked after rate limits and scopes so rejected requests never hold a slot
+// Batches take a slot per image as it runs instead (see the batch route)
+const aiConcurrencyLimit = concurrencyLimit(() => concurrencyLimiter, performanceMonitor);
+app.use('/api/assess-damage', aiConcurrencyLimit);
+app.use('/api/assess-damage/stream', aiConcurrencyLimit);
+app.use('/api/jobs/assess', aiConcurrencyLimit);
+app.use('/api/knowledge-search', aiConcurrencyLimit);
+app.use('/api/conversation', aiConcurrencyLimit);
+app.use('/api/conversation/stream', aiConcurrencyLimit);
+
+app.use('/api/admin/*', requireAdminToken());
+
+// Read the uploaded image bytes from a JSON data URI, multipart form or raw image/* body
+async function readAssessmentUpload(c: Context): Promise<{ buffer: Uint8Array; declaredMimeType: string; caseId?: string } | Response> {
+  const config = getRequestConfig(c);
+  const contentType = (c.req.header('Content-Type') || '').split(';')[0].trim().toLowerCase();
+
+  // Multipart: the file in an "image" field, with an optional "case_id" field
+  if (contentType === 'multipart/form-data') {
+    const form = await c.req.formData();
+    const file = form.get('image');
+    if (!file || typeof file === 'string') {
+      return c.json({ 
+        success: false, 
+        error: "Missing or invalid image field",
+        details: "Multipart requests must include the image as a file field named 'image'" 
+      }, 400);
+    }
 
-// Image security validation utilities (using configuration)
-const IMAGE_MAGIC_BYTES = {
-  jpeg: [0xFF, 0xD8, 0xFF],
-  png: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A],
-  webp: [0x52, 0x49, 0x46, 0x46], // RIFF header for WebP
-  gif: [0x47, 0x49, 0x46, 0x38], // GIF8 header
-};
-
-// Configuration-driven constants
-const ALLOWED_MIME_TYPES = appConfig.image.allowed_types;
-const MAX_IMAGE_DIMENSIONS = appConfig.api.limits.max_dimensions;
+    const uploadError = checkBinaryUpload(file.type, file.size, config);
+    if (uploadError) {
+      return c.json({ success: false, error: uploadError.error, details: uploadError.details }, uploadError.status);
+    }
 
-function validateImageSignature(buffer: Uint8Array): { valid: boolean; detectedType: string | null; error?: string } {
-  if (buffer.length < 8) {
-    return { valid: false, detectedType: null, error: 'Image data too small to validate' };
+    const caseId = form.get('case_id');
+    return {
+      buffer: new Uint8Array(await file.arrayBuffer()),
+      declaredMimeType: file.type,
+      caseId: typeof caseId === 'string' && caseId ? caseId : undefined
+    };
   }
 
-  // Check JPEG signature
-  if (buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) {
-    return { valid: true, detectedType: 'image/jpeg' };
-  }
+  // Raw binary: the body is the image itself, the case ID comes from the query string
+  if (contentType.startsWith('image/')) {
+    const contentLength = c.req.header('Content-Length');
+    const uploadError = checkBinaryUpload(contentType, contentLength ? parseInt(contentLength) : null, config);
+    if (uploadError) {
+      return c.json({ success: false, error: uploadError.error, details: uploadError.details }, uploadError.status);
+    }
 
-  // Check PNG signature
-  if (buffer.length >= 8 && 
-      buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47 &&
-      buffer[4] === 0x0D && buffer[5] === 0x0A && buffer[6] === 0x1A && buffer[7] === 0x0A) {
-    return { valid: true, detectedType: 'image/png' };
+    return {
+      buffer: new Uint8Array(await c.req.arrayBuffer()),
+      declaredMimeType: contentType,
+      caseId: c.req.query('case_id') || undefined
+    };
   }
 
-  // Check WebP signature (RIFF + WebP)
-  if (buffer.length >= 12 &&
-      buffer[0] === 0x52 && buffer[1] === 0x49 && buffer[2] === 0x46 && buffer[3] === 0x46 &&
-      buffer[8] === 0x57 && buffer[9] === 0x45 && buffer[10] === 0x42 && buffer[11] === 0x50) {
-    return { valid: true, detectedType: 'image/webp' };
+  // Validate request body structure
+  const body = await c.req.json();
+  if (!body || typeof body !== 'object') {
+    return c.json({ 
+      success: false, 
+      error: "Invalid request body",
+      details: "Request body must be a JSON object" 
+    }, 400);
   }
 
-  return { valid: false, detectedType: null, error: 'Unsupported or invalid image format' };
-}
+  const { image, case_id: caseId } = body;
 
-function validateImageStructure(buffer: Uint8Array, mimeType: string): { valid: boolean; error?: string } {
-  try {
-    if (mimeType === 'image/jpeg') {
-      return validateJPEGStructure(buffer);
-    } else if (mimeType === 'image/png') {
-      return validatePNGStructure(buffer);
-    } else if (mimeType === 'image/webp') {
-      return validateWebPStructure(buffer);
-    }
-    return { valid: false, error: 'Unsupported image type for structure validation' };
-  } catch (error) {
-    return { valid: false, error: 'Image structure validation failed' };
+  // Decode the data URI (size and type checks run before the CPU-intensive decode)
+  const decoded = decodeImageDataUri(image, config);
+  if (!decoded.valid) {
+    return c.json({ success: false, error: decoded.error, details: decoded.details }, decoded.status);
   }
-}
+  logger.debug('Base64 decode successful', { actualSize: decoded.buffer.length });
 
-function validateJPEGStructure(buffer: Uint8Array): { valid: boolean; error?: string } {
-  // Basic JPEG validation - check for proper SOI and EOI markers
-  if (buffer.length < 4) return { valid: false, error: 'JPEG too small' };
-  
-  // Start of Image marker (SOI)
-  if (buffer[0] !== 0xFF || buffer[1] !== 0xD8) {
-    return { valid: false, error: 'Invalid JPEG start marker' };
-  }
-  
-  // Look for End of Image marker (EOI) in last few bytes
-  const endIndex = buffer.length - 2;
-  if (endIndex >= 0 && (buffer[endIndex] !== 0xFF || buffer[endIndex + 1] !== 0xD9)) {
-    // EOI might not be at the very end due to metadata, so check last 100 bytes
-    let foundEOI = false;
-    for (let i = Math.max(0, buffer.length - 100); i < buffer.length - 1; i++) {
-      if (buffer[i] === 0xFF && buffer[i + 1] === 0xD9) {
-        foundEOI = true;
-        break;
-      }
-    }
-    if (!foundEOI) {
-      return { valid: false, error: 'JPEG missing end marker' };
-    }
-  }
-  
-  return { valid: true };
+  return { buffer: decoded.buffer, declaredMimeType: decoded.declaredMimeType, caseId };
 }
 
-function validatePNGStructure(buffer: Uint8Array): { valid: boolean; error?: string } {
-  if (buffer.length < 33) return { valid: false, error: 'PNG too small' };
-  
-  // PNG signature already validated, check for IHDR chunk
-  if (buffer[12] !== 0x49 || buffer[13] !== 0x48 || buffer[14] !== 0x44 || buffer[15] !== 0x52) {
-    return { valid: false, error: 'PNG missing IHDR chunk' };
+// Parse and validate a single-image assessment request, returning an error response on failure
+async function parseAssessmentRequest(c: Context): Promise<{ image: ValidatedImage; caseId?: string } | Response> {
+  const upload = await readAssessmentUpload(c);
+  if (upload instanceof Response) {
+    return upload;
   }
-  
-  // Basic dimension validation from IHDR
-  const width = (buffer[16] << 24) | (buffer[17] << 16) | (buffer[18] << 8) | buffer[19];
-  const height = (buffer[20] << 24) | (buffer[21] << 16) | (buffer[22] << 8) | buffer[23];
-  
-  if (width === 0 || height === 0 || width > MAX_IMAGE_DIMENSIONS || height > MAX_IMAGE_DIMENSIONS) {
-    return { valid: false, error: `PNG dimensions invalid or too large: ${width}x${height}` };
+  const { buffer, declaredMimeType, caseId } = upload;
+  const config = getRequestConfig(c);
+
+  // Signature, structure and sanitization checks
+  const validated = validateImageBuffer(buffer, declaredMimeType, config);
+  if (!validated.valid) {
+    return c.json({ success: false, error: validated.error, details: validated.details }, validated.status);
   }
-  
-  return { valid: true };
-}
 
-function validateWebPStructure(buffer: Uint8Array): { valid: boolean; error?: string } {
-  if (buffer.length < 20) return { valid: false, error: 'WebP too small' };
-  
-  // WebP signature already validated, check file size consistency
-  const fileSize = (buffer[4]) | (buffer[5] << 8) | (buffer[6] << 16) | (buffer[7] << 24);
-  if (fileSize + 8 !== buffer.length) {
-    return { valid: false, error: 'WebP file size mismatch' };
+  // Optional case to attach this photo to
+  const caseError = await validateCaseReference(c.env, config, caseId, await resolveAccessor(c), c.get('tenant')?.id);
+  if (caseError) {
+    return c.json({ success: false, error: caseError.error, details: caseError.details }, caseError.status);
   }
-  
-  return { valid: true };
+
+  return { image: validated, caseId };
 }
 
-function sanitizeImageBuffer(buffer: Uint8Array): Uint8Array {
-  // Create a copy to avoid modifying original
-  const sanitized = new Uint8Array(buffer);
-  
-  // Remove any potential null bytes at the end (common in malformed files)
-  let actualLength = sanitized.length;
-  while (actualLength > 0 && sanitized[actualLength - 1] === 0) {
-    actualLength--;
-  }
-  
-  return sanitized.slice(0, actualLength);
+// Run fn over items with at most `limit` calls in flight, preserving result order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
 }
 
 // Enhanced API routes for damage assessment with RAG
 app.post("/api/assess-damage", async (c) => {
   const endTimer = performanceMonitor.startTimer('damage_assessment_total');
+  const config = getRequestConfig(c);
+  // Retries stop once they would run past the request timeout
+  const retry = createRetryContext(config, config.api.timeout.damage_assessment);
+  let caseId: string | undefined;
   
   try {
-    // Validate request body structure
-    const body = await c.req.json();
-    if (!body || typeof body !== 'object') {
-      return c.json({ 
-        success: false, 
-        error: "Invalid request body",
-        details: "Request body must be a JSON object" 
-      }, 400);
+    const request = await parseAssessmentRequest(c);
+    if (request instanceof Response) {
+      return request;
     }
 
-    const { image } = body;
-    if (!image || typeof image !== 'string') {
-      return c.json({ 
-        success: false, 
-        error: "Missing or invalid image field",
-        details: "Image field is required and must be a string" 
-      }, 400);
-    }
+    caseId = request.caseId;
+    const result = await runAssessment(c.env, request.image, {
+      config,
+      cache: requestCache(c),
+      caseId,
+      ownerId: recordOwner(await resolveAccessor(c)),
+      userId: c.get('user')?.id,
+      orgId: c.get('tenant')?.id,
+      mockScenario: c.get('mockScenario'),
+      monitor: performanceMonitor,
+      retry,
+      endTimer
+    });
+    emitWebhookEvent(c, 'assessment.completed', assessmentCompletedEvent(result, caseId));
+    return c.json(result);
 
-    // Validate data URI format and extract MIME type
-    if (!image.startsWith('data:image/')) {
-      return c.json({ 
-        success: false, 
-        error: "Invalid image format",
-        details: "Image must be a valid data URI starting with 'data:image/'" 
-      }, 400);
+  } catch (error) {
+    logger.error('AI assessment failed', { error: (error as Error).message, stack: (error as Error).stack });
+    
+    const failure = describeAssessmentError(error);
+    const { statusCode, errorMessage, errorDetails, retryAfterSeconds } = failure;
+    emitWebhookEvent(c, 'assessment.failed', assessmentFailedEvent(failure, caseId));
+    if (retryAfterSeconds) {
+      c.header('Retry-After', retryAfterSeconds.toString());
     }
+    
+    return c.json({ 
+      success: false, 
+      error: errorMessage, 
+      details: errorDetails,
+      ...(retryAfterSeconds ? { retry_after: retryAfterSeconds } : {}),
+      timestamp: new Date().toISOString()
+    }, statusCode as any);
+  }
+});
 
-    // Extract and validate MIME type from data URI
-    const mimeTypeMatch = image.match(/^data:(image\/[^;]+);base64,/);
-    if (!mimeTypeMatch) {
-      return c.json({ 
-        success: false, 
-        error: "Invalid data URI format",
-        details: "Data URI must specify MIME type and base64 encoding" 
-      }, 400);
-    }
+// Streaming assessment: emits Server-Sent Events as each pipeline step starts and finishes
+app.post("/api/assess-damage/stream", async (c) => {
+  const endTimer = performanceMonitor.startTimer('damage_assessment_total');
+  const config = getRequestConfig(c);
+  const retry = createRetryContext(config, config.api.timeout.damage_assessment);
 
-    const declaredMimeType = mimeTypeMatch[1];
-    if (!ALLOWED_MIME_TYPES.includes(declaredMimeType)) {
-      return c.json({ 
-        success: false, 
-        error: "Unsupported image type",
-        details: `Only JPEG, PNG, and WebP images are supported. Received: ${declaredMimeType}` 
-      }, 400);
-    }
+  // Validation runs before the stream opens so request errors keep their HTTP status codes
+  let request;
+  try {
+    request = await parseAssessmentRequest(c);
+  } catch (error) {
+    logger.error('Streaming assessment request invalid', { error: (error as Error).message });
+    return c.json({ 
+      success: false, 
+      error: "Invalid request body",
+      details: (error as Error).message 
+    }, 400);
+  }
+  if (request instanceof Response) {
+    return request;
+  }
+  const { image, caseId } = request;
 
-    // Early size validation (before expensive base64 decoding)
-    // Estimate decoded size: base64 is ~1.33x larger than binary data
-    const estimatedDecodedSize = Math.floor(image.length * 0.75);
-    
-    if (image.length > appConfig.api.limits.max_file_size) {
-      return c.json({ 
-        success: false, 
-        error: "Image too large",
-        details: `Image size ${Math.round(image.length / (1024 * 1024) * 100) / 100}MB exceeds limit of ${Math.round(appConfig.api.limits.max_file_size / (1024 * 1024))}MB. Please compress your image and try again.` 
-      }, 413);
-    }
-    
-    if (estimatedDecodedSize > appConfig.api.limits.max_decoded_size) {
-      return c.json({ 
-        success: false, 
-        error: "Image too large when decoded",
-        details: `Estimated decoded size ${Math.round(estimatedDecodedSize / (1024 * 1024) * 100) / 100}MB exceeds limit of ${Math.round(appConfig.api.limits.max_decoded_size / (1024 * 1024))}MB. Please use a smaller image.` 
-      }, 413);
-    }
+  return streamSSE(c, async (stream) => {
+    const send = (event: string, data: unknown) => stream.writeSSE({ event, data: JSON.stringify(data) });
 
-    // Validate and extract base64 data
-    const base64Data = image.split(',')[1];
-    if (!base64Data) {
-      return c.json({ 
-        success: false, 
-        error: "Invalid data URI format",
-        details: "Data URI must contain base64 data after comma" 
-      }, 400);
-    }
+    await send('stage', { stage: 'validation', status: 'completed', progress: 10, label: 'Image validated' });
 
-    // CPU-intensive base64 decoding with timeout protection
-    let imageBuffer;
     try {
-      // Log before CPU-intensive operation
-      logger.debug('Starting base64 decode', { 
-        base64Size: base64Data.length,
-        estimatedSize: estimatedDecodedSize 
-      });
-      
-      imageBuffer = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
-      
-      // Log successful decode
-      logger.debug('Base64 decode successful', { 
-        actualSize: imageBuffer.length,
-        estimatedSize: estimatedDecodedSize 
+      const result = await runAssessment(c.env, image, {
+        config,
+        cache: requestCache(c),
+        caseId,
+        ownerId: recordOwner(await resolveAccessor(c)),
+        userId: c.get('user')?.id,
+        orgId: c.get('tenant')?.id,
+        mockScenario: c.get('mockScenario'),
+        monitor: performanceMonitor,
+        retry,
+        endTimer,
+        onProgress: (event) => send('stage', event)
       });
+      emitWebhookEvent(c, 'assessment.completed', assessmentCompletedEvent(result, caseId));
+      await send('result', result);
     } catch (error) {
-      logger.error('Base64 decode failed', { 
-        error: (error as Error).message,
-        base64Size: base64Data.length 
+      logger.error('Streaming assessment failed', { error: (error as Error).message, stack: (error as Error).stack });
+      const failure = describeAssessmentError(error);
+      const { statusCode, errorMessage, errorDetails, retryAfterSeconds } = failure;
+      emitWebhookEvent(c, 'assessment.failed', assessmentFailedEvent(failure, caseId));
+      await send('error', {
+        success: false,
+        status: statusCode,
+        error: errorMessage,
+        details: errorDetails,
+        ...(retryAfterSeconds ? { retry_after: retryAfterSeconds } : {}),
+        timestamp: new Date().toISOString()
       });
-      
-      // Check if this might be a CPU limit error
-      if ((error as Error).message?.includes('exceeded') || 
-          (error as Error).message?.includes('timeout') ||
-          (error as Error).message?.includes('limit')) {
-        return c.json({ 
-          success: false, 
-          error: "Image too large to process",
-          details: "The image is too large and caused a processing timeout. Please use a smaller image (under 2MB recommended)." 
-        }, 413);
-      }
-      
-      return c.json({ 
-        success: false, 
-        error: "Invalid base64 data",
-        details: "Unable to decode base64 image data" 
-      }, 400);
     }
+  });
+});
 
-    // Validate decoded image size (prevent memory issues)
-    if (imageBuffer.length > appConfig.api.limits.max_decoded_size) {
-      return c.json({ 
-        success: false, 
-        error: "Decoded image too large",
-        details: `Decoded image size ${imageBuffer.length} bytes exceeds limit of ${Math.round(appConfig.api.limits.max_decoded_size / (1024 * 1024))}MB` 
-      }, 413);
-    }
+// Batch assessment: each image is validated and assessed independently with bounded parallelism
+app.post("/api/assess-damage/batch", async (c) => {
+  const endTimer = performanceMonitor.startTimer('batch_assessment_total');
+  const config = getRequestConfig(c);
 
-    // Security validation: Verify image file signature matches declared MIME type
-    const signatureValidation = validateImageSignature(imageBuffer);
-    if (!signatureValidation.valid) {
-      return c.json({ 
-        success: false, 
-        error: "Invalid image file",
-        details: signatureValidation.error || "Image file signature validation failed" 
-      }, 400);
-    }
+  let body;
+  try {
+    body = await c.req.json();
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== 'object') {
+    return c.json({ 
+      success: false, 
+      error: "Invalid request body",
+      details: "Request body must be a JSON object" 
+    }, 400);
+  }
 
-    // Verify declared MIME type matches actual image type
-    if (signatureValidation.detectedType !== declaredMimeType) {
-      return c.json({ 
-        success: false, 
-        error: "Image type mismatch",
-        details: `Declared type ${declaredMimeType} does not match actual type ${signatureValidation.detectedType}` 
-      }, 400);
-    }
+  const { images, case_id: caseId } = body;
+  if (!Array.isArray(images) || images.length === 0) {
+    return c.json({ 
+      success: false, 
+      error: "Missing or invalid images field",
+      details: "Images field is required and must be a non-empty array of data URIs" 
+    }, 400);
+  }
 
-    // Validate internal image structure
-    const structureValidation = validateImageStructure(imageBuffer, declaredMimeType);
-    if (!structureValidation.valid) {
-      return c.json({ 
-        success: false, 
-        error: "Corrupted image file",
-        details: structureValidation.error || "Image structure validation failed" 
-      }, 400);
-    }
+  if (images.length > config.api.limits.max_batch_size) {
+    return c.json({ 
+      success: false, 
+      error: "Batch too large",
+      details: `A batch may contain at most ${config.api.limits.max_batch_size} images. Received: ${images.length}` 
+    }, 413);
+  }
 
-    // Sanitize image buffer to remove potential malicious data
-    const sanitizedBuffer = sanitizeImageBuffer(imageBuffer);
-    
-    // Generate image hash for caching
-    const imageHash = cacheService.generateImageHash(sanitizedBuffer);
-    
-    // Check cache first
-    const cachedResult = await cacheService.getCachedAssessmentResult(imageHash);
-    if (cachedResult) {
-      logger.info('Cache hit for assessment', { imageHash });
-      endTimer();
-      return c.json({
-        ...cachedResult.assessment,
-        cached: true,
-        cache_timestamp: cachedResult.timestamp
-      });
+  try {
+    const caseError = await validateCaseReference(c.env, config, caseId, await resolveAccessor(c), c.get('tenant')?.id);
+    if (caseError) {
+      return c.json({ success: false, error: caseError.error, details: caseError.details }, caseError.status);
     }
-    
-    // Log security validation success
-    logger.info(`Image security validation passed`, {
-      declaredType: declaredMimeType,
-      detectedType: signatureValidation.detectedType,
-      originalSize: imageBuffer.length,
-      sanitizedSize: sanitizedBuffer.length,
-      imageHash
-    });
-    
-    // Step 1: Vision AI Analysis using LLaVA (use sanitized buffer)
-    const visionTimer = performanceMonitor.startTimer('vision_analysis');
-    
-    // Check vision cache first
-    let visionResponse = await cacheService.getCachedVisionResult(imageHash);
-    if (!visionResponse) {
-      // Check if we should use development mocks
-      if (AIMocks.shouldUseMocks(appConfig, c.env)) {
-        logger.info('Using AI mocks for development');
-        const mockResponse = await AIMocks.mockVisionAnalysis(
-          sanitizedBuffer,
-          "Analyze this image for property damage assessment. Describe any type of damage present, affected materials, severity level, and visible issues. Be objective and only describe what is actually visible."
-        );
-        visionResponse = {
-          description: mockResponse.description,
-          confidence: mockResponse.confidence
-        };
-      } else {
-        // Production AI call with timeout
-        const timeoutPromise = new Promise((_, reject) => 
-          setTimeout(() => reject(new Error('AI vision analysis timeout')), appConfig.ai.timeout_ms)
-        );
-        
-        const aiPromise = (c.env as any).AI.run(appConfig.ai.vision_model, {
-          image: Array.from(sanitizedBuffer),
-          prompt: "Analyze this image for property damage assessment. Identify: 1) What type of damage (if any) is visible, 2) Specific materials and surfaces affected, 3) Severity and extent of any damage, 4) If water damage is present, assess water damage class (Class 1-4) and category (1-3), 5) Structural or safety concerns, 6) Recommended next steps for assessment or remediation. Be objective and only describe what is actually visible in the image."
-        });
-        
-        visionResponse = await Promise.race([aiPromise, timeoutPromise]);
+
+    const results = await mapWithConcurrency(images, config.performance.batch_concurrency, async (image: unknown, index) => {
+      const imageTimer = performanceMonitor.startTimer('damage_assessment_total');
+
+      const decoded = decodeImageDataUri(image, config);
+      if (!decoded.valid) {
+        return { index, success: false, status: decoded.status, error: decoded.error, details: decoded.details };
       }
-      
-      // Cache vision result
-      await cacheService.cacheVisionResult(imageHash, visionResponse);
-    }
-    
-    visionTimer();
 
-    // Step 2: RAG Query for Industry Knowledge
-    const ragTimer = performanceMonitor.startTimer('rag_search');
-    let ragResponse: any = { response: '', data: [] };
-    
-    try {
-      // Check if AI binding and autorag method exist
-      if (appConfig.ai.enable_autorag) {
-        const ragQuery = `property damage assessment materials analysis ${visionResponse.description} remediation standards protocol requirements`;
-        
-        // Check RAG cache first
-        let cachedRAGResult = await cacheService.getCachedRAGResult(ragQuery);
-        if (cachedRAGResult) {
-          ragResponse = cachedRAGResult;
-        } else {
-          // Use mocks or real AutoRAG
-          if (AIMocks.shouldUseMocks(appConfig, c.env)) {
-            logger.info('Using AutoRAG mocks for development');
-            ragResponse = await AIMocks.mockAutoRAGSearch(ragQuery);
-          } else if ((c.env as any).AI && typeof (c.env as any).AI.autorag === 'function') {
-            // Production AutoRAG call with timeout
-            const timeoutPromise = new Promise((_, reject) => 
-              setTimeout(() => reject(new Error('AutoRAG timeout')), appConfig.ai.timeout_ms)
-            );
-            
-            const ragPromise = (c.env as any).AI.autorag(appConfig.ai.autorag_dataset).aiSearch({
-              query: ragQuery
-            });
-            
-            ragResponse = await Promise.race([ragPromise, timeoutPromise]);
-          } else {
-            logger.warn('AutoRAG not available, continuing with vision-only analysis');
-          }
-          
-          // Cache RAG result
-          await cacheService.cacheRAGResult(ragQuery, ragResponse);
-        }
-      } else {
-        logger.info('AutoRAG disabled, continuing with vision-only analysis');
+      const validated = validateImageBuffer(decoded.buffer, decoded.declaredMimeType, config);
+      if (!validated.valid) {
+        return { index, success: false, status: validated.status, error: validated.error, details: validated.details };
       }
-    } catch (error) {
-      logger.error('AutoRAG search failed', { error: (error as Error).message, stack: (error as Error).stack });
-      // Continue with vision-only analysis
-    }
-    
-    ragTimer();
 
-    // Step 3: Combine Vision + RAG for Enhanced Assessment
-    const assessmentTimer = performanceMonitor.startTimer('enhanced_assessment');
-    
-    let enhancedAssessment;
-    if (AIMocks.shouldUseMocks(appConfig, c.env)) {
-      logger.info('Using language model mocks for development');
-      const mockResponse = await AIMocks.mockLanguageGeneration([
-        {
-          role: "system", 
-          content: "You are a friendly and experienced property damage assessment expert who communicates in a conversational, approachable tone. Your goal is to help property owners understand their situation and feel confident about the next steps. Always end your response with an engaging follow-up question to encourage further conversation and gather more details that could help with the assessment."
-        },
-        {
-          role: "user",
-          content: `Vision Analysis: ${visionResponse.description}\n\nIndustry Guidelines: ${ragResponse.response || JSON.stringify(ragResponse.data || [])}\n\n${ragResponse.response || ragResponse.data?.length ? 'Using industry guidelines above, provide a professional assessment' : 'Based on standard assessment practices, provide a professional assessment'} for this situation. Structure your response based on what was actually found in the image analysis. If damage is present, cover: 1) **Damage Classification** (type and severity), 2) **Materials Assessment** (what can be repaired vs. must be removed), 3) **Remediation Strategy** (equipment needed, repair protocol), 4) **Timeline and Phases** (emergency services, repairs, reconstruction), 5) **Safety Considerations** (PPE requirements, containment needs), 6) **Documentation Requirements** (photos, measurements, documentation). If no damage is visible, explain that clearly. Keep the tone professional but approachable, and end with a specific question about the property's conditions or timeline.`
-        }
-      ]);
-      enhancedAssessment = mockResponse;
-    } else {
-      // Production language model call with timeout
-      const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Language model timeout')), appConfig.ai.timeout_ms)
-      );
-      
-      const aiPromise = (c.env as any).AI.run(appConfig.ai.language_model, {
-        messages: [
-          {
-            role: "system", 
-            content: "You are a friendly and experienced property damage assessment expert who communicates in a conversational, approachable tone. Your goal is to help property owners understand their situation and feel confident about the next steps. Always end your response with an engaging follow-up question to encourage further conversation and gather more details that could help with the assessment."
-          },
-          {
-            role: "user",
-            content: `Vision Analysis: ${visionResponse.description}\n\nIndustry Guidelines: ${ragResponse.response || JSON.stringify(ragResponse.data || [])}\n\n${ragResponse.response || ragResponse.data?.length ? 'Using industry guidelines above, help me understand' : 'Based on standard property damage assessment practices, help me understand'} this situation. Please provide a conversational assessment based on what was actually found in the image analysis. If damage is present, cover: 1) What type of damage we're dealing with 2) The steps we'll need to take 3) How long this might take 4) What equipment will be needed 5) What to document for insurance. If no damage is visible, explain that clearly. Keep the tone friendly and reassuring, and end with a specific question to learn more about the situation.`
-          }
-        ]
-      });
-      
-      enhancedAssessment = await Promise.race([aiPromise, timeoutPromise]);
-    }
-    
-    assessmentTimer();
+      // Each image runs its own pipeline, so each holds its own slot
+      const slot = await concurrencyLimiter.acquire();
+      if (!slot.admitted) {
+        const { success: _success, ...rejection } = concurrencyRejection(slot);
+        return { index, success: false, status: 503, ...rejection };
+      }
 
-    // Prepare final response
-    const finalResult = {
+      try {
+        const result = await runAssessment(c.env, validated, {
+          config,
+          cache: requestCache(c),
+          caseId,
+          ownerId: recordOwner(await resolveAccessor(c)),
+          userId: c.get('user')?.id,
+          orgId: c.get('tenant')?.id,
+          mockScenario: c.get('mockScenario'),
+          monitor: performanceMonitor,
+          // Each image gets the single-image deadline, counted from when it starts
+          retry: createRetryContext(config, config.api.timeout.damage_assessment),
+          endTimer: imageTimer
+        });
+        emitWebhookEvent(c, 'assessment.completed', assessmentCompletedEvent(result, caseId));
+        return { index, ...result };
+      } catch (error) {
+        logger.error('Batch image assessment failed', { index, error: (error as Error).message });
+        const failure = describeAssessmentError(error);
+        const { statusCode, errorMessage, errorDetails, retryAfterSeconds } = failure;
+        emitWebhookEvent(c, 'assessment.failed', assessmentFailedEvent(failure, caseId));
+        return {
+          index,
+          success: false,
+          status: statusCode,
+          error: errorMessage,
+          details: errorDetails,
+          ...(retryAfterSeconds ? { retry_after: retryAfterSeconds } : {})
+        };
+      } finally {
+        slot.release();
+      }
+    });
+
+    const succeeded = results.filter(result => result.success).length;
+    logger.info('Batch assessment completed', { total: images.length, succeeded });
+
+    return c.json({
       success: true,
-      vision_analysis: visionResponse.description,
-      industry_sources: ragResponse.data || [],
-      autorag_response: ragResponse.response || null,
-      enhanced_assessment: enhancedAssessment.response,
-      confidence_score: visionResponse.confidence || appConfig.ai.confidence_threshold,
-      timestamp: new Date().toISOString(),
+      total: images.length,
+      succeeded,
+      failed: images.length - succeeded,
+      results,
       performance: {
-        total_time: endTimer(),
-        cached: false
+        total_time: endTimer()
       }
-    };
+    });
+  } catch (error) {
+    endTimer();
+    logger.error('Batch assessment failed', { error: (error as Error).message, stack: (error as Error).stack });
+    return c.json({ 
+      success: false, 
+      error: "Batch assessment failed", 
+      details: (error as Error).message,
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
 
-    // Cache the complete assessment
-    await cacheService.cacheAssessmentResult(imageHash, visionResponse, ragResponse, finalResult);
+// Asynchronous assessment: the upload is validated here, then a job runner assesses it after the response is sent
+app.post("/api/jobs/assess", async (c) => {
+  const jobId = crypto.randomUUID();
+  const runner = getJobRunner(c.env, jobId);
+  if (!runner) {
+    return c.json({ 
+      success: false, 
+      error: "Assessment jobs unavailable",
+      details: "The ASSESSMENT_JOBS binding is not configured" 
+    }, 503);
+  }
 
-    return c.json(finalResult);
+  let request;
+  try {
+    request = await parseAssessmentRequest(c);
+  } catch (error) {
+    logger.error('Assessment job request invalid', { error: (error as Error).message });
+    return c.json({ 
+      success: false, 
+      error: "Invalid request body",
+      details: (error as Error).message 
+    }, 400);
+  }
+  if (request instanceof Response) {
+    return request;
+  }
+
+  try {
+    const job = await runner.start(jobId, {
+      image: request.image,
+      config: getRequestConfig(c),
+      org_id: c.get('tenant')?.id ?? null,
+      case_id: request.caseId,
+      owner_id: recordOwner(await resolveAccessor(c)),
+      user_id: c.get('user')?.id,
+      mock_scenario: c.get('mockScenario')
+    });
+    logger.info('Assessment job queued', { jobId });
 
+    return c.json({ success: true, job_id: jobId, status_url: `/api/jobs/${jobId}`, job }, 202);
   } catch (error) {
-    logger.error('AI assessment failed', { error: (error as Error).message, stack: (error as Error).stack });
-    
-    // Enhanced error handling with specific error types
-    let statusCode = 500;
-    let errorMessage = "Assessment failed";
-    let errorDetails = "An unexpected error occurred";
-    
-    if (error instanceof Error) {
-      // Handle different types of errors
-      if (error.message.includes('AI model not found')) {
-        statusCode = 503;
-        errorMessage = "AI service unavailable";
-        errorDetails = "The AI vision model is temporarily unavailable";
-      } else if (error.message.includes('timeout')) {
-        statusCode = 504;
-        errorMessage = "Request timeout";
-        errorDetails = "The AI processing took too long to complete";
-      } else if (error.message.includes('rate limit')) {
-        statusCode = 429;
-        errorMessage = "Rate limit exceeded";
-        errorDetails = "Too many requests. Please try again later";
-      } else if (error.message.includes('memory')) {
-        statusCode = 507;
-        errorMessage = "Insufficient resources";
-        errorDetails = "The image is too large to process";
-      } else if (error.message.includes('Invalid image') || error.message.includes('Corrupted image')) {
-        statusCode = 400;
-        errorMessage = "Invalid image file";
-        errorDetails = "The uploaded image file is corrupted or malformed";
-      } else if (error.message.includes('Image type mismatch')) {
-        statusCode = 400;
-        errorMessage = "Image validation failed";
-        errorDetails = "The image file does not match its declared format";
-      } else if (error.message.includes('CPU') || error.message.includes('exceeded')) {
-        statusCode = 413;
-        errorMessage = "Image too large to process";
-        errorDetails = "The image is too large and caused a processing timeout. Please use a smaller image (under 2MB recommended).";
-      } else {
-        errorDetails = error.message;
-      }
-    }
-    
+    logger.error('Failed to queue assessment job', { jobId, error: (error as Error).message });
     return c.json({ 
       success: false, 
-      error: errorMessage, 
-      details: errorDetails,
+      error: "Failed to queue assessment job", 
+      details: (error as Error).message,
       timestamp: new Date().toISOString()
-    }, statusCode as any);
+    }, 500);
   }
 });
 
+app.get("/api/jobs/:id", handleGetJob);
+app.delete("/api/jobs/:id", handleCancelJob);
+
 // Helper route for testing RAG knowledge base
 app.get("/api/knowledge-search", async (c) => {
   const endTimer = performanceMonitor.startTimer('knowledge_search');
+  const config = getRequestConfig(c);
+  const cache = requestCache(c);
   
   const query = c.req.query('q');
   if (!query) {
@@ -605,45 +574,27 @@ app.get("/api/knowledge-search", async (c) => {
     }, 400);
   }
 
-  if (query.length > appConfig.api.limits.max_query_length) {
+  if (query.length > config.api.limits.max_query_length) {
     return c.json({ 
       success: false, 
       error: "Query too long", 
-      details: `Query must be less than ${appConfig.api.limits.max_query_length} characters` 
+      details: `Query must be less than ${config.api.limits.max_query_length} characters` 
     }, 400);
   }
   
   try {
-    // Check if AI binding exists
-    if (!(c.env as any).AI) {
-      return c.json({ 
-        success: false, 
-        error: "AI binding not available", 
-        details: "AutoRAG requires AI binding to be configured" 
-      }, 500);
-    }
-    
-    // Check if autorag method exists
-    if (typeof (c.env as any).AI.autorag !== 'function') {
-      return c.json({
-        success: false,
-        error: "AutoRAG not available",
-        details: "AutoRAG method not found on AI binding"
-      }, 500);
-    }
-    
     // Check cache first
-    let results = await cacheService.getCachedRAGResult(query);
+    let results = await cache.getCachedRAGResult(query);
     let cached = false;
+    const retry = createRetryContext(config, config.api.timeout.knowledge_search);
     
     if (!results) {
-      // Use the new AutoRAG dataset with aiSearch method
-      results = await (c.env as any).AI.autorag(appConfig.ai.autorag_dataset).aiSearch({
-        query: query
-      });
+      // Search the knowledge base, retried on transient failures
+      const ai = createAIProvider(config, c.env, { mockScenario: c.get('mockScenario') });
+      results = await withRetry(retry, 'autorag', (timeoutMs) => ai.search(query, { timeoutMs }));
       
       // Cache the results
-      await cacheService.cacheRAGResult(query, results);
+      await cache.cacheRAGResult(query, results);
     } else {
       cached = true;
     }
@@ -658,7 +609,8 @@ app.get("/api/knowledge-search", async (c) => {
       total_results: results.data?.length || 0,
       performance: {
         total_time: totalTime,
-        cached: cached
+        cached: cached,
+        retries: summarizeRetries(retry)
       }
     });
     
@@ -671,6 +623,18 @@ app.get("/api/knowledge-search", async (c) => {
     let errorMessage = "Search failed";
     let errorDetails = "An unexpected error occurred";
     
+    if (error instanceof CircuitOpenError) {
+      // The knowledge base failed repeatedly; tell the client when to come back instead of waiting out timeouts
+      const retryAfter = Math.ceil(error.retryAfterMs / 1000);
+      return c.json({
+        success: false,
+        error: "Search service busy",
+        details: `The knowledge base is failing and has been paused. Please try again in ${retryAfter} seconds`,
+        retry_after: retryAfter,
+        timestamp: new Date().toISOString()
+      }, 503, { 'Retry-After': retryAfter.toString() });
+    }
+    
     if (error instanceof Error) {
       // Handle different types of errors
       if (error.message.includes('dataset not found')) {
@@ -685,7 +649,7 @@ app.get("/api/knowledge-search", async (c) => {
         statusCode = 429;
         errorMessage = "Rate limit exceeded";
         errorDetails = "Too many search requests. Please try again later";
-      } else if (error.message.includes('AutoRAG not available')) {
+      } else if (error.message.includes('AutoRAG not available') || error.message.includes('AI binding not available')) {
         statusCode = 503;
         errorMessage = "Search service unavailable";
         errorDetails = "The AutoRAG service is not available";
@@ -703,8 +667,158 @@ app.get("/api/knowledge-search", async (c) => {
   }
 });
 
+// Retrieve a persisted assessment result
+app.get("/api/assessments/:id", async (c) => {
+  const id = c.req.param('id');
+  if (!isValidAssessmentId(id)) {
+    return c.json({ 
+      success: false, 
+      error: "Invalid assessment ID", 
+      details: "Assessment ID must be a UUID" 
+    }, 400);
+  }
+
+  const assessmentStorage = createAssessmentStorage(getRequestConfig(c), (c.env as any).R2_BUCKET, c.get('tenant')?.id);
+  if (!assessmentStorage.isEnabled()) {
+    return c.json({ 
+      success: false, 
+      error: "Assessment storage unavailable", 
+      details: "Persistence is disabled or the R2 binding is not configured" 
+    }, 503);
+  }
+
+  const accessor = await resolveAccessor(c);
+  if (isUnidentified(accessor)) {
+    return c.json({ success: false, error: "Not signed in", details: "Log in, send an API key or enable cookies to view assessments" }, 401);
+  }
+
+  try {
+    const stored = await assessmentStorage.getAssessment(id);
+    // Other people's assessments look the same as missing ones
+    if (!stored || !canAccessRecord(accessor, stored.owner_id)) {
+      return c.json({ 
+        success: false, 
+        error: "Assessment not found", 
+        details: `No assessment exists with ID ${id}` 
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      assessment_id: stored.id,
+      created_at: stored.created_at,
+      result: stored.result,
+      image: {
+        url: `/api/assessments/${stored.id}/image`,
+        mime_type: stored.image.mime_type,
+        size: stored.image.size
+      }
+    });
+  } catch (error) {
+    logger.error('Assessment retrieval failed', { id, error: (error as Error).message });
+    return c.json({ 
+      success: false, 
+      error: "Failed to retrieve assessment", 
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
+
+// Retrieve the stored image for a persisted assessment
+app.get("/api/assessments/:id/image", async (c) => {
+  const id = c.req.param('id');
+  if (!isValidAssessmentId(id)) {
+    return c.json({ 
+      success: false, 
+      error: "Invalid assessment ID", 
+      details: "Assessment ID must be a UUID" 
+    }, 400);
+  }
+
+  const assessmentStorage = createAssessmentStorage(getRequestConfig(c), (c.env as any).R2_BUCKET, c.get('tenant')?.id);
+  if (!assessmentStorage.isEnabled()) {
+    return c.json({ 
+      success: false, 
+      error: "Assessment storage unavailable", 
+      details: "Persistence is disabled or the R2 binding is not configured" 
+    }, 503);
+  }
+
+  const accessor = await resolveAccessor(c);
+  if (isUnidentified(accessor)) {
+    return c.json({ success: false, error: "Not signed in", details: "Log in, send an API key or enable cookies to view assessments" }, 401);
+  }
+
+  try {
+    // The image is only served alongside a result the caller may read
+    const stored = await assessmentStorage.getAssessment(id);
+    const image = stored && canAccessRecord(accessor, stored.owner_id) ? await assessmentStorage.getImage(id) : null;
+    if (!image) {
+      return c.json({ 
+        success: false, 
+        error: "Assessment image not found", 
+        details: `No image exists for assessment ${id}` 
+      }, 404);
+    }
+
+    return new Response(image.body, {
+      headers: {
+        'Content-Type': image.httpMetadata?.contentType || 'application/octet-stream',
+        'Content-Length': image.size.toString(),
+        'Cache-Control': 'private, max-age=86400'
+      }
+    });
+  } catch (error) {
+    logger.error('Assessment image retrieval failed', { id, error: (error as Error).message });
+    return c.json({ 
+      success: false, 
+      error: "Failed to retrieve assessment image", 
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
+
+// Case routes grouping photos and conversations under one property loss
+app.post("/api/cases", handleCreateCase);
+app.get("/api/cases", handleListCases);
+app.get("/api/cases/:id", handleGetCase);
+app.put("/api/cases/:id", handleUpdateCase);
+app.delete("/api/cases/:id", handleDeleteCase);
+app.get("/api/cases/:id/photos", handleListCasePhotos);
+app.post("/api/cases/:id/photos", handleAddCasePhoto);
+app.get("/api/cases/:id/messages", handleListCaseMessages);
+app.post("/api/cases/:id/messages", handleAddCaseMessage);
+
+// Account signup, login and the signed-in user's history
+app.post("/api/auth/signup", handleSignup);
+app.post("/api/auth/login", handleLogin);
+app.post("/api/auth/logout", handleLogout);
+app.get("/api/auth/me", handleCurrentUser);
+app.get("/api/me/assessments", handleListMyAssessments);
+
+// API key administration for partner integrations
+app.post("/api/admin/api-keys", handleCreateApiKey);
+app.get("/api/admin/api-keys", handleListApiKeys);
+app.delete("/api/admin/api-keys/:id", handleRevokeApiKey);
+
+// Organization administration for white-labeled deployments
+app.post("/api/admin/orgs", handleCreateOrganization);
+app.get("/api/admin/orgs", handleListOrganizations);
+app.get("/api/admin/orgs/:id", handleGetOrganization);
+app.put("/api/admin/orgs/:id", handleUpdateOrganization);
+app.delete("/api/admin/orgs/:id", handleDeleteOrganization);
+
+// Webhook subscriptions, their delivery log and manual redelivery
+app.post("/api/admin/webhooks", handleCreateWebhook);
+app.get("/api/admin/webhooks", handleListWebhooks);
+app.delete("/api/admin/webhooks/:id", handleDeleteWebhook);
+app.get("/api/admin/webhooks/:id/deliveries", handleListWebhookDeliveries);
+app.get("/api/admin/webhooks/:id/deliveries/:deliveryId", handleGetWebhookDelivery);
+app.post("/api/admin/webhooks/:id/deliveries/:deliveryId/redeliver", handleRedeliverWebhook);
+
 // Conversation endpoint for chatbot follow-up questions
 app.post("/api/conversation", handleConversationRequest);
+app.post("/api/conversation/stream", handleConversationStreamRequest);
 
 // Performance and cache statistics endpoint
 app.get("/api/stats", async (c) => {
@@ -716,6 +830,9 @@ app.get("/api/stats", async (c) => {
       success: true,
       cache: cacheStats,
       performance: performanceMetrics,
+      // Per-model and per-dataset breakers in this isolate
+      circuit_breakers: circuitBreakerStats(),
+      concurrency: concurrencyLimiter.stats(),
       timestamp: new Date().toISOString(),
       config: {
         caching_enabled: appConfig.performance.enable_caching,
@@ -733,7 +850,8 @@ app.get("/api/stats", async (c) => {
   }
 });
 
-app.get("*", (c) => {
+// All methods go to React Router so route actions (login, signup, logout) receive their form posts
+app.all("*", (c) => {
   const requestHandler = createRequestHandler(
     () => import("virtual:react-router/server-build"),
     import.meta.env.MODE,
@@ -741,7 +859,14 @@ app.get("*", (c) => {
 
   return requestHandler(c.req.raw, {
     cloudflare: { env: c.env, ctx: c.executionCtx },
+    // Loaders use the organization's branding
+    tenant: c.get('tenant') ?? null,
   });
 });
 
+// Durable Object classes must be exported from the Worker entry point
+export { RateLimiter } from "./rate-limiter";
+export { WebhookDispatcher } from "./webhook-dispatcher";
+export { AssessmentJobRunner } from "./assessment-job";
+
 export default app;
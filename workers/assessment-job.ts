@@ -0,0 +1,186 @@
+/**
+ * Assessment job Durable Object
+ * One instance per job. Submitting stores the image and sets an alarm; the alarm runs the pipeline, so the run
+ * isn't tied to the submitting request. Finished jobs are kept until their result TTL and then deleted
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import {
+  assessmentCompletedEvent,
+  assessmentFailedEvent,
+  describeAssessmentError,
+  runAssessment
+} from './assessment';
+import { cacheScope, createCacheService, createPerformanceMonitor } from './cache';
+import { createRetryContext } from './retry';
+import {
+  applyJobProgress,
+  finishJob,
+  isJobFinished,
+  jobAssessmentConfig,
+  joinImage,
+  newAssessmentJob,
+  splitImage,
+  type AssessmentJob,
+  type AssessmentJobInput,
+  type JobOutcome
+} from './jobs';
+import { dispatchWebhookEvent } from './webhooks';
+
+const JOB_KEY = 'job';
+const INPUT_KEY = 'input';
+const IMAGE_CHUNK_PREFIX = 'image/';
+
+// The input as stored, with the image bytes split out into chunk keys
+type StoredJobInput = Omit<AssessmentJobInput, 'image'> & {
+  image: Omit<AssessmentJobInput['image'], 'buffer'>;
+  image_chunks: number;
+};
+
+// Thrown from the progress callback to stop a canceled job at the next stage
+class JobCanceledError extends Error {}
+
+export class AssessmentJobRunner extends DurableObject<Env> {
+  async start(jobId: string, input: AssessmentJobInput): Promise<AssessmentJob> {
+    const existing = await this.ctx.storage.get<AssessmentJob>(JOB_KEY);
+    if (existing) return existing;
+
+    const job = newAssessmentJob(jobId, input);
+    const { buffer, ...image } = input.image;
+    const chunks = splitImage(buffer);
+    const stored: StoredJobInput = { ...input, image, image_chunks: chunks.length };
+
+    await this.ctx.storage.put<unknown>({
+      [JOB_KEY]: job,
+      [INPUT_KEY]: stored,
+      ...Object.fromEntries(chunks.map((chunk, index) => [IMAGE_CHUNK_PREFIX + index, chunk]))
+    });
+    await this.ctx.storage.setAlarm(Date.now());
+    return job;
+  }
+
+  async status(): Promise<AssessmentJob | null> {
+    return (await this.ctx.storage.get<AssessmentJob>(JOB_KEY)) ?? null;
+  }
+
+  // Finished jobs are returned unchanged; a running stage completes but its result is discarded
+  async cancel(): Promise<AssessmentJob | null> {
+    const job = await this.status();
+    if (!job || isJobFinished(job)) return job;
+
+    const input = await this.ctx.storage.get<StoredJobInput>(INPUT_KEY);
+    return this.finish(job, 'canceled', input?.config.jobs.result_ttl_ms ?? 0, input?.image_chunks ?? 0);
+  }
+
+  async alarm(): Promise<void> {
+    const job = await this.status();
+    if (!job) return;
+
+    // A finished job's alarm marks the end of its result TTL
+    if (isJobFinished(job)) {
+      await this.ctx.storage.deleteAll();
+      return;
+    }
+
+    await this.run(job);
+  }
+
+  private async run(job: AssessmentJob): Promise<void> {
+    const input = await this.ctx.storage.get<StoredJobInput>(INPUT_KEY);
+    if (!input) return;
+    const config = jobAssessmentConfig(input.config);
+
+    // A job still marked running was interrupted by an eviction or deploy; the alarm retried it
+    if (job.attempts >= config.jobs.max_attempts) {
+      await this.finish(job, {
+        error: { status: 500, error: 'Assessment failed', details: 'The job was interrupted too many times' }
+      }, config.jobs.result_ttl_ms, input.image_chunks);
+      return;
+    }
+    await this.ctx.storage.put(JOB_KEY, {
+      ...job,
+      status: 'running',
+      attempts: job.attempts + 1,
+      updated_at: new Date().toISOString()
+    } satisfies AssessmentJob);
+
+    const chunkKeys = Array.from({ length: input.image_chunks }, (_, index) => IMAGE_CHUNK_PREFIX + index);
+    const chunks = await this.ctx.storage.get<Uint8Array>(chunkKeys);
+    const image = { ...input.image, buffer: joinImage(chunkKeys.map(key => chunks.get(key)!)) };
+
+    const monitor = createPerformanceMonitor();
+    const cacheService = createCacheService(config, {
+      kv: this.env.CACHE_KV,
+      cache: typeof caches !== 'undefined' ? (caches as unknown as { default: Cache }).default : undefined
+    });
+
+    const scope = cacheScope(input.org_id, input.mock_scenario);
+
+    let outcome: JobOutcome;
+    let notification: { name: 'assessment.completed' | 'assessment.failed'; data: Record<string, unknown> };
+    try {
+      const result = await runAssessment(this.env, image, {
+        config,
+        cache: scope ? cacheService.scoped(scope) : cacheService,
+        caseId: input.case_id,
+        ownerId: input.owner_id,
+        userId: input.user_id,
+        orgId: input.org_id,
+        mockScenario: input.mock_scenario,
+        monitor,
+        // No request deadline: each attempt gets the job AI timeout
+        retry: createRetryContext(config),
+        endTimer: monitor.startTimer('damage_assessment_total'),
+        onProgress: async (event) => {
+          const current = await this.status();
+          if (!current || current.status === 'canceled') throw new JobCanceledError();
+          await this.ctx.storage.put(JOB_KEY, applyJobProgress(current, event));
+        },
+        // A job canceled during the last stage stores nothing
+        beforePersist: async () => {
+          const current = await this.status();
+          if (!current || current.status === 'canceled') throw new JobCanceledError();
+        }
+      });
+      outcome = { result };
+      notification = { name: 'assessment.completed', data: { ...assessmentCompletedEvent(result, input.case_id), job_id: job.id } };
+    } catch (error) {
+      if (error instanceof JobCanceledError) return;
+
+      console.error('Assessment job failed:', error);
+      const failure = describeAssessmentError(error);
+      outcome = {
+        error: {
+          status: failure.statusCode,
+          error: failure.errorMessage,
+          details: failure.errorDetails,
+          ...(failure.retryAfterSeconds ? { retry_after: failure.retryAfterSeconds } : {})
+        }
+      };
+      notification = { name: 'assessment.failed', data: { ...assessmentFailedEvent(failure, input.case_id), job_id: job.id } };
+    }
+
+    // Canceled while the result was being stored: subscribers are not told about a job the client gave up on
+    const current = await this.status();
+    if (!current || isJobFinished(current)) return;
+    await this.finish(current, outcome, config.jobs.result_ttl_ms, input.image_chunks);
+    await this.notify(input, notification.name, notification.data);
+  }
+
+  // Record the outcome, drop the stored image and schedule deletion at the end of the result TTL
+  private async finish(job: AssessmentJob, outcome: JobOutcome, resultTtlMs: number, imageChunks: number): Promise<AssessmentJob> {
+    const finished = finishJob(job, outcome, resultTtlMs);
+    await this.ctx.storage.delete([INPUT_KEY, ...Array.from({ length: imageChunks }, (_, index) => IMAGE_CHUNK_PREFIX + index)]);
+    await this.ctx.storage.put(JOB_KEY, finished);
+    await this.ctx.storage.setAlarm(Date.parse(finished.expires_at!));
+    return finished;
+  }
+
+  private async notify(input: StoredJobInput, event: 'assessment.completed' | 'assessment.failed', data: Record<string, unknown>): Promise<void> {
+    try {
+      await dispatchWebhookEvent(this.env, input.config, input.org_id, event, data);
+    } catch (error) {
+      console.error(`Webhook dispatch failed (${event}):`, error);
+    }
+  }
+}
@@ -0,0 +1,476 @@
+/**
+ * Damage assessment pipeline
+ * Vision analysis, knowledge base search and the written assessment for one validated image. Shared by the
+ * assessment routes and the background job runner
+ */
+
+import { loadConfig, type AppConfig } from "./config";
+import { type CacheService, type PerformanceMonitor } from "./cache";
+import { createLogger } from "./logger";
+import { createAIProvider, FixtureMissingError, type AIProvider } from "./ai";
+import { createAssessmentStorage, createCaseStorage, isValidCaseId } from "./storage";
+import { type ValidatedImage } from "./image-validation";
+import { computePerceptualHash } from "./image-hash";
+import { generateFindings, type AssessmentFindings } from "./findings";
+import { summarizeRetries, withRetry, type RetryContext } from "./retry";
+import { CircuitOpenError } from "./circuit-breaker";
+import { canAccessRecord, type RecordAccessor } from "./access";
+import { promptMessages, promptVersionKey, promptVersions, renderPrompt, type PromptName, type PromptParams } from "./prompts";
+
+const logger = createLogger(loadConfig());
+
+// Every template the pipeline can render, recorded in results and cache keys
+const ASSESSMENT_PROMPTS: PromptName[] = ['vision-analysis', 'enhanced-assessment', 'findings', 'findings-repair'];
+
+// Map assessment pipeline errors to HTTP status codes and client-facing messages
+export function describeAssessmentError(error: unknown): { statusCode: number; errorMessage: string; errorDetails: string; retryAfterSeconds?: number } {
+  // Enhanced error handling with specific error types
+  let statusCode = 500;
+  let errorMessage = "Assessment failed";
+  let errorDetails = "An unexpected error occurred";
+  
+  if (error instanceof CircuitOpenError) {
+    // The model failed repeatedly and its breaker is open, so the client should back off rather than wait
+    const retryAfterSeconds = Math.ceil(error.retryAfterMs / 1000);
+    return {
+      statusCode: 503,
+      errorMessage: "AI service busy",
+      errorDetails: `The AI service is failing and has been paused. Please try again in ${retryAfterSeconds} seconds`,
+      retryAfterSeconds
+    };
+  }
+
+  if (error instanceof FixtureMissingError) {
+    // Replay mode has no recording for this request; name it so it can be recorded
+    return {
+      statusCode: 503,
+      errorMessage: "AI fixture not recorded",
+      errorDetails: error.message
+    };
+  }
+
+  if (error instanceof Error) {
+    // Handle different types of errors
+    if (error.message.includes('AI model not found')) {
+      statusCode = 503;
+      errorMessage = "AI service unavailable";
+      errorDetails = "The AI vision model is temporarily unavailable";
+    } else if (error.message.includes('timeout')) {
+      statusCode = 504;
+      errorMessage = "Request timeout";
+      errorDetails = "The AI processing took too long to complete";
+    } else if (error.message.includes('rate limit')) {
+      statusCode = 429;
+      errorMessage = "Rate limit exceeded";
+      errorDetails = "Too many requests. Please try again later";
+    } else if (error.message.includes('memory')) {
+      statusCode = 507;
+      errorMessage = "Insufficient resources";
+      errorDetails = "The image is too large to process";
+    } else if (error.message.includes('Invalid image') || error.message.includes('Corrupted image')) {
+      statusCode = 400;
+      errorMessage = "Invalid image file";
+      errorDetails = "The uploaded image file is corrupted or malformed";
+    } else if (error.message.includes('Image type mismatch')) {
+      statusCode = 400;
+      errorMessage = "Image validation failed";
+      errorDetails = "The image file does not match its declared format";
+    } else if (error.message.includes('CPU') || error.message.includes('exceeded')) {
+      statusCode = 413;
+      errorMessage = "Image too large to process";
+      errorDetails = "The image is too large and caused a processing timeout. Please use a smaller image (under 2MB recommended).";
+    } else {
+      errorDetails = error.message;
+    }
+  }
+
+  return { statusCode, errorMessage, errorDetails };
+}
+
+// Verify that an optional case reference exists, and belongs to the caller, before assessing against it
+export async function validateCaseReference(
+  env: any,
+  config: AppConfig,
+  caseId: unknown,
+  accessor: RecordAccessor,
+  orgId?: string | null
+): Promise<{ status: 400 | 404 | 503; error: string; details: string } | null> {
+  if (caseId === undefined) return null;
+
+  if (typeof caseId !== 'string' || !isValidCaseId(caseId)) {
+    return { status: 400, error: "Invalid case ID", details: "case_id must be a UUID" };
+  }
+
+  const caseStorage = createCaseStorage(config, env.R2_BUCKET, orgId);
+  if (!caseStorage.isEnabled()) {
+    return { status: 503, error: "Case storage unavailable", details: "Persistence is disabled or the R2 binding is not configured" };
+  }
+  const damageCase = await caseStorage.getCase(caseId);
+  if (!damageCase || !canAccessRecord(accessor, damageCase.owner_id)) {
+    return { status: 404, error: "Case not found", details: `No case exists with ID ${caseId}` };
+  }
+
+  return null;
+}
+
+export type AssessmentStage = 'validation' | 'vision' | 'rag' | 'assessment';
+
+// Emitted as each pipeline step starts and finishes; completed steps carry their partial result
+export interface AssessmentProgressEvent {
+  stage: AssessmentStage;
+  status: 'started' | 'completed' | 'skipped';
+  progress: number;
+  label: string;
+  partial?: Record<string, any>;
+}
+
+export interface AssessmentOptions {
+  // Request configuration, including the organization's model and dataset choices
+  config: AppConfig;
+  // Cache scoped to the organization, if any
+  cache: CacheService;
+  caseId?: string;
+  // Owner recorded on the stored assessment (see recordOwner); only they can read it back
+  ownerId?: string | null;
+  // Signed-in user whose history lists the assessment
+  userId?: string;
+  // Organization whose storage the assessment is saved in
+  orgId?: string | null;
+  // Scenario for the mock provider, from X-Mock-Scenario
+  mockScenario?: string;
+  // Collects stage timings for /api/stats
+  monitor: PerformanceMonitor;
+  // Retry policy and deadline shared by the AI calls
+  retry: RetryContext;
+  endTimer: () => number;
+  onProgress?: (event: AssessmentProgressEvent) => void | Promise<void>;
+  // Runs just before anything is stored; throwing abandons the assessment, e.g. when its job was canceled
+  beforePersist?: () => Promise<void>;
+}
+
+// Ask the language model for structured findings; failures leave findings null rather than failing the assessment
+async function generateAssessmentFindings(
+  ai: AIProvider,
+  config: AppConfig,
+  monitor: PerformanceMonitor,
+  retry: RetryContext,
+  visionAnalysis: string,
+  ragResponse: any
+): Promise<AssessmentFindings | null> {
+  const findingsTimer = monitor.startTimer('findings_generation');
+
+  const runModel = async (messages: Array<{ role: string; content: string }>, params: PromptParams): Promise<string> => {
+    const response = await withRetry(retry, 'findings', (timeoutMs) => ai.chat(messages, { timeoutMs, ...params }));
+    return response.response;
+  };
+
+  try {
+    const result = await generateFindings(
+      runModel,
+      visionAnalysis,
+      ragResponse.response || JSON.stringify(ragResponse.data || []),
+      config.ai.findings_max_attempts,
+      config.ai.prompt_versions
+    );
+    if (!result.findings) {
+      logger.warn('Structured findings invalid after re-prompting', { attempts: result.attempts, errors: result.errors });
+    }
+    return result.findings;
+  } catch (error) {
+    logger.warn('Structured findings generation failed', { error: (error as Error).message });
+    return null;
+  } finally {
+    findingsTimer();
+  }
+}
+
+// Persist a completed assessment to R2 and attach it to its case and owner; the ID is cleared if storage fails
+async function persistAssessment(
+  env: any,
+  config: AppConfig,
+  image: ValidatedImage,
+  imageHash: string,
+  owners: { caseId?: string; ownerId?: string | null; userId?: string; orgId?: string | null },
+  result: { assessment_id: string | null }
+): Promise<void> {
+  const { caseId, ownerId, userId, orgId } = owners;
+  const assessmentStorage = createAssessmentStorage(config, env.R2_BUCKET, orgId);
+
+  // Store sanitized image and result in R2
+  if (result.assessment_id) {
+    try {
+      await assessmentStorage.saveAssessment(result.assessment_id, image.buffer, image.mimeType, result, ownerId, userId);
+      logger.info('Assessment persisted', { assessmentId: result.assessment_id, imageHash });
+    } catch (error) {
+      logger.error('Failed to persist assessment', { assessmentId: result.assessment_id, error: (error as Error).message });
+      result.assessment_id = null;
+    }
+  }
+
+  // Group the persisted assessment under its case
+  if (caseId && result.assessment_id) {
+    try {
+      await createCaseStorage(config, env.R2_BUCKET, orgId).addPhoto(caseId, { assessment_id: result.assessment_id });
+    } catch (error) {
+      logger.error('Failed to attach assessment to case', { caseId, assessmentId: result.assessment_id, error: (error as Error).message });
+    }
+  }
+}
+
+// Run vision, RAG and enhanced assessment on an already validated image
+export async function runAssessment(env: any, image: ValidatedImage, options: AssessmentOptions): Promise<any> {
+  const { config, cache, caseId, ownerId, userId, orgId, mockScenario, monitor, retry, endTimer } = options;
+  const emitProgress = options.onProgress ?? (() => {});
+  const beforePersist = options.beforePersist ?? (async () => {});
+  const ai = createAIProvider(config, env, { mockScenario });
+  const sanitizedBuffer = image.buffer;
+  const pinned = config.ai.prompt_versions;
+  // Cached results are keyed on the prompt versions so a prompt change never serves answers to the old prompt
+  const versions = promptVersions(ASSESSMENT_PROMPTS, pinned);
+  const promptKey = promptVersionKey(versions);
+
+  // Generate image hash for caching
+  const imageHash = await cache.generateImageHash(sanitizedBuffer);
+  
+  // Check cache first
+  const cachedResult = await cache.getCachedAssessmentResult(imageHash, promptKey);
+  if (cachedResult) {
+    logger.info('Cache hit for assessment', { imageHash });
+    const assessmentStorage = createAssessmentStorage(config, env.R2_BUCKET, orgId);
+    const { assessment_id: _cachedId, cached: _cached, cache_timestamp: _cacheTimestamp, ...previous } = cachedResult.assessment;
+
+    // The cached record may belong to another user, so this upload gets its own ID and stored copy
+    const cachedCopy = {
+      ...previous,
+      assessment_id: assessmentStorage.isEnabled() ? assessmentStorage.generateAssessmentId() : null,
+      // The cache is keyed on stripped pixels, so metadata always comes from this upload
+      photo_metadata: image.metadata,
+      cached: true,
+      cache_timestamp: cachedResult.timestamp
+    };
+
+    await beforePersist();
+    await persistAssessment(env, config, image, imageHash, { caseId, ownerId, userId, orgId }, cachedCopy);
+    endTimer();
+    return cachedCopy;
+  }
+
+  // A re-upload of the same shot (recompressed or resized) reuses the prior analysis. The fingerprint is computed
+  // here rather than taken from the client, so an upload can only match photos that really look like it
+  const perceptualHash = config.performance.enable_caching ? await computePerceptualHash(env.IMAGES, sanitizedBuffer) : null;
+  const nearDuplicate = perceptualHash ? await cache.findNearDuplicate(perceptualHash) : null;
+  const duplicateResult = nearDuplicate ? await cache.getCachedAssessmentResult(nearDuplicate.imageHash, promptKey) : null;
+  if (nearDuplicate && duplicateResult) {
+    logger.info('Near-duplicate photo detected', { imageHash, matchedHash: nearDuplicate.imageHash, distance: nearDuplicate.distance });
+    const assessmentStorage = createAssessmentStorage(config, env.R2_BUCKET, orgId);
+    const { assessment_id: _previousId, cached: _cached, cache_timestamp: _cacheTimestamp, ...previous } = duplicateResult.assessment;
+
+    // The new upload gets its own ID and stored copy rather than pointing at the original photo
+    const reusedResult = {
+      ...previous,
+      assessment_id: assessmentStorage.isEnabled() ? assessmentStorage.generateAssessmentId() : null,
+      photo_metadata: image.metadata,
+      near_duplicate: {
+        distance: nearDuplicate.distance,
+        original_timestamp: previous.timestamp
+      },
+      timestamp: new Date().toISOString(),
+      performance: {
+        total_time: 0,
+        cached: true
+      }
+    };
+
+    await beforePersist();
+    await persistAssessment(env, config, image, imageHash, { caseId, ownerId, userId, orgId }, reusedResult);
+    reusedResult.performance.total_time = endTimer();
+    return reusedResult;
+  }
+  
+  // Log security validation success
+  logger.info(`Image security validation passed`, {
+    detectedType: image.mimeType,
+    originalSize: image.originalSize,
+    sanitizedSize: sanitizedBuffer.length,
+    imageHash
+  });
+  
+  // Step 1: Vision AI Analysis using LLaVA (use sanitized buffer)
+  const visionTimer = monitor.startTimer('vision_analysis');
+  await emitProgress({ stage: 'vision', status: 'started', progress: 15, label: 'Analyzing image with AI vision...' });
+  
+  // Check vision cache first
+  const visionPrompt = renderPrompt('vision-analysis', {}, pinned);
+  const visionPromptKey = promptVersionKey({ 'vision-analysis': visionPrompt.version });
+  let visionResponse = await cache.getCachedVisionResult(imageHash, visionPromptKey);
+  if (!visionResponse) {
+    // Vision call, retried on transient failures
+    visionResponse = await withRetry(retry, 'vision', (timeoutMs) => ai.analyzeImage({
+      image: sanitizedBuffer,
+      mimeType: image.mimeType,
+      prompt: visionPrompt.user
+    }, { timeoutMs }));
+    
+    // Cache vision result
+    await cache.cacheVisionResult(imageHash, visionPromptKey, visionResponse);
+  }
+  
+  visionTimer();
+  await emitProgress({
+    stage: 'vision',
+    status: 'completed',
+    progress: 45,
+    label: 'Vision analysis complete',
+    partial: {
+      vision_analysis: visionResponse.description,
+      confidence_score: visionResponse.confidence || config.ai.confidence_threshold
+    }
+  });
+
+  // Step 2: RAG Query for Industry Knowledge
+  const ragTimer = monitor.startTimer('rag_search');
+  await emitProgress({ stage: 'rag', status: 'started', progress: 50, label: 'Searching industry knowledge base...' });
+  let ragResponse: any = { response: '', data: [] };
+  // Services that failed or whose breaker is open; the assessment continues without them and is labelled degraded
+  const unavailable: Array<'autorag' | 'language_model'> = [];
+  
+  try {
+    if (config.ai.enable_autorag) {
+      const ragQuery = `property damage assessment materials analysis ${visionResponse.description} remediation standards protocol requirements`;
+      
+      // Check RAG cache first
+      let cachedRAGResult = await cache.getCachedRAGResult(ragQuery);
+      if (cachedRAGResult) {
+        ragResponse = cachedRAGResult;
+      } else {
+        // Knowledge base search, retried on transient failures
+        ragResponse = await withRetry(retry, 'autorag', (timeoutMs) => ai.search(ragQuery, { timeoutMs }));
+        
+        // Cache RAG result
+        await cache.cacheRAGResult(ragQuery, ragResponse);
+      }
+    } else {
+      logger.info('AutoRAG disabled, continuing with vision-only analysis');
+    }
+  } catch (error) {
+    logger.error('AutoRAG search failed', { error: (error as Error).message, stack: (error as Error).stack });
+    // Continue with vision-only analysis
+    unavailable.push('autorag');
+  }
+  
+  ragTimer();
+  const ragSearched = config.ai.enable_autorag && !unavailable.includes('autorag');
+  await emitProgress({
+    stage: 'rag',
+    status: ragSearched ? 'completed' : 'skipped',
+    progress: 65,
+    label: ragSearched
+      ? 'Knowledge base search complete'
+      : config.ai.enable_autorag ? 'Knowledge base unavailable, continuing with vision analysis only' : 'Knowledge base search skipped',
+    partial: {
+      industry_sources: ragResponse.data || [],
+      autorag_response: ragResponse.response || null
+    }
+  });
+
+  // Step 3: Combine Vision + RAG for Enhanced Assessment
+  const assessmentTimer = monitor.startTimer('enhanced_assessment');
+  await emitProgress({ stage: 'assessment', status: 'started', progress: 70, label: 'Generating professional assessment...' });
+
+  // Structured findings are generated alongside the prose assessment from the same inputs
+  const findingsPromise = generateAssessmentFindings(ai, config, monitor, retry, visionResponse.description, ragResponse);
+  
+  const assessmentPrompt = renderPrompt('enhanced-assessment', {
+    vision_analysis: visionResponse.description,
+    industry_guidelines: ragResponse.response || JSON.stringify(ragResponse.data || []),
+    has_guidelines: !!(ragResponse.response || ragResponse.data?.length)
+  }, pinned);
+
+  let enhancedAssessment: { response: string | null };
+  try {
+    // Language model call, retried on transient failures
+    enhancedAssessment = await withRetry(retry, 'language_model', (timeoutMs) => ai.chat(promptMessages(assessmentPrompt), {
+      timeoutMs,
+      ...assessmentPrompt.params
+    }));
+  } catch (error) {
+    if (!(error instanceof CircuitOpenError)) throw error;
+    // While the language model's breaker is open the vision analysis is returned on its own
+    logger.warn('Language model circuit open, returning vision analysis only', { retryAfterMs: error.retryAfterMs });
+    enhancedAssessment = { response: null };
+    unavailable.push('language_model');
+  }
+  
+  const findings = await findingsPromise;
+  
+  assessmentTimer();
+  await emitProgress({
+    stage: 'assessment',
+    status: 'completed',
+    progress: 95,
+    label: 'Assessment complete',
+    partial: { enhanced_assessment: enhancedAssessment.response, findings }
+  });
+
+  // Persisted assessments get a stable ID so they can be revisited later
+  const assessmentStorage = createAssessmentStorage(config, env.R2_BUCKET, orgId);
+  const assessmentId: string | null = assessmentStorage.isEnabled() ? assessmentStorage.generateAssessmentId() : null;
+
+  // Prepare final response
+  const finalResult = {
+    success: true,
+    assessment_id: assessmentId,
+    vision_analysis: visionResponse.description,
+    industry_sources: ragResponse.data || [],
+    autorag_response: ragResponse.response || null,
+    enhanced_assessment: enhancedAssessment.response,
+    findings,
+    photo_metadata: image.metadata,
+    confidence_score: visionResponse.confidence || config.ai.confidence_threshold,
+    degraded: unavailable.length > 0 ? { unavailable, message: degradedMessage(unavailable) } : null,
+    prompt_versions: versions,
+    timestamp: new Date().toISOString(),
+    performance: {
+      total_time: endTimer(),
+      cached: false,
+      retries: summarizeRetries(retry)
+    }
+  };
+
+  await beforePersist();
+  await persistAssessment(env, config, image, imageHash, { caseId, ownerId, userId, orgId }, finalResult);
+
+  // Cache the complete assessment; degraded results are not reused once the services recover
+  if (!finalResult.degraded) {
+    await cache.cacheAssessmentResult(imageHash, promptKey, visionResponse, ragResponse, finalResult);
+    if (perceptualHash) {
+      await cache.rememberPerceptualHash(perceptualHash, imageHash);
+    }
+  }
+
+  return finalResult;
+}
+
+// Tells the client which parts of a degraded assessment are missing
+function degradedMessage(unavailable: Array<'autorag' | 'language_model'>): string {
+  if (unavailable.includes('language_model')) {
+    return 'The assessment service is busy, so only the vision analysis is included. Please try again shortly for a full assessment.';
+  }
+  return 'The industry knowledge base is unavailable, so this assessment is based on the vision analysis only.';
+}
+
+// Webhook data for a finished assessment; receivers fetch the full result from /api/assessments/:id
+export function assessmentCompletedEvent(result: any, caseId?: string): Record<string, unknown> {
+  return {
+    assessment_id: result.assessment_id,
+    case_id: caseId ?? null,
+    cached: !!result.performance?.cached,
+    confidence_score: result.confidence_score,
+    findings: result.findings ?? null,
+    result_url: result.assessment_id ? `/api/assessments/${result.assessment_id}` : null
+  };
+}
+
+export function assessmentFailedEvent(failure: { statusCode: number; errorMessage: string; errorDetails: string }, caseId?: string): Record<string, unknown> {
+  return { case_id: caseId ?? null, status: failure.statusCode, error: failure.errorMessage, details: failure.errorDetails };
+}
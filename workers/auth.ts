@@ -0,0 +1,252 @@
+/**
+ * User accounts and cookie sessions
+ * Passwords are hashed with PBKDF2 and sessions are HMAC-signed cookies, both via WebCrypto, so signup and login
+ * work locally without an external identity provider. Shared by the Hono API and React Router loaders and actions
+ */
+
+import { loadConfig, type AppConfig } from "./config";
+import { createUserStorage, normalizeEmail, type UserRecord } from "./storage";
+
+export const SESSION_COOKIE = 'ds_session';
+// Browsers that aren't signed in get a random ID so the assessments and cases they create stay theirs
+export const ANONYMOUS_COOKIE = 'ds_anon';
+const ANONYMOUS_COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+const ANONYMOUS_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface AuthFailure {
+  ok: false;
+  status: 400 | 401 | 409 | 503;
+  error: string;
+  details: string;
+}
+
+export type AuthResult = { ok: true; user: SessionUser } | AuthFailure;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_EMAIL_LENGTH = 254;
+const MAX_NAME_LENGTH = 100;
+// Bounds the PBKDF2 input so oversized passwords can't be used to burn CPU
+const MAX_PASSWORD_LENGTH = 256;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+// Only used in development so local signup works without configuring a secret
+const DEVELOPMENT_SESSION_SECRET = 'development-only-session-secret';
+
+function failure(status: AuthFailure['status'], error: string, details: string): AuthFailure {
+  return { ok: false, status, error, details };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
+
+async function derivePasswordHash(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+// Encoded as pbkdf2$<iterations>$<salt>$<hash> so the work factor can be raised without breaking old hashes
+export async function hashPassword(password: string, iterations: number): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derivePasswordHash(password, salt, iterations);
+  return `pbkdf2$${iterations}$${toBase64Url(salt)}$${toBase64Url(hash)}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !hash) return false;
+
+  const derived = await derivePasswordHash(password, fromBase64Url(salt), parseInt(iterations));
+  return constantTimeEqual(derived, fromBase64Url(hash));
+}
+
+async function signingKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+// Session tokens are <base64url payload>.<base64url HMAC>; nothing is stored server-side
+export async function createSessionToken(user: SessionUser, secret: string, ttlMs: number): Promise<string> {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify({
+    sub: user.id,
+    email: user.email,
+    name: user.name,
+    exp: Date.now() + ttlMs
+  })));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifySessionToken(token: string, secret: string): Promise<SessionUser | null> {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await signingKey(secret),
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload)
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    if (typeof claims.exp !== 'number' || Date.now() > claims.exp) return null;
+    return { id: claims.sub, email: claims.email, name: claims.name };
+  } catch {
+    return null;
+  }
+}
+
+// SESSION_SECRET is required outside development
+export function getSessionSecret(env: any, config: AppConfig): string | null {
+  if (env?.SESSION_SECRET) return env.SESSION_SECRET;
+  return config.app.environment === 'development' ? DEVELOPMENT_SESSION_SECRET : null;
+}
+
+function readCookie(cookieHeader: string | null | undefined, cookieName: string): string | null {
+  if (!cookieHeader) return null;
+  for (const part of cookieHeader.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === cookieName) return value.join('=') || null;
+  }
+  return null;
+}
+
+export function readSessionCookie(cookieHeader: string | null | undefined): string | null {
+  return readCookie(cookieHeader, SESSION_COOKIE);
+}
+
+// The ID is an unguessable UUID, so holding the cookie is what proves ownership
+export function readAnonymousId(cookieHeader: string | null | undefined): string | null {
+  const id = readCookie(cookieHeader, ANONYMOUS_COOKIE);
+  return id && ANONYMOUS_ID_PATTERN.test(id) ? id : null;
+}
+
+// HttpOnly and SameSite=Lax keep the session out of scripts and cross-site form posts
+export function serializeSessionCookie(token: string, maxAgeMs: number, secure: boolean): string {
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${Math.floor(maxAgeMs / 1000)}${secure ? '; Secure' : ''}`;
+}
+
+export function serializeAnonymousCookie(id: string, secure: boolean): string {
+  return `${ANONYMOUS_COOKIE}=${id}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${Math.floor(ANONYMOUS_COOKIE_MAX_AGE_MS / 1000)}${secure ? '; Secure' : ''}`;
+}
+
+export function clearSessionCookie(secure: boolean): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0${secure ? '; Secure' : ''}`;
+}
+
+export function isSecureRequest(request: Request): boolean {
+  return new URL(request.url).protocol === 'https:';
+}
+
+// Resolve the signed-in user from a request's session cookie
+export async function getSessionUser(request: Request, env: any): Promise<SessionUser | null> {
+  const token = readSessionCookie(request.headers.get('Cookie'));
+  if (!token) return null;
+
+  const secret = getSessionSecret(env, loadConfig(env));
+  return secret ? verifySessionToken(token, secret) : null;
+}
+
+// Set-Cookie value starting a session for the user
+export async function startSession(request: Request, env: any, user: SessionUser): Promise<string> {
+  const config = loadConfig(env);
+  const secret = getSessionSecret(env, config);
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  const token = await createSessionToken(user, secret, config.security.session_ttl_ms);
+  return serializeSessionCookie(token, config.security.session_ttl_ms, isSecureRequest(request));
+}
+
+export function endSession(request: Request): string {
+  return clearSessionCookie(isSecureRequest(request));
+}
+
+function toSessionUser(user: UserRecord): SessionUser {
+  return { id: user.id, email: user.email, name: user.name };
+}
+
+// Shared precondition for signup and login: storage and a signing secret must be available
+function checkAuthAvailable(env: any, config: AppConfig): AuthFailure | null {
+  if (!createUserStorage(config, env?.R2_BUCKET).isEnabled()) {
+    return failure(503, 'Accounts unavailable', 'Persistence is disabled or the R2 binding is not configured');
+  }
+  if (!getSessionSecret(env, config)) {
+    return failure(503, 'Accounts unavailable', 'SESSION_SECRET is not configured');
+  }
+  return null;
+}
+
+export async function registerUser(env: any, fields: { email?: unknown; password?: unknown; name?: unknown }): Promise<AuthResult> {
+  const config = loadConfig(env);
+  const unavailable = checkAuthAvailable(env, config);
+  if (unavailable) return unavailable;
+
+  const { email, password, name } = fields;
+  if (typeof email !== 'string' || email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email.trim())) {
+    return failure(400, 'Invalid email', 'Enter a valid email address');
+  }
+  if (typeof password !== 'string' || password.length < config.security.min_password_length || password.length > MAX_PASSWORD_LENGTH) {
+    return failure(400, 'Invalid password', `Password must be between ${config.security.min_password_length} and ${MAX_PASSWORD_LENGTH} characters`);
+  }
+  if (name !== undefined && (typeof name !== 'string' || name.length > MAX_NAME_LENGTH)) {
+    return failure(400, 'Invalid name', `Name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const user = await createUserStorage(config, env.R2_BUCKET).createUser({
+    email,
+    name: (name as string | undefined)?.trim() || normalizeEmail(email).split('@')[0],
+    password_hash: await hashPassword(password, config.security.password_hash_iterations)
+  });
+  if (!user) {
+    return failure(409, 'Email already registered', 'Log in instead, or use a different email address');
+  }
+
+  return { ok: true, user: toSessionUser(user) };
+}
+
+export async function authenticateUser(env: any, fields: { email?: unknown; password?: unknown }): Promise<AuthResult> {
+  const config = loadConfig(env);
+  const unavailable = checkAuthAvailable(env, config);
+  if (unavailable) return unavailable;
+
+  const { email, password } = fields;
+  const invalid = failure(401, 'Invalid credentials', 'Email or password is incorrect');
+  if (typeof email !== 'string' || typeof password !== 'string' || password.length > MAX_PASSWORD_LENGTH) {
+    return invalid;
+  }
+
+  const user = await createUserStorage(config, env.R2_BUCKET).findUserByEmail(email);
+  if (!user) {
+    // Hash anyway so response timing doesn't reveal which emails are registered
+    await hashPassword(password, config.security.password_hash_iterations);
+    return invalid;
+  }
+
+  return await verifyPassword(password, user.password_hash) ? { ok: true, user: toSessionUser(user) } : invalid;
+}
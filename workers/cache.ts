@@ -3,23 +3,15 @@
  * Implements intelligent caching strategies for AI responses and RAG results
  */
 
-import { type AppConfig } from "./config";
+import { loadConfig, type AppConfig } from "./config";
+import { hammingDistance, sha256Hex } from "./image-hash";
+import { createLogger, type Logger } from "./logger";
 
 // Cache key generation utilities
-export function generateCacheKey(type: 'vision' | 'rag' | 'assessment', data: any): string {
-  const hash = simpleHash(JSON.stringify(data));
-  return `${type}_${hash}`;
-}
-
-// Simple hash function for cache keys
-function simpleHash(str: string): string {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash).toString(36);
+// Keys carry the full SHA-256 digest of their input plus any version fragments, so different inputs never share
+// an entry, e.g. "assessment_<64 hex>_vision-analysis@1"
+export function generateCacheKey(type: 'vision' | 'rag' | 'assessment', digest: string, ...parts: string[]): string {
+  return [type, digest, ...parts].join('_');
 }
 
 // Cache interface for different storage mechanisms
@@ -28,15 +20,47 @@ export interface CacheProvider {
   set(key: string, value: any, ttl?: number): Promise<void>;
   delete(key: string): Promise<void>;
   clear(): Promise<void>;
+  getStats?(): MemoryCacheStats | undefined;
+}
+
+export interface MemoryCacheStats {
+  size: number;
+  bytes: number;
+  evictions: number;
+  expirations: number;
+}
+
+export interface MemoryCacheLimits {
+  maxEntries?: number;
+  maxBytes?: number;
+}
+
+// Approximate in-memory footprint: JSON length in UTF-16 code units, two bytes each
+function estimateSize(key: string, value: any): number {
+  let serialized: string;
+  try {
+    serialized = JSON.stringify(value) ?? '';
+  } catch {
+    serialized = '';
+  }
+  return (key.length + serialized.length) * 2;
 }
 
-// In-memory cache implementation for Workers
-class MemoryCache implements CacheProvider {
-  private cache = new Map<string, { value: any; expires: number }>();
+// In-memory LRU cache for Workers, bounded by entry count and approximate bytes.
+// Map iteration order doubles as recency order: reads re-insert, so the first key is least recently used
+export class MemoryCache implements CacheProvider {
+  private cache = new Map<string, { value: any; expires: number; size: number }>();
   private defaultTTL: number;
+  private maxEntries: number;
+  private maxBytes: number;
+  private bytes = 0;
+  private evictions = 0;
+  private expirations = 0;
 
-  constructor(defaultTTL: number = 300000) { // 5 minutes default
+  constructor(defaultTTL: number = 300000, limits: MemoryCacheLimits = {}) { // 5 minutes default
     this.defaultTTL = defaultTTL;
+    this.maxEntries = limits.maxEntries ?? Infinity;
+    this.maxBytes = limits.maxBytes ?? Infinity;
   }
 
   async get(key: string): Promise<any | null> {
@@ -44,65 +68,334 @@ class MemoryCache implements CacheProvider {
     if (!item) return null;
 
     if (Date.now() > item.expires) {
-      this.cache.delete(key);
+      this.remove(key);
+      this.expirations++;
       return null;
     }
 
+    // Mark as most recently used
+    this.cache.delete(key);
+    this.cache.set(key, item);
     return item.value;
   }
 
   async set(key: string, value: any, ttl?: number): Promise<void> {
-    const expires = Date.now() + (ttl || this.defaultTTL);
-    this.cache.set(key, { value, expires });
+    const size = estimateSize(key, value);
+    this.remove(key);
 
-    // Clean up expired entries periodically
-    if (this.cache.size % 50 === 0) {
+    // An entry larger than the whole budget would evict everything and still not fit
+    if (size > this.maxBytes) {
+      this.evictions++;
+      return;
+    }
+
+    this.cache.set(key, { value, expires: Date.now() + (ttl || this.defaultTTL), size });
+    this.bytes += size;
+
+    if (this.cache.size > this.maxEntries || this.bytes > this.maxBytes) {
       this.cleanup();
     }
+    while (this.cache.size > this.maxEntries || this.bytes > this.maxBytes) {
+      const oldest = this.cache.keys().next().value as string;
+      this.remove(oldest);
+      this.evictions++;
+    }
   }
 
   async delete(key: string): Promise<void> {
-    this.cache.delete(key);
+    this.remove(key);
   }
 
   async clear(): Promise<void> {
     this.cache.clear();
+    this.bytes = 0;
+  }
+
+  private remove(key: string): void {
+    const item = this.cache.get(key);
+    if (item) {
+      this.bytes -= item.size;
+      this.cache.delete(key);
+    }
   }
 
+  // Drop expired entries first so they don't push out live ones
   private cleanup(): void {
     const now = Date.now();
     for (const [key, item] of this.cache.entries()) {
       if (now > item.expires) {
-        this.cache.delete(key);
+        this.remove(key);
+        this.expirations++;
       }
     }
   }
 
-  getStats(): { size: number; keys: string[] } {
+  getStats(): MemoryCacheStats {
     return {
       size: this.cache.size,
-      keys: Array.from(this.cache.keys())
+      bytes: this.bytes,
+      evictions: this.evictions,
+      expirations: this.expirations
     };
   }
 }
 
+// Serialized form stored in shared caches; the expiry is kept alongside the value because
+// KV rounds TTLs up to its 60 second minimum and the Cache API may hold entries past max-age
+interface CacheEnvelope {
+  value: any;
+  expires: number;
+}
+
+// KV rejects expirationTtl values below 60 seconds
+const KV_MIN_TTL_SECONDS = 60;
+
+// Workers KV cache shared by every isolate; values must be JSON-serializable
+export class KVCache implements CacheProvider {
+  private namespace: KVNamespace;
+  private prefix: string;
+  private defaultTTL: number;
+
+  constructor(namespace: KVNamespace, defaultTTL: number = 300000, prefix: string = 'cache:') {
+    this.namespace = namespace;
+    this.defaultTTL = defaultTTL;
+    this.prefix = prefix;
+  }
+
+  async get(key: string): Promise<any | null> {
+    const envelope = await this.namespace.get<CacheEnvelope>(this.prefix + key, 'json');
+    if (!envelope || Date.now() > envelope.expires) return null;
+    return envelope.value;
+  }
+
+  async set(key: string, value: any, ttl?: number): Promise<void> {
+    const duration = ttl || this.defaultTTL;
+    const envelope: CacheEnvelope = { value, expires: Date.now() + duration };
+    await this.namespace.put(this.prefix + key, JSON.stringify(envelope), {
+      expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(duration / 1000))
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.namespace.delete(this.prefix + key);
+  }
+
+  async clear(): Promise<void> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.namespace.list({ prefix: this.prefix, cursor });
+      await Promise.all(page.keys.map(({ name }) => this.namespace.delete(name)));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+  }
+}
+
+// Cache API store, shared within a data center; entries are keyed by synthetic URLs
+export class CacheApiCache implements CacheProvider {
+  private cache: Cache;
+  private baseUrl: string;
+  private defaultTTL: number;
+
+  constructor(cache: Cache, defaultTTL: number = 300000, baseUrl: string = 'https://cache.damagescan.internal/') {
+    this.cache = cache;
+    this.defaultTTL = defaultTTL;
+    this.baseUrl = baseUrl;
+  }
+
+  async get(key: string): Promise<any | null> {
+    const response = await this.cache.match(this.requestFor(key));
+    if (!response) return null;
+
+    const envelope = await response.json<CacheEnvelope>();
+    if (Date.now() > envelope.expires) return null;
+    return envelope.value;
+  }
+
+  async set(key: string, value: any, ttl?: number): Promise<void> {
+    const duration = ttl || this.defaultTTL;
+    const envelope: CacheEnvelope = { value, expires: Date.now() + duration };
+    await this.cache.put(this.requestFor(key), new Response(JSON.stringify(envelope), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': `max-age=${Math.ceil(duration / 1000)}`
+      }
+    }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.cache.delete(this.requestFor(key));
+  }
+
+  // The Cache API cannot enumerate entries, so cleared entries simply age out
+  async clear(): Promise<void> {}
+
+  private requestFor(key: string): Request {
+    return new Request(this.baseUrl + encodeURIComponent(key));
+  }
+}
+
+// Two-level cache: a fast per-isolate L1 in front of a shared L2. L2 failures degrade to L1-only
+// rather than failing the request, since the cache is an optimization
+export class TieredCache implements CacheProvider {
+  private l1: CacheProvider;
+  private l2: CacheProvider;
+  private l1TTL: number;
+  private logger: Logger;
+
+  constructor(l1: CacheProvider, l2: CacheProvider, l1TTL: number = 60000, logger: Logger = createLogger(loadConfig())) {
+    this.l1 = l1;
+    this.l2 = l2;
+    this.l1TTL = l1TTL;
+    this.logger = logger;
+  }
+
+  async get(key: string): Promise<any | null> {
+    const local = await this.l1.get(key);
+    if (local !== null) return local;
+
+    try {
+      const shared = await this.l2.get(key);
+      if (shared !== null) {
+        await this.l1.set(key, shared, this.l1TTL);
+      }
+      return shared;
+    } catch (error) {
+      this.logger.warn('Shared cache read failed', { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  async set(key: string, value: any, ttl?: number): Promise<void> {
+    await this.l1.set(key, value, ttl ? Math.min(ttl, this.l1TTL) : this.l1TTL);
+    try {
+      await this.l2.set(key, value, ttl);
+    } catch (error) {
+      this.logger.warn('Shared cache write failed', { error: (error as Error).message });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.l1.delete(key);
+    try {
+      await this.l2.delete(key);
+    } catch (error) {
+      this.logger.warn('Shared cache delete failed', { error: (error as Error).message });
+    }
+  }
+
+  // Only the local tier has bounded memory worth reporting
+  getStats(): MemoryCacheStats | undefined {
+    return this.l1.getStats?.();
+  }
+
+  async clear(): Promise<void> {
+    await this.l1.clear();
+    try {
+      await this.l2.clear();
+    } catch (error) {
+      this.logger.warn('Shared cache clear failed', { error: (error as Error).message });
+    }
+  }
+}
+
+function memoryCacheLimits(config: AppConfig): MemoryCacheLimits {
+  return {
+    maxEntries: config.performance.memory_cache_max_entries,
+    maxBytes: config.performance.memory_cache_max_bytes
+  };
+}
+
+// Bindings the cache providers can use; both are optional so memory caching always works
+export interface CacheBindings {
+  kv?: KVNamespace;
+  cache?: Cache;
+}
+
+// Build the provider selected by performance.cache_provider, falling back to memory when its binding is missing
+export function createCacheProvider(config: AppConfig, bindings: CacheBindings = {}): { provider: CacheProvider; name: string } {
+  const { cache_provider: selected, cache_ttl: ttl, l1_cache_ttl: l1TTL } = config.performance;
+  const memory = new MemoryCache(ttl, memoryCacheLimits(config));
+  const logger = createLogger(config);
+
+  switch (selected) {
+    case 'kv':
+      if (bindings.kv) return { provider: new KVCache(bindings.kv, ttl), name: 'kv' };
+      break;
+    case 'cache_api':
+      if (bindings.cache) return { provider: new CacheApiCache(bindings.cache, ttl), name: 'cache_api' };
+      break;
+    case 'tiered':
+      if (bindings.kv) {
+        return { provider: new TieredCache(new MemoryCache(l1TTL, memoryCacheLimits(config)), new KVCache(bindings.kv, ttl), l1TTL, logger), name: 'tiered:kv' };
+      }
+      if (bindings.cache) {
+        return { provider: new TieredCache(new MemoryCache(l1TTL, memoryCacheLimits(config)), new CacheApiCache(bindings.cache, ttl), l1TTL, logger), name: 'tiered:cache_api' };
+      }
+      break;
+  }
+
+  if (selected !== 'memory') {
+    logger.warn('Cache provider has no binding available, using in-memory cache', { provider: selected });
+  }
+  return { provider: memory, name: 'memory' };
+}
+
+// Perceptual hash index entry linking a photo's visual fingerprint to its content hash
+interface PerceptualIndexEntry {
+  perceptualHash: string;
+  imageHash: string;
+  timestamp: number;
+}
+
+// The index is sharded by perceptual hash band: each hash is split into 8 one-byte bands and an entry is filed under
+// every band's value. Hashes within 7 bits of each other share at least one band, so a lookup reads only the 8 shards
+// its hash falls in, and an upload rewrites 8 small keys rather than one index shared by every upload
+const PERCEPTUAL_INDEX_PREFIX = 'perceptual';
+const PERCEPTUAL_BANDS = 8;
+
+function perceptualShards(perceptualHash: string): string[] {
+  return Array.from({ length: PERCEPTUAL_BANDS }, (_, band) => `${band}:${perceptualHash.slice(band * 2, band * 2 + 2)}`);
+}
+
 // Cache service with intelligent strategies
 export class CacheService {
   private provider: CacheProvider;
+  private providerName: string;
   private config: AppConfig;
-  private hitCount = 0;
-  private missCount = 0;
+  // Shared with scoped views so statistics cover every scope
+  private counters = { hits: 0, misses: 0 };
+  private scope: string | null = null;
 
-  constructor(config: AppConfig, provider?: CacheProvider) {
+  constructor(config: AppConfig, provider?: CacheProvider, providerName?: string) {
     this.config = config;
-    this.provider = provider || new MemoryCache(config.performance.cache_ttl);
+    this.provider = provider || new MemoryCache(config.performance.cache_ttl, memoryCacheLimits(config));
+    this.providerName = providerName || (provider ? 'custom' : 'memory');
   }
 
-  // Cache vision analysis results
-  async cacheVisionResult(imageHash: string, result: any): Promise<void> {
+  // View over the same provider whose keys can't collide with other scopes, e.g. one per organization
+  // so tenants with different models or datasets never share results
+  scoped(scope: string): CacheService {
+    const view = new CacheService(this.config, this.provider, this.providerName);
+    view.counters = this.counters;
+    view.scope = scope;
+    return view;
+  }
+
+  private cacheKey(type: 'vision' | 'rag' | 'assessment', digest: string, ...parts: string[]): string {
+    const key = generateCacheKey(type, digest, ...parts);
+    return this.scope ? `${this.scope}:${key}` : key;
+  }
+
+  // Queries are normalized and hashed so long questions still fit within provider key limits
+  private async ragKey(query: string): Promise<string> {
+    return this.cacheKey('rag', await sha256Hex(new TextEncoder().encode(query.toLowerCase().trim())));
+  }
+
+  // Cache vision analysis results; promptVersion identifies the prompt that produced them
+  async cacheVisionResult(imageHash: string, promptVersion: string, result: any): Promise<void> {
     if (!this.config.performance.enable_caching) return;
 
-    const key = generateCacheKey('vision', { imageHash });
+    const key = this.cacheKey('vision', imageHash, promptVersion);
     const ttl = this.config.performance.cache_ttl;
     
     await this.provider.set(key, {
@@ -112,18 +405,18 @@ export class CacheService {
     }, ttl);
   }
 
-  async getCachedVisionResult(imageHash: string): Promise<any | null> {
+  async getCachedVisionResult(imageHash: string, promptVersion: string): Promise<any | null> {
     if (!this.config.performance.enable_caching) return null;
 
-    const key = generateCacheKey('vision', { imageHash });
+    const key = this.cacheKey('vision', imageHash, promptVersion);
     const cached = await this.provider.get(key);
     
     if (cached) {
-      this.hitCount++;
+      this.counters.hits++;
       return cached.result;
     }
     
-    this.missCount++;
+    this.counters.misses++;
     return null;
   }
 
@@ -131,7 +424,7 @@ export class CacheService {
   async cacheRAGResult(query: string, result: any): Promise<void> {
     if (!this.config.performance.enable_caching) return;
 
-    const key = generateCacheKey('rag', { query: query.toLowerCase().trim() });
+    const key = await this.ragKey(query);
     const ttl = this.config.performance.cache_ttl * 2; // RAG results can be cached longer
     
     await this.provider.set(key, {
@@ -145,23 +438,23 @@ export class CacheService {
   async getCachedRAGResult(query: string): Promise<any | null> {
     if (!this.config.performance.enable_caching) return null;
 
-    const key = generateCacheKey('rag', { query: query.toLowerCase().trim() });
+    const key = await this.ragKey(query);
     const cached = await this.provider.get(key);
     
     if (cached) {
-      this.hitCount++;
+      this.counters.hits++;
       return cached.result;
     }
     
-    this.missCount++;
+    this.counters.misses++;
     return null;
   }
 
   // Cache complete assessment results
-  async cacheAssessmentResult(imageHash: string, visionResult: any, ragResult: any, assessment: any): Promise<void> {
+  async cacheAssessmentResult(imageHash: string, promptVersion: string, visionResult: any, ragResult: any, assessment: any): Promise<void> {
     if (!this.config.performance.enable_caching) return;
 
-    const key = generateCacheKey('assessment', { imageHash });
+    const key = this.cacheKey('assessment', imageHash, promptVersion);
     const ttl = this.config.performance.cache_ttl;
     
     await this.provider.set(key, {
@@ -173,45 +466,89 @@ export class CacheService {
     }, ttl);
   }
 
-  async getCachedAssessmentResult(imageHash: string): Promise<any | null> {
+  async getCachedAssessmentResult(imageHash: string, promptVersion: string): Promise<any | null> {
     if (!this.config.performance.enable_caching) return null;
 
-    const key = generateCacheKey('assessment', { imageHash });
+    const key = this.cacheKey('assessment', imageHash, promptVersion);
     const cached = await this.provider.get(key);
     
     if (cached) {
-      this.hitCount++;
+      this.counters.hits++;
       return cached;
     }
     
-    this.missCount++;
+    this.counters.misses++;
     return null;
   }
 
   // Cache statistics and management
-  getCacheStats(): { hitRate: number; hits: number; misses: number; total: number } {
-    const total = this.hitCount + this.missCount;
+  getCacheStats(): {
+    provider: string;
+    hitRate: number;
+    hits: number;
+    misses: number;
+    total: number;
+    memory: MemoryCacheStats | null;
+  } {
+    const total = this.counters.hits + this.counters.misses;
     return {
-      hitRate: total > 0 ? (this.hitCount / total) * 100 : 0,
-      hits: this.hitCount,
-      misses: this.missCount,
-      total
+      provider: this.providerName,
+      hitRate: total > 0 ? (this.counters.hits / total) * 100 : 0,
+      hits: this.counters.hits,
+      misses: this.counters.misses,
+      total,
+      memory: this.provider.getStats?.() ?? null
     };
   }
 
   async clearCache(): Promise<void> {
     await this.provider.clear();
-    this.hitCount = 0;
-    this.missCount = 0;
+    this.counters.hits = 0;
+    this.counters.misses = 0;
   }
 
-  // Image hash generation for caching
-  generateImageHash(buffer: Uint8Array): string {
-    // Simple hash based on file size and first/last bytes
-    const size = buffer.length;
-    const firstBytes = Array.from(buffer.slice(0, 16)).join(',');
-    const lastBytes = Array.from(buffer.slice(-16)).join(',');
-    return simpleHash(`${size}_${firstBytes}_${lastBytes}`);
+  // Content hash of the full image bytes, used as the exact-match cache key
+  async generateImageHash(buffer: Uint8Array): Promise<string> {
+    return sha256Hex(buffer);
+  }
+
+  // Record a perceptual hash so later re-uploads of the same shot can be matched
+  async rememberPerceptualHash(perceptualHash: string, imageHash: string): Promise<void> {
+    if (!this.config.performance.enable_caching) return;
+
+    const entry = { perceptualHash, imageHash, timestamp: Date.now() };
+    await Promise.all(perceptualShards(perceptualHash).map(async shard => {
+      const entries = (await this.getPerceptualShard(shard)).filter(existing => existing.imageHash !== imageHash);
+      entries.push(entry);
+
+      // Keep the most recent entries; older ones have usually expired from the cache anyway
+      const trimmed = entries.slice(-this.config.performance.perceptual_index_size);
+      await this.provider.set(this.perceptualShardKey(shard), trimmed, this.config.performance.cache_ttl);
+    }));
+  }
+
+  // Find the closest previously assessed photo within the near-duplicate threshold
+  async findNearDuplicate(perceptualHash: string): Promise<{ imageHash: string; distance: number } | null> {
+    if (!this.config.performance.enable_caching) return null;
+
+    const shards = await Promise.all(perceptualShards(perceptualHash).map(shard => this.getPerceptualShard(shard)));
+    let best: { imageHash: string; distance: number } | null = null;
+    for (const entry of shards.flat()) {
+      const distance = hammingDistance(perceptualHash, entry.perceptualHash);
+      if (distance <= this.config.performance.near_duplicate_threshold && (!best || distance < best.distance)) {
+        best = { imageHash: entry.imageHash, distance };
+      }
+    }
+    return best;
+  }
+
+  private perceptualShardKey(shard: string): string {
+    const key = `${PERCEPTUAL_INDEX_PREFIX}:${shard}`;
+    return this.scope ? `${this.scope}:${key}` : key;
+  }
+
+  private async getPerceptualShard(shard: string): Promise<PerceptualIndexEntry[]> {
+    return (await this.provider.get(this.perceptualShardKey(shard))) || [];
   }
 }
 
@@ -308,8 +645,16 @@ export class ImageOptimizer {
 }
 
 // Export singleton instances
-export function createCacheService(config: AppConfig): CacheService {
-  return new CacheService(config);
+export function createCacheService(config: AppConfig, bindings?: CacheBindings): CacheService {
+  const { provider, name } = createCacheProvider(config, bindings);
+  return new CacheService(config, provider, name);
+}
+
+// Organizations get their own cache scope so results from different models or datasets never mix, and so does
+// each mock scenario so a forced scenario never serves (or leaves behind) another scenario's answers
+export function cacheScope(orgId: string | null | undefined, mockScenario?: string): string | null {
+  const parts = [orgId ? `org:${orgId}` : null, mockScenario ? `mock:${mockScenario}` : null].filter(Boolean);
+  return parts.length > 0 ? parts.join(':') : null;
 }
 
 export function createPerformanceMonitor(): PerformanceMonitor {
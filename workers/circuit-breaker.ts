@@ -0,0 +1,164 @@
+/**
+ * Circuit breakers for Workers AI models and AutoRAG datasets
+ * After repeated transient failures (timeouts, 429s, 5xx; see isRetryableError) a breaker opens and calls fail
+ * immediately instead of waiting out the AI timeout.
+ * Once open_ms has passed, one trial call is let through; success closes the breaker, failure reopens it.
+ * State is kept per isolate
+ */
+
+import { type AppConfig } from "./config";
+import { isRetryableError } from "./retry";
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failure_threshold: number;
+  failure_window_ms: number;
+  open_ms: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  recent_failures: number;
+  opened_at: string | null;
+  retry_after_ms: number | null;
+  total_failures: number;
+  total_rejections: number;
+}
+
+// Thrown instead of calling the service while its breaker is open
+export class CircuitOpenError extends Error {
+  readonly key: string;
+  readonly retryAfterMs: number;
+
+  constructor(key: string, retryAfterMs: number) {
+    super(`Circuit breaker open for ${key}`);
+    this.name = 'CircuitOpenError';
+    this.key = key;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Callers are asked to wait at least this long, even when the breaker is about to allow a trial call
+const MIN_RETRY_AFTER_MS = 1000;
+
+export class CircuitBreaker {
+  readonly key: string;
+  private options: CircuitBreakerOptions;
+  private now: () => number;
+  private state: CircuitState = 'closed';
+  private failureTimes: number[] = [];
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private totalFailures = 0;
+  private totalRejections = 0;
+
+  constructor(key: string, options: CircuitBreakerOptions, now: () => number = Date.now) {
+    this.key = key;
+    this.options = options;
+    this.now = now;
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.openedAt !== null && this.now() - this.openedAt >= this.options.open_ms) {
+      this.state = 'half_open';
+    }
+    return this.state;
+  }
+
+  retryAfterMs(): number {
+    if (this.openedAt === null) return MIN_RETRY_AFTER_MS;
+    return Math.max(this.openedAt + this.options.open_ms - this.now(), MIN_RETRY_AFTER_MS);
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+    if (state === 'open' || (state === 'half_open' && this.trialInFlight)) {
+      this.totalRejections++;
+      throw new CircuitOpenError(this.key, this.retryAfterMs());
+    }
+
+    const trial = state === 'half_open';
+    if (trial) this.trialInFlight = true;
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      // Errors such as bad requests or missing fixtures say nothing about the service's health
+      if (isRetryableError(error)) this.recordFailure();
+      throw error;
+    } finally {
+      if (trial) this.trialInFlight = false;
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failureTimes = [];
+    this.openedAt = null;
+  }
+
+  recordFailure(): void {
+    const now = this.now();
+    this.totalFailures++;
+
+    if (this.getState() === 'half_open') {
+      this.open(now);
+      return;
+    }
+
+    this.failureTimes = this.failureTimes.filter(time => now - time < this.options.failure_window_ms);
+    this.failureTimes.push(now);
+    if (this.failureTimes.length >= this.options.failure_threshold) {
+      this.open(now);
+    }
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    const state = this.getState();
+    return {
+      state,
+      recent_failures: this.failureTimes.filter(time => this.now() - time < this.options.failure_window_ms).length,
+      opened_at: this.openedAt === null ? null : new Date(this.openedAt).toISOString(),
+      retry_after_ms: state === 'closed' ? null : this.retryAfterMs(),
+      total_failures: this.totalFailures,
+      total_rejections: this.totalRejections
+    };
+  }
+
+  private open(now: number): void {
+    this.state = 'open';
+    this.openedAt = now;
+    this.failureTimes = [];
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+// One breaker per key for the life of the isolate; the first caller's config sets its thresholds
+export function getCircuitBreaker(key: string, config: AppConfig): CircuitBreaker {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(key, config.ai.circuit_breaker);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+export function modelBreaker(config: AppConfig, model: string): CircuitBreaker {
+  return getCircuitBreaker(`model:${model}`, config);
+}
+
+export function autoragBreaker(config: AppConfig): CircuitBreaker {
+  return getCircuitBreaker(`autorag:${config.ai.autorag_dataset}`, config);
+}
+
+export function circuitBreakerStats(): Record<string, CircuitBreakerSnapshot> {
+  return Object.fromEntries(Array.from(breakers, ([key, breaker]) => [key, breaker.snapshot()]));
+}
+
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
@@ -3,6 +3,8 @@
  * Provides type-safe configuration with validation and environment-specific settings
  */
 
+import { PROMPT_NAMES, isKnownPromptVersion, type PromptName, type PromptVersions } from "./prompts";
+
 export interface AppConfig {
   // Application settings
   app: {
@@ -24,11 +26,19 @@ export interface AppConfig {
       max_decoded_size: number;
       max_dimensions: number;
       max_query_length: number;
+      max_batch_size: number;
     };
     retry: {
       max_attempts: number;
       backoff_ms: number;
     };
+    // Sliding-window request limits per client; enforced globally when the RATE_LIMITER Durable Object is bound
+    rate_limits: {
+      api: RateLimitPolicy;
+      ai: RateLimitPolicy;
+      upload: RateLimitPolicy;
+      auth: RateLimitPolicy;
+    };
   };
 
   // Image Processing Configuration
@@ -37,6 +47,7 @@ export interface AppConfig {
     max_file_size: number;
     max_dimensions: { width: number; height: number };
     min_dimensions: { width: number; height: number };
+    max_pixels: number;
     quality: {
       jpeg: number;
       png: number;
@@ -51,17 +62,57 @@ export interface AppConfig {
     enable_sanitization: boolean;
     max_filename_length: number;
     blocked_extensions: string[];
+    strip_image_metadata: boolean;
+    extract_photo_metadata: boolean;
+    expose_photo_location: boolean;
+    location_precision_digits: number;
+    // When false, requests without X-API-Key stay anonymous (the web app); keys that are sent are always validated
+    require_api_key: boolean;
+    api_key_default_daily_quota: number;
+    session_ttl_ms: number;
+    min_password_length: number;
+    // PBKDF2-SHA256 rounds; Workers caps WebCrypto PBKDF2 at 100,000
+    password_hash_iterations: number;
   };
 
   // AI Model Configuration
   ai: {
+    // workers-ai: the AI binding; mock: canned development responses; openai: an OpenAI-compatible server
+    provider: 'workers-ai' | 'mock' | 'openai';
     vision_model: string;
     language_model: string;
     autorag_dataset: string;
     enable_autorag: boolean;
     confidence_threshold: number;
+    // Forces the mock provider regardless of ai.provider
     enable_dev_mocks: boolean;
+    // Mock answers are chosen by image hash mixed with seed; latency_ms is added to every mock call
+    mocks: {
+      seed: number;
+      latency_ms: number;
+    };
     timeout_ms: number;
+    findings_max_attempts: number;
+    // Per model and AutoRAG dataset: open after failure_threshold failures within failure_window_ms,
+    // then fail fast for open_ms before letting a trial call through
+    circuit_breaker: {
+      failure_threshold: number;
+      failure_window_ms: number;
+      open_ms: number;
+    };
+    // Used by the openai provider; the API key comes from the OPENAI_API_KEY secret
+    openai: {
+      base_url: string;
+      vision_model: string;
+      language_model: string;
+    };
+    // Pins prompt templates to older versions, e.g. { "conversation": 1 }; unpinned templates use the latest
+    prompt_versions: PromptVersions;
+    // record: save every AI request/response pair to R2 under prefix; replay: answer from those pairs instead
+    fixtures: {
+      mode: 'off' | 'record' | 'replay';
+      prefix: string;
+    };
   };
 
   // Logging Configuration
@@ -72,13 +123,67 @@ export interface AppConfig {
     log_responses: boolean;
   };
 
+  // Storage Configuration
+  storage: {
+    enable_persistence: boolean;
+    assessment_prefix: string;
+    case_prefix: string;
+    user_prefix: string;
+    max_case_messages: number;
+  };
+
   // Performance Configuration
   performance: {
     enable_caching: boolean;
     cache_ttl: number;
+    // memory: per-isolate only; kv / cache_api: shared store; tiered: memory in front of KV (or the Cache API without a KV binding)
+    cache_provider: 'memory' | 'kv' | 'cache_api' | 'tiered';
+    l1_cache_ttl: number;
+    // Per-isolate memory cache bounds; least recently used entries are evicted past either limit
+    memory_cache_max_entries: number;
+    memory_cache_max_bytes: number;
     enable_compression: boolean;
+    // AI requests in flight per isolate; further requests wait in a bounded queue for up to concurrency_max_wait_ms
     max_concurrent_requests: number;
+    concurrency_queue_size: number;
+    concurrency_max_wait_ms: number;
+    batch_concurrency: number;
+    near_duplicate_threshold: number;
+    perceptual_index_size: number;
+  };
+
+  // Outbound webhook delivery; retries are scheduled by the WEBHOOK_DISPATCHER Durable Object when bound
+  webhooks: {
+    max_attempts: number;
+    // Delay before retry n is backoff_base_ms * 2^(n-1), capped at backoff_max_ms
+    backoff_base_ms: number;
+    backoff_max_ms: number;
+    timeout_ms: number;
+    delivery_log_ttl_ms: number;
   };
+  jobs: {
+    // Per-call AI timeout for background jobs, which are not bound by the request timeout
+    ai_timeout_ms: number;
+    // Runs interrupted by an eviction or deploy are restarted until this many have been made
+    max_attempts: number;
+    // How long a finished job's status and result stay available
+    result_ttl_ms: number;
+  };
+}
+
+export interface RateLimitPolicy {
+  window_ms: number;
+  max_requests: number;
+}
+
+// The subset of AppConfig an organization may override; everything else stays deployment-wide
+export interface TenantConfigOverrides {
+  ai?: Partial<Pick<AppConfig['ai'], 'vision_model' | 'language_model' | 'autorag_dataset' | 'enable_autorag' | 'confidence_threshold'>>;
+  api?: {
+    limits?: Partial<AppConfig['api']['limits']>;
+    rate_limits?: Partial<AppConfig['api']['rate_limits']>;
+  };
+  security?: Partial<Pick<AppConfig['security'], 'api_key_default_daily_quota'>>;
 }
 
 // Default configuration
@@ -101,11 +206,18 @@ const DEFAULT_CONFIG: AppConfig = {
       max_decoded_size: 10 * 1024 * 1024, // 10MB (reduced to prevent CPU timeouts)
       max_dimensions: 4096,                // 4096px (reduced for processing efficiency)
       max_query_length: 1000,              // 1000 characters
+      max_batch_size: 40,                  // 40 images per batch request
     },
     retry: {
       max_attempts: 3,
       backoff_ms: 1000,
     },
+    rate_limits: {
+      api: { window_ms: 15 * 60 * 1000, max_requests: 100 },
+      ai: { window_ms: 5 * 60 * 1000, max_requests: 20 },
+      upload: { window_ms: 10 * 60 * 1000, max_requests: 50 },
+      auth: { window_ms: 15 * 60 * 1000, max_requests: 10 }, // Slows password guessing
+    },
   },
 
   image: {
@@ -113,6 +225,7 @@ const DEFAULT_CONFIG: AppConfig = {
     max_file_size: 10 * 1024 * 1024, // 10MB for frontend
     max_dimensions: { width: 4096, height: 4096 },
     min_dimensions: { width: 100, height: 100 },
+    max_pixels: 4096 * 4096, // Decompression bomb guard
     quality: {
       jpeg: 85,
       png: 95,
@@ -126,16 +239,46 @@ const DEFAULT_CONFIG: AppConfig = {
     enable_sanitization: true,
     max_filename_length: 255,
     blocked_extensions: ['.exe', '.bat', '.cmd', '.com', '.scr', '.vbs', '.js', '.jar'],
+    strip_image_metadata: true,   // Remove EXIF/XMP before images are stored or sent to AI
+    extract_photo_metadata: true, // Surface capture time, orientation and location in responses
+    expose_photo_location: true,
+    location_precision_digits: 2, // ~1km; coarse enough to confirm the property without pinpointing it
+    require_api_key: false,
+    api_key_default_daily_quota: 1000,
+    session_ttl_ms: 7 * 24 * 60 * 60 * 1000, // 7 days
+    min_password_length: 10,
+    password_hash_iterations: 100000,
   },
 
   ai: {
+    provider: 'workers-ai',
     vision_model: '@cf/llava-hf/llava-1.5-7b-hf',
     language_model: '@cf/meta/llama-3.2-3b-instruct',
     autorag_dataset: 'auto-inspect-rag',
     enable_autorag: true,
     confidence_threshold: 0.7,
     enable_dev_mocks: false,
+    mocks: {
+      seed: 0,
+      latency_ms: 500, // Long enough to see progress in the UI
+    },
     timeout_ms: 30000, // 30 seconds
+    findings_max_attempts: 2, // Initial request plus one re-prompt
+    circuit_breaker: {
+      failure_threshold: 5,
+      failure_window_ms: 60000,
+      open_ms: 30000,
+    },
+    openai: {
+      base_url: 'http://localhost:11434/v1', // Ollama's OpenAI-compatible API
+      vision_model: 'llava',
+      language_model: 'llama3.2',
+    },
+    prompt_versions: {},
+    fixtures: {
+      mode: 'off',
+      prefix: 'ai-fixtures',
+    },
   },
 
   logging: {
@@ -145,11 +288,41 @@ const DEFAULT_CONFIG: AppConfig = {
     log_responses: false,
   },
 
+  storage: {
+    enable_persistence: true,
+    assessment_prefix: 'assessments',
+    case_prefix: 'cases',
+    user_prefix: 'users',
+    max_case_messages: 500,
+  },
+
   performance: {
     enable_caching: false,
     cache_ttl: 300000, // 5 minutes
+    cache_provider: 'memory',
+    l1_cache_ttl: 60000, // Short-lived so isolates pick up shared-cache changes quickly
+    memory_cache_max_entries: 500,
+    memory_cache_max_bytes: 16 * 1024 * 1024, // Well under the 128MB isolate limit
     enable_compression: true,
     max_concurrent_requests: 10,
+    concurrency_queue_size: 20,
+    concurrency_max_wait_ms: 10000,
+    batch_concurrency: 4,
+    near_duplicate_threshold: 6, // Max differing bits (of 64) for two photos to count as the same shot
+    perceptual_index_size: 100, // Entries kept per perceptual index shard
+  },
+
+  webhooks: {
+    max_attempts: 6,
+    backoff_base_ms: 30 * 1000,
+    backoff_max_ms: 60 * 60 * 1000,
+    timeout_ms: 10000,
+    delivery_log_ttl_ms: 30 * 24 * 60 * 60 * 1000,
+  },
+  jobs: {
+    ai_timeout_ms: 120000, // 2 minutes
+    max_attempts: 2,
+    result_ttl_ms: 24 * 60 * 60 * 1000,
   },
 };
 
@@ -186,6 +359,7 @@ const ENVIRONMENT_OVERRIDES: Record<string, any> = {
     },
     performance: {
       enable_caching: true,
+      cache_provider: 'tiered',
     },
   },
 
@@ -201,6 +375,7 @@ const ENVIRONMENT_OVERRIDES: Record<string, any> = {
     },
     performance: {
       enable_caching: true,
+      cache_provider: 'tiered',
     },
   },
 };
@@ -217,6 +392,14 @@ function validateConfig(config: AppConfig): { valid: boolean; errors: string[] }
     errors.push('Knowledge search timeout must be at least 1000ms');
   }
 
+  // Validate retries
+  if (config.api.retry.max_attempts < 1) {
+    errors.push('Retry max attempts must be at least 1');
+  }
+  if (config.api.retry.backoff_ms < 0) {
+    errors.push('Retry backoff must not be negative');
+  }
+
   // Validate limits
   if (config.api.limits.max_file_size < 1024 * 1024) {
     errors.push('Max file size must be at least 1MB');
@@ -224,6 +407,9 @@ function validateConfig(config: AppConfig): { valid: boolean; errors: string[] }
   if (config.api.limits.max_dimensions < 100) {
     errors.push('Max dimensions must be at least 100px');
   }
+  if (config.api.limits.max_batch_size < 1) {
+    errors.push('Max batch size must be at least 1');
+  }
 
   // Validate image settings
   if (config.image.allowed_types.length === 0) {
@@ -235,28 +421,158 @@ function validateConfig(config: AppConfig): { valid: boolean; errors: string[] }
   if (config.image.max_dimensions.height < config.image.min_dimensions.height) {
     errors.push('Max height must be greater than min height');
   }
+  if (config.image.max_pixels < config.image.min_dimensions.width * config.image.min_dimensions.height) {
+    errors.push('Max pixels must allow the minimum image dimensions');
+  }
+
+  // Validate security settings
+  if (config.security.location_precision_digits < 0 || config.security.location_precision_digits > 6) {
+    errors.push('Location precision must be between 0 and 6 decimal places');
+  }
 
   // Validate AI settings
+  if (!['workers-ai', 'mock', 'openai'].includes(config.ai.provider)) {
+    errors.push('AI provider must be workers-ai, mock or openai');
+  }
   if (!config.ai.vision_model || !config.ai.language_model) {
     errors.push('AI models must be specified');
   }
+  if (config.ai.provider === 'openai' && (!config.ai.openai.base_url || !config.ai.openai.vision_model || !config.ai.openai.language_model)) {
+    errors.push('The openai provider needs a base URL, vision model and language model');
+  }
   if (config.ai.confidence_threshold < 0 || config.ai.confidence_threshold > 1) {
     errors.push('Confidence threshold must be between 0 and 1');
   }
+  for (const [name, version] of Object.entries(config.ai.prompt_versions)) {
+    if (!PROMPT_NAMES.includes(name as PromptName) || !isKnownPromptVersion(name as PromptName, version as number)) {
+      errors.push(`Unknown prompt version ${name}@${version}`);
+    }
+  }
+  if (!['off', 'record', 'replay'].includes(config.ai.fixtures.mode)) {
+    errors.push('AI fixture mode must be off, record or replay');
+  }
+  if (!config.ai.fixtures.prefix || config.ai.fixtures.prefix.includes('..')) {
+    errors.push('AI fixture prefix must be a non-empty path');
+  }
+  if (config.ai.fixtures.mode !== 'off' && config.app.environment === 'production') {
+    errors.push('AI fixtures cannot be recorded or replayed in production');
+  }
+  if (config.ai.mocks.latency_ms < 0) {
+    errors.push('Mock latency must not be negative');
+  }
+  if (config.ai.findings_max_attempts < 1) {
+    errors.push('Findings max attempts must be at least 1');
+  }
+  if (config.ai.circuit_breaker.failure_threshold < 1) {
+    errors.push('Circuit breaker failure threshold must be at least 1');
+  }
+  if (config.ai.circuit_breaker.failure_window_ms < 1000 || config.ai.circuit_breaker.open_ms < 1000) {
+    errors.push('Circuit breaker failure window and open time must be at least 1000ms');
+  }
+
+  // Validate storage settings
+  if (!config.storage.assessment_prefix || config.storage.assessment_prefix.includes('..')) {
+    errors.push('Assessment storage prefix must be a non-empty path');
+  }
+  if (!config.storage.case_prefix || config.storage.case_prefix.includes('..')) {
+    errors.push('Case storage prefix must be a non-empty path');
+  }
+  if (!config.storage.user_prefix || config.storage.user_prefix.includes('..')) {
+    errors.push('User storage prefix must be a non-empty path');
+  }
+  if (config.storage.max_case_messages < 1) {
+    errors.push('Max case messages must be at least 1');
+  }
+
+  if (config.security.session_ttl_ms < 60000) {
+    errors.push('Session TTL must be at least 60000ms');
+  }
+  if (config.security.min_password_length < 8) {
+    errors.push('Minimum password length must be at least 8');
+  }
+  if (config.security.password_hash_iterations < 10000 || config.security.password_hash_iterations > 100000) {
+    errors.push('Password hash iterations must be between 10000 and 100000');
+  }
+  if (config.security.api_key_default_daily_quota < 1) {
+    errors.push('Default API key daily quota must be at least 1');
+  }
+
+  // Validate rate limits
+  for (const [name, policy] of Object.entries(config.api.rate_limits)) {
+    if (policy.window_ms < 1000) {
+      errors.push(`Rate limit window for ${name} must be at least 1000ms`);
+    }
+    if (policy.max_requests < 1) {
+      errors.push(`Rate limit for ${name} must allow at least 1 request`);
+    }
+  }
 
   // Validate performance settings
   if (config.performance.cache_ttl < 1000) {
     errors.push('Cache TTL must be at least 1000ms');
   }
+  if (!['memory', 'kv', 'cache_api', 'tiered'].includes(config.performance.cache_provider)) {
+    errors.push('Cache provider must be memory, kv, cache_api or tiered');
+  }
+  if (config.performance.l1_cache_ttl < 1000) {
+    errors.push('L1 cache TTL must be at least 1000ms');
+  }
+  if (config.performance.memory_cache_max_entries < 1) {
+    errors.push('Memory cache max entries must be at least 1');
+  }
+  if (config.performance.memory_cache_max_bytes < 1024) {
+    errors.push('Memory cache max bytes must be at least 1024');
+  }
   if (config.performance.max_concurrent_requests < 1) {
     errors.push('Max concurrent requests must be at least 1');
   }
+  if (config.performance.concurrency_queue_size < 0) {
+    errors.push('Concurrency queue size must not be negative');
+  }
+  if (config.performance.concurrency_max_wait_ms < 0) {
+    errors.push('Concurrency max wait must not be negative');
+  }
+  if (config.performance.batch_concurrency < 1) {
+    errors.push('Batch concurrency must be at least 1');
+  }
+  // The perceptual index is sharded into 8 bands, which only guarantees finding matches within 7 bits
+  if (config.performance.near_duplicate_threshold < 0 || config.performance.near_duplicate_threshold > 7) {
+    errors.push('Near-duplicate threshold must be between 0 and 7 bits');
+  }
+  if (config.performance.perceptual_index_size < 1) {
+    errors.push('Perceptual index size must be at least 1');
+  }
+
+  // Validate webhook settings
+  if (config.webhooks.max_attempts < 1) {
+    errors.push('Webhook max attempts must be at least 1');
+  }
+  if (config.webhooks.backoff_base_ms < 1000 || config.webhooks.backoff_max_ms < config.webhooks.backoff_base_ms) {
+    errors.push('Webhook backoff must start at 1000ms or more and its cap must not be below the base delay');
+  }
+  if (config.webhooks.timeout_ms < 1000) {
+    errors.push('Webhook timeout must be at least 1000ms');
+  }
+  if (config.webhooks.delivery_log_ttl_ms < 60000) {
+    errors.push('Webhook delivery log TTL must be at least 60000ms');
+  }
+
+  // Validate background jobs
+  if (config.jobs.ai_timeout_ms < 1000) {
+    errors.push('Job AI timeout must be at least 1000ms');
+  }
+  if (config.jobs.max_attempts < 1) {
+    errors.push('Job max attempts must be at least 1');
+  }
+  if (config.jobs.result_ttl_ms < 60000) {
+    errors.push('Job result TTL must be at least 60000ms');
+  }
 
   return { valid: errors.length === 0, errors };
 }
 
-// Configuration loader with environment detection
-export function loadConfig(env?: any): AppConfig {
+// Configuration loader with environment detection; tenant overrides are applied last so validation covers them
+export function loadConfig(env?: any, tenantOverrides?: TenantConfigOverrides): AppConfig {
   // Start with default configuration
   let config = structuredClone(DEFAULT_CONFIG);
 
@@ -291,18 +607,49 @@ export function loadConfig(env?: any): AppConfig {
     if (env.ENABLE_AUTORAG !== undefined) {
       config.ai.enable_autorag = env.ENABLE_AUTORAG === 'true';
     }
+    if (env.AI_PROVIDER) {
+      config.ai.provider = env.AI_PROVIDER as AppConfig['ai']['provider'];
+    }
+    if (env.OPENAI_BASE_URL) {
+      config.ai.openai.base_url = env.OPENAI_BASE_URL;
+    }
     if (env.ENABLE_DEV_MOCKS !== undefined) {
       config.ai.enable_dev_mocks = env.ENABLE_DEV_MOCKS === 'true';
     }
+    if (env.AI_FIXTURES) {
+      config.ai.fixtures.mode = env.AI_FIXTURES as AppConfig['ai']['fixtures']['mode'];
+    }
+    if (env.MOCK_SEED) {
+      config.ai.mocks.seed = parseInt(env.MOCK_SEED);
+    }
     if (env.AI_TIMEOUT_MS) {
       config.ai.timeout_ms = parseInt(env.AI_TIMEOUT_MS);
     }
     if (env.LOG_LEVEL) {
       config.logging.level = env.LOG_LEVEL as 'debug' | 'info' | 'warn' | 'error';
     }
+    if (env.STRIP_IMAGE_METADATA !== undefined) {
+      config.security.strip_image_metadata = env.STRIP_IMAGE_METADATA === 'true';
+    }
+    if (env.EXPOSE_PHOTO_LOCATION !== undefined) {
+      config.security.expose_photo_location = env.EXPOSE_PHOTO_LOCATION === 'true';
+    }
+    if (env.REQUIRE_API_KEY !== undefined) {
+      config.security.require_api_key = env.REQUIRE_API_KEY === 'true';
+    }
+    if (env.ENABLE_PERSISTENCE !== undefined) {
+      config.storage.enable_persistence = env.ENABLE_PERSISTENCE === 'true';
+    }
     if (env.ENABLE_CACHING !== undefined) {
       config.performance.enable_caching = env.ENABLE_CACHING === 'true';
     }
+    if (env.CACHE_PROVIDER) {
+      config.performance.cache_provider = env.CACHE_PROVIDER as AppConfig['performance']['cache_provider'];
+    }
+  }
+
+  if (tenantOverrides) {
+    config = mergeConfig(config, tenantOverrides);
   }
 
   // Validate final configuration
@@ -0,0 +1,14 @@
+/**
+ * Bindings that are optional in deployment and so are left out of wrangler.jsonc (and the generated
+ * worker-configuration.d.ts) until an account creates them; each feature checks for its binding
+ */
+
+declare namespace Cloudflare {
+  interface Env {
+    // Created with `wrangler kv namespace create <BINDING>`, see the README
+    CACHE_KV?: KVNamespace;
+    API_KEYS?: KVNamespace;
+    TENANTS?: KVNamespace;
+    WEBHOOKS?: KVNamespace;
+  }
+}
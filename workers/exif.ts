@@ -0,0 +1,376 @@
+/**
+ * Photo metadata handling
+ * Extracts claim-relevant EXIF fields (capture time, orientation, location) and strips
+ * embedded metadata before images are stored or sent to the AI models
+ */
+
+import { type AppConfig } from "./config";
+
+export interface PhotoMetadata {
+  // Capture time as recorded by the camera; includes an offset only when the photo recorded one
+  taken_at: string | null;
+  // EXIF orientation (1-8); clients rotate the stripped image using this value
+  orientation: number | null;
+  // Rounded to `security.location_precision_digits` decimal places
+  location: { latitude: number; longitude: number } | null;
+}
+
+interface ExifFields {
+  dateTime?: string;
+  dateTimeOriginal?: string;
+  offsetTimeOriginal?: string;
+  orientation?: number;
+  latitude?: number;
+  longitude?: number;
+}
+
+// Guard against malformed files declaring huge IFDs
+const MAX_IFD_ENTRIES = 512;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+// Bounds-checked reader over a TIFF block honouring its byte order
+class TiffReader {
+  private view: DataView;
+  private littleEndian: boolean;
+
+  constructor(tiff: Uint8Array) {
+    this.view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const byteOrder = this.uint8(0) === 0x49 && this.uint8(1) === 0x49;
+    if (!byteOrder && !(this.uint8(0) === 0x4D && this.uint8(1) === 0x4D)) {
+      throw new Error('Invalid TIFF byte order');
+    }
+    this.littleEndian = byteOrder;
+    if (this.uint16(2) !== 42) {
+      throw new Error('Invalid TIFF magic number');
+    }
+  }
+
+  get length(): number {
+    return this.view.byteLength;
+  }
+
+  uint8(offset: number): number {
+    return this.view.getUint8(offset);
+  }
+
+  uint16(offset: number): number {
+    return this.view.getUint16(offset, this.littleEndian);
+  }
+
+  uint32(offset: number): number {
+    return this.view.getUint32(offset, this.littleEndian);
+  }
+
+  // Read IFD entries as tag -> { type, count, valueOffset }, where valueOffset points at inline or referenced data
+  readIfd(offset: number): Map<number, { type: number; count: number; valueOffset: number }> {
+    const entries = new Map<number, { type: number; count: number; valueOffset: number }>();
+    if (offset <= 0 || offset + 2 > this.length) return entries;
+
+    const count = Math.min(this.uint16(offset), MAX_IFD_ENTRIES);
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      if (entryOffset + 12 > this.length) break;
+
+      const type = this.uint16(entryOffset + 2);
+      const valueCount = this.uint32(entryOffset + 4);
+      const size = typeSize(type) * valueCount;
+      const valueOffset = size <= 4 ? entryOffset + 8 : this.uint32(entryOffset + 8);
+      if (valueOffset + size > this.length) continue;
+
+      entries.set(this.uint16(entryOffset), { type, count: valueCount, valueOffset });
+    }
+    return entries;
+  }
+
+  ascii(offset: number, count: number): string {
+    let text = '';
+    for (let i = 0; i < count; i++) {
+      const code = this.uint8(offset + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text.trim();
+  }
+
+  rational(offset: number): number {
+    const denominator = this.uint32(offset + 4);
+    return denominator === 0 ? 0 : this.uint32(offset) / denominator;
+  }
+}
+
+// Byte size of each TIFF field type; unknown types are treated as 1 byte
+function typeSize(type: number): number {
+  switch (type) {
+    case 3: case 8: return 2;          // SHORT, SSHORT
+    case 4: case 9: case 11: return 4; // LONG, SLONG, FLOAT
+    case 5: case 10: case 12: return 8; // RATIONAL, SRATIONAL, DOUBLE
+    default: return 1;
+  }
+}
+
+function startsWith(buffer: Uint8Array, offset: number, bytes: number[]): boolean {
+  if (offset + bytes.length > buffer.length) return false;
+  return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+function fourCC(buffer: Uint8Array, offset: number): string {
+  return String.fromCharCode(buffer[offset], buffer[offset + 1], buffer[offset + 2], buffer[offset + 3]);
+}
+
+function readUint32LE(buffer: Uint8Array, offset: number): number {
+  return (buffer[offset] | (buffer[offset + 1] << 8) | (buffer[offset + 2] << 16) | (buffer[offset + 3] << 24)) >>> 0;
+}
+
+// Locate the TIFF block inside a JPEG APP1 "Exif" segment
+function findJPEGExif(buffer: Uint8Array): Uint8Array | null {
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xFF) {
+    const marker = buffer[offset + 1];
+    if (marker === 0xDA || marker === 0xD9) break;
+
+    const length = (buffer[offset + 2] << 8) | buffer[offset + 3];
+    if (length < 2 || offset + 2 + length > buffer.length) break;
+
+    if (marker === 0xE1 && startsWith(buffer, offset + 4, EXIF_HEADER)) {
+      return buffer.subarray(offset + 4 + EXIF_HEADER.length, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// Locate the TIFF block inside a WebP EXIF chunk (some encoders keep the "Exif\0\0" prefix)
+function findWebPExif(buffer: Uint8Array): Uint8Array | null {
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const size = readUint32LE(buffer, offset + 4);
+    const dataStart = offset + 8;
+    if (dataStart + size > buffer.length) break;
+
+    if (fourCC(buffer, offset) === 'EXIF') {
+      const start = startsWith(buffer, dataStart, EXIF_HEADER) ? dataStart + EXIF_HEADER.length : dataStart;
+      return buffer.subarray(start, dataStart + size);
+    }
+    offset = dataStart + size + (size % 2);
+  }
+  return null;
+}
+
+function readGpsCoordinate(reader: TiffReader, entry: { type: number; count: number; valueOffset: number } | undefined): number | undefined {
+  if (!entry || entry.type !== 5 || entry.count < 3) return undefined;
+  const degrees = reader.rational(entry.valueOffset);
+  const minutes = reader.rational(entry.valueOffset + 8);
+  const seconds = reader.rational(entry.valueOffset + 16);
+  return degrees + minutes / 60 + seconds / 3600;
+}
+
+function parseTiff(tiff: Uint8Array): ExifFields {
+  const reader = new TiffReader(tiff);
+  const fields: ExifFields = {};
+  const ifd0 = reader.readIfd(reader.uint32(4));
+
+  const orientation = ifd0.get(TAG_ORIENTATION);
+  if (orientation && orientation.type === 3) {
+    fields.orientation = reader.uint16(orientation.valueOffset);
+  }
+
+  const dateTime = ifd0.get(TAG_DATE_TIME);
+  if (dateTime && dateTime.type === 2) {
+    fields.dateTime = reader.ascii(dateTime.valueOffset, dateTime.count);
+  }
+
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  if (exifPointer) {
+    const exifIfd = reader.readIfd(reader.uint32(exifPointer.valueOffset));
+    const original = exifIfd.get(TAG_DATE_TIME_ORIGINAL);
+    if (original && original.type === 2) {
+      fields.dateTimeOriginal = reader.ascii(original.valueOffset, original.count);
+    }
+    const offsetTime = exifIfd.get(TAG_OFFSET_TIME_ORIGINAL);
+    if (offsetTime && offsetTime.type === 2) {
+      fields.offsetTimeOriginal = reader.ascii(offsetTime.valueOffset, offsetTime.count);
+    }
+  }
+
+  const gpsPointer = ifd0.get(TAG_GPS_IFD);
+  if (gpsPointer) {
+    const gpsIfd = reader.readIfd(reader.uint32(gpsPointer.valueOffset));
+    const latitude = readGpsCoordinate(reader, gpsIfd.get(TAG_GPS_LATITUDE));
+    const longitude = readGpsCoordinate(reader, gpsIfd.get(TAG_GPS_LONGITUDE));
+    const latitudeRef = gpsIfd.get(TAG_GPS_LATITUDE_REF);
+    const longitudeRef = gpsIfd.get(TAG_GPS_LONGITUDE_REF);
+
+    if (latitude !== undefined && longitude !== undefined) {
+      const south = latitudeRef && reader.ascii(latitudeRef.valueOffset, latitudeRef.count) === 'S';
+      const west = longitudeRef && reader.ascii(longitudeRef.valueOffset, longitudeRef.count) === 'W';
+      fields.latitude = south ? -latitude : latitude;
+      fields.longitude = west ? -longitude : longitude;
+    }
+  }
+
+  return fields;
+}
+
+// EXIF timestamps look like "2024:03:01 14:22:05"; convert to ISO 8601, appending the offset when known
+function toIsoTimestamp(value: string | undefined, offset: string | undefined): string | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  if (year === '0000') return null;
+
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+}
+
+function roundCoordinate(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+// Extract claim-relevant metadata; returns null when the image carries no readable EXIF
+export function extractPhotoMetadata(buffer: Uint8Array, mimeType: string, config: AppConfig): PhotoMetadata | null {
+  let tiff: Uint8Array | null = null;
+  if (mimeType === 'image/jpeg') {
+    tiff = findJPEGExif(buffer);
+  } else if (mimeType === 'image/webp') {
+    tiff = findWebPExif(buffer);
+  }
+  if (!tiff) return null;
+
+  let fields: ExifFields;
+  try {
+    fields = parseTiff(tiff);
+  } catch {
+    return null;
+  }
+
+  const orientation = fields.orientation && fields.orientation >= 1 && fields.orientation <= 8 ? fields.orientation : null;
+  const hasLocation = fields.latitude !== undefined && fields.longitude !== undefined &&
+    Math.abs(fields.latitude) <= 90 && Math.abs(fields.longitude) <= 180;
+
+  return {
+    taken_at: toIsoTimestamp(fields.dateTimeOriginal, fields.offsetTimeOriginal) ?? toIsoTimestamp(fields.dateTime, undefined),
+    orientation,
+    location: hasLocation && config.security.expose_photo_location
+      ? {
+          latitude: roundCoordinate(fields.latitude!, config.security.location_precision_digits),
+          longitude: roundCoordinate(fields.longitude!, config.security.location_precision_digits)
+        }
+      : null
+  };
+}
+
+// JPEG segments that carry metadata rather than image data: APP1 (EXIF/XMP), APP13 (IPTC) and comments
+function isJPEGMetadataSegment(marker: number): boolean {
+  return marker === 0xE1 || marker === 0xED || marker === 0xFE;
+}
+
+function stripJPEGMetadata(buffer: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [buffer.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xFF) {
+    const marker = buffer[offset + 1];
+    // Entropy-coded data follows SOS; copy the remainder untouched
+    if (marker === 0xDA || marker === 0xD9) break;
+
+    const length = (buffer[offset + 2] << 8) | buffer[offset + 3];
+    if (length < 2 || offset + 2 + length > buffer.length) break;
+
+    if (!isJPEGMetadataSegment(marker)) {
+      parts.push(buffer.subarray(offset, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  parts.push(buffer.subarray(offset));
+
+  return concat(parts);
+}
+
+// VP8X flag bits advertising EXIF and XMP chunks
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_XMP_FLAG = 0x04;
+
+function stripWebPMetadata(buffer: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const type = fourCC(buffer, offset);
+    const size = readUint32LE(buffer, offset + 4);
+    const end = Math.min(buffer.length, offset + 8 + size + (size % 2));
+
+    if (type !== 'EXIF' && type !== 'XMP ') {
+      const chunk = buffer.slice(offset, end);
+      if (type === 'VP8X' && chunk.length > 8) {
+        chunk[8] &= ~(VP8X_EXIF_FLAG | VP8X_XMP_FLAG);
+      }
+      parts.push(chunk);
+    }
+    offset = end;
+  }
+
+  const body = concat(parts);
+  const result = new Uint8Array(12 + body.length);
+  result.set(buffer.subarray(0, 12), 0);
+  result.set(body, 12);
+  new DataView(result.buffer).setUint32(4, result.length - 8, true);
+  return result;
+}
+
+// PNG ancillary chunks that can carry EXIF, text or timestamps
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+function stripPNGMetadata(buffer: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [buffer.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= buffer.length) {
+    const length = ((buffer[offset] << 24) | (buffer[offset + 1] << 16) | (buffer[offset + 2] << 8) | buffer[offset + 3]) >>> 0;
+    const end = offset + 12 + length;
+    if (end > buffer.length) break;
+
+    if (!PNG_METADATA_CHUNKS.has(fourCC(buffer, offset + 4))) {
+      parts.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+  parts.push(buffer.subarray(offset));
+
+  return concat(parts);
+}
+
+// Remove embedded metadata while leaving the image data untouched
+export function stripImageMetadata(buffer: Uint8Array, mimeType: string): Uint8Array {
+  try {
+    if (mimeType === 'image/jpeg') return stripJPEGMetadata(buffer);
+    if (mimeType === 'image/webp') return stripWebPMetadata(buffer);
+    if (mimeType === 'image/png') return stripPNGMetadata(buffer);
+  } catch {
+    // Fall through and keep the original bytes if the container can't be walked
+  }
+  return buffer;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,220 @@
+/**
+ * Structured assessment findings
+ * Asks the language model for a typed JSON summary, validates it and repairs or re-prompts when malformed
+ */
+
+import { promptMessages, renderPrompt, type PromptParams, type PromptVersions, type RenderedPrompt } from "./prompts";
+
+export const DAMAGE_TYPES = ['water', 'fire', 'smoke', 'mold', 'structural', 'storm', 'other'] as const;
+export const SEVERITY_LEVELS = ['none', 'minor', 'moderate', 'severe'] as const;
+export const MATERIAL_ACTIONS = ['dry_in_place', 'clean', 'remove', 'inspect'] as const;
+
+export type DamageType = typeof DAMAGE_TYPES[number];
+export type SeverityLevel = typeof SEVERITY_LEVELS[number];
+export type MaterialAction = typeof MATERIAL_ACTIONS[number];
+
+export interface AffectedMaterial {
+  name: string;
+  action: MaterialAction;
+}
+
+export interface AssessmentFindings {
+  damage_present: boolean;
+  damage_types: DamageType[];
+  severity: SeverityLevel;
+  // IICRC S500 class of water loss (1-4) and category of water (1-3); null when not water damage
+  water_class: 1 | 2 | 3 | 4 | null;
+  water_category: 1 | 2 | 3 | null;
+  materials: AffectedMaterial[];
+  hazards: string[];
+  next_steps: string[];
+}
+
+export interface FindingsValidation {
+  findings: AssessmentFindings | null;
+  errors: string[];
+}
+
+type ChatMessage = { role: string; content: string };
+
+// Lists are capped so a runaway model response can't bloat stored results
+const MAX_LIST_ITEMS = 20;
+const MAX_ITEM_LENGTH = 300;
+
+const FINDINGS_SCHEMA_DESCRIPTION = `{
+  "damage_present": boolean,
+  "damage_types": array of ${DAMAGE_TYPES.map(type => `"${type}"`).join(' | ')},
+  "severity": ${SEVERITY_LEVELS.map(level => `"${level}"`).join(' | ')},
+  "water_class": 1 | 2 | 3 | 4 | null (IICRC S500 class of water loss, null if no water damage),
+  "water_category": 1 | 2 | 3 | null (IICRC S500 category of water, null if no water damage),
+  "materials": array of { "name": string, "action": ${MATERIAL_ACTIONS.map(action => `"${action}"`).join(' | ')} },
+  "hazards": array of strings (safety issues),
+  "next_steps": array of strings (ordered remediation steps)
+}`;
+
+export function buildFindingsPrompt(visionAnalysis: string, industryGuidelines: string, pinned: PromptVersions = {}): RenderedPrompt {
+  return renderPrompt('findings', {
+    vision_analysis: visionAnalysis,
+    industry_guidelines: industryGuidelines,
+    schema: FINDINGS_SCHEMA_DESCRIPTION
+  }, pinned);
+}
+
+// Pull the JSON object out of a model response, tolerating code fences, surrounding prose and trailing commas
+export function extractJsonObject(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('Response does not contain a JSON object');
+  }
+
+  const candidate = unfenced.slice(start, end + 1);
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // Common model mistakes: trailing commas and smart quotes
+    const repaired = candidate
+      .replace(/,\s*([}\]])/g, '$1')
+      .replace(/[“”]/g, '"');
+    return JSON.parse(repaired);
+  }
+}
+
+function normalizeEnum<T extends string>(value: unknown, allowed: readonly T[]): T | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_') as T;
+  return allowed.includes(normalized) ? normalized : null;
+}
+
+// Accepts 2, "2", "Class 2" or "Category 2"
+function normalizeLevel(value: unknown, max: number): number | null {
+  if (value === null || value === undefined) return null;
+  const match = String(value).match(/\d+/);
+  if (!match) return null;
+  const level = parseInt(match[0]);
+  return level >= 1 && level <= max ? level : null;
+}
+
+function normalizeStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map(item => item.trim().slice(0, MAX_ITEM_LENGTH))
+    .slice(0, MAX_LIST_ITEMS);
+}
+
+// Validate raw model output against the findings schema, repairing what can be safely coerced
+export function validateFindings(raw: unknown): FindingsValidation {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { findings: null, errors: ['Findings must be a JSON object'] };
+  }
+  const input = raw as Record<string, any>;
+
+  if (!Array.isArray(input.damage_types)) {
+    errors.push('damage_types must be an array');
+  }
+  const damageTypes = Array.isArray(input.damage_types)
+    ? Array.from(new Set(input.damage_types
+        .map((type: unknown) => normalizeEnum(type, DAMAGE_TYPES))
+        .filter((type: DamageType | null): type is DamageType => type !== null)))
+    : [];
+
+  const severity = normalizeEnum(input.severity, SEVERITY_LEVELS);
+  if (!severity) {
+    errors.push(`severity must be one of ${SEVERITY_LEVELS.join(', ')}`);
+  }
+
+  const waterClass = normalizeLevel(input.water_class, 4);
+  if (input.water_class !== null && input.water_class !== undefined && waterClass === null) {
+    errors.push('water_class must be 1-4 or null');
+  }
+
+  const waterCategory = normalizeLevel(input.water_category, 3);
+  if (input.water_category !== null && input.water_category !== undefined && waterCategory === null) {
+    errors.push('water_category must be 1-3 or null');
+  }
+
+  const materials: AffectedMaterial[] = [];
+  if (input.materials !== undefined && !Array.isArray(input.materials)) {
+    errors.push('materials must be an array');
+  }
+  for (const material of Array.isArray(input.materials) ? input.materials.slice(0, MAX_LIST_ITEMS) : []) {
+    // Bare strings are accepted as materials that still need inspection
+    if (typeof material === 'string' && material.trim()) {
+      materials.push({ name: material.trim().slice(0, MAX_ITEM_LENGTH), action: 'inspect' });
+    } else if (material && typeof material.name === 'string' && material.name.trim()) {
+      materials.push({
+        name: material.name.trim().slice(0, MAX_ITEM_LENGTH),
+        action: normalizeEnum(material.action, MATERIAL_ACTIONS) ?? 'inspect'
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { findings: null, errors };
+  }
+
+  const damagePresent = typeof input.damage_present === 'boolean'
+    ? input.damage_present
+    : damageTypes.length > 0 && severity !== 'none';
+  const hasWaterDamage = damageTypes.includes('water');
+
+  return {
+    findings: {
+      damage_present: damagePresent,
+      damage_types: damageTypes,
+      severity: severity!,
+      water_class: hasWaterDamage ? waterClass as AssessmentFindings['water_class'] : null,
+      water_category: hasWaterDamage ? waterCategory as AssessmentFindings['water_category'] : null,
+      materials,
+      hazards: normalizeStringList(input.hazards),
+      next_steps: normalizeStringList(input.next_steps)
+    },
+    errors: []
+  };
+}
+
+export function parseFindings(text: string): FindingsValidation {
+  let raw: unknown;
+  try {
+    raw = extractJsonObject(text);
+  } catch (error) {
+    return { findings: null, errors: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+  return validateFindings(raw);
+}
+
+// Ask for findings, re-prompting with the validation errors until the response is valid or attempts run out
+export async function generateFindings(
+  runModel: (messages: ChatMessage[], params: PromptParams) => Promise<string>,
+  visionAnalysis: string,
+  industryGuidelines: string,
+  maxAttempts: number,
+  pinned: PromptVersions = {}
+): Promise<{ findings: AssessmentFindings | null; attempts: number; errors: string[] }> {
+  const prompt = buildFindingsPrompt(visionAnalysis, industryGuidelines, pinned);
+  const messages = promptMessages(prompt);
+  let params = prompt.params;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await runModel(messages, params);
+    const result = parseFindings(response);
+    if (result.findings) {
+      return { findings: result.findings, attempts: attempt, errors: [] };
+    }
+
+    errors = result.errors;
+    const repair = renderPrompt('findings-repair', { errors }, pinned);
+    messages.push(
+      { role: "assistant", content: response },
+      { role: "user", content: repair.user }
+    );
+    params = repair.params;
+  }
+
+  return { findings: null, attempts: maxAttempts, errors };
+}
@@ -0,0 +1,65 @@
+/**
+ * Image hashing
+ * SHA-256 content hashes for exact cache keys, and perceptual hashes (computed with the Images binding) for
+ * near-duplicates
+ */
+
+import { loadConfig } from "./config";
+import { createLogger } from "./logger";
+
+export async function sha256Hex(buffer: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Build a 64-bit dHash from 9x8 grayscale pixels: each bit records whether a pixel is brighter than its right neighbour
+export function differenceHash(grayscale: ArrayLike<number>): string {
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) {
+      byte = (byte << 1) | (grayscale[y * 9 + x] > grayscale[y * 9 + x + 1] ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+// Squeeze the image to 9x8 raw RGB with the Images binding and hash it. Returns null without the binding or when
+// the image can't be decoded, which only turns near-duplicate matching off for that upload
+export async function computePerceptualHash(images: ImagesBinding | undefined, buffer: Uint8Array): Promise<string | null> {
+  if (!images) return null;
+
+  try {
+    const output = await images
+      .input(new Response(buffer).body!)
+      .transform({ width: 9, height: 8, fit: 'squeeze' })
+      .output({ format: 'rgb' });
+    const pixels = new Uint8Array(await new Response(output.image()).arrayBuffer());
+    if (pixels.length < 72 * 3) return null;
+
+    const grayscale = new Array<number>(72);
+    for (let i = 0; i < 72; i++) {
+      // ITU-R BT.601 luma
+      grayscale[i] = 0.299 * pixels[i * 3] + 0.587 * pixels[i * 3 + 1] + 0.114 * pixels[i * 3 + 2];
+    }
+    return differenceHash(grayscale);
+  } catch (error) {
+    // Created here rather than at module load: config imports this module through the AI fixtures
+    createLogger(loadConfig()).warn('Perceptual hash unavailable', { error: (error as Error).message });
+    return null;
+  }
+}
+
+// Number of differing bits between two perceptual hashes
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let diff = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (diff) {
+      diff &= diff - 1;
+      distance++;
+    }
+  }
+  return distance;
+}
@@ -0,0 +1,380 @@
+/**
+ * Image security validation
+ * Decodes uploaded images and runs the signature, structure and sanitization checks
+ */
+
+import { type AppConfig } from "./config";
+import { extractPhotoMetadata, stripImageMetadata, type PhotoMetadata } from "./exif";
+
+// Image security validation utilities
+export const IMAGE_MAGIC_BYTES = {
+  jpeg: [0xFF, 0xD8, 0xFF],
+  png: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A],
+  webp: [0x52, 0x49, 0x46, 0x46], // RIFF header for WebP
+  gif: [0x47, 0x49, 0x46, 0x38], // GIF8 header
+};
+
+export interface ImageValidationFailure {
+  valid: false;
+  status: 400 | 413;
+  error: string;
+  details: string;
+}
+
+export interface ValidatedImage {
+  valid: true;
+  buffer: Uint8Array;
+  mimeType: string;
+  originalSize: number;
+  metadata: PhotoMetadata | null;
+}
+
+export interface DecodedImage {
+  valid: true;
+  buffer: Uint8Array;
+  declaredMimeType: string;
+}
+
+function failure(status: 400 | 413, error: string, details: string): ImageValidationFailure {
+  return { valid: false, status, error, details };
+}
+
+export function validateImageSignature(buffer: Uint8Array): { valid: boolean; detectedType: string | null; error?: string } {
+  if (buffer.length < 8) {
+    return { valid: false, detectedType: null, error: 'Image data too small to validate' };
+  }
+
+  // Check JPEG signature
+  if (buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) {
+    return { valid: true, detectedType: 'image/jpeg' };
+  }
+
+  // Check PNG signature
+  if (buffer.length >= 8 &&
+      buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47 &&
+      buffer[4] === 0x0D && buffer[5] === 0x0A && buffer[6] === 0x1A && buffer[7] === 0x0A) {
+    return { valid: true, detectedType: 'image/png' };
+  }
+
+  // Check WebP signature (RIFF + WebP)
+  if (buffer.length >= 12 &&
+      buffer[0] === 0x52 && buffer[1] === 0x49 && buffer[2] === 0x46 && buffer[3] === 0x46 &&
+      buffer[8] === 0x57 && buffer[9] === 0x45 && buffer[10] === 0x42 && buffer[11] === 0x50) {
+    return { valid: true, detectedType: 'image/webp' };
+  }
+
+  return { valid: false, detectedType: null, error: 'Unsupported or invalid image format' };
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+type StructureValidation = { valid: boolean; error?: string; dimensions?: ImageDimensions };
+
+export function validateImageStructure(buffer: Uint8Array, mimeType: string): StructureValidation {
+  try {
+    if (mimeType === 'image/jpeg') {
+      return validateJPEGStructure(buffer);
+    } else if (mimeType === 'image/png') {
+      return validatePNGStructure(buffer);
+    } else if (mimeType === 'image/webp') {
+      return validateWebPStructure(buffer);
+    }
+    return { valid: false, error: 'Unsupported image type for structure validation' };
+  } catch (error) {
+    return { valid: false, error: 'Image structure validation failed' };
+  }
+}
+
+// Enforce configured dimension bounds; the pixel limit guards against decompression bombs
+export function validateImageDimensions(dimensions: ImageDimensions, config: AppConfig): ImageValidationFailure | null {
+  const { width, height } = dimensions;
+  const { max_dimensions: max, min_dimensions: min, max_pixels: maxPixels } = config.image;
+
+  if (width === 0 || height === 0) {
+    return failure(400, "Invalid image dimensions", `Image reports zero-sized dimensions: ${width}x${height}`);
+  }
+  if (width > max.width) {
+    return failure(400, "Image width too large", `Image width ${width}px exceeds the maximum of ${max.width}px`);
+  }
+  if (height > max.height) {
+    return failure(400, "Image height too large", `Image height ${height}px exceeds the maximum of ${max.height}px`);
+  }
+  if (width * height > maxPixels) {
+    return failure(400, "Image has too many pixels", `Image is ${width}x${height} (${width * height} pixels), exceeding the limit of ${maxPixels} pixels`);
+  }
+  if (width < min.width || height < min.height) {
+    return failure(400, "Image too small", `Image dimensions ${width}x${height} are below the minimum of ${min.width}x${min.height}`);
+  }
+
+  return null;
+}
+
+// JPEG markers that carry no length field
+function isStandaloneJPEGMarker(marker: number): boolean {
+  return marker === 0x01 || marker === 0xD8 || (marker >= 0xD0 && marker <= 0xD7);
+}
+
+// SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC) which share the range
+function isJPEGFrameMarker(marker: number): boolean {
+  return marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC;
+}
+
+function validateJPEGStructure(buffer: Uint8Array): StructureValidation {
+  if (buffer.length < 4) return { valid: false, error: 'JPEG too small' };
+
+  // Start of Image marker (SOI)
+  if (buffer[0] !== 0xFF || buffer[1] !== 0xD8) {
+    return { valid: false, error: 'Invalid JPEG start marker' };
+  }
+
+  // Look for End of Image marker (EOI) in last few bytes
+  const endIndex = buffer.length - 2;
+  if (endIndex >= 0 && (buffer[endIndex] !== 0xFF || buffer[endIndex + 1] !== 0xD9)) {
+    // EOI might not be at the very end due to metadata, so check last 100 bytes
+    let foundEOI = false;
+    for (let i = Math.max(0, buffer.length - 100); i < buffer.length - 1; i++) {
+      if (buffer[i] === 0xFF && buffer[i + 1] === 0xD9) {
+        foundEOI = true;
+        break;
+      }
+    }
+    if (!foundEOI) {
+      return { valid: false, error: 'JPEG missing end marker' };
+    }
+  }
+
+  // Walk the marker segments until the frame header (SOFn) that holds the dimensions
+  let offset = 2;
+  while (offset < buffer.length) {
+    if (buffer[offset] !== 0xFF) {
+      return { valid: false, error: `JPEG marker expected at offset ${offset}` };
+    }
+    // Skip fill bytes
+    while (offset < buffer.length && buffer[offset] === 0xFF) offset++;
+    if (offset >= buffer.length) break;
+
+    const marker = buffer[offset++];
+    if (isStandaloneJPEGMarker(marker)) continue;
+    if (marker === 0xD9 || marker === 0xDA) {
+      return { valid: false, error: 'JPEG missing frame header (SOF marker)' };
+    }
+
+    if (offset + 2 > buffer.length) break;
+    const segmentLength = (buffer[offset] << 8) | buffer[offset + 1];
+    if (segmentLength < 2 || offset + segmentLength > buffer.length) {
+      return { valid: false, error: `JPEG segment length invalid at offset ${offset}` };
+    }
+
+    if (isJPEGFrameMarker(marker)) {
+      if (segmentLength < 7) {
+        return { valid: false, error: 'JPEG frame header truncated' };
+      }
+      // Segment: length(2) precision(1) height(2) width(2)
+      const height = (buffer[offset + 3] << 8) | buffer[offset + 4];
+      const width = (buffer[offset + 5] << 8) | buffer[offset + 6];
+      return { valid: true, dimensions: { width, height } };
+    }
+
+    offset += segmentLength;
+  }
+
+  return { valid: false, error: 'JPEG missing frame header (SOF marker)' };
+}
+
+function validatePNGStructure(buffer: Uint8Array): StructureValidation {
+  if (buffer.length < 33) return { valid: false, error: 'PNG too small' };
+
+  // PNG signature already validated, check for IHDR chunk
+  if (buffer[12] !== 0x49 || buffer[13] !== 0x48 || buffer[14] !== 0x44 || buffer[15] !== 0x52) {
+    return { valid: false, error: 'PNG missing IHDR chunk' };
+  }
+
+  // Dimensions from IHDR (big-endian, read unsigned)
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  return { valid: true, dimensions: { width: view.getUint32(16), height: view.getUint32(20) } };
+}
+
+function validateWebPStructure(buffer: Uint8Array): StructureValidation {
+  if (buffer.length < 20) return { valid: false, error: 'WebP too small' };
+
+  // WebP signature already validated, check file size consistency
+  const fileSize = (buffer[4]) | (buffer[5] << 8) | (buffer[6] << 16) | (buffer[7] << 24);
+  if (fileSize + 8 !== buffer.length) {
+    return { valid: false, error: 'WebP file size mismatch' };
+  }
+
+  // The first chunk after the WEBP header determines the bitstream format
+  const chunkType = String.fromCharCode(buffer[12], buffer[13], buffer[14], buffer[15]);
+  const data = 20;
+
+  if (chunkType === 'VP8 ') {
+    // Lossy: 3-byte frame tag, start code 9D 01 2A, then 14-bit width and height
+    if (buffer.length < data + 10) return { valid: false, error: 'WebP VP8 frame header truncated' };
+    if (buffer[data + 3] !== 0x9D || buffer[data + 4] !== 0x01 || buffer[data + 5] !== 0x2A) {
+      return { valid: false, error: 'WebP VP8 start code invalid' };
+    }
+    const width = ((buffer[data + 7] << 8) | buffer[data + 6]) & 0x3FFF;
+    const height = ((buffer[data + 9] << 8) | buffer[data + 8]) & 0x3FFF;
+    return { valid: true, dimensions: { width, height } };
+  }
+
+  if (chunkType === 'VP8L') {
+    // Lossless: signature byte 2F, then 14-bit width-1 and height-1 packed little-endian
+    if (buffer.length < data + 5) return { valid: false, error: 'WebP VP8L header truncated' };
+    if (buffer[data] !== 0x2F) {
+      return { valid: false, error: 'WebP VP8L signature invalid' };
+    }
+    const bits = buffer[data + 1] | (buffer[data + 2] << 8) | (buffer[data + 3] << 16) | (buffer[data + 4] << 24);
+    const width = (bits & 0x3FFF) + 1;
+    const height = ((bits >>> 14) & 0x3FFF) + 1;
+    return { valid: true, dimensions: { width, height } };
+  }
+
+  if (chunkType === 'VP8X') {
+    // Extended: flags(1) reserved(3), then 24-bit canvas width-1 and height-1
+    if (buffer.length < data + 10) return { valid: false, error: 'WebP VP8X header truncated' };
+    const width = (buffer[data + 4] | (buffer[data + 5] << 8) | (buffer[data + 6] << 16)) + 1;
+    const height = (buffer[data + 7] | (buffer[data + 8] << 8) | (buffer[data + 9] << 16)) + 1;
+    return { valid: true, dimensions: { width, height } };
+  }
+
+  return { valid: false, error: `WebP missing VP8/VP8L/VP8X chunk (found '${chunkType.trim()}')` };
+}
+
+export function sanitizeImageBuffer(buffer: Uint8Array): Uint8Array {
+  // Create a copy to avoid modifying original
+  const sanitized = new Uint8Array(buffer);
+
+  // Remove any potential null bytes at the end (common in malformed files)
+  let actualLength = sanitized.length;
+  while (actualLength > 0 && sanitized[actualLength - 1] === 0) {
+    actualLength--;
+  }
+
+  return sanitized.slice(0, actualLength);
+}
+
+// Decode a base64 data URI into raw bytes, enforcing type and size limits before decoding
+export function decodeImageDataUri(image: unknown, config: AppConfig): DecodedImage | ImageValidationFailure {
+  if (!image || typeof image !== 'string') {
+    return failure(400, "Missing or invalid image field", "Image field is required and must be a string");
+  }
+
+  // Validate data URI format and extract MIME type
+  if (!image.startsWith('data:image/')) {
+    return failure(400, "Invalid image format", "Image must be a valid data URI starting with 'data:image/'");
+  }
+
+  // Extract and validate MIME type from data URI
+  const mimeTypeMatch = image.match(/^data:(image\/[^;]+);base64,/);
+  if (!mimeTypeMatch) {
+    return failure(400, "Invalid data URI format", "Data URI must specify MIME type and base64 encoding");
+  }
+
+  const declaredMimeType = mimeTypeMatch[1];
+  if (!config.image.allowed_types.includes(declaredMimeType)) {
+    return failure(400, "Unsupported image type", `Only JPEG, PNG, and WebP images are supported. Received: ${declaredMimeType}`);
+  }
+
+  // Early size validation (before expensive base64 decoding)
+  // Estimate decoded size: base64 is ~1.33x larger than binary data
+  const estimatedDecodedSize = Math.floor(image.length * 0.75);
+
+  if (image.length > config.api.limits.max_file_size) {
+    return failure(413, "Image too large", `Image size ${Math.round(image.length / (1024 * 1024) * 100) / 100}MB exceeds limit of ${Math.round(config.api.limits.max_file_size / (1024 * 1024))}MB. Please compress your image and try again.`);
+  }
+
+  if (estimatedDecodedSize > config.api.limits.max_decoded_size) {
+    return failure(413, "Image too large when decoded", `Estimated decoded size ${Math.round(estimatedDecodedSize / (1024 * 1024) * 100) / 100}MB exceeds limit of ${Math.round(config.api.limits.max_decoded_size / (1024 * 1024))}MB. Please use a smaller image.`);
+  }
+
+  // Validate and extract base64 data
+  const base64Data = image.split(',')[1];
+  if (!base64Data) {
+    return failure(400, "Invalid data URI format", "Data URI must contain base64 data after comma");
+  }
+
+  // CPU-intensive base64 decoding
+  try {
+    const buffer = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
+    return { valid: true, buffer, declaredMimeType };
+  } catch (error) {
+    // Check if this might be a CPU limit error
+    if ((error as Error).message?.includes('exceeded') ||
+        (error as Error).message?.includes('timeout') ||
+        (error as Error).message?.includes('limit')) {
+      return failure(413, "Image too large to process", "The image is too large and caused a processing timeout. Please use a smaller image (under 2MB recommended).");
+    }
+
+    return failure(400, "Invalid base64 data", "Unable to decode base64 image data");
+  }
+}
+
+// Check the declared type and size of a binary upload before its bytes are read
+export function checkBinaryUpload(mimeType: string, size: number | null, config: AppConfig): ImageValidationFailure | null {
+  if (!config.image.allowed_types.includes(mimeType)) {
+    return failure(400, "Unsupported image type", `Only JPEG, PNG, and WebP images are supported. Received: ${mimeType || 'unknown'}`);
+  }
+
+  if (size === 0) {
+    return failure(400, "Missing or invalid image field", "Uploaded image is empty");
+  }
+
+  // Binary uploads carry no base64 overhead, so they are held to the decoded size limit
+  if (size !== null && size > config.api.limits.max_decoded_size) {
+    return failure(413, "Image too large", `Image size ${Math.round(size / (1024 * 1024) * 100) / 100}MB exceeds limit of ${Math.round(config.api.limits.max_decoded_size / (1024 * 1024))}MB. Please compress your image and try again.`);
+  }
+
+  return null;
+}
+
+// Run the full security validation chain on decoded bytes and return a sanitized copy
+export function validateImageBuffer(buffer: Uint8Array, declaredMimeType: string, config: AppConfig): ValidatedImage | ImageValidationFailure {
+  // Validate decoded image size (prevent memory issues)
+  if (buffer.length > config.api.limits.max_decoded_size) {
+    return failure(413, "Decoded image too large", `Decoded image size ${buffer.length} bytes exceeds limit of ${Math.round(config.api.limits.max_decoded_size / (1024 * 1024))}MB`);
+  }
+
+  // Security validation: Verify image file signature matches declared MIME type
+  const signatureValidation = validateImageSignature(buffer);
+  if (!signatureValidation.valid) {
+    return failure(400, "Invalid image file", signatureValidation.error || "Image file signature validation failed");
+  }
+
+  // Verify declared MIME type matches actual image type
+  if (signatureValidation.detectedType !== declaredMimeType) {
+    return failure(400, "Image type mismatch", `Declared type ${declaredMimeType} does not match actual type ${signatureValidation.detectedType}`);
+  }
+
+  // Validate internal image structure
+  const structureValidation = validateImageStructure(buffer, declaredMimeType);
+  if (!structureValidation.valid || !structureValidation.dimensions) {
+    return failure(400, "Corrupted image file", structureValidation.error || "Image structure validation failed");
+  }
+
+  // Reject dimensions outside the configured bounds before the image reaches the vision model
+  const dimensionError = validateImageDimensions(structureValidation.dimensions, config);
+  if (dimensionError) {
+    return dimensionError;
+  }
+
+  // Read claim-relevant EXIF fields before the metadata is stripped
+  const metadata = config.security.extract_photo_metadata
+    ? extractPhotoMetadata(buffer, declaredMimeType, config)
+    : null;
+  const stripped = config.security.strip_image_metadata
+    ? stripImageMetadata(buffer, declaredMimeType)
+    : buffer;
+
+  // Sanitize image buffer to remove potential malicious data
+  return {
+    valid: true,
+    buffer: sanitizeImageBuffer(stripped),
+    mimeType: declaredMimeType,
+    originalSize: buffer.length,
+    metadata
+  };
+}
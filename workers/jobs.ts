@@ -0,0 +1,156 @@
+/**
+ * Asynchronous assessment jobs
+ * Each job runs the assessment pipeline in its own Durable Object, so it outlives the request that submitted it.
+ * Clients poll the job for its stage and result, and may cancel it between stages
+ */
+
+import { type AppConfig } from "./config";
+import { type AssessmentProgressEvent, type AssessmentStage } from "./assessment";
+import { type ValidatedImage } from "./image-validation";
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'canceled';
+
+export interface JobError {
+  status: number;
+  error: string;
+  details: string;
+  // Seconds until the failing AI service may be tried again
+  retry_after?: number;
+}
+
+export interface AssessmentJob {
+  id: string;
+  status: JobStatus;
+  stage: AssessmentStage | null;
+  progress: number;
+  label: string;
+  // Results of completed stages, as sent by the streaming endpoint
+  partial: Record<string, any>;
+  result: any | null;
+  error: JobError | null;
+  case_id: string | null;
+  // Who submitted the job (see recordOwner) and in which organization; only they can poll or cancel it
+  owner_id: string | null;
+  org_id: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+  // Set when the job finishes; the job is deleted after this time
+  expires_at: string | null;
+}
+
+// Everything the runner needs, captured when the job is submitted
+export interface AssessmentJobInput {
+  image: ValidatedImage;
+  // Request configuration, including the organization's overrides
+  config: AppConfig;
+  org_id: string | null;
+  case_id?: string;
+  // Owner of the stored assessment, see recordOwner
+  owner_id?: string | null;
+  user_id?: string;
+  // X-Mock-Scenario of the submitting request
+  mock_scenario?: string;
+}
+
+export type JobOutcome = { result: any } | { error: JobError } | 'canceled';
+
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Durable Object storage values are capped at 2MB, so images are stored in chunks below that
+export const IMAGE_CHUNK_SIZE = 1024 * 1024;
+
+export function isValidJobId(id: string): boolean {
+  return JOB_ID_PATTERN.test(id);
+}
+
+export function isJobFinished(job: AssessmentJob): boolean {
+  return job.status === 'succeeded' || job.status === 'failed' || job.status === 'canceled';
+}
+
+export function newAssessmentJob(id: string, submission: Pick<AssessmentJobInput, 'case_id' | 'owner_id' | 'org_id'> = { org_id: null }): AssessmentJob {
+  const now = new Date().toISOString();
+  return {
+    id,
+    status: 'queued',
+    stage: null,
+    progress: 0,
+    label: 'Waiting to start...',
+    partial: {},
+    result: null,
+    error: null,
+    case_id: submission.case_id ?? null,
+    owner_id: submission.owner_id ?? null,
+    org_id: submission.org_id,
+    attempts: 0,
+    created_at: now,
+    updated_at: now,
+    expires_at: null
+  };
+}
+
+export function applyJobProgress(job: AssessmentJob, event: AssessmentProgressEvent): AssessmentJob {
+  return {
+    ...job,
+    stage: event.stage,
+    progress: event.progress,
+    label: event.label,
+    partial: event.partial ? { ...job.partial, ...event.partial } : job.partial,
+    updated_at: new Date().toISOString()
+  };
+}
+
+export function finishJob(job: AssessmentJob, outcome: JobOutcome, resultTtlMs: number): AssessmentJob {
+  const now = Date.now();
+  const finished: AssessmentJob = {
+    ...job,
+    updated_at: new Date(now).toISOString(),
+    expires_at: new Date(now + resultTtlMs).toISOString()
+  };
+
+  if (outcome === 'canceled') {
+    return { ...finished, status: 'canceled', label: 'Canceled' };
+  }
+  if ('result' in outcome) {
+    return { ...finished, status: 'succeeded', progress: 100, label: 'Assessment complete', result: outcome.result };
+  }
+  return { ...finished, status: 'failed', label: 'Assessment failed', error: outcome.error };
+}
+
+// Jobs aren't bound by the request timeout, so slow models get the longer job timeout
+export function jobAssessmentConfig(config: AppConfig): AppConfig {
+  return { ...config, ai: { ...config.ai, timeout_ms: Math.max(config.ai.timeout_ms, config.jobs.ai_timeout_ms) } };
+}
+
+export function splitImage(buffer: Uint8Array, chunkSize: number = IMAGE_CHUNK_SIZE): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < buffer.length; offset += chunkSize) {
+    chunks.push(buffer.slice(offset, offset + chunkSize));
+  }
+  return chunks;
+}
+
+export function joinImage(chunks: Uint8Array[]): Uint8Array {
+  const buffer = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return buffer;
+}
+
+// The runner's RPC methods as called from the Worker
+export interface AssessmentJobClient {
+  start(jobId: string, input: AssessmentJobInput): Promise<AssessmentJob>;
+  status(): Promise<AssessmentJob | null>;
+  cancel(): Promise<AssessmentJob | null>;
+}
+
+// The runner for a job, or null when the ASSESSMENT_JOBS binding is missing
+export function getJobRunner(env: any, jobId: string): AssessmentJobClient | null {
+  if (!env?.ASSESSMENT_JOBS) return null;
+  const namespace = env.ASSESSMENT_JOBS as DurableObjectNamespace;
+  // Typed by hand: the generated stub types recurse too deeply through the job's free-form result
+  return namespace.get(namespace.idFromName(jobId)) as unknown as AssessmentJobClient;
+}
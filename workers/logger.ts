@@ -0,0 +1,51 @@
+/**
+ * Logger honoring the configured level and structured logging setting
+ */
+
+import { type AppConfig } from "./config";
+
+export interface Logger {
+  error: (message: string, data?: any) => void;
+  info: (message: string, data?: any) => void;
+  warn: (message: string, data?: any) => void;
+  debug: (message: string, data?: any) => void;
+}
+
+export function createLogger(config: AppConfig): Logger {
+  return {
+    error: (message: string, data?: any) => {
+      if (config.logging.level === 'error' || config.logging.level === 'warn' || 
+          config.logging.level === 'info' || config.logging.level === 'debug') {
+        const logData = config.logging.enable_structured_logging ? 
+          { level: 'ERROR', message, data, timestamp: new Date().toISOString() } : 
+          `[${new Date().toISOString()}] ERROR: ${message}`;
+        console.error(logData, config.logging.enable_structured_logging ? undefined : data);
+      }
+    },
+    info: (message: string, data?: any) => {
+      if (config.logging.level === 'info' || config.logging.level === 'debug') {
+        const logData = config.logging.enable_structured_logging ? 
+          { level: 'INFO', message, data, timestamp: new Date().toISOString() } : 
+          `[${new Date().toISOString()}] INFO: ${message}`;
+        console.log(logData, config.logging.enable_structured_logging ? undefined : data);
+      }
+    },
+    warn: (message: string, data?: any) => {
+      if (config.logging.level === 'warn' || config.logging.level === 'info' || 
+          config.logging.level === 'debug') {
+        const logData = config.logging.enable_structured_logging ? 
+          { level: 'WARN', message, data, timestamp: new Date().toISOString() } : 
+          `[${new Date().toISOString()}] WARN: ${message}`;
+        console.warn(logData, config.logging.enable_structured_logging ? undefined : data);
+      }
+    },
+    debug: (message: string, data?: any) => {
+      if (config.logging.level === 'debug') {
+        const logData = config.logging.enable_structured_logging ? 
+          { level: 'DEBUG', message, data, timestamp: new Date().toISOString() } : 
+          `[${new Date().toISOString()}] DEBUG: ${message}`;
+        console.debug(logData, config.logging.enable_structured_logging ? undefined : data);
+      }
+    }
+  };
+}
@@ -0,0 +1,136 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import { loadConfig } from '../config';
+import { createApiKeyStore, type ApiKeyRecord, type ApiKeyScope } from '../api-keys';
+import { sha256Hex } from '../image-hash';
+import { getRateLimitStore } from './rate-limit';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    apiKey: ApiKeyRecord;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Resolve the X-API-Key header to a key record. Requests without a key pass through anonymously;
+// requireApiScope decides whether that is allowed
+export function apiKeyAuth(): MiddlewareHandler {
+  return async (c, next) => {
+    const key = c.req.header('X-API-Key');
+    if (!key) {
+      return next();
+    }
+
+    const store = createApiKeyStore(loadConfig(c.env), (c.env as any)?.API_KEYS);
+    if (!store.isEnabled()) {
+      return c.json({
+        success: false,
+        error: 'API key validation unavailable',
+        details: 'The API_KEYS binding is not configured'
+      }, 503);
+    }
+
+    const record = await store.verify(key);
+    if (!record) {
+      return c.json({
+        success: false,
+        error: 'Invalid API key',
+        details: 'The API key is unknown or has been revoked'
+      }, 401);
+    }
+
+    c.set('apiKey', record);
+    return next();
+  };
+}
+
+// Require a key with the given scope (when keys are mandatory or one was sent) and charge it against its daily quota;
+// reads of work already paid for, such as polling a job, pass chargeQuota: false
+export function requireApiScope(scope: ApiKeyScope, options: { chargeQuota?: boolean } = {}): MiddlewareHandler {
+  const { chargeQuota = true } = options;
+  return async (c, next) => {
+    const apiKey = c.get('apiKey');
+    if (!apiKey) {
+      if (loadConfig(c.env).security.require_api_key) {
+        return c.json({
+          success: false,
+          error: 'API key required',
+          details: 'Send your key in the X-API-Key header'
+        }, 401);
+      }
+      return next();
+    }
+
+    if (!apiKey.scopes.includes(scope)) {
+      return c.json({
+        success: false,
+        error: 'API key not authorized for this endpoint',
+        details: `Key ${apiKey.prefix}… lacks the ${scope} scope`
+      }, 403);
+    }
+    if (!chargeQuota) return next();
+
+    // The date in the counter key gives each UTC day a fresh fixed window
+    const day = new Date().toISOString().slice(0, 10);
+    let quota;
+    try {
+      quota = await getRateLimitStore(c.env).hit(`quota:${apiKey.id}:${day}`, apiKey.daily_quota, DAY_MS);
+    } catch (error) {
+      console.error('Quota store unavailable, allowing request:', error);
+      return next();
+    }
+
+    c.header('X-API-Quota-Limit', quota.limit.toString());
+    c.header('X-API-Quota-Remaining', quota.remaining.toString());
+    c.header('X-API-Quota-Reset', Math.ceil(quota.resetMs / 1000).toString());
+
+    if (!quota.allowed) {
+      return c.json({
+        success: false,
+        error: 'Daily API quota exceeded',
+        details: `Key ${apiKey.prefix}… is limited to ${apiKey.daily_quota} requests per day`,
+        code: 'API_KEY_QUOTA_EXCEEDED'
+      }, 429, { 'Retry-After': Math.ceil(quota.resetMs / 1000).toString() });
+    }
+
+    return next();
+  };
+}
+
+// Guard key administration with the ADMIN_API_TOKEN secret, sent as a bearer token
+export function requireAdminToken(): MiddlewareHandler {
+  return async (c, next) => {
+    const expected = (c.env as any)?.ADMIN_API_TOKEN;
+    if (!expected) {
+      return c.json({
+        success: false,
+        error: 'Administration unavailable',
+        details: 'ADMIN_API_TOKEN is not configured'
+      }, 503);
+    }
+
+    if (!(await isAdminRequest(c))) {
+      return c.json({ success: false, error: 'Unauthorized', details: 'Invalid admin token' }, 401);
+    }
+
+    return next();
+  };
+}
+
+// Whether the request carries the ADMIN_API_TOKEN bearer token; false when no token is configured
+export async function isAdminRequest(c: Context): Promise<boolean> {
+  const expected = (c.env as any)?.ADMIN_API_TOKEN;
+  const provided = c.req.header('Authorization')?.replace(/^Bearer\s+/i, '') || '';
+  return !!expected && !!provided && tokensMatch(provided, expected);
+}
+
+// Compare digests rather than the raw strings so timing doesn't leak how much of the token matched
+async function tokensMatch(provided: string, expected: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const [a, b] = await Promise.all([sha256Hex(encoder.encode(provided)), sha256Hex(encoder.encode(expected))]);
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
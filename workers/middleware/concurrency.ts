@@ -0,0 +1,156 @@
+import type { MiddlewareHandler } from 'hono';
+import type { AppConfig } from '../config';
+import type { PerformanceMonitor } from '../cache';
+
+interface ConcurrencyOptions {
+  maxConcurrent: number;
+  // Requests allowed to wait for a slot; further requests are rejected straight away
+  maxQueue: number;
+  maxWaitMs: number;
+}
+
+export type AcquireResult =
+  | { admitted: true; waitedMs: number; queueDepth: number; release: () => void }
+  | { admitted: false; reason: 'queue_full' | 'timeout'; retryAfterMs: number };
+
+export interface ConcurrencyStats {
+  active: number;
+  queued: number;
+  max_concurrent: number;
+  max_queue: number;
+  max_wait_ms: number;
+  admitted: number;
+  rejected: number;
+  timed_out: number;
+}
+
+interface Waiter {
+  grant: () => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Counts requests in flight in this isolate; requests over the limit wait in FIFO order for a free slot
+export class ConcurrencyLimiter {
+  private options: ConcurrencyOptions;
+  private active = 0;
+  private queue: Waiter[] = [];
+  private admitted = 0;
+  private rejected = 0;
+  private timedOut = 0;
+
+  constructor(options: ConcurrencyOptions) {
+    this.options = options;
+  }
+
+  async acquire(): Promise<AcquireResult> {
+    const queueDepth = this.queue.length;
+    const start = Date.now();
+
+    if (this.active < this.options.maxConcurrent && queueDepth === 0) {
+      this.active++;
+      this.admitted++;
+      return { admitted: true, waitedMs: 0, queueDepth, release: this.releaser() };
+    }
+
+    if (queueDepth >= this.options.maxQueue) {
+      this.rejected++;
+      return { admitted: false, reason: 'queue_full', retryAfterMs: this.options.maxWaitMs };
+    }
+
+    return new Promise<AcquireResult>((resolve) => {
+      const waiter: Waiter = {
+        grant: () => {
+          clearTimeout(waiter.timer);
+          this.active++;
+          this.admitted++;
+          resolve({ admitted: true, waitedMs: Date.now() - start, queueDepth, release: this.releaser() });
+        },
+        timer: setTimeout(() => {
+          this.queue = this.queue.filter(queued => queued !== waiter);
+          this.timedOut++;
+          resolve({ admitted: false, reason: 'timeout', retryAfterMs: this.options.maxWaitMs });
+        }, this.options.maxWaitMs)
+      };
+      this.queue.push(waiter);
+    });
+  }
+
+  stats(): ConcurrencyStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      max_concurrent: this.options.maxConcurrent,
+      max_queue: this.options.maxQueue,
+      max_wait_ms: this.options.maxWaitMs,
+      admitted: this.admitted,
+      rejected: this.rejected,
+      timed_out: this.timedOut
+    };
+  }
+
+  // Each slot is released once, handing it straight to the next waiter if there is one
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.queue.shift()?.grant();
+    };
+  }
+}
+
+export function createConcurrencyLimiter(config: AppConfig): ConcurrencyLimiter {
+  return new ConcurrencyLimiter({
+    maxConcurrent: config.performance.max_concurrent_requests,
+    maxQueue: config.performance.concurrency_queue_size,
+    maxWaitMs: config.performance.concurrency_max_wait_ms
+  });
+}
+
+// Error body for a request, or one image of a batch, turned away without a slot
+export function concurrencyRejection(slot: Extract<AcquireResult, { admitted: false }>) {
+  return {
+    success: false as const,
+    error: 'Service busy',
+    details: slot.reason === 'queue_full'
+      ? 'Too many requests are being processed. Please try again shortly.'
+      : 'Timed out waiting for a free processing slot. Please try again shortly.',
+    code: 'CONCURRENCY_LIMIT_EXCEEDED',
+    retry_after: Math.max(1, Math.ceil(slot.retryAfterMs / 1000))
+  };
+}
+
+// Hold a slot for the length of the request. Streamed responses keep it until the stream ends,
+// since their AI work runs after the handler has returned. The limiter is looked up per request
+// so it can be rebuilt once the deployed environment's config is known
+export function concurrencyLimit(getLimiter: () => ConcurrencyLimiter, monitor?: PerformanceMonitor): MiddlewareHandler {
+  return async (c, next) => {
+    const limiter = getLimiter();
+    const slot = await limiter.acquire();
+    monitor?.recordMetric('concurrency_queue_depth', slot.admitted ? slot.queueDepth : limiter.stats().queued);
+
+    if (!slot.admitted) {
+      const rejection = concurrencyRejection(slot);
+      return c.json(rejection, 503, { 'Retry-After': rejection.retry_after.toString() });
+    }
+
+    monitor?.recordMetric('concurrency_wait', slot.waitedMs);
+
+    let streaming = false;
+    try {
+      await next();
+
+      const body = c.res.body;
+      if (body && c.res.headers.get('Content-Type')?.startsWith('text/event-stream')) {
+        streaming = true;
+        const { readable, writable } = new TransformStream();
+        // pipeTo settles when the stream finishes or the client disconnects
+        body.pipeTo(writable).catch(() => {}).finally(slot.release);
+        c.res = new Response(readable, c.res);
+      }
+    } finally {
+      if (!streaming) slot.release();
+    }
+  };
+}
@@ -101,6 +101,6 @@ export const productionCors = cors({
 export const developmentCors = cors({
   origin: '*', // Allow all origins in development
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key', 'X-Mock-Scenario'],
   credentials: true
 });
\ No newline at end of file
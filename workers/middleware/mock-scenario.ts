@@ -0,0 +1,34 @@
+import type { MiddlewareHandler } from 'hono';
+import { MOCK_SCENARIOS, isMockScenario } from '../ai-mocks';
+import { resolveProviderName } from '../ai';
+import { getRequestConfig } from './tenant';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    mockScenario: string;
+  }
+}
+
+export const MOCK_SCENARIO_HEADER = 'X-Mock-Scenario';
+
+// Let QA and tests pick the mock answer with X-Mock-Scenario. The header is ignored unless the mock provider is in
+// use, and unknown names are rejected rather than silently falling back to an image-hash pick
+export function mockScenario(): MiddlewareHandler {
+  return async (c, next) => {
+    const name = c.req.header(MOCK_SCENARIO_HEADER)?.trim();
+    if (!name || resolveProviderName(getRequestConfig(c)) !== 'mock') {
+      return next();
+    }
+
+    if (!isMockScenario(name)) {
+      return c.json({
+        success: false,
+        error: 'Unknown mock scenario',
+        details: `${MOCK_SCENARIO_HEADER} must be one of: ${Object.keys(MOCK_SCENARIOS).join(', ')}`
+      }, 400);
+    }
+
+    c.set('mockScenario', name);
+    return next();
+  };
+}
@@ -1,30 +1,143 @@
 import type { MiddlewareHandler } from 'hono';
+import type { AppConfig, RateLimitPolicy } from '../config';
+import type { RateLimiter } from '../rate-limiter';
 
 interface RateLimitOptions {
   windowMs: number;
   maxRequests: number;
+  // Separates the counters of different limiters that see the same client
+  name?: string;
   keyGenerator?: (c: any) => string;
   skipIf?: (c: any) => boolean;
   onLimitReached?: (c: any) => Response;
+  store?: RateLimitStore;
+  // Per-request policy (e.g. an organization's rate plan); windowMs and maxRequests apply when it returns undefined
+  resolvePolicy?: (c: any) => RateLimitPolicy | undefined;
 }
 
-interface RateLimitStore {
-  [key: string]: {
-    count: number;
-    resetTime: number;
+// Sliding-window counter: requests in the current fixed window plus a weighted share of the previous one
+export interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number;
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult>;
+}
+
+// Count one request against the window, returning the updated state and whether it is allowed
+export function applySlidingWindow(
+  state: SlidingWindowState | undefined,
+  now: number,
+  limit: number,
+  windowMs: number
+): { state: SlidingWindowState; result: RateLimitResult } {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  let current = 0;
+  let previous = 0;
+  if (state?.windowStart === windowStart) {
+    current = state.current;
+    previous = state.previous;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previous = state.current;
+  }
+
+  const elapsed = now - windowStart;
+  const previousWeight = (windowMs - elapsed) / windowMs;
+  const allowed = previous * previousWeight + current + 1 <= limit;
+  if (allowed) {
+    current++;
+  }
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    // Find when the weighted estimate leaves room for one more request
+    retryAfterMs = current < limit
+      ? windowStart + windowMs * (1 - (limit - 1 - current) / previous) - now
+      : windowStart + windowMs + windowMs * (1 - (limit - 1) / current) - now;
+  }
+
+  return {
+    state: { windowStart, current, previous },
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - previous * previousWeight - current)),
+      resetMs: windowStart + windowMs - now,
+      retryAfterMs: Math.max(0, Math.ceil(retryAfterMs))
+    }
   };
 }
 
-// In-memory store for rate limiting (use KV/Durable Objects in production)
-const rateLimitStore: RateLimitStore = {};
+// Per-isolate store, used when the RATE_LIMITER Durable Object isn't bound (local development, tests)
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { state: SlidingWindowState; windowMs: number }>();
+  private hits = 0;
+
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const { state, result } = applySlidingWindow(this.windows.get(key)?.state, now, limit, windowMs);
+    this.windows.set(key, { state, windowMs });
+
+    if (++this.hits % 100 === 0) {
+      this.cleanup(now);
+    }
+    return result;
+  }
+
+  // Entries older than two windows no longer affect any estimate
+  private cleanup(now: number): void {
+    for (const [key, entry] of this.windows.entries()) {
+      if (entry.state.windowStart + 2 * entry.windowMs < now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+// Globally consistent store: each client key is routed to its own Durable Object instance
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  private namespace: DurableObjectNamespace<RateLimiter>;
+
+  constructor(namespace: DurableObjectNamespace<RateLimiter>) {
+    this.namespace = namespace;
+  }
+
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    return stub.hit(limit, windowMs);
+  }
+}
+
+const memoryStore = new MemoryRateLimitStore();
+
+// Durable Object store when bound, otherwise the shared per-isolate store
+export function getRateLimitStore(env: any): RateLimitStore {
+  return env?.RATE_LIMITER ? new DurableObjectRateLimitStore(env.RATE_LIMITER) : memoryStore;
+}
 
 export function rateLimit(options: RateLimitOptions): MiddlewareHandler {
   const {
     windowMs,
     maxRequests,
-    keyGenerator = (c) => c.req.header('cf-connecting-ip') || 'unknown',
+    name = 'default',
+    // API key holders get their own budget, so partners behind one IP don't share limits
+    keyGenerator = (c) => {
+      const apiKey = c.get('apiKey');
+      return apiKey ? `key:${apiKey.id}` : c.req.header('cf-connecting-ip') || 'unknown';
+    },
     skipIf = () => false,
-    onLimitReached
+    onLimitReached,
+    resolvePolicy
   } = options;
 
   return async (c, next) => {
@@ -33,33 +146,32 @@ export function rateLimit(options: RateLimitOptions): MiddlewareHandler {
       return next();
     }
 
-    const key = keyGenerator(c);
-    const now = Date.now();
-    const windowStart = now - windowMs;
-
-    // Clean up old entries
-    Object.keys(rateLimitStore).forEach(storeKey => {
-      if (rateLimitStore[storeKey].resetTime < windowStart) {
-        delete rateLimitStore[storeKey];
-      }
-    });
-
-    // Get or create rate limit entry
-    let entry = rateLimitStore[key];
-    if (!entry || entry.resetTime < windowStart) {
-      entry = rateLimitStore[key] = {
-        count: 0,
-        resetTime: now + windowMs
-      };
+    const key = `${name}:${keyGenerator(c)}`;
+    const store = options.store || getRateLimitStore(c.env);
+    const policy = resolvePolicy?.(c);
+    const limit = policy?.max_requests ?? maxRequests;
+    const window = policy?.window_ms ?? windowMs;
+
+    let result: RateLimitResult;
+    try {
+      result = await store.hit(key, limit, window);
+    } catch (error) {
+      // Fail open: an unavailable limiter shouldn't take the API down with it
+      console.error('Rate limiter unavailable, allowing request:', error);
+      return next();
     }
 
-    // Increment request count
-    entry.count++;
+    // Standard rate limit headers (IETF draft), set on the context so custom 429 responses carry them too
+    c.header('RateLimit-Limit', result.limit.toString());
+    c.header('RateLimit-Remaining', result.remaining.toString());
+    c.header('RateLimit-Reset', Math.ceil(result.resetMs / 1000).toString());
+    c.header('RateLimit-Policy', `${limit};w=${Math.ceil(window / 1000)}`);
 
     // Check if limit exceeded
-    if (entry.count > maxRequests) {
-      const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
-      
+    if (!result.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+      c.header('Retry-After', retryAfter.toString());
+
       if (onLimitReached) {
         return onLimitReached(c);
       }
@@ -70,42 +182,44 @@ export function rateLimit(options: RateLimitOptions): MiddlewareHandler {
           message: `Too many requests. Try again in ${retryAfter} seconds.`,
           retryAfter
         },
-        429,
-        {
-          'Retry-After': retryAfter.toString(),
-          'X-RateLimit-Limit': maxRequests.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': entry.resetTime.toString()
-        }
+        429
       );
     }
 
-    // Add rate limit headers
-    c.header('X-RateLimit-Limit', maxRequests.toString());
-    c.header('X-RateLimit-Remaining', (maxRequests - entry.count).toString());
-    c.header('X-RateLimit-Reset', entry.resetTime.toString());
-
     return next();
   };
 }
 
-// Predefined rate limiters for different endpoints
-export const apiRateLimit = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  maxRequests: 100, // 100 requests per 15 minutes
-});
-
-export const aiRateLimit = rateLimit({
-  windowMs: 5 * 60 * 1000, // 5 minutes
-  maxRequests: 20, // 20 AI requests per 5 minutes
-  onLimitReached: (c) => c.json({
-    error: 'AI service rate limit exceeded',
-    message: 'Too many AI requests. Please wait before trying again.',
-    code: 'AI_RATE_LIMIT_EXCEEDED'
-  }, 429)
-});
-
-export const uploadRateLimit = rateLimit({
-  windowMs: 10 * 60 * 1000, // 10 minutes
-  maxRequests: 50, // 50 uploads per 10 minutes
-});
\ No newline at end of file
+type RateLimitName = keyof AppConfig['api']['rate_limits'];
+
+// The request's configuration (set by tenantResolver) carries the organization's rate plan
+function policyOptions(name: RateLimitName, policy: RateLimitPolicy): Pick<RateLimitOptions, 'name' | 'windowMs' | 'maxRequests' | 'resolvePolicy'> {
+  return {
+    name,
+    windowMs: policy.window_ms,
+    maxRequests: policy.max_requests,
+    resolvePolicy: (c) => (c.get('config') as AppConfig | undefined)?.api.rate_limits[name]
+  };
+}
+
+// Predefined rate limiters for different endpoints, sized from api.rate_limits
+export function createRateLimiters(config: AppConfig): {
+  apiRateLimit: MiddlewareHandler;
+  aiRateLimit: MiddlewareHandler;
+  uploadRateLimit: MiddlewareHandler;
+  authRateLimit: MiddlewareHandler;
+} {
+  return {
+    apiRateLimit: rateLimit(policyOptions('api', config.api.rate_limits.api)),
+    aiRateLimit: rateLimit({
+      ...policyOptions('ai', config.api.rate_limits.ai),
+      onLimitReached: (c) => c.json({
+        error: 'AI service rate limit exceeded',
+        message: 'Too many AI requests. Please wait before trying again.',
+        code: 'AI_RATE_LIMIT_EXCEEDED'
+      }, 429)
+    }),
+    uploadRateLimit: rateLimit(policyOptions('upload', config.api.rate_limits.upload)),
+    authRateLimit: rateLimit(policyOptions('auth', config.api.rate_limits.auth)),
+  };
+}
@@ -0,0 +1,33 @@
+import type { MiddlewareHandler } from 'hono';
+import { getSessionUser, isSecureRequest, readAnonymousId, serializeAnonymousCookie, type SessionUser } from '../auth';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    user: SessionUser;
+    anonymousId: string;
+  }
+}
+
+// Attach the signed-in user, if any; routes decide whether a session is required.
+// Browsers without a session or API key get an anonymous ID, issued in a cookie on first use,
+// which owns what they create
+export function sessionAuth(): MiddlewareHandler {
+  return async (c, next) => {
+    const user = await getSessionUser(c.req.raw, c.env);
+    if (user) {
+      c.set('user', user);
+      return next();
+    }
+    if (c.get('apiKey')) {
+      return next();
+    }
+
+    const existing = readAnonymousId(c.req.header('Cookie'));
+    const anonymousId = existing ?? crypto.randomUUID();
+    c.set('anonymousId', anonymousId);
+    await next();
+    if (!existing) {
+      c.header('Set-Cookie', serializeAnonymousCookie(anonymousId, isSecureRequest(c.req.raw)), { append: true });
+    }
+  };
+}
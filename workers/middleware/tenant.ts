@@ -0,0 +1,76 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import { loadConfig, type AppConfig } from '../config';
+import { MemoryCache } from '../cache';
+import { createTenantStore, normalizeHostname, tenantConfigOverrides, type Organization, type TenantStore } from '../tenants';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    tenant: Organization;
+    config: AppConfig;
+  }
+}
+
+// Resolutions (including misses) are cached per isolate, so organization edits take up to a minute to propagate
+const TENANT_CACHE_TTL = 60 * 1000;
+const resolvedTenants = new MemoryCache(TENANT_CACHE_TTL, { maxEntries: 1000 });
+
+// Drop cached resolutions after an organization changes, so this isolate picks the change up immediately
+export async function invalidateTenantCache(): Promise<void> {
+  await resolvedTenants.clear();
+}
+
+async function cachedLookup(cacheKey: string, lookup: () => Promise<Organization | null>): Promise<Organization | null> {
+  const cached = await resolvedTenants.get(cacheKey);
+  if (cached) return cached.org;
+
+  const org = await lookup();
+  await resolvedTenants.set(cacheKey, { org });
+  return org;
+}
+
+// A key's organization takes precedence over the hostname, so partners can call the shared API domain
+async function resolveTenant(c: Context, store: TenantStore): Promise<Organization | null> {
+  const orgId = c.get('apiKey')?.org_id;
+  if (orgId) {
+    return cachedLookup(`id:${orgId}`, () => store.get(orgId));
+  }
+
+  const hostname = normalizeHostname(new URL(c.req.url).hostname);
+  return cachedLookup(`host:${hostname}`, () => store.findByHostname(hostname));
+}
+
+// Attach the request's organization, if any, and the configuration with its overrides applied.
+// Requests that match no organization (or when TENANTS isn't bound) get the deployment configuration
+export function tenantResolver(): MiddlewareHandler {
+  return async (c, next) => {
+    const store = createTenantStore((c.env as any)?.TENANTS);
+
+    let tenant: Organization | null = null;
+    if (store.isEnabled()) {
+      try {
+        tenant = await resolveTenant(c, store);
+      } catch (error) {
+        console.error('Tenant resolution failed, using deployment configuration:', error);
+      }
+    }
+
+    let config = loadConfig(c.env);
+    if (tenant) {
+      c.set('tenant', tenant);
+      try {
+        config = loadConfig(c.env, tenantConfigOverrides(tenant));
+      } catch (error) {
+        // Overrides are validated when saved, so this only happens if deployment limits changed underneath them
+        console.error(`Invalid configuration for organization ${tenant.id}, using deployment configuration:`, error);
+      }
+    }
+    c.set('config', config);
+
+    return next();
+  };
+}
+
+// Configuration for the current request, for handlers that may run without tenantResolver (tests)
+export function getRequestConfig(c: Context): AppConfig {
+  return c.get('config') ?? loadConfig(c.env);
+}
@@ -0,0 +1,174 @@
+/**
+ * Prompt template registry
+ * Every prompt sent to a model is a named, versioned template with typed variables and its own generation
+ * parameters. Responses and cache keys record the versions used, so a result can be traced to the exact prompt
+ */
+
+import { type ChatMessage } from "./ai";
+
+export type PromptName = 'vision-analysis' | 'enhanced-assessment' | 'findings' | 'findings-repair' | 'conversation';
+
+// Variables each template is rendered with
+export interface PromptVariables {
+  'vision-analysis': Record<string, never>;
+  'enhanced-assessment': {
+    vision_analysis: string;
+    industry_guidelines: string;
+    // Switches the wording when the knowledge base returned nothing
+    has_guidelines: boolean;
+  };
+  'findings': {
+    vision_analysis: string;
+    industry_guidelines: string;
+    schema: string;
+  };
+  'findings-repair': {
+    errors: string[];
+  };
+  'conversation': {
+    question: string;
+    // null when the knowledge base is unavailable
+    industry_knowledge: string | null;
+    previous_assessment: { vision_analysis: string; enhanced_assessment: string | null } | null;
+  };
+}
+
+// Generation parameters sent with the prompt
+export interface PromptParams {
+  max_tokens?: number;
+  format?: 'text' | 'json';
+}
+
+export interface PromptTemplate<V> {
+  version: number;
+  params: PromptParams;
+  system?: (vars: V) => string;
+  user: (vars: V) => string;
+}
+
+export interface RenderedPrompt {
+  name: PromptName;
+  version: number;
+  params: PromptParams;
+  system: string | null;
+  user: string;
+}
+
+// Pins a template to an older version, e.g. to roll back a prompt change; unpinned templates use the latest
+export type PromptVersions = Partial<Record<PromptName, number>>;
+
+// Versions are listed oldest first. Published versions are never edited: change a prompt by adding a version
+const PROMPT_TEMPLATES: { [N in PromptName]: PromptTemplate<PromptVariables[N]>[] } = {
+  'vision-analysis': [
+    {
+      version: 1,
+      params: {},
+      user: () => "Analyze this image for property damage assessment. Identify: 1) What type of damage (if any) is visible, 2) Specific materials and surfaces affected, 3) Severity and extent of any damage, 4) If water damage is present, assess water damage class (Class 1-4) and category (1-3), 5) Structural or safety concerns, 6) Recommended next steps for assessment or remediation. Be objective and only describe what is actually visible in the image."
+    }
+  ],
+  'enhanced-assessment': [
+    {
+      version: 1,
+      params: {},
+      system: () => "You are a friendly and experienced property damage assessment expert who communicates in a conversational, approachable tone. Your goal is to help property owners understand their situation and feel confident about the next steps. Always end your response with an engaging follow-up question to encourage further conversation and gather more details that could help with the assessment.",
+      user: (vars) => `Vision Analysis: ${vars.vision_analysis}\n\nIndustry Guidelines: ${vars.industry_guidelines}\n\n${vars.has_guidelines ? 'Using industry guidelines above, help me understand' : 'Based on standard property damage assessment practices, help me understand'} this situation. Please provide a conversational assessment based on what was actually found in the image analysis. If damage is present, cover: 1) What type of damage we're dealing with 2) The steps we'll need to take 3) How long this might take 4) What equipment will be needed 5) What to document for insurance. If no damage is visible, explain that clearly. Keep the tone friendly and reassuring, and end with a specific question to learn more about the situation.`
+    }
+  ],
+  'findings': [
+    {
+      version: 1,
+      params: { max_tokens: 1024, format: 'json' },
+      system: (vars) => `You are a property damage assessment expert who classifies damage using IICRC standards. Respond with a single JSON object and nothing else, matching this schema:\n${vars.schema}`,
+      user: (vars) => `Vision Analysis: ${vars.vision_analysis}\n\nIndustry Guidelines: ${vars.industry_guidelines || 'None available'}\n\nClassify the damage described above. Only report what the analysis supports; if no damage is visible, set damage_present to false and use empty arrays.`
+    }
+  ],
+  'findings-repair': [
+    {
+      version: 1,
+      params: { max_tokens: 1024, format: 'json' },
+      user: (vars) => `That response was not valid: ${vars.errors.join('; ')}. Reply with only the corrected JSON object.`
+    }
+  ],
+  'conversation': [
+    {
+      version: 1,
+      params: { max_tokens: 1500 },
+      system: (vars) => `You are a professional damage assessment specialist having a conversation with a property owner.
+
+Key guidelines:
+- Be conversational, helpful, and empathetic
+- Reference the uploaded image when relevant
+- Provide specific, actionable advice based on industry knowledge
+- Always end with a follow-up question to continue the conversation
+- Keep responses concise but thorough (2-3 paragraphs max)
+- Use a professional but friendly tone
+
+Industry Knowledge Available:
+${vars.industry_knowledge || 'None - the knowledge base is currently unavailable'}
+
+${vars.previous_assessment ? `
+Previous Damage Assessment:
+Vision Analysis: ${vars.previous_assessment.vision_analysis}
+Assessment: ${vars.previous_assessment.enhanced_assessment}
+` : ''}`,
+      user: (vars) => `Question about damage: ${vars.question}
+
+Please provide a helpful response that:
+1. Addresses their specific question
+2. References relevant industry knowledge
+3. Considers the damage shown in their image
+4. Ends with an engaging follow-up question`
+    }
+  ]
+};
+
+export const PROMPT_NAMES = Object.keys(PROMPT_TEMPLATES) as PromptName[];
+
+export function isKnownPromptVersion(name: PromptName, version: number): boolean {
+  return PROMPT_TEMPLATES[name]?.some(template => template.version === version) ?? false;
+}
+
+function selectTemplate<N extends PromptName>(name: N, pinned: PromptVersions): PromptTemplate<PromptVariables[N]> {
+  const templates = PROMPT_TEMPLATES[name] as PromptTemplate<PromptVariables[N]>[];
+  const version = pinned[name];
+  if (version === undefined) {
+    return templates[templates.length - 1];
+  }
+
+  const template = templates.find(candidate => candidate.version === version);
+  if (!template) {
+    throw new Error(`Unknown prompt version ${name}@${version}`);
+  }
+  return template;
+}
+
+export function renderPrompt<N extends PromptName>(name: N, vars: PromptVariables[N], pinned: PromptVersions = {}): RenderedPrompt {
+  const template = selectTemplate(name, pinned);
+  return {
+    name,
+    version: template.version,
+    params: template.params,
+    system: template.system ? template.system(vars) : null,
+    user: template.user(vars)
+  };
+}
+
+export function promptMessages(prompt: RenderedPrompt): ChatMessage[] {
+  return [
+    ...(prompt.system !== null ? [{ role: "system", content: prompt.system }] : []),
+    { role: "user", content: prompt.user }
+  ];
+}
+
+// The versions a pipeline renders with, as recorded in responses
+export function promptVersions(names: PromptName[], pinned: PromptVersions = {}): PromptVersions {
+  return Object.fromEntries(names.map(name => [name, selectTemplate(name, pinned).version]));
+}
+
+// Stable cache key fragment, e.g. "enhanced-assessment@1,vision-analysis@1"
+export function promptVersionKey(versions: PromptVersions): string {
+  return Object.entries(versions)
+    .map(([name, version]) => `${name}@${version}`)
+    .sort()
+    .join(',');
+}
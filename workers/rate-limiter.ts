@@ -0,0 +1,28 @@
+/**
+ * Rate limiter Durable Object
+ * Holds the sliding-window counters for one client key; every isolate routes that key to the same instance,
+ * so limits hold globally instead of per isolate
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { applySlidingWindow, type RateLimitResult, type SlidingWindowState } from './middleware/rate-limit';
+
+const WINDOW_KEY = 'window';
+
+export class RateLimiter extends DurableObject {
+  async hit(limit: number, windowMs: number): Promise<RateLimitResult> {
+    const stored = await this.ctx.storage.get<SlidingWindowState>(WINDOW_KEY);
+    const { state, result } = applySlidingWindow(stored, Date.now(), limit, windowMs);
+    await this.ctx.storage.put(WINDOW_KEY, state);
+
+    // Clear idle clients once neither counted window can affect the estimate
+    if (stored?.windowStart !== state.windowStart) {
+      await this.ctx.storage.setAlarm(state.windowStart + 2 * windowMs);
+    }
+    return result;
+  }
+
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Retries for AI and AutoRAG calls
+ * Transient failures (timeouts, dropped connections, capacity and 5xx errors) are retried with jittered exponential
+ * backoff from config.api.retry. Attempts share one deadline so retries never push a request past its timeout
+ */
+
+import { type AppConfig } from "./config";
+import { CircuitOpenError } from "./circuit-breaker";
+
+// Shared by every call in one request; counts how often each operation was retried
+export interface RetryContext {
+  maxAttempts: number;
+  backoffMs: number;
+  // Timeout for a single attempt
+  attemptTimeoutMs: number;
+  // Epoch ms after which no attempt starts; null when only the attempt timeout applies
+  deadline: number | null;
+  retries: Record<string, number>;
+}
+
+export interface RetrySummary {
+  total: number;
+  by_operation: Record<string, number>;
+}
+
+// Hooks for tests
+export interface RetryTiming {
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+// An attempt with less time than this left before the deadline isn't worth starting
+const MIN_ATTEMPT_MS = 1000;
+
+const RETRYABLE_MESSAGES = [
+  /timeout/i,
+  /timed out/i,
+  /network/i,
+  /connection (lost|reset|closed|refused)/i,
+  /temporarily/i,
+  /capacity/i,
+  /overloaded/i,
+  /rate limit/i,
+  /too many requests/i,
+  /upstream/i,
+  /internal server error/i,
+  /service unavailable/i,
+  /bad gateway/i
+];
+
+export function createRetryContext(config: AppConfig, timeoutMs?: number | null): RetryContext {
+  return {
+    maxAttempts: config.api.retry.max_attempts,
+    backoffMs: config.api.retry.backoff_ms,
+    attemptTimeoutMs: config.ai.timeout_ms,
+    deadline: timeoutMs ? Date.now() + timeoutMs : null,
+    retries: {}
+  };
+}
+
+export function summarizeRetries(context: RetryContext): RetrySummary {
+  return {
+    total: Object.values(context.retries).reduce((sum, count) => sum + count, 0),
+    by_operation: { ...context.retries }
+  };
+}
+
+// Errors carrying an HTTP status are retryable for 408, 429 and 5xx; otherwise the message decides
+export function isRetryableError(error: unknown): boolean {
+  // An open breaker already decided the service is down
+  if (error instanceof CircuitOpenError) return false;
+
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return RETRYABLE_MESSAGES.some(pattern => pattern.test(message));
+}
+
+// Delay before retry n (1-based): half of backoff_ms * 2^(n-1) plus a random share of the other half
+export function retryDelayMs(retry: number, backoffMs: number, random: () => number = Math.random): number {
+  const exponential = backoffMs * 2 ** (retry - 1);
+  return Math.round(exponential / 2 + random() * exponential / 2);
+}
+
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Run fn until it succeeds, fails with a non-retryable error, runs out of attempts or would miss the deadline.
+// fn receives the time it may take, which shrinks as the deadline approaches
+export async function withRetry<T>(
+  context: RetryContext,
+  operation: string,
+  fn: (timeoutMs: number) => Promise<T>,
+  timing: RetryTiming = {}
+): Promise<T> {
+  const sleep = timing.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+
+  for (let attempt = 1; ; attempt++) {
+    const remaining = context.deadline === null ? Infinity : context.deadline - Date.now();
+    const timeoutMs = Math.min(context.attemptTimeoutMs, Math.max(remaining, MIN_ATTEMPT_MS));
+
+    try {
+      return await fn(timeoutMs);
+    } catch (error) {
+      if (attempt >= context.maxAttempts || !isRetryableError(error)) throw error;
+
+      const delay = retryDelayMs(attempt, context.backoffMs, timing.random);
+      if (context.deadline !== null && context.deadline - Date.now() - delay < MIN_ATTEMPT_MS) throw error;
+
+      context.retries[operation] = (context.retries[operation] ?? 0) + 1;
+      console.warn(`Retrying ${operation} after error (attempt ${attempt} of ${context.maxAttempts}):`, (error as Error)?.message);
+      await sleep(delay);
+    }
+  }
+}
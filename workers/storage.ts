@@ -0,0 +1,464 @@
+/**
+ * Assessment, case and user persistence backed by R2
+ * Stores sanitized images, final assessment results, property loss cases and user accounts under stable IDs
+ */
+
+import { type AppConfig } from "./config";
+import { sha256Hex } from "./image-hash";
+
+export interface StoredAssessment {
+  id: string;
+  created_at: string;
+  owner_id?: string;
+  // Organization the assessment was made under; absent for the deployment's own assessments
+  org_id?: string;
+  image: {
+    key: string;
+    mime_type: string;
+    size: number;
+  };
+  result: any;
+}
+
+export interface CasePhoto {
+  assessment_id: string;
+  added_at: string;
+  caption?: string;
+}
+
+export interface CaseMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  assessment_id?: string;
+  user_id?: string;
+}
+
+export interface DamageCase {
+  id: string;
+  owner_id: string | null;
+  org_id?: string;
+  property_address: string;
+  loss_date: string | null;
+  status: 'open' | 'closed';
+  notes: string;
+  created_at: string;
+  updated_at: string;
+  photos: CasePhoto[];
+  messages: CaseMessage[];
+}
+
+export interface CaseSummary {
+  id: string;
+  property_address: string;
+  loss_date: string | null;
+  status: string;
+  updated_at: string;
+}
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  name: string;
+  password_hash: string;
+  created_at: string;
+}
+
+export interface UserAssessmentSummary {
+  assessment_id: string;
+  created_at: string;
+  // Read the assessment with storage for this organization
+  org_id: string | null;
+}
+
+// Assessment and case IDs are generated with crypto.randomUUID()
+const STORAGE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function isValidAssessmentId(id: string): boolean {
+  return STORAGE_ID_PATTERN.test(id);
+}
+
+export function isValidCaseId(id: string): boolean {
+  return STORAGE_ID_PATTERN.test(id);
+}
+
+// Conditional writes are retried this many times before giving up on a case update
+const MAX_CASE_UPDATE_ATTEMPTS = 5;
+
+// Organizations' assessments and cases live under orgs/<org id>/, apart from the deployment's own and each other's
+function orgKeyPrefix(orgId: string | null): string {
+  return orgId ? `orgs/${orgId}/` : '';
+}
+
+// Records stored by an older layout have no org_id and belong to the deployment
+function belongsToOrg(record: { org_id?: string | null }, orgId: string | null): boolean {
+  return (record.org_id ?? null) === orgId;
+}
+
+// R2-backed storage for assessment images and results, scoped to one organization (or the deployment)
+export class AssessmentStorage {
+  private bucket: R2Bucket | undefined;
+  private config: AppConfig;
+  private orgId: string | null;
+
+  constructor(config: AppConfig, bucket?: R2Bucket, orgId?: string | null) {
+    this.config = config;
+    this.bucket = bucket;
+    this.orgId = orgId ?? null;
+  }
+
+  // Persistence requires both the config flag and the R2 binding
+  isEnabled(): boolean {
+    return this.config.storage.enable_persistence && !!this.bucket;
+  }
+
+  generateAssessmentId(): string {
+    return crypto.randomUUID();
+  }
+
+  // Store the sanitized image and its final result under the assessment ID; a signed-in user's assessments are also
+  // indexed in their history
+  async saveAssessment(id: string, imageBuffer: Uint8Array, mimeType: string, result: any, ownerId?: string | null, userId?: string): Promise<StoredAssessment> {
+    const bucket = this.requireBucket();
+    const createdAt = new Date().toISOString();
+    const imageKey = this.imageKey(id);
+
+    await bucket.put(imageKey, imageBuffer, {
+      httpMetadata: { contentType: mimeType },
+      customMetadata: { assessment_id: id, created_at: createdAt }
+    });
+
+    const record: StoredAssessment = {
+      id,
+      created_at: createdAt,
+      ...(ownerId ? { owner_id: ownerId } : {}),
+      ...(this.orgId ? { org_id: this.orgId } : {}),
+      image: {
+        key: imageKey,
+        mime_type: mimeType,
+        size: imageBuffer.length
+      },
+      result
+    };
+
+    await bucket.put(this.resultKey(id), JSON.stringify(record), {
+      httpMetadata: { contentType: 'application/json' },
+      customMetadata: { assessment_id: id, created_at: createdAt }
+    });
+
+    if (userId) {
+      await this.linkToUser(userId, id, createdAt);
+    }
+
+    return record;
+  }
+
+  // Index an assessment under a user so their history can be listed without scanning every assessment
+  async linkToUser(userId: string, assessmentId: string, createdAt: string = new Date().toISOString()): Promise<void> {
+    await this.requireBucket().put(this.userIndexKey(userId, assessmentId), '', {
+      customMetadata: { assessment_id: assessmentId, created_at: createdAt, org_id: this.orgId ?? '' }
+    });
+  }
+
+  // Index keys are in assessment ID order, so every page is read before sorting to find the newest
+  async listUserAssessments(userId: string, limit: number = 100): Promise<UserAssessmentSummary[]> {
+    const summaries: UserAssessmentSummary[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.requireBucket().list({
+        prefix: `${this.config.storage.user_prefix}/${userId}/assessments/`,
+        cursor,
+        include: ['customMetadata']
+      });
+      summaries.push(...page.objects.map(object => ({
+        assessment_id: object.customMetadata?.assessment_id || '',
+        created_at: object.customMetadata?.created_at || object.uploaded.toISOString(),
+        org_id: object.customMetadata?.org_id || null
+      })));
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+
+    return summaries
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit);
+  }
+
+  async getAssessment(id: string): Promise<StoredAssessment | null> {
+    const object = await this.requireBucket().get(this.resultKey(id));
+    if (!object) return null;
+
+    const record = await object.json() as StoredAssessment;
+    return belongsToOrg(record, this.orgId) ? record : null;
+  }
+
+  async getImage(id: string): Promise<R2ObjectBody | null> {
+    return this.requireBucket().get(this.imageKey(id));
+  }
+
+  private imageKey(id: string): string {
+    return `${orgKeyPrefix(this.orgId)}${this.config.storage.assessment_prefix}/${id}/image`;
+  }
+
+  private resultKey(id: string): string {
+    return `${orgKeyPrefix(this.orgId)}${this.config.storage.assessment_prefix}/${id}/result.json`;
+  }
+
+  private userIndexKey(userId: string, assessmentId: string): string {
+    return `${this.config.storage.user_prefix}/${userId}/assessments/${assessmentId}`;
+  }
+
+  private requireBucket(): R2Bucket {
+    if (!this.bucket) {
+      throw new Error('R2 bucket binding not available');
+    }
+    return this.bucket;
+  }
+}
+
+// R2-backed storage for property loss cases grouping photos and conversations, scoped like AssessmentStorage
+export class CaseStorage {
+  private bucket: R2Bucket | undefined;
+  private config: AppConfig;
+  private orgId: string | null;
+
+  constructor(config: AppConfig, bucket?: R2Bucket, orgId?: string | null) {
+    this.config = config;
+    this.bucket = bucket;
+    this.orgId = orgId ?? null;
+  }
+
+  isEnabled(): boolean {
+    return this.config.storage.enable_persistence && !!this.bucket;
+  }
+
+  async createCase(fields: { property_address?: string; loss_date?: string | null; notes?: string }, ownerId?: string | null): Promise<DamageCase> {
+    const now = new Date().toISOString();
+    const damageCase: DamageCase = {
+      id: crypto.randomUUID(),
+      owner_id: ownerId || null,
+      ...(this.orgId ? { org_id: this.orgId } : {}),
+      property_address: fields.property_address || '',
+      loss_date: fields.loss_date || null,
+      status: 'open',
+      notes: fields.notes || '',
+      created_at: now,
+      updated_at: now,
+      photos: [],
+      messages: []
+    };
+
+    await this.requireBucket().put(this.caseKey(damageCase.id), JSON.stringify(damageCase), {
+      httpMetadata: { contentType: 'application/json' },
+      customMetadata: this.summaryMetadata(damageCase)
+    });
+
+    return damageCase;
+  }
+
+  async getCase(id: string): Promise<DamageCase | null> {
+    const object = await this.requireBucket().get(this.caseKey(id));
+    if (!object) return null;
+
+    const damageCase = await object.json() as DamageCase;
+    return belongsToOrg(damageCase, this.orgId) ? damageCase : null;
+  }
+
+  // Pass ownerId to list only that owner's cases, or null for cases without an owner
+  // Pages through the listing until `limit` cases pass the owner filter
+  async listCases(limit: number = 100, ownerId?: string | null): Promise<CaseSummary[]> {
+    const objects: R2Object[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.requireBucket().list({
+        prefix: `${orgKeyPrefix(this.orgId)}${this.config.storage.case_prefix}/`,
+        limit,
+        cursor,
+        include: ['customMetadata']
+      });
+      objects.push(...(ownerId !== undefined
+        ? page.objects.filter(object => (object.customMetadata?.owner_id || null) === ownerId)
+        : page.objects));
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor && objects.length < limit);
+
+    return objects.slice(0, limit).map(object => ({
+      id: object.customMetadata?.id || '',
+      property_address: object.customMetadata?.property_address || '',
+      loss_date: object.customMetadata?.loss_date || null,
+      status: object.customMetadata?.status || 'open',
+      updated_at: object.customMetadata?.updated_at || object.uploaded.toISOString()
+    }));
+  }
+
+  // Read-modify-write guarded by the object's etag so concurrent updates are not lost
+  async updateCase(id: string, mutate: (damageCase: DamageCase) => void): Promise<DamageCase | null> {
+    const bucket = this.requireBucket();
+
+    for (let attempt = 0; attempt < MAX_CASE_UPDATE_ATTEMPTS; attempt++) {
+      const object = await bucket.get(this.caseKey(id));
+      if (!object) return null;
+
+      const damageCase = await object.json() as DamageCase;
+      if (!belongsToOrg(damageCase, this.orgId)) return null;
+      mutate(damageCase);
+      damageCase.updated_at = new Date().toISOString();
+
+      const written = await bucket.put(this.caseKey(id), JSON.stringify(damageCase), {
+        onlyIf: { etagMatches: object.etag },
+        httpMetadata: { contentType: 'application/json' },
+        customMetadata: this.summaryMetadata(damageCase)
+      });
+
+      if (written) {
+        return damageCase;
+      }
+    }
+
+    throw new Error(`Case ${id} update conflicted after ${MAX_CASE_UPDATE_ATTEMPTS} attempts`);
+  }
+
+  async deleteCase(id: string): Promise<boolean> {
+    const bucket = this.requireBucket();
+    const existing = await bucket.head(this.caseKey(id));
+    if (!existing) return false;
+
+    await bucket.delete(this.caseKey(id));
+    return true;
+  }
+
+  async addPhoto(id: string, photo: { assessment_id: string; caption?: string }): Promise<DamageCase | null> {
+    return this.updateCase(id, (damageCase) => {
+      if (damageCase.photos.some(existing => existing.assessment_id === photo.assessment_id)) {
+        return;
+      }
+      damageCase.photos.push({
+        assessment_id: photo.assessment_id,
+        caption: photo.caption,
+        added_at: new Date().toISOString()
+      });
+    });
+  }
+
+  async addMessages(id: string, messages: Array<Omit<CaseMessage, 'id' | 'timestamp'>>): Promise<DamageCase | null> {
+    return this.updateCase(id, (damageCase) => {
+      if (damageCase.messages.length + messages.length > this.config.storage.max_case_messages) {
+        throw new Error(`Case message limit reached (${this.config.storage.max_case_messages})`);
+      }
+      const timestamp = new Date().toISOString();
+      for (const message of messages) {
+        damageCase.messages.push({ ...message, id: crypto.randomUUID(), timestamp });
+      }
+    });
+  }
+
+  private caseKey(id: string): string {
+    return `${orgKeyPrefix(this.orgId)}${this.config.storage.case_prefix}/${id}.json`;
+  }
+
+  // Summary fields are mirrored into custom metadata so listing doesn't need to read every case
+  private summaryMetadata(damageCase: DamageCase): Record<string, string> {
+    return {
+      id: damageCase.id,
+      property_address: damageCase.property_address,
+      loss_date: damageCase.loss_date || '',
+      status: damageCase.status,
+      updated_at: damageCase.updated_at,
+      owner_id: damageCase.owner_id || ''
+    };
+  }
+
+  private requireBucket(): R2Bucket {
+    if (!this.bucket) {
+      throw new Error('R2 bucket binding not available');
+    }
+    return this.bucket;
+  }
+}
+
+// R2-backed user accounts; emails are indexed by hash so lookups don't expose addresses in object keys
+export class UserStorage {
+  private bucket: R2Bucket | undefined;
+  private config: AppConfig;
+
+  constructor(config: AppConfig, bucket?: R2Bucket) {
+    this.config = config;
+    this.bucket = bucket;
+  }
+
+  isEnabled(): boolean {
+    return this.config.storage.enable_persistence && !!this.bucket;
+  }
+
+  // Returns null when the email is already registered
+  async createUser(fields: { email: string; name: string; password_hash: string }): Promise<UserRecord | null> {
+    const bucket = this.requireBucket();
+    const emailKey = await this.emailKey(fields.email);
+
+    // Check-then-write: two simultaneous signups for one address could both pass, the later write wins the index
+    if (await bucket.head(emailKey)) {
+      return null;
+    }
+
+    const user: UserRecord = {
+      id: crypto.randomUUID(),
+      email: normalizeEmail(fields.email),
+      name: fields.name,
+      password_hash: fields.password_hash,
+      created_at: new Date().toISOString()
+    };
+
+    await bucket.put(this.profileKey(user.id), JSON.stringify(user), {
+      httpMetadata: { contentType: 'application/json' }
+    });
+    await bucket.put(emailKey, user.id);
+
+    return user;
+  }
+
+  async getUser(id: string): Promise<UserRecord | null> {
+    const object = await this.requireBucket().get(this.profileKey(id));
+    if (!object) return null;
+
+    return await object.json() as UserRecord;
+  }
+
+  async findUserByEmail(email: string): Promise<UserRecord | null> {
+    const object = await this.requireBucket().get(await this.emailKey(email));
+    if (!object) return null;
+
+    return this.getUser(await object.text());
+  }
+
+  private profileKey(id: string): string {
+    return `${this.config.storage.user_prefix}/${id}/profile.json`;
+  }
+
+  private async emailKey(email: string): Promise<string> {
+    const hash = await sha256Hex(new TextEncoder().encode(normalizeEmail(email)));
+    return `${this.config.storage.user_prefix}/by-email/${hash}`;
+  }
+
+  private requireBucket(): R2Bucket {
+    if (!this.bucket) {
+      throw new Error('R2 bucket binding not available');
+    }
+    return this.bucket;
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function createAssessmentStorage(config: AppConfig, bucket?: R2Bucket, orgId?: string | null): AssessmentStorage {
+  return new AssessmentStorage(config, bucket, orgId);
+}
+
+export function createCaseStorage(config: AppConfig, bucket?: R2Bucket, orgId?: string | null): CaseStorage {
+  return new CaseStorage(config, bucket, orgId);
+}
+
+export function createUserStorage(config: AppConfig, bucket?: R2Bucket): UserStorage {
+  return new UserStorage(config, bucket);
+}
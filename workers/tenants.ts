@@ -0,0 +1,180 @@
+/**
+ * Organizations (tenants) for white-labeled deployments, backed by Workers KV
+ * Each organization carries its own branding and a restricted set of config overrides, and is resolved per request
+ * from the API key that was sent or the hostname the request arrived on
+ */
+
+import { type AppConfig, type TenantConfigOverrides } from "./config";
+
+// Rate plans adjust the deployment's api.rate_limits; policies a plan doesn't list keep the deployment defaults
+export const RATE_PLANS = {
+  standard: {},
+  professional: {
+    api: { window_ms: 15 * 60 * 1000, max_requests: 500 },
+    ai: { window_ms: 5 * 60 * 1000, max_requests: 100 },
+    upload: { window_ms: 10 * 60 * 1000, max_requests: 250 },
+  },
+  enterprise: {
+    api: { window_ms: 15 * 60 * 1000, max_requests: 2000 },
+    ai: { window_ms: 5 * 60 * 1000, max_requests: 400 },
+    upload: { window_ms: 10 * 60 * 1000, max_requests: 1000 },
+    auth: { window_ms: 15 * 60 * 1000, max_requests: 20 },
+  },
+} satisfies Record<string, Partial<AppConfig['api']['rate_limits']>>;
+export type RatePlan = keyof typeof RATE_PLANS;
+
+export interface TenantBranding {
+  app_name: string;
+  primary_color: string;
+  accent_color: string;
+  logo_url: string | null;
+}
+
+export interface Organization {
+  // URL-safe slug, also used to namespace the organization's cache entries
+  id: string;
+  name: string;
+  hostnames: string[];
+  branding: TenantBranding;
+  rate_plan: RatePlan;
+  config: TenantConfigOverrides;
+  created_at: string;
+  updated_at: string;
+}
+
+export type OrganizationFields = Pick<Organization, 'id' | 'name' | 'hostnames' | 'branding' | 'rate_plan' | 'config'>;
+
+const ORGANIZATION_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+
+export function isValidOrganizationId(id: string): boolean {
+  return ORGANIZATION_ID_PATTERN.test(id);
+}
+
+// Hostnames are matched case-insensitively and without a port
+export function normalizeHostname(hostname: string): string {
+  return hostname.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '');
+}
+
+// Config overrides for an organization: its rate plan first, then any explicit overrides on top
+export function tenantConfigOverrides(org: Pick<Organization, 'rate_plan' | 'config'>): TenantConfigOverrides {
+  return {
+    ...org.config,
+    api: {
+      ...org.config.api,
+      rate_limits: { ...RATE_PLANS[org.rate_plan], ...org.config.api?.rate_limits }
+    }
+  };
+}
+
+// Branding in the shape loadClientConfig merges over its defaults
+export function tenantClientOverrides(org: Organization | null | undefined): { ui?: Partial<TenantBranding> } {
+  return org ? { ui: { ...org.branding } } : {};
+}
+
+// Records are stored by ID, with one index entry per hostname pointing back at the ID
+export class TenantStore {
+  private namespace: KVNamespace | undefined;
+
+  constructor(namespace?: KVNamespace) {
+    this.namespace = namespace;
+  }
+
+  isEnabled(): boolean {
+    return !!this.namespace;
+  }
+
+  // Returns null when the ID is already taken
+  async create(fields: OrganizationFields): Promise<Organization | null> {
+    if (await this.get(fields.id)) return null;
+
+    const now = new Date().toISOString();
+    const org: Organization = { ...fields, hostnames: fields.hostnames.map(normalizeHostname), created_at: now, updated_at: now };
+    await this.save(org, []);
+    return org;
+  }
+
+  async get(id: string): Promise<Organization | null> {
+    if (!isValidOrganizationId(id)) return null;
+    return this.requireNamespace().get<Organization>(this.idKey(id), 'json');
+  }
+
+  async findByHostname(hostname: string): Promise<Organization | null> {
+    const id = await this.requireNamespace().get(this.hostKey(normalizeHostname(hostname)));
+    return id ? this.get(id) : null;
+  }
+
+  // ID of the organization already claiming one of these hostnames, other than the one being saved
+  async findHostnameOwner(hostnames: string[], exceptId?: string): Promise<{ hostname: string; id: string } | null> {
+    for (const hostname of hostnames.map(normalizeHostname)) {
+      const id = await this.requireNamespace().get(this.hostKey(hostname));
+      if (id && id !== exceptId) return { hostname, id };
+    }
+    return null;
+  }
+
+  async list(): Promise<Organization[]> {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.requireNamespace().list({ prefix: 'orgs/id/', cursor });
+      ids.push(...page.keys.map(entry => entry.name.slice('orgs/id/'.length)));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    const orgs = await Promise.all(ids.map(id => this.get(id)));
+    return orgs.filter((org): org is Organization => org !== null);
+  }
+
+  async update(id: string, fields: Partial<Omit<OrganizationFields, 'id'>>): Promise<Organization | null> {
+    const existing = await this.get(id);
+    if (!existing) return null;
+
+    const org: Organization = {
+      ...existing,
+      ...fields,
+      hostnames: (fields.hostnames ?? existing.hostnames).map(normalizeHostname),
+      updated_at: new Date().toISOString()
+    };
+    await this.save(org, existing.hostnames);
+    return org;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = await this.get(id);
+    if (!existing) return false;
+
+    await Promise.all([
+      this.requireNamespace().delete(this.idKey(id)),
+      ...existing.hostnames.map(hostname => this.requireNamespace().delete(this.hostKey(hostname)))
+    ]);
+    return true;
+  }
+
+  private async save(org: Organization, previousHostnames: string[]): Promise<void> {
+    const removed = previousHostnames.filter(hostname => !org.hostnames.includes(hostname));
+    await Promise.all([
+      this.requireNamespace().put(this.idKey(org.id), JSON.stringify(org)),
+      ...org.hostnames.map(hostname => this.requireNamespace().put(this.hostKey(hostname), org.id)),
+      ...removed.map(hostname => this.requireNamespace().delete(this.hostKey(hostname)))
+    ]);
+  }
+
+  private idKey(id: string): string {
+    return `orgs/id/${id}`;
+  }
+
+  private hostKey(hostname: string): string {
+    return `orgs/host/${hostname}`;
+  }
+
+  private requireNamespace(): KVNamespace {
+    if (!this.namespace) {
+      throw new Error('Organization storage is not configured');
+    }
+    return this.namespace;
+  }
+}
+
+export function createTenantStore(namespace?: KVNamespace): TenantStore {
+  return new TenantStore(namespace);
+}
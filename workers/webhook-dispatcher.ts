@@ -0,0 +1,37 @@
+/**
+ * Webhook dispatcher Durable Object
+ * One instance per delivery: it makes the first attempt right away and schedules each retry with an alarm,
+ * so backoff can run for hours without holding a request open
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { loadConfig } from './config';
+import { createWebhookStore, runDeliveryAttempt, type WebhookDelivery } from './webhooks';
+
+const DELIVERY_KEY = 'delivery';
+
+export class WebhookDispatcher extends DurableObject<Env> {
+  async enqueue(delivery: WebhookDelivery): Promise<void> {
+    await this.ctx.storage.put(DELIVERY_KEY, delivery);
+    await this.attempt();
+  }
+
+  async alarm(): Promise<void> {
+    await this.attempt();
+  }
+
+  private async attempt(): Promise<void> {
+    const delivery = await this.ctx.storage.get<WebhookDelivery>(DELIVERY_KEY);
+    if (!delivery) return;
+
+    const config = loadConfig(this.env);
+    const updated = await runDeliveryAttempt(createWebhookStore(config, this.env.WEBHOOKS), config, delivery, { canRetry: true });
+
+    if (updated.status === 'pending' && updated.next_attempt_at) {
+      await this.ctx.storage.put(DELIVERY_KEY, updated);
+      await this.ctx.storage.setAlarm(Date.parse(updated.next_attempt_at));
+    } else {
+      await this.ctx.storage.deleteAll();
+    }
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * Outbound webhooks
+ * Subscriptions and the delivery log live in Workers KV. Each payload is signed with the subscription's secret and
+ * retried with exponential backoff until a receiver answers 2xx or the attempts run out
+ */
+
+import type { Context } from "hono";
+import { type AppConfig } from "./config";
+import { getRequestConfig } from "./middleware/tenant";
+
+export const WEBHOOK_EVENTS = ['assessment.completed', 'assessment.failed', 'conversation.message'] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface WebhookSubscription {
+  id: string;
+  // Organization whose events are delivered; null subscribes to requests that match no organization
+  org_id: string | null;
+  url: string;
+  events: WebhookEvent[];
+  secret: string;
+  created_at: string;
+}
+
+// Subscriptions are listed without their signing secret
+export type WebhookSubscriptionSummary = Omit<WebhookSubscription, 'secret'>;
+
+// The body sent to receivers; redeliveries resend the same event ID so receivers can deduplicate
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  created_at: string;
+  org_id: string | null;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookAttempt {
+  attempted_at: string;
+  status_code: number | null;
+  error: string | null;
+  duration_ms: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: WebhookAttempt[];
+  next_attempt_at: string | null;
+  redelivery_of: string | null;
+  created_at: string;
+}
+
+type DeliverySummary = Pick<WebhookDelivery, 'id' | 'event' | 'status' | 'next_attempt_at' | 'redelivery_of' | 'created_at'> & { attempt_count: number };
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+// Responses are cut short so a misbehaving receiver can't bloat the delivery log
+const MAX_ERROR_LENGTH = 200;
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function generateWebhookSecret(): string {
+  return 'whsec_' + toHex(crypto.getRandomValues(new Uint8Array(32)).buffer);
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>", sent as "t=<timestamp>,v1=<hex>". Including the timestamp lets receivers
+// reject replays of old deliveries
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${toHex(signature)}`;
+}
+
+// Delay before the next attempt, given how many attempts have been made so far
+export function webhookBackoffMs(attemptsMade: number, config: AppConfig): number {
+  return Math.min(config.webhooks.backoff_base_ms * 2 ** (attemptsMade - 1), config.webhooks.backoff_max_ms);
+}
+
+// POST the payload once; any 2xx counts as delivered
+export async function attemptDelivery(
+  subscription: WebhookSubscription,
+  delivery: WebhookDelivery,
+  timeoutMs: number,
+  fetcher: typeof fetch = fetch
+): Promise<WebhookAttempt> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const started = Date.now();
+  const attempt: WebhookAttempt = { attempted_at: new Date(started).toISOString(), status_code: null, error: null, duration_ms: 0 };
+
+  try {
+    const response = await fetcher(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'DamageScan-Webhooks/1.0',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: await signWebhookPayload(subscription.secret, timestamp, body)
+      },
+      body,
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    attempt.status_code = response.status;
+    if (!response.ok) {
+      attempt.error = `HTTP ${response.status}: ${(await response.text().catch(() => '')).slice(0, MAX_ERROR_LENGTH)}`;
+    }
+  } catch (error) {
+    attempt.error = ((error as Error).message || 'Delivery failed').slice(0, MAX_ERROR_LENGTH);
+  }
+
+  attempt.duration_ms = Date.now() - started;
+  return attempt;
+}
+
+// Make one attempt and record it. Without canRetry (no dispatcher to schedule one) a failure is final
+export async function runDeliveryAttempt(
+  store: WebhookStore,
+  config: AppConfig,
+  delivery: WebhookDelivery,
+  options: { canRetry: boolean; fetcher?: typeof fetch }
+): Promise<WebhookDelivery> {
+  const subscription = await store.getSubscription(delivery.subscription_id);
+  const attempt: WebhookAttempt = subscription
+    ? await attemptDelivery(subscription, delivery, config.webhooks.timeout_ms, options.fetcher)
+    : { attempted_at: new Date().toISOString(), status_code: null, error: 'Subscription was deleted', duration_ms: 0 };
+
+  const attempts = [...delivery.attempts, attempt];
+  const succeeded = attempt.error === null;
+  const retry = !succeeded && !!subscription && options.canRetry && attempts.length < config.webhooks.max_attempts;
+
+  const updated: WebhookDelivery = {
+    ...delivery,
+    attempts,
+    status: succeeded ? 'succeeded' : retry ? 'pending' : 'failed',
+    next_attempt_at: retry ? new Date(Date.now() + webhookBackoffMs(attempts.length, config)).toISOString() : null
+  };
+  await store.saveDelivery(updated);
+  return updated;
+}
+
+// Subscriptions are keyed by ID with a secret-free summary in the list metadata; deliveries expire after the log TTL
+export class WebhookStore {
+  private namespace: KVNamespace | undefined;
+  private config: AppConfig;
+
+  constructor(config: AppConfig, namespace?: KVNamespace) {
+    this.config = config;
+    this.namespace = namespace;
+  }
+
+  isEnabled(): boolean {
+    return !!this.namespace;
+  }
+
+  async createSubscription(fields: { org_id: string | null; url: string; events: WebhookEvent[] }): Promise<WebhookSubscription> {
+    const subscription: WebhookSubscription = {
+      id: crypto.randomUUID(),
+      ...fields,
+      secret: generateWebhookSecret(),
+      created_at: new Date().toISOString()
+    };
+    await this.requireNamespace().put(this.subscriptionKey(subscription.id), JSON.stringify(subscription), {
+      metadata: summarizeSubscription(subscription)
+    });
+    return subscription;
+  }
+
+  async getSubscription(id: string): Promise<WebhookSubscription | null> {
+    return this.requireNamespace().get<WebhookSubscription>(this.subscriptionKey(id), 'json');
+  }
+
+  // All subscriptions, or only one organization's when orgId is given (null for the deployment's own)
+  async listSubscriptions(orgId?: string | null): Promise<WebhookSubscriptionSummary[]> {
+    const summaries: WebhookSubscriptionSummary[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.requireNamespace().list<WebhookSubscriptionSummary>({ prefix: 'subs/', cursor });
+      for (const entry of page.keys) {
+        if (entry.metadata && (orgId === undefined || entry.metadata.org_id === orgId)) summaries.push(entry.metadata);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return summaries;
+  }
+
+  // Full records (with secrets) of the subscriptions that should receive an event
+  async subscriptionsFor(orgId: string | null, event: WebhookEvent): Promise<WebhookSubscription[]> {
+    const matching = (await this.listSubscriptions(orgId)).filter(summary => summary.events.includes(event));
+    const subscriptions = await Promise.all(matching.map(summary => this.getSubscription(summary.id)));
+    return subscriptions.filter((subscription): subscription is WebhookSubscription => subscription !== null);
+  }
+
+  // Pending retries stop at their next attempt once the subscription is gone
+  async deleteSubscription(id: string): Promise<boolean> {
+    if (!await this.getSubscription(id)) return false;
+    await this.requireNamespace().delete(this.subscriptionKey(id));
+    return true;
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    const summary: DeliverySummary = {
+      id: delivery.id,
+      event: delivery.event,
+      status: delivery.status,
+      next_attempt_at: delivery.next_attempt_at,
+      redelivery_of: delivery.redelivery_of,
+      created_at: delivery.created_at,
+      attempt_count: delivery.attempts.length
+    };
+    await this.requireNamespace().put(this.deliveryKey(delivery.subscription_id, delivery.id), JSON.stringify(delivery), {
+      metadata: summary,
+      expirationTtl: Math.floor(this.config.webhooks.delivery_log_ttl_ms / 1000)
+    });
+  }
+
+  async getDelivery(subscriptionId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    return this.requireNamespace().get<WebhookDelivery>(this.deliveryKey(subscriptionId, deliveryId), 'json');
+  }
+
+  // Newest first
+  async listDeliveries(subscriptionId: string, limit: number): Promise<DeliverySummary[]> {
+    const summaries: DeliverySummary[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.requireNamespace().list<DeliverySummary>({ prefix: `deliveries/${subscriptionId}/`, cursor });
+      for (const entry of page.keys) {
+        if (entry.metadata) summaries.push(entry.metadata);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return summaries.sort((a, b) => b.created_at.localeCompare(a.created_at)).slice(0, limit);
+  }
+
+  private subscriptionKey(id: string): string {
+    return `subs/${id}`;
+  }
+
+  private deliveryKey(subscriptionId: string, deliveryId: string): string {
+    return `deliveries/${subscriptionId}/${deliveryId}`;
+  }
+
+  private requireNamespace(): KVNamespace {
+    if (!this.namespace) {
+      throw new Error('Webhook storage is not configured');
+    }
+    return this.namespace;
+  }
+}
+
+function summarizeSubscription(subscription: WebhookSubscription): WebhookSubscriptionSummary {
+  const { secret: _secret, ...summary } = subscription;
+  return summary;
+}
+
+export function createWebhookStore(config: AppConfig, namespace?: KVNamespace): WebhookStore {
+  return new WebhookStore(config, namespace);
+}
+
+export function newDelivery(subscriptionId: string, payload: WebhookPayload, redeliveryOf: string | null = null): WebhookDelivery {
+  return {
+    id: crypto.randomUUID(),
+    subscription_id: subscriptionId,
+    event: payload.event,
+    payload,
+    status: 'pending',
+    attempts: [],
+    next_attempt_at: null,
+    redelivery_of: redeliveryOf,
+    created_at: new Date().toISOString()
+  };
+}
+
+// Hand a recorded delivery to its Durable Object, which retries on alarms; without the binding make a single attempt
+export async function queueDelivery(env: any, config: AppConfig, store: WebhookStore, delivery: WebhookDelivery): Promise<void> {
+  await store.saveDelivery(delivery);
+
+  if (env?.WEBHOOK_DISPATCHER) {
+    const namespace = env.WEBHOOK_DISPATCHER as DurableObjectNamespace<import('./webhook-dispatcher').WebhookDispatcher>;
+    await namespace.get(namespace.idFromName(delivery.id)).enqueue(delivery);
+    return;
+  }
+
+  await runDeliveryAttempt(store, config, delivery, { canRetry: false });
+}
+
+// Record and send an event to every matching subscription of the organization
+export async function dispatchWebhookEvent(
+  env: any,
+  config: AppConfig,
+  orgId: string | null,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<WebhookDelivery[]> {
+  const store = createWebhookStore(config, env?.WEBHOOKS);
+  if (!store.isEnabled()) return [];
+
+  const subscriptions = await store.subscriptionsFor(orgId, event);
+  if (subscriptions.length === 0) return [];
+
+  const payload: WebhookPayload = { id: crypto.randomUUID(), event, created_at: new Date().toISOString(), org_id: orgId, data };
+  const deliveries = subscriptions.map(subscription => newDelivery(subscription.id, payload));
+  await Promise.all(deliveries.map(delivery => queueDelivery(env, config, store, delivery)));
+  return deliveries;
+}
+
+// Fire an event for the current request's organization without delaying the response
+export function emitWebhookEvent(c: Context, event: WebhookEvent, data: Record<string, unknown>): void {
+  const work = dispatchWebhookEvent(c.env, getRequestConfig(c), c.get('tenant')?.id ?? null, event, data)
+    .catch(error => console.error(`Webhook dispatch failed (${event}):`, error));
+
+  try {
+    c.executionCtx.waitUntil(work);
+  } catch {
+    // No execution context outside the Workers runtime (tests); the promise still runs to completion
+  }
+}